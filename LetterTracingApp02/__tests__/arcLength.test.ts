@@ -0,0 +1,65 @@
+/**
+ * @format
+ */
+
+import {
+  cumulativeLengths,
+  indexAtLength,
+  pointAtLength,
+  projectOntoPath,
+  resampleByArcLength,
+  tangentAngles,
+} from '../src/letters/utils/arcLength';
+import { parseSVGPath } from '../src/letters/utils/pathParser';
+
+describe('arc length geometry', () => {
+  it('spaces points evenly whatever the input spacing', () => {
+    // Dense at the start, sparse at the end
+    const uneven = [0, 1, 2, 3, 50, 100].map(x => ({ x, y: 0 }));
+    const points = resampleByArcLength(uneven, 11);
+
+    points.forEach((p, i) => expect(p.x).toBeCloseTo(i * 10));
+    expect(cumulativeLengths(points)).toEqual([...cumulativeLengths(points)].sort((a, b) => a - b));
+  });
+
+  it('gives tangent angles along a circle', () => {
+    const circle = parseSVGPath('M100 50 A50 50 0 0 1 0 50 A50 50 0 0 1 100 50', 181);
+
+    circle.forEach(p => {
+      // Clockwise on screen, the tangent is the radius turned by +90°
+      const radial = Math.atan2(p.y - 50, p.x - 50) * (180 / Math.PI);
+      const error = ((p.angle - (radial + 90)) % 360 + 540) % 360 - 180;
+      expect(Math.abs(error)).toBeLessThan(0.5);
+    });
+  });
+
+  it('carries tangents over repeated points', () => {
+    expect(tangentAngles([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 10 }])).toEqual([90, 90, 90]);
+    expect(tangentAngles([{ x: 5, y: 5 }])).toEqual([0]);
+  });
+
+  it('interpolates positions by arc length', () => {
+    const points = resampleByArcLength([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }], 3);
+    const lengths = cumulativeLengths(points);
+
+    expect(indexAtLength(lengths, 12)).toBe(1);
+    expect(pointAtLength(points, lengths, 12)).toMatchObject({ x: 10, y: 2 });
+    expect(pointAtLength(points, lengths, 99)).toMatchObject({ x: 10, y: 10 });
+  });
+
+  it('projects onto the stretch of path near the current progress', () => {
+    // A loop that returns through its start, like the crossing in a cursive l
+    const loop = resampleByArcLength(
+      [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 50, y: 50 }, { x: 50, y: -50 }],
+      301
+    );
+    const lengths = cumulativeLengths(loop);
+    const crossing = { x: 50, y: 0 };
+
+    expect(projectOntoPath(loop, lengths, crossing, 0, 80).length).toBeCloseTo(50);
+    expect(projectOntoPath(loop, lengths, crossing, 180, 300).length).toBeCloseTo(250);
+
+    const { dist2 } = projectOntoPath(loop, lengths, { x: 53, y: 4 });
+    expect(dist2).toBeCloseTo(9);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import { caseOf, getAvailableLetters, isLetterAvailable, loadLetter } from '../src/letters';
+import { SCRIPT_PACKS } from '../src/letters/scripts';
+
+const BOX = { x: 0, y: 0, w: 400, h: 400 };
+
+describe('caseOf', () => {
+  it('reads the glyph set from the character', () => {
+    expect(caseOf('a')).toBe('lowercase');
+    expect(caseOf('A')).toBe('uppercase');
+    expect(caseOf('7')).toBe('digits');
+    expect(caseOf('?')).toBe('punctuation');
+  });
+});
+
+describe('loadLetter', () => {
+  it('loads the lowercase or capital form the character asks for', () => {
+    expect(loadLetter('a').strokes.map(s => s.name)).toEqual(['Round Bowl', 'Stem']);
+    expect(loadLetter('A').strokes.map(s => s.name)).toEqual(['Left Stroke', 'Right Stroke', 'Crossbar']);
+  });
+
+  it('lets an explicit case override the character', () => {
+    expect(loadLetter('a', 'uppercase')).toBe(loadLetter('A'));
+    expect(loadLetter('A', 'lowercase')).toBe(loadLetter('a'));
+  });
+
+  it('throws for glyphs it has no geometry for', () => {
+    expect(() => loadLetter('#')).toThrow('Letter not found: # (uppercase)');
+    expect(() => loadLetter('7', 'uppercase')).toThrow('Letter not found');
+  });
+});
+
+describe('isLetterAvailable', () => {
+  it('agrees with what loadLetter can load', () => {
+    expect(isLetterAvailable('a')).toBe(true);
+    expect(isLetterAvailable('a', 'uppercase')).toBe(true);
+    expect(isLetterAvailable('#')).toBe(false);
+    expect(isLetterAvailable('?')).toBe(true);
+    expect(isLetterAvailable('7', 'lowercase')).toBe(false);
+  });
+
+  it('lists each glyph set by its own keys', () => {
+    expect(getAvailableLetters('lowercase')).toHaveLength(26);
+    expect(getAvailableLetters('lowercase')[0]).toBe('a');
+    expect(getAvailableLetters('digits')).toHaveLength(10);
+    expect(getAvailableLetters('punctuation')).toEqual(['!', ',', '.', '?']);
+  });
+});
+
+describe('punctuation', () => {
+  const build = (mark: string, pack = SCRIPT_PACKS.print) => loadLetter(mark, undefined, pack).build(BOX);
+  const ys = (mark: string) => build(mark).segments.flatMap(s => s.pts.map(p => p.y));
+
+  it('sits on the writing lines at its own size instead of filling the box', () => {
+    const { guides } = build('.');
+
+    expect(Math.max(...ys('.'))).toBeCloseTo(guides!.baseline, 0);
+    expect(Math.max(...ys('.')) - Math.min(...ys('.'))).toBeLessThan((guides!.baseline - guides!.xHeight) / 3);
+    expect(Math.max(...ys(','))).toBeGreaterThan(guides!.baseline);
+    expect(Math.min(...ys('!'))).toBeCloseTo(guides!.ascender, 0);
+  });
+
+  it('draws the mark before its dot', () => {
+    expect(build('?').segments.map(s => s.name)).toEqual(['Hook', 'Dot']);
+    expect(build('!').segments.map(s => s.name)).toEqual(['Stem', 'Dot']);
+  });
+
+  it('keeps its place on the line in a slanted pack', () => {
+    const slanted = build('.', SCRIPT_PACKS.dnealian);
+
+    expect(slanted.guides).toBeDefined();
+    expect(Math.max(...slanted.segments[0].pts.map(p => p.y))).toBeCloseTo(slanted.guides!.baseline, 0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @format
+ */
+
+import {
+  parsePathSegments,
+  parseSVGPath,
+  PathSegment,
+} from '../src/letters/utils/pathParser';
+import { getAllLetters, getLetterConfig } from '../src/utils/letterPaths';
+
+type XY = { x: number; y: number };
+
+const spacings = (points: XY[]) =>
+  points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+
+const expectPoint = (actual: XY, expected: XY, digits = 6) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+};
+
+const cubic = (segment: PathSegment) => {
+  if (segment.type !== 'cubic') throw new Error(`expected a cubic, got ${segment.type}`);
+  return segment;
+};
+
+describe('parsePathSegments', () => {
+  it('reads absolute, relative and shorthand line commands', () => {
+    const absolute = parseSVGPath('M 0 0 H 10 V 10 H 0 Z', 5);
+    const relative = parseSVGPath('m0,0 h10 v10 h-10 z', 5);
+    const corners = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+      { x: 0, y: 0 },
+    ];
+
+    corners.forEach((corner, i) => {
+      expectPoint(absolute[i], corner);
+      expectPoint(relative[i], corner);
+    });
+  });
+
+  it('repeats commands implicitly and continues a moveto as lineto', () => {
+    expect(parsePathSegments('M0 0 10 0 10 10')).toEqual(parsePathSegments('M0 0 L10 0 L10 10'));
+    expect(parsePathSegments('m5 5 10 0')).toEqual(parsePathSegments('M5 5 L15 5'));
+
+    const [{ segments }] = parsePathSegments('M0,0l10-5.5.5.5');
+    expectPoint(segments[1].to, { x: 10.5, y: -5 });
+  });
+
+  it('reflects control points for S and T', () => {
+    const [smooth] = parsePathSegments('M0 0 C0 10 10 10 10 0 S20 -10 20 0');
+    expectPoint(cubic(smooth.segments[1]).cp1, { x: 10, y: -10 });
+
+    // Quadratic (25,50) reflected through (50,0), then elevated to a cubic
+    const [quad] = parsePathSegments('M0 0 Q25 50 50 0 T100 0');
+    expectPoint(cubic(quad.segments[1]).cp1, { x: 50 + (2 / 3) * 25, y: (2 / 3) * -50 });
+
+    // Without a preceding curve the reflected control point is the current point
+    const [bare] = parsePathSegments('M0 0 L10 0 S20 10 30 0');
+    expectPoint(cubic(bare.segments[1]).cp1, { x: 10, y: 0 });
+  });
+
+  it('converts quadratics to exact cubics', () => {
+    const points = parseSVGPath('M0 0 Q50 100 100 0', 101);
+    // y = 2x - x²/50 on the parabola through these control points
+    points.forEach(p => expect(p.y).toBeCloseTo(2 * p.x - (p.x * p.x) / 50, 1));
+    expectPoint(points[50], { x: 50, y: 50 }, 3);
+  });
+
+  it('converts arcs to cubics on the right circle and side', () => {
+    const points = parseSVGPath('M0 0 A50 50 0 0 1 100 0', 101);
+
+    // Quarter-turn cubics stay within 0.03% of the radius
+    points.forEach(p => expect(Math.hypot(p.x - 50, p.y)).toBeCloseTo(50, 1));
+    // Positive sweep runs through negative y in SVG's y-down coordinates
+    expectPoint(points[50], { x: 50, y: -50 }, 2);
+
+    const otherSide = parseSVGPath('M0 0 A50 50 0 0 0 100 0', 101);
+    expectPoint(otherSide[50], { x: 50, y: 50 }, 2);
+  });
+
+  it('handles arc flags, radius scaling and degenerate arcs', () => {
+    expect(parsePathSegments('M0 0a50 50 0 0110 0')).toEqual(parsePathSegments('M0 0 a50 50 0 0 1 10 0'));
+
+    // Radii too small to reach the end point are scaled up to a semicircle
+    const scaled = parseSVGPath('M0 0 A1 1 0 0 1 100 0', 101);
+    expectPoint(scaled[50], { x: 50, y: -50 }, 2);
+
+    // Large arc of a rotated ellipse: three quarters of the way round
+    const [large] = parsePathSegments('M0 0 A20 10 30 1 0 10 10');
+    expect(large.segments.length).toBeGreaterThan(2);
+    expectPoint(large.segments[large.segments.length - 1].to, { x: 10, y: 10 });
+
+    expect(parsePathSegments('M0 0 A0 5 0 0 1 10 0')[0].segments[0].type).toBe('line');
+    expect(parsePathSegments('M0 0 A5 5 0 0 1 0 0')[0].segments).toHaveLength(0);
+  });
+
+  it('resamples by arc length rather than curve parameter', () => {
+    const points = parseSVGPath('M10 80 C40 10 65 10 95 80', 120);
+    const gaps = spacings(points);
+
+    expect(Math.max(...gaps) / Math.min(...gaps)).toBeLessThan(1.01);
+    expectPoint(points[0], { x: 10, y: 80 });
+    expectPoint(points[points.length - 1], { x: 95, y: 80 });
+
+    // A quarter circle of radius 100 is 50π long whatever the point count
+    const quarter = parseSVGPath('M100 0 A100 100 0 0 1 0 100', 200);
+    expect(spacings(quarter).reduce((sum, gap) => sum + gap, 0)).toBeCloseTo(50 * Math.PI, 1);
+  });
+
+  it('closes subpaths back to their start', () => {
+    const subpaths = parsePathSegments('M50 10 C70 10 85 25 85 50 Z M60 70 L80 95');
+
+    expect(subpaths).toHaveLength(2);
+    expect(subpaths[0].closed).toBe(true);
+    expectPoint(subpaths[0].segments[1].to, { x: 50, y: 10 });
+    expectPoint(subpaths[1].start, { x: 60, y: 70 });
+  });
+
+  it('parses every letter path', () => {
+    const { uppercase, lowercase } = getAllLetters();
+    const configs = [
+      ...uppercase.map(letter => getLetterConfig(letter, 'uppercase')),
+      ...lowercase.map(letter => getLetterConfig(letter, 'lowercase')),
+    ];
+
+    configs.forEach(({ svgPath }) => {
+      const points = parseSVGPath(svgPath, 50);
+      expect(points).toHaveLength(50);
+      points.forEach(p => expect(Number.isFinite(p.x) && Number.isFinite(p.y)).toBe(true));
+    });
+  });
+
+  it('rejects malformed path data', () => {
+    expect(() => parsePathSegments('L 10 10')).toThrow('must start with a moveto');
+    expect(() => parsePathSegments('M0 0 X5 5')).toThrow('unknown command');
+    expect(() => parsePathSegments('M0 0 L10')).toThrow('expected a number');
+    expect(() => parsePathSegments('M0 0 Z 5 5')).toThrow('closepath');
+    expect(() => parsePathSegments('M0 0 A5 5 0 2 1 10 0')).toThrow('arc flag');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import ProfileService from '../src/services/ProfileService';
+
+const mockStorage = new Map<string, string>();
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      mockStorage.delete(key);
+    },
+  },
+}));
+
+beforeEach(() => mockStorage.clear());
+
+describe('ProfileService', () => {
+  it('starts with one child who keeps the handwriting model saved before profiles', async () => {
+    mockStorage.set('@settings_script_pack', 'cursive');
+
+    const [first, again] = await Promise.all([ProfileService.getProfiles(), ProfileService.getProfiles()]);
+
+    expect(first).toEqual(again);
+    expect(first).toHaveLength(1);
+    expect(first[0].scriptPack).toBe('cursive');
+    expect((await ProfileService.getActiveProfile())!.id).toBe(first[0].id);
+    expect(mockStorage.has('@settings_script_pack')).toBe(false);
+  });
+
+  it('keeps a separate handwriting model for each child', async () => {
+    const [maya] = await ProfileService.getProfiles();
+    const leo = await ProfileService.addProfile(' Leo ');
+
+    expect(leo.name).toBe('Leo');
+    expect((await ProfileService.getActiveProfile())!.id).toBe(leo.id);
+
+    await ProfileService.setScriptPack(leo.id, 'dnealian');
+    await ProfileService.setActiveProfile(maya.id);
+
+    expect((await ProfileService.getActiveProfile())!.scriptPack).toBe('print');
+    const byId = Object.fromEntries((await ProfileService.getProfiles()).map(p => [p.id, p.scriptPack]));
+    expect(byId).toEqual({ [maya.id]: 'print', [leo.id]: 'dnealian' });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import { loadLetter } from '../src/letters';
+import { SCRIPT_PACKS, getScriptPack } from '../src/letters/scripts';
+import { layoutWord } from '../src/letters/word';
+import { parsePathSegments } from '../src/letters/utils/pathParser';
+
+const startOf = (path: string) => parsePathSegments(path)[0].start;
+
+const BOX = { x: 0, y: 0, w: 400, h: 200 };
+
+describe('script packs', () => {
+  it('leaves print glyphs as authored', () => {
+    expect(loadLetter('a', 'lowercase', SCRIPT_PACKS.print)).toBe(loadLetter('a', 'lowercase'));
+  });
+
+  it('gives pre-cursive letters a lead-in from the baseline and an exit', () => {
+    const { strokes } = loadLetter('a', 'lowercase', SCRIPT_PACKS.precursive);
+
+    expect(strokes.map(s => s.name)).toEqual(['Lead-in', 'Round Bowl', 'Stem', 'Exit']);
+    expect(startOf(strokes[0].path)).toEqual({ x: 24, y: 70 });
+    // The exit leaves from the foot of the stem, not the bowl
+    expect(startOf(strokes[3].path)).toEqual({ x: 58, y: 70 });
+
+    // Letters whose strokes end elsewhere don't get an exit, and capitals are unchanged
+    expect(loadLetter('g', 'lowercase', SCRIPT_PACKS.precursive).strokes.some(s => s.join === 'exit')).toBe(false);
+    expect(loadLetter('A', 'uppercase', SCRIPT_PACKS.precursive).strokes).toEqual(loadLetter('A').strokes);
+  });
+
+  it("slants D'Nealian letters about the baseline and adds tails", () => {
+    const { strokes } = loadLetter('i', 'lowercase', SCRIPT_PACKS.dnealian);
+
+    expect(strokes[0].path).toBe('M 54.22,40 L 50,70');
+    expect(strokes.map(s => s.join)).toEqual([undefined, undefined, 'exit']);
+  });
+
+  it('joins cursive words from each exit into the next letter', () => {
+    const layout = layoutWord('cat', BOX, 30, SCRIPT_PACKS.cursive);
+    const names = layout.segments.map(s => s.name);
+
+    expect(names).toEqual([
+      'c: Lead-in',
+      'c: C Arc',
+      'a: Join',
+      'a: Round Bowl',
+      'a: Stem',
+      't: Join',
+      't: Stem',
+      't: Crossbar',
+      't: Exit',
+    ]);
+
+    // The join picks up where the previous letter's last stroke finished
+    const [, arc, join, bowl] = layout.segments;
+    expect(join.start.x).toBeCloseTo(arc.end.x, 0);
+    expect(join.start.y).toBeCloseTo(arc.end.y, 0);
+    expect(join.end.x).toBeCloseTo(bowl.start.x, 0);
+    expect(join.end.y).toBeCloseTo(bowl.start.y, 0);
+
+    // Pre-cursive keeps each letter's own lead-in and exit
+    const unjoined = layoutWord('cat', BOX, 30, SCRIPT_PACKS.precursive);
+    expect(unjoined.segments.some(s => s.name.endsWith('Join'))).toBe(false);
+  });
+
+  it('loads letters in print unless a pack is passed', () => {
+    loadLetter('n', 'lowercase', SCRIPT_PACKS.cursive);
+    expect(loadLetter('n').strokes[0].join).toBeUndefined();
+    expect(layoutWord('n', BOX).segments[0].name).toBe('n: Stem');
+  });
+
+  it('falls back to print for a missing or unknown saved pack', () => {
+    expect(getScriptPack(null).id).toBe('print');
+    expect(getScriptPack('copperplate').id).toBe('print');
+    expect(getScriptPack('cursive').id).toBe('cursive');
+  });
+});
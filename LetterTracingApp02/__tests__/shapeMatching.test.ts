@@ -0,0 +1,104 @@
+/**
+ * @format
+ */
+
+import { frechetDistance, matchStrokes, resamplePolyline, scoreMemoryAttempt } from '../src/utils/shapeMatching';
+import type { Stroke } from '../src/types/tracing';
+
+type Pt = { x: number; y: number };
+
+const line = (from: Pt, to: Pt, n = 10): Pt[] => resamplePolyline([from, to], n);
+
+// A capital T: crossbar left to right, then the stem top to bottom
+const BAR = line({ x: 0, y: 0 }, { x: 100, y: 0 });
+const STEM = line({ x: 50, y: 0 }, { x: 50, y: 120 });
+const T_SEGMENTS = [{ pts: BAR }, { pts: STEM }];
+
+const toStrokes = (polylines: Pt[][]): Stroke[] =>
+  polylines.map((pts, i) => ({
+    id: `s${i}`,
+    points: pts.map((p, j) => ({ ...p, timestamp: 100 * i + j })),
+    startTime: 100 * i,
+    endTime: 100 * i + pts.length,
+    duration: pts.length,
+  }));
+
+const moved = (pts: Pt[], dx: number, dy: number, scale = 1) =>
+  pts.map(p => ({ x: p.x * scale + dx, y: p.y * scale + dy }));
+
+describe('frechetDistance', () => {
+  it('is zero for the same polyline and the offset for a shifted copy', () => {
+    expect(frechetDistance(BAR, BAR)).toBe(0);
+    expect(frechetDistance(BAR, moved(BAR, 0, 5))).toBeCloseTo(5, 5);
+  });
+
+  it('follows the direction of travel', () => {
+    expect(frechetDistance(BAR, [...BAR].reverse())).toBeCloseTo(100, 5);
+  });
+
+  it('is infinite when either polyline is empty', () => {
+    expect(frechetDistance([], BAR)).toBe(Infinity);
+    expect(frechetDistance(BAR, [])).toBe(Infinity);
+  });
+});
+
+describe('matchStrokes', () => {
+  it('pairs each segment with its stroke whatever order they were drawn in', () => {
+    const matches = matchStrokes([BAR, STEM], [STEM, BAR]);
+
+    expect(matches.map(m => m.stroke)).toEqual([1, 0]);
+    matches.forEach(m => {
+      expect(m.distance).toBeCloseTo(0, 5);
+      expect(m.directionCorrect).toBe(true);
+    });
+  });
+
+  it('flags a stroke drawn backwards without penalising its shape', () => {
+    const [bar] = matchStrokes([BAR, STEM], [[...BAR].reverse(), STEM]);
+
+    expect(bar.stroke).toBe(0);
+    expect(bar.distance).toBeCloseTo(0, 5);
+    expect(bar.directionCorrect).toBe(false);
+  });
+
+  it('lets one stroke claim only one segment', () => {
+    const matches = matchStrokes([BAR, STEM], [STEM]);
+
+    expect(matches[1].stroke).toBe(0);
+    expect(matches[0]).toEqual({ segment: 0, stroke: null, distance: 0.5, directionCorrect: false });
+  });
+});
+
+describe('scoreMemoryAttempt', () => {
+  it('gives a full score to the model drawn anywhere at any size', () => {
+    const result = scoreMemoryAttempt(toStrokes([moved(BAR, 40, 60, 2), moved(STEM, 40, 60, 2)]), T_SEGMENTS);
+
+    expect(result.shapeScore).toBeCloseTo(100, 5);
+    expect(result.strokeOrderCorrect).toBe(true);
+    expect(result.strokeOrderScore).toBe(100);
+  });
+
+  it('scores order and direction separately from shape', () => {
+    const result = scoreMemoryAttempt(toStrokes([[...STEM].reverse(), BAR]), T_SEGMENTS);
+
+    expect(result.shapeScore).toBeCloseTo(100, 5);
+    expect(result.strokeOrderCorrect).toBe(false);
+    expect(result.strokeOrderScore).toBe(50);
+  });
+
+  it('weighs a missing stroke against the shape', () => {
+    const result = scoreMemoryAttempt(toStrokes([BAR]), T_SEGMENTS);
+
+    expect(result.shapeScore).toBeLessThan(75);
+    expect(result.actualStrokeCount).toBe(1);
+    expect(result.strokeMatches[1].stroke).toBeNull();
+  });
+
+  it('scores nothing when no stroke was drawn', () => {
+    const result = scoreMemoryAttempt(toStrokes([[{ x: 5, y: 5 }]]), T_SEGMENTS);
+
+    expect(result.shapeScore).toBe(0);
+    expect(result.frechetDistance).toBe(Infinity);
+    expect(result.strokeMatches.every(m => m.stroke === null)).toBe(true);
+  });
+});
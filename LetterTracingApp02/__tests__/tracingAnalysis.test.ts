@@ -0,0 +1,195 @@
+/**
+ * @format
+ */
+
+import TracingAnalysisService from '../src/services/TracingAnalysisService';
+import type { TracingAnalysisService as Service } from '../src/services/TracingAnalysisService';
+import MLPredictionService from '../src/services/MLPredictionService';
+import type { Segment } from '../src/letters/types';
+import type { MLFeatures, Stroke, TouchPoint, TracingSession } from '../src/types/tracing';
+
+// Device storage that outlives the modules, so a fresh import stands in for an app restart
+const mockStorage = new Map<string, string>();
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      mockStorage.delete(key);
+    },
+  },
+}));
+
+type Pt = { x: number; y: number };
+
+// An "L": down the stem, then right along the foot
+const L_SHAPE: Pt[] = [
+  ...Array.from({ length: 21 }, (_, i) => ({ x: 100, y: 100 + i * 10 })),
+  ...Array.from({ length: 12 }, (_, i) => ({ x: 110 + i * 10, y: 300 })),
+];
+
+const segment = (pts: Pt[]): Segment => ({
+  name: 'Stroke',
+  d: '',
+  pts: pts.map(p => ({ ...p, angle: 0 })),
+  start: pts[0],
+  end: pts[pts.length - 1],
+});
+
+const stroke = (points: TouchPoint[]): Stroke => ({
+  id: `stroke_${points[0].timestamp}`,
+  points,
+  startTime: points[0].timestamp,
+  endTime: points[points.length - 1].timestamp,
+  duration: points[points.length - 1].timestamp - points[0].timestamp,
+});
+
+const session = (letter: string, strokes: Stroke[]): TracingSession => ({
+  sessionId: 'session_test',
+  letter,
+  letterCase: 'uppercase',
+  mode: 'guided',
+  startTime: strokes[0].startTime,
+  endTime: strokes[strokes.length - 1].endTime,
+  totalDuration: strokes[strokes.length - 1].endTime - strokes[0].startTime,
+  strokes,
+  touchPoints: strokes.flatMap(s => s.points),
+  metadata: { attemptNumber: 1 },
+});
+
+// Trace points steadily, 20 ms apart
+const traced = (pts: Pt[], start = 1000): TouchPoint[] =>
+  pts.map((p, i) => ({ ...p, timestamp: start + i * 20 }));
+
+const analyze = (letter: string, strokes: Stroke[], model: Pt[] = L_SHAPE) =>
+  TracingAnalysisService.analyzeSession(session(letter, strokes), [segment(model)]);
+
+describe('tracing features', () => {
+  it('differentiates against each sample’s own time, even after repeated timestamps', () => {
+    // x = ½·a·t² with a = 1000 px/s², sampled unevenly (10 ms and 30 ms apart)
+    const times = Array.from({ length: 30 }, (_, i) => 20 * i - (i % 2) * 10);
+    const points: TouchPoint[] = times.map(timestamp => ({
+      x: 0.5 * 1000 * (timestamp / 1000) ** 2,
+      y: 0,
+      timestamp,
+    }));
+    // A repeated touch event: no time passes and nothing moves
+    points.splice(10, 0, { ...points[9] });
+
+    const { features } = analyze('L', [stroke(points)], points).prediction;
+    expect(features.mean_acceleration).toBeCloseTo(1000, 3);
+    expect(features.std_acceleration).toBeCloseTo(0, 3);
+    expect(features.mean_jerk).toBeCloseTo(0, 3);
+  });
+
+  it('scores an on-path trace as accurate and complete', () => {
+    const { features } = analyze('L', [stroke(traced(L_SHAPE))]).prediction;
+
+    expect(features.mean_deviation_from_path).toBeCloseTo(0, 5);
+    expect(features.stroke_completion_ratio).toBe(1);
+    expect(features.stroke_retracing_ratio).toBe(0);
+    expect(features.num_strokes).toBe(1);
+    expect(features.left_right_confusion_score).toBe(0);
+  });
+
+  it('picks up a mirrored letter as a left-right reversal', () => {
+    const mirrored = L_SHAPE.map(p => ({ x: 400 - p.x, y: p.y }));
+    const { features } = analyze('L', [stroke(traced(mirrored))]).prediction;
+
+    expect(features.left_right_confusion_score).toBeGreaterThan(0.3);
+    expect(features.vertical_flip_tendency).toBe(0);
+    expect(features.b_d_reversal_likelihood).toBe(0);
+  });
+
+  it('measures pauses between strokes', () => {
+    const first = stroke(traced(L_SHAPE.slice(0, 21)));
+    const second = stroke(traced(L_SHAPE.slice(21), first.endTime + 600));
+    const { features } = analyze('L', [first, second]).prediction;
+
+    expect(features.num_strokes).toBe(2);
+    expect(features.inter_stroke_pause_mean).toBe(600);
+  });
+});
+
+describe('MLPredictionService', () => {
+  const clean = analyze('L', [stroke(traced(L_SHAPE))]).prediction.features;
+
+  it('gives an unvalidated score with a low indicator level for a clean trace', () => {
+    const prediction = MLPredictionService.predict(clean);
+
+    expect(prediction.validated).toBe(false);
+    expect(prediction.score).toBeLessThan(0.3);
+    expect(prediction.indicatorLevel).toBe('low');
+    expect(prediction).not.toHaveProperty('prediction');
+  });
+
+  it('raises the score with reversal and motor indicators', () => {
+    const strained: MLFeatures = {
+      ...clean,
+      reversal_confidence_score: 1,
+      orientation_error_score: 1,
+      spatial_accuracy_score: 20,
+      stroke_retracing_ratio: 0.5,
+    };
+    const prediction = MLPredictionService.predict(strained);
+
+    expect(prediction.score).toBeGreaterThan(MLPredictionService.predict(clean).score);
+    expect(prediction.indicatorLevel).toBe('high');
+    expect(MLPredictionService.getKeyIndicators(strained)[0]).toBe('Letter reversals');
+  });
+
+  it('bands scores without a diagnostic level', () => {
+    expect(MLPredictionService.getIndicatorLevel(0.1)).toBe('low');
+    expect(MLPredictionService.getIndicatorLevel(0.4)).toBe('medium');
+    expect(MLPredictionService.getIndicatorLevel(0.99)).toBe('high');
+  });
+});
+
+describe('recorded sessions', () => {
+  const record = (service: Service, start: number) =>
+    service.recordSession(
+      {
+        letter: 'L',
+        letterCase: 'uppercase',
+        mode: 'guided',
+        strokes: [stroke(traced(L_SHAPE, start))],
+        startTime: start,
+      },
+      [segment(L_SHAPE)]
+    );
+
+  // The service as a newly started app sees it: a fresh singleton over the same storage
+  const afterRestart = (): Service => {
+    let service!: Service;
+    jest.isolateModules(() => {
+      service = require('../src/services/TracingAnalysisService').default;
+    });
+    return service;
+  };
+
+  beforeEach(() => TracingAnalysisService.clearSessions());
+
+  it('reports on sessions recorded before a restart', async () => {
+    await record(TracingAnalysisService, 1000);
+    await record(TracingAnalysisService, 5000);
+
+    const restarted = afterRestart();
+    const third = await record(restarted, 9000);
+    const report = await restarted.generateClinicalReport();
+
+    expect(third.session.metadata.attemptNumber).toBe(3);
+    expect(report!.sessionSummary.totalSessions).toBe(3);
+    expect(report!.sessionSummary.dateRange.start).toBe(1000);
+  });
+
+  it('has no report once the sessions are cleared', async () => {
+    await record(TracingAnalysisService, 1000);
+    await TracingAnalysisService.clearSessions();
+
+    expect(await TracingAnalysisService.generateClinicalReport()).toBeNull();
+    expect(await afterRestart().getSessions()).toEqual([]);
+  });
+});
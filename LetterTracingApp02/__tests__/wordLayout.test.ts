@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+
+import { layoutWord } from '../src/letters/word';
+import type { WordGlyph, WordLayout } from '../src/letters/word';
+import { calculateWordMetrics } from '../src/utils/wordMetrics';
+import type { TouchPoint } from '../src/types/tracing';
+
+const BOX = { x: 0, y: 0, w: 600, h: 260 };
+
+const bottomOf = (glyph: WordGlyph) => glyph.bounds.y + glyph.bounds.h;
+
+// Distance from one glyph's slot to the next, in cap heights
+const advanceOf = (layout: WordLayout, i: number) =>
+  (layout.glyphs[i + 1].advanceBox.x - layout.glyphs[i].advanceBox.x) / layout.unitPx;
+
+// Trace every glyph exactly on its path, optionally nudged down by `drop` cap heights per glyph
+const traceOnPath = (layout: WordLayout, drop = 0): TouchPoint[][] =>
+  layout.glyphs.map((glyph, g) =>
+    glyph.segments
+      .flatMap(s => s.pts)
+      .map((p, i) => ({ x: p.x, y: p.y + g * drop * layout.unitPx, timestamp: 1000 * g + i }))
+  );
+
+describe('layoutWord', () => {
+  it('stands capitals and lowercase letters on one baseline', () => {
+    const layout = layoutWord('Hat', BOX);
+    const [H, a, t] = layout.glyphs;
+
+    [H, a, t].forEach(glyph => expect(bottomOf(glyph)).toBeCloseTo(layout.guides.baseline, 0));
+    // A capital reaches the ascender; a lowercase bowl stops at the x-height
+    expect(H.bounds.y).toBeCloseTo(layout.guides.ascender, 0);
+    expect(a.bounds.y).toBeGreaterThan(layout.guides.xHeight - 2);
+  });
+
+  it('keeps the baseline in place whatever letters the word contains', () => {
+    expect(layoutWord('HAT', BOX).guides.baseline).toBeCloseTo(layoutWord('gap', BOX).guides.baseline, 5);
+  });
+
+  it('kerns pairs that leave a visual hole', () => {
+    const kerned = layoutWord('AV', BOX);
+    const plain = layoutWord('AX', BOX);
+
+    expect(advanceOf(plain, 0) - advanceOf(kerned, 0)).toBeCloseTo(0.12, 5);
+  });
+
+  it('numbers segments by glyph and skips spaces', () => {
+    const layout = layoutWord('I am', BOX);
+
+    expect(layout.glyphs.map(g => [g.char, g.index])).toEqual([['I', 0], ['a', 2], ['m', 3]]);
+    layout.glyphs.forEach(glyph => {
+      expect(layout.segments[glyph.firstSegment]).toBe(glyph.segments[0]);
+    });
+    expect(() => layoutWord('  ', BOX)).toThrow('Nothing to trace');
+  });
+
+  it('sets punctuation on the baseline beside the letters', () => {
+    const layout = layoutWord('Hi!', BOX);
+    const [, , mark] = layout.glyphs;
+
+    expect(mark.char).toBe('!');
+    expect(bottomOf(mark)).toBeCloseTo(layout.guides.baseline, 0);
+    expect(mark.bounds.y).toBeCloseTo(layout.guides.ascender, 0);
+  });
+});
+
+describe('calculateWordMetrics', () => {
+  const layout = layoutWord('HAT', BOX);
+
+  it('scores an on-path trace as accurate, evenly spaced and level', () => {
+    const metrics = calculateWordMetrics(layout, traceOnPath(layout));
+
+    expect(metrics.word).toBe('HAT');
+    expect(metrics.overallAccuracy).toBeCloseTo(100, 5);
+    expect(metrics.spacing.gaps).toHaveLength(2);
+    expect(metrics.spacing.meanGapError).toBeCloseTo(0, 5);
+    expect(metrics.baselineDrift.offsets).toEqual([0, 0, 0]);
+    expect(metrics.baselineDrift.slope).toBe(0);
+  });
+
+  it('measures a word sliding downhill in cap heights', () => {
+    const metrics = calculateWordMetrics(layout, traceOnPath(layout, 0.1));
+
+    expect(metrics.baselineDrift.slope).toBeCloseTo(0.1, 5);
+    expect(metrics.baselineDrift.maxDeviation).toBeCloseTo(0.2, 5);
+    expect(metrics.glyphs[2].baselineOffset).toBeCloseTo(0.2, 5);
+  });
+
+  it('leaves untraced glyphs out of the word-level figures', () => {
+    const touches = traceOnPath(layout);
+    touches[1] = [];
+    const metrics = calculateWordMetrics(layout, touches);
+
+    expect(metrics.glyphs[1].accuracyScore).toBe(0);
+    expect(metrics.overallAccuracy).toBeCloseTo(100, 5);
+    expect(metrics.spacing.gaps).toEqual([]);
+    expect(metrics.baselineDrift.offsets).toHaveLength(2);
+  });
+});
@@ -0,0 +1,60 @@
+// src/components/tracing/LetterUnavailable.tsx
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ImageBackground } from 'react-native';
+
+const BG = require('../../../assets/images/background_for_initial_home_screen.png');
+
+interface LetterUnavailableProps {
+  letter: string;
+  onBack: () => void;
+}
+
+/**
+ * Shown instead of a tracing screen when the requested glyph has no geometry
+ */
+export default function LetterUnavailable({ letter, onBack }: LetterUnavailableProps) {
+  return (
+    <ImageBackground source={BG} style={styles.bg} resizeMode="cover">
+      <View style={styles.center}>
+        <Text style={styles.title}>“{letter}”</Text>
+        <Text style={styles.subtitle}>This letter isn't ready to trace yet.</Text>
+        <TouchableOpacity style={styles.btn} onPress={onBack}>
+          <Text style={styles.btnText}>← Back</Text>
+        </TouchableOpacity>
+      </View>
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  title: {
+    fontSize: 28,
+    fontWeight: '900',
+    color: '#111827',
+    backgroundColor: 'rgba(255,255,255,0.9)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 14,
+  },
+  subtitle: {
+    marginTop: 10,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+    backgroundColor: 'rgba(255,255,255,0.8)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  btn: {
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#0EA5E9',
+    borderRadius: 10,
+  },
+  btnText: { color: 'white', fontWeight: '900' },
+});
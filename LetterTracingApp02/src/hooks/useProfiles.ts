@@ -0,0 +1,41 @@
+// src/hooks/useProfiles.ts
+
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import ProfileService from '../services/ProfileService';
+import type { ChildProfile } from '../types/profile';
+
+/**
+ * The children on this device and who is active, reloaded whenever the screen is shown
+ */
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setProfiles(await ProfileService.getProfiles());
+    const active = await ProfileService.getActiveProfile();
+    setActiveId(active?.id ?? null);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const switchProfile = useCallback(async (id: string) => {
+    setActiveId(id);
+    await ProfileService.setActiveProfile(id).catch(() => {});
+  }, []);
+
+  const addProfile = useCallback(
+    async (name: string) => {
+      await ProfileService.addProfile(name);
+      await load();
+    },
+    [load]
+  );
+
+  return { profiles, activeId, switchProfile, addProfile };
+}
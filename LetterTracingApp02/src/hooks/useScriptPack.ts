@@ -0,0 +1,38 @@
+// src/hooks/useScriptPack.ts
+
+import { useCallback, useEffect, useState } from 'react';
+import ProfileService from '../services/ProfileService';
+import { getScriptPack } from '../letters/scripts';
+import type { ScriptPack } from '../letters/types';
+
+/**
+ * The active child's handwriting model and a setter that saves a new choice to their profile
+ * The pack is null until the profile has loaded, so screens never draw a
+ * letter in one pack and then redraw it in another.
+ */
+export function useScriptPack(): [ScriptPack | null, (next: ScriptPack) => void] {
+  const [pack, setPack] = useState<ScriptPack | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    ProfileService.getActiveProfile().then(profile => {
+      if (cancelled) return;
+      setProfileId(profile?.id ?? null);
+      setPack(current => current ?? getScriptPack(profile?.scriptPack));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const choosePack = useCallback(
+    (next: ScriptPack) => {
+      setPack(next);
+      if (profileId) ProfileService.setScriptPack(profileId, next.id).catch(() => {});
+    },
+    [profileId]
+  );
+
+  return [pack, choosePack];
+}
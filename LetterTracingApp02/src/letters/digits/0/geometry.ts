@@ -0,0 +1,23 @@
+// src/letters/digits/0/geometry.ts
+// Numeral 0 — oval
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Oval
+   * Start at the top and go all the way round to the left
+   */
+  oval: 'M 50,10 C 30,10 25,30 25,50 C 25,70 30,90 50,90 C 70,90 75,70 75,50 C 75,30 70,10 50,10',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Oval',
+    path: RAW_PATHS.oval,
+    description: 'Start at the top and go all the way round to the left',
+  },
+];
@@ -0,0 +1,23 @@
+// src/letters/digits/1/geometry.ts
+// Numeral 1 — flag + stem
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Flag and Stem
+   * Flick up to the top, then pull straight down
+   */
+  flagAndStem: 'M 38,22 L 52,10 L 52,90',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Flag and Stem',
+    path: RAW_PATHS.flagAndStem,
+    description: 'Flick up to the top, then pull straight down',
+  },
+];
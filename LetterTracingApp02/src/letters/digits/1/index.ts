@@ -0,0 +1,52 @@
+// src/letters/digits/1/index.ts
+
+import type { LetterBuild, LetterTheme, BoundingBox } from '../../types';
+import { scaleMultiplePathsToBox, pointsToPathD } from '../../utils/pathParser';
+import { STROKE_ORDER } from './geometry';
+
+// Raw stroke geometry, used to lay out whole words
+export { STROKE_ORDER as strokes } from './geometry';
+
+export const build: LetterBuild = (box: BoundingBox) => {
+  // Scale all strokes together to maintain relative positions
+  const scaledPaths = scaleMultiplePathsToBox(
+    STROKE_ORDER.map(stroke => ({ path: stroke.path, numPoints: 250 })),
+    box,
+    30  // padding
+  );
+
+  // Build segments with scaled points
+  const segments = STROKE_ORDER.map((stroke, index) => {
+    const points = scaledPaths[index];
+
+    return {
+      name: stroke.name,
+      description: stroke.description,
+      d: pointsToPathD(points),
+      pts: points,
+      start: points[0] || { x: 0, y: 0, angle: 0 },
+      end: points[points.length - 1] || { x: 0, y: 0, angle: 0 },
+    };
+  });
+
+  return { segments };
+};
+
+export const theme: LetterTheme = {
+  id: '1',
+  background: require('../../../../assets/images/background.png'),
+  avatar: {
+    idle: require('../../../../assets/images/tiger-waving.png'),
+    happy: require('../../../../assets/images/tiger-happy.png'),
+    surprised: require('../../../../assets/images/tiger-surprised.png'),
+  },
+  colors: {
+    pathGradientStart: '#B91C1C',
+    pathGradientEnd: '#F87171',
+    guideDot: '#FECACA',
+  },
+  bee: {
+    speedMsPerPoint: 6,
+    pauseAtEndMs: 200,
+  },
+};
@@ -0,0 +1,23 @@
+// src/letters/digits/2/geometry.ts
+// Numeral 2 — hook + diagonal + base
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Two Curve
+   * Curve over the top, slide down to the left and go across
+   */
+  twoCurve: 'M 28,28 C 30,14 42,10 50,10 C 62,10 72,18 72,30 C 72,45 55,58 28,90 L 74,90',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Two Curve',
+    path: RAW_PATHS.twoCurve,
+    description: 'Curve over the top, slide down to the left and go across',
+  },
+];
@@ -0,0 +1,23 @@
+// src/letters/digits/3/geometry.ts
+// Numeral 3 — two stacked bumps
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Three Curve
+   * Round the top bump to the middle, then round the bigger bottom bump
+   */
+  threeCurve: 'M 28,20 C 36,11 46,10 50,10 C 62,10 70,18 70,29 C 70,41 60,48 48,48 C 62,48 72,57 72,69 C 72,82 62,90 49,90 C 40,90 32,87 27,80',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Three Curve',
+    path: RAW_PATHS.threeCurve,
+    description: 'Round the top bump to the middle, then round the bigger bottom bump',
+  },
+];
@@ -0,0 +1,34 @@
+// src/letters/digits/4/geometry.ts
+// Numeral 4 — down-and-across + stem
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Down and Across
+   * Slide down to the left, then go across
+   */
+  downAndAcross: 'M 60,10 L 24,66 L 78,66',
+
+  /**
+   * STROKE 2 — Stem
+   * Pull straight down through the crossing line
+   */
+  stem: 'M 60,10 L 60,90',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Down and Across',
+    path: RAW_PATHS.downAndAcross,
+    description: 'Slide down to the left, then go across',
+  },
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down through the crossing line',
+  },
+];
@@ -0,0 +1,34 @@
+// src/letters/digits/5/geometry.ts
+// Numeral 5 — stem + belly, then flag
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem and Belly
+   * Pull down a little, then round the big belly
+   */
+  stemAndBelly: 'M 32,10 L 30,46 C 36,41 43,40 50,40 C 63,40 72,50 72,64 C 72,79 62,90 48,90 C 40,90 33,87 28,82',
+
+  /**
+   * STROKE 2 — Flag
+   * Add the flag across the top
+   */
+  flag: 'M 32,10 L 70,10',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem and Belly',
+    path: RAW_PATHS.stemAndBelly,
+    description: 'Pull down a little, then round the big belly',
+  },
+  {
+    name: 'Flag',
+    path: RAW_PATHS.flag,
+    description: 'Add the flag across the top',
+  },
+];
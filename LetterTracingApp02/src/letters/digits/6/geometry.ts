@@ -0,0 +1,23 @@
+// src/letters/digits/6/geometry.ts
+// Numeral 6 — curve down into a closed loop
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Six Curve
+   * Curve down the left side and curl into the loop
+   */
+  sixCurve: 'M 66,14 C 60,11 55,10 50,10 C 35,10 27,28 27,55 C 27,76 36,90 50,90 C 63,90 72,80 72,67 C 72,54 63,45 50,45 C 38,45 29,53 27,62',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Six Curve',
+    path: RAW_PATHS.sixCurve,
+    description: 'Curve down the left side and curl into the loop',
+  },
+];
@@ -0,0 +1,23 @@
+// src/letters/digits/7/geometry.ts
+// Numeral 7 — top line + diagonal
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Seven Line
+   * Go across the top, then slide down to the left
+   */
+  sevenLine: 'M 26,10 L 74,10 L 40,90',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Seven Line',
+    path: RAW_PATHS.sevenLine,
+    description: 'Go across the top, then slide down to the left',
+  },
+];
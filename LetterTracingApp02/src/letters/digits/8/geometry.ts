@@ -0,0 +1,23 @@
+// src/letters/digits/8/geometry.ts
+// Numeral 8 — s curve closing back up
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Eight Loop
+   * Make an S, then go back up to where you started
+   */
+  eightLoop: 'M 50,10 C 39,10 31,17 31,28 C 31,40 41,45 50,50 C 60,55 70,60 70,72 C 70,83 61,90 50,90 C 39,90 30,83 30,72 C 30,60 40,55 50,50 C 59,45 69,40 69,28 C 69,17 61,10 50,10',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Eight Loop',
+    path: RAW_PATHS.eightLoop,
+    description: 'Make an S, then go back up to where you started',
+  },
+];
@@ -0,0 +1,34 @@
+// src/letters/digits/9/geometry.ts
+// Numeral 9 — loop + stem
+
+export const SVG_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Loop
+   * Go round to the left to make the loop
+   */
+  loop: 'M 72,30 C 72,18 63,10 50,10 C 37,10 28,18 28,30 C 28,42 37,50 50,50 C 63,50 72,42 72,30',
+
+  /**
+   * STROKE 2 — Stem
+   * Pull straight down from the loop
+   */
+  stem: 'M 72,30 L 72,90',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Loop',
+    path: RAW_PATHS.loop,
+    description: 'Go round to the left to make the loop',
+  },
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down from the loop',
+  },
+];
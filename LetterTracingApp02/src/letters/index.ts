@@ -1,6 +1,7 @@
 // src/letters/index.ts
 
-import type { LetterDefinition } from './types';
+import type { LetterDefinition, GlyphSet, ScriptPack } from './types';
+import { DEFAULT_SCRIPT_PACK, SCRIPT_PACKS, applyScriptPack } from './scripts';
 import * as LetterA from './uppercase/A';
 import * as LetterB from './uppercase/B';
 import * as LetterC from './uppercase/C';
@@ -27,9 +28,49 @@ import * as LetterW from './uppercase/W';
 import * as LetterX from './uppercase/X';
 import * as LetterY from './uppercase/Y';
 import * as LetterZ from './uppercase/Z';
+import * as LetteraLower from './lowercase/a';
+import * as LetterbLower from './lowercase/b';
+import * as LettercLower from './lowercase/c';
+import * as LetterdLower from './lowercase/d';
+import * as LettereLower from './lowercase/e';
+import * as LetterfLower from './lowercase/f';
+import * as LettergLower from './lowercase/g';
+import * as LetterhLower from './lowercase/h';
+import * as LetteriLower from './lowercase/i';
+import * as LetterjLower from './lowercase/j';
+import * as LetterkLower from './lowercase/k';
+import * as LetterlLower from './lowercase/l';
+import * as LettermLower from './lowercase/m';
+import * as LetternLower from './lowercase/n';
+import * as LetteroLower from './lowercase/o';
+import * as LetterpLower from './lowercase/p';
+import * as LetterqLower from './lowercase/q';
+import * as LetterrLower from './lowercase/r';
+import * as LettersLower from './lowercase/s';
+import * as LettertLower from './lowercase/t';
+import * as LetteruLower from './lowercase/u';
+import * as LettervLower from './lowercase/v';
+import * as LetterwLower from './lowercase/w';
+import * as LetterxLower from './lowercase/x';
+import * as LetteryLower from './lowercase/y';
+import * as LetterzLower from './lowercase/z';
+import * as Digit0 from './digits/0';
+import * as Digit1 from './digits/1';
+import * as Digit2 from './digits/2';
+import * as Digit3 from './digits/3';
+import * as Digit4 from './digits/4';
+import * as Digit5 from './digits/5';
+import * as Digit6 from './digits/6';
+import * as Digit7 from './digits/7';
+import * as Digit8 from './digits/8';
+import * as Digit9 from './digits/9';
+import * as MarkPeriod from './punctuation/period';
+import * as MarkComma from './punctuation/comma';
+import * as MarkQuestion from './punctuation/question';
+import * as MarkExclamation from './punctuation/exclamation';
 
-// Letter registry - all 26 uppercase letters
-const LETTERS: Record<string, LetterDefinition> = {
+// Glyph registries - all 26 letters in each case, plus numerals and punctuation
+const UPPERCASE_LETTERS: Record<string, LetterDefinition> = {
   A: LetterA,
   B: LetterB,
   C: LetterC,
@@ -58,37 +99,116 @@ const LETTERS: Record<string, LetterDefinition> = {
   Z: LetterZ,
 };
 
+const LOWERCASE_LETTERS: Record<string, LetterDefinition> = {
+  a: LetteraLower,
+  b: LetterbLower,
+  c: LettercLower,
+  d: LetterdLower,
+  e: LettereLower,
+  f: LetterfLower,
+  g: LettergLower,
+  h: LetterhLower,
+  i: LetteriLower,
+  j: LetterjLower,
+  k: LetterkLower,
+  l: LetterlLower,
+  m: LettermLower,
+  n: LetternLower,
+  o: LetteroLower,
+  p: LetterpLower,
+  q: LetterqLower,
+  r: LetterrLower,
+  s: LettersLower,
+  t: LettertLower,
+  u: LetteruLower,
+  v: LettervLower,
+  w: LetterwLower,
+  x: LetterxLower,
+  y: LetteryLower,
+  z: LetterzLower,
+};
+
+const DIGITS: Record<string, LetterDefinition> = {
+  '0': Digit0,
+  '1': Digit1,
+  '2': Digit2,
+  '3': Digit3,
+  '4': Digit4,
+  '5': Digit5,
+  '6': Digit6,
+  '7': Digit7,
+  '8': Digit8,
+  '9': Digit9,
+};
+
+// Traced by shape only: there is no recognizer here to map them to classes
+const PUNCTUATION: Record<string, LetterDefinition> = {
+  '.': MarkPeriod,
+  ',': MarkComma,
+  '?': MarkQuestion,
+  '!': MarkExclamation,
+};
+
+const REGISTRY: Record<GlyphSet, Record<string, LetterDefinition>> = {
+  uppercase: UPPERCASE_LETTERS,
+  lowercase: LOWERCASE_LETTERS,
+  digits: DIGITS,
+  punctuation: PUNCTUATION,
+};
+
+/**
+ * Infer the glyph set from the character itself ('a' → lowercase, 'A' → uppercase, '7' → digits, '?' → punctuation)
+ */
+export function caseOf(letter: string): GlyphSet {
+  if (/^[0-9]$/.test(letter)) return 'digits';
+  if (/^[.,?!]$/.test(letter)) return 'punctuation';
+  return letter !== letter.toUpperCase() ? 'lowercase' : 'uppercase';
+}
+
+function keyFor(letter: string, letterCase: GlyphSet): string {
+  if (letterCase === 'digits' || letterCase === 'punctuation') return letter;
+  return letterCase === 'lowercase' ? letter.toLowerCase() : letter.toUpperCase();
+}
+
 /**
  * Load a letter's build function and theme
- * @param letter - The letter to load (case-insensitive)
+ * @param letter - The letter to load
+ * @param letterCase - Which form to load; inferred from the character when omitted
+ * @param pack - Handwriting model to draw it in; print when omitted
  * @returns LetterDefinition containing build function and theme
+ * @throws if the letter has no definition in that case
  */
-export function loadLetter(letter: string): LetterDefinition {
-  const upperLetter = letter.toUpperCase();
-  
-  if (!LETTERS[upperLetter]) {
-    console.warn(`Letter ${upperLetter} not found, falling back to A`);
-    return LETTERS.A;
+export function loadLetter(
+  letter: string,
+  letterCase: GlyphSet = caseOf(letter),
+  pack: ScriptPack = SCRIPT_PACKS[DEFAULT_SCRIPT_PACK]
+): LetterDefinition {
+  const definition = REGISTRY[letterCase][keyFor(letter, letterCase)];
+
+  if (!definition) {
+    throw new Error(`Letter not found: ${letter} (${letterCase})`);
   }
-  
-  return LETTERS[upperLetter];
+
+  return applyScriptPack(definition, letterCase, pack);
 }
 
 /**
  * Get list of all available letters
+ * @param letterCase - Which case (or the numerals or punctuation) to list
  * @returns Array of available letter keys (sorted alphabetically)
  */
-export function getAvailableLetters(): string[] {
-  return Object.keys(LETTERS).sort();
+export function getAvailableLetters(letterCase: GlyphSet = 'uppercase'): string[] {
+  return Object.keys(REGISTRY[letterCase]).sort();
 }
 
 /**
  * Check if a letter is available
  * @param letter - The letter to check
+ * @param letterCase - Which form to check; inferred from the character when omitted
  * @returns boolean indicating if letter exists
  */
-export function isLetterAvailable(letter: string): boolean {
-  return letter.toUpperCase() in LETTERS;
+export function isLetterAvailable(letter: string, letterCase: GlyphSet = caseOf(letter)): boolean {
+  return keyFor(letter, letterCase) in REGISTRY[letterCase];
 }
 
 // Re-export types for convenience
@@ -96,6 +216,10 @@ export type {
   LetterDefinition, 
   LetterBuild, 
   LetterTheme, 
+  WritingGuides,
+  GlyphSet,
+  ScriptPack,
+  ScriptPackId,
   BoundingBox, 
   Segment, 
   Point 
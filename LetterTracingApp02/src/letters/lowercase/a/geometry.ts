@@ -0,0 +1,30 @@
+// src/letters/lowercase/a/geometry.ts
+// Lowercase letter a — single-storey a: round bowl + stem
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Bowl
+   * From the x-height, round to the left and back up
+   */
+  bowl: 'M 45,40 C 37.82,40 32,46.72 32,55 C 32,63.28 37.82,70 45,70 C 52.18,70 58,63.28 58,55 C 58,46.72 52.18,40 45,40',
+
+  /**
+   * STROKE 2 — Stem
+   * X-height to baseline on the right of the bowl
+   */
+  stem: 'M 58,40 L 58,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Round Bowl',
+    path: RAW_PATHS.bowl,
+    description: 'Start at the top and go round to the left to close the bowl',
+  },
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Go up to the top of the bowl and pull straight down',
+  },
+];
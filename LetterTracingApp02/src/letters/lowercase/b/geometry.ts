@@ -0,0 +1,30 @@
+// src/letters/lowercase/b/geometry.ts
+// Lowercase letter b — tall stem + bowl on the right
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Ascender to baseline
+   */
+  stem: 'M 35,10 L 35,70',
+
+  /**
+   * STROKE 2 — Bowl
+   * Clockwise from the middle of the stem
+   */
+  bowl: 'M 35,55 C 35,46.72 40.82,40 48,40 C 55.18,40 61,46.72 61,55 C 61,63.28 55.18,70 48,70 C 40.82,70 35,63.28 35,55',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Tall Stem',
+    path: RAW_PATHS.stem,
+    description: 'Start at the top line and pull straight down',
+  },
+  {
+    name: 'Round Bowl',
+    path: RAW_PATHS.bowl,
+    description: 'Go back up and bounce round to the right to make the bowl',
+  },
+];
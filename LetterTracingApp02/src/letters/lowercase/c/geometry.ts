@@ -0,0 +1,19 @@
+// src/letters/lowercase/c/geometry.ts
+// Lowercase letter c — single open arc between x-height and baseline
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Arc
+   * From upper right, anticlockwise to lower right
+   */
+  cArc: 'M 58,44 C 54.5,41 50,40 46,40 C 38.82,40 33,46.72 33,55 C 33,63.28 38.82,70 46,70 C 50,70 54.5,69 58,66',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'C Arc',
+    path: RAW_PATHS.cArc,
+    description: 'Start near the top right and curve round to the left',
+  },
+];
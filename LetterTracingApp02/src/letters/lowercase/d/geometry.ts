@@ -0,0 +1,30 @@
+// src/letters/lowercase/d/geometry.ts
+// Lowercase letter d — round bowl + tall stem on the right
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Bowl
+   * Same round bowl as a
+   */
+  bowl: 'M 45,40 C 37.82,40 32,46.72 32,55 C 32,63.28 37.82,70 45,70 C 52.18,70 58,63.28 58,55 C 58,46.72 52.18,40 45,40',
+
+  /**
+   * STROKE 2 — Stem
+   * Ascender to baseline
+   */
+  stem: 'M 58,10 L 58,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Round Bowl',
+    path: RAW_PATHS.bowl,
+    description: 'Start at the top and go round to the left to close the bowl',
+  },
+  {
+    name: 'Tall Stem',
+    path: RAW_PATHS.stem,
+    description: 'Go right up to the top line and pull straight down',
+  },
+];
@@ -0,0 +1,42 @@
+// src/letters/lowercase/d/index.ts
+
+import type { LetterBuild, LetterTheme, BoundingBox } from '../../types';
+import { scalePathsToFrame, pointsToPathD } from '../../utils/pathParser';
+import { LOWERCASE_VIEWBOX, LOWERCASE_PADDING, buildWritingGuides } from '../metrics';
+import { theme as capitalTheme } from '../../uppercase/D';
+import { STROKE_ORDER } from './geometry';
+
+// Raw stroke geometry, used to lay out whole words
+export { STROKE_ORDER as strokes } from './geometry';
+
+export const build: LetterBuild = (box: BoundingBox) => {
+  // Scale against the writing frame so x-height and ascender stay in proportion
+  const scaledPaths = scalePathsToFrame(
+    STROKE_ORDER.map(stroke => ({ path: stroke.path, numPoints: 250 })),
+    LOWERCASE_VIEWBOX,
+    box,
+    LOWERCASE_PADDING
+  );
+
+  // Build segments with scaled points
+  const segments = STROKE_ORDER.map((stroke, index) => {
+    const points = scaledPaths[index];
+
+    return {
+      name: stroke.name,
+      description: stroke.description,
+      d: pointsToPathD(points),
+      pts: points,
+      start: points[0] || { x: 0, y: 0, angle: 0 },
+      end: points[points.length - 1] || { x: 0, y: 0, angle: 0 },
+    };
+  });
+
+  return { segments, guides: buildWritingGuides(box) };
+};
+
+// Same palette and avatar as the capital
+export const theme: LetterTheme = {
+  ...capitalTheme,
+  id: 'd',
+};
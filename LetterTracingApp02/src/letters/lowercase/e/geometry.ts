@@ -0,0 +1,19 @@
+// src/letters/lowercase/e/geometry.ts
+// Lowercase letter e — crossbar continuing into an open arc
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Single stroke
+   * Across the middle, over the top and round to the lower right
+   */
+  eStroke: 'M 33,55 L 59,55 C 59,46.72 53.18,40 46,40 C 38.82,40 33,46.72 33,55 C 33,63.28 38.82,70 46,70 C 51,70 55,68 58,65',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'E Curve',
+    path: RAW_PATHS.eStroke,
+    description: 'Go across the middle, then up and round to the left',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/f/geometry.ts
+// Lowercase letter f — hooked tall stem + crossbar at the x-height
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Hook and stem
+   * Curl over from the right, then down to the baseline
+   */
+  hookStem: 'M 60,14 C 56,10.5 51,9.5 47.5,11 C 44,12.5 42,16 42,22 L 42,70',
+
+  /**
+   * STROKE 2 — Crossbar
+   * Along the x-height
+   */
+  crossbar: 'M 32,40 L 54,40',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Hook and Stem',
+    path: RAW_PATHS.hookStem,
+    description: 'Start at the top right, curl over and pull down',
+  },
+  {
+    name: 'Crossbar',
+    path: RAW_PATHS.crossbar,
+    description: 'Cross it on the middle line from left to right',
+  },
+];
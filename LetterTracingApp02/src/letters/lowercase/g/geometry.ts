@@ -0,0 +1,30 @@
+// src/letters/lowercase/g/geometry.ts
+// Lowercase letter g — round bowl + descender with a hook to the left
+// Drawn in LOWERCASE_VIEWBOX; reaches the descender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Bowl
+   * Same round bowl as a
+   */
+  bowl: 'M 45,40 C 37.82,40 32,46.72 32,55 C 32,63.28 37.82,70 45,70 C 52.18,70 58,63.28 58,55 C 58,46.72 52.18,40 45,40',
+
+  /**
+   * STROKE 2 — Tail
+   * Down through the baseline and hook left on the descender
+   */
+  tail: 'M 58,40 L 58,84 C 58,91 53,95 46,95 C 41,95 37,93.5 34,90.5',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Round Bowl',
+    path: RAW_PATHS.bowl,
+    description: 'Start at the top and go round to the left to close the bowl',
+  },
+  {
+    name: 'Hooked Tail',
+    path: RAW_PATHS.tail,
+    description: 'Pull down below the line and hook to the left',
+  },
+];
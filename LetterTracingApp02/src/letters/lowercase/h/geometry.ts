@@ -0,0 +1,30 @@
+// src/letters/lowercase/h/geometry.ts
+// Lowercase letter h — tall stem + hump
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Ascender to baseline
+   */
+  stem: 'M 35,10 L 35,70',
+
+  /**
+   * STROKE 2 — Hump
+   * Springs from the stem, over and down to the baseline
+   */
+  hump: 'M 35,52 C 35,45 40,40 47,40 C 54,40 59,45 59,52 L 59,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Tall Stem',
+    path: RAW_PATHS.stem,
+    description: 'Start at the top line and pull straight down',
+  },
+  {
+    name: 'Hump',
+    path: RAW_PATHS.hump,
+    description: 'Go back up, over the hill and down',
+  },
+];
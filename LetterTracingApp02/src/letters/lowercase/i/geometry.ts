@@ -0,0 +1,30 @@
+// src/letters/lowercase/i/geometry.ts
+// Lowercase letter i — short stem + dot
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * X-height to baseline
+   */
+  stem: 'M 50,40 L 50,70',
+
+  /**
+   * STROKE 2 — Dot
+   * Small circle above the x-height
+   */
+  dot: 'M 50,24.5 C 48.62,24.5 47.5,25.62 47.5,27 C 47.5,28.38 48.62,29.5 50,29.5 C 51.38,29.5 52.5,28.38 52.5,27 C 52.5,25.62 51.38,24.5 50,24.5',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down from the middle line',
+  },
+  {
+    name: 'Dot',
+    path: RAW_PATHS.dot,
+    description: 'Add the dot on top',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/j/geometry.ts
+// Lowercase letter j — descending stem with a hook + dot
+// Drawn in LOWERCASE_VIEWBOX; reaches the descender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem and hook
+   * X-height down to the descender, hooking left
+   */
+  tail: 'M 55,40 L 55,86 C 55,92 51.5,95 47,95 C 43,95 40,93.5 37.5,90.5',
+
+  /**
+   * STROKE 2 — Dot
+   * Small circle above the x-height
+   */
+  dot: 'M 55,24.5 C 53.62,24.5 52.5,25.62 52.5,27 C 52.5,28.38 53.62,29.5 55,29.5 C 56.38,29.5 57.5,28.38 57.5,27 C 57.5,25.62 56.38,24.5 55,24.5',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Hooked Stem',
+    path: RAW_PATHS.tail,
+    description: 'Pull down below the line and hook to the left',
+  },
+  {
+    name: 'Dot',
+    path: RAW_PATHS.dot,
+    description: 'Add the dot on top',
+  },
+];
@@ -0,0 +1,41 @@
+// src/letters/lowercase/k/geometry.ts
+// Lowercase letter k — tall stem + arm + leg
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Ascender to baseline
+   */
+  stem: 'M 35,10 L 35,70',
+
+  /**
+   * STROKE 2 — Arm
+   * From the x-height in towards the stem
+   */
+  arm: 'M 58,40 L 35,58',
+
+  /**
+   * STROKE 3 — Leg
+   * Out from the arm to the baseline
+   */
+  leg: 'M 42,53 L 60,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Tall Stem',
+    path: RAW_PATHS.stem,
+    description: 'Start at the top line and pull straight down',
+  },
+  {
+    name: 'Arm',
+    path: RAW_PATHS.arm,
+    description: 'Slide in from the middle line to the stem',
+  },
+  {
+    name: 'Leg',
+    path: RAW_PATHS.leg,
+    description: 'Slide back out to the bottom line',
+  },
+];
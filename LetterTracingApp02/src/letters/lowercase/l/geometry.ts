@@ -0,0 +1,19 @@
+// src/letters/lowercase/l/geometry.ts
+// Lowercase letter l — single tall stem
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Ascender to baseline
+   */
+  stem: 'M 50,10 L 50,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Tall Stem',
+    path: RAW_PATHS.stem,
+    description: 'Start at the top line and pull straight down',
+  },
+];
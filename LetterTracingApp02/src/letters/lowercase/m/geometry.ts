@@ -0,0 +1,41 @@
+// src/letters/lowercase/m/geometry.ts
+// Lowercase letter m — short stem + two humps
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * X-height to baseline
+   */
+  stem: 'M 28,40 L 28,70',
+
+  /**
+   * STROKE 2 — First hump
+   * Springs from the stem
+   */
+  firstHump: 'M 28,50 C 28,44 32,40 37,40 C 42,40 46,44 46,50 L 46,70',
+
+  /**
+   * STROKE 3 — Second hump
+   * Springs from the first
+   */
+  secondHump: 'M 46,50 C 46,44 50,40 55,40 C 60,40 64,44 64,50 L 64,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down from the middle line',
+  },
+  {
+    name: 'First Hump',
+    path: RAW_PATHS.firstHump,
+    description: 'Go back up, over the first hill and down',
+  },
+  {
+    name: 'Second Hump',
+    path: RAW_PATHS.secondHump,
+    description: 'Go back up, over the second hill and down',
+  },
+];
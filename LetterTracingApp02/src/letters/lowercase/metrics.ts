@@ -0,0 +1,47 @@
+// src/letters/lowercase/metrics.ts
+// Shared four-line writing frame for lowercase letters
+
+import type { BoundingBox, GlyphSet, WritingGuides } from '../types';
+import { frameYToBox } from '../utils/pathParser';
+
+export const LOWERCASE_VIEWBOX = {
+  width: 100,
+  height: 100,
+};
+
+/**
+ * Guide lines (y in viewBox units), as on a school handwriting sheet:
+ * - Ascender  : top of b, d, f, h, k, l
+ * - x-height  : top of a, c, e, m, n, o ...
+ * - Baseline  : where every letter sits
+ * - Descender : bottom of g, j, p, q, y
+ */
+export const LOWERCASE_LINES = {
+  ascender: 10,
+  xHeight: 40,
+  baseline: 70,
+  descender: 95,
+};
+
+export const LOWERCASE_PADDING = 30;
+
+/**
+ * Lowercase letters and punctuation are drawn in this frame; capitals and numerals fill their box
+ */
+export function usesWritingFrame(glyphSet: GlyphSet): boolean {
+  return glyphSet === 'lowercase' || glyphSet === 'punctuation';
+}
+
+/**
+ * Guide lines mapped into the box a lowercase letter was built for
+ */
+export function buildWritingGuides(box: BoundingBox): WritingGuides {
+  const toBox = (y: number) => frameYToBox(y, LOWERCASE_VIEWBOX, box, LOWERCASE_PADDING);
+
+  return {
+    ascender: toBox(LOWERCASE_LINES.ascender),
+    xHeight: toBox(LOWERCASE_LINES.xHeight),
+    baseline: toBox(LOWERCASE_LINES.baseline),
+    descender: toBox(LOWERCASE_LINES.descender),
+  };
+}
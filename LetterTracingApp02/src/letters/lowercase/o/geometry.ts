@@ -0,0 +1,19 @@
+// src/letters/lowercase/o/geometry.ts
+// Lowercase letter o — closed oval between x-height and baseline
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Oval
+   * Anticlockwise from the top
+   */
+  oval: 'M 46,40 C 38.82,40 33,46.72 33,55 C 33,63.28 38.82,70 46,70 C 53.18,70 59,63.28 59,55 C 59,46.72 53.18,40 46,40',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Oval',
+    path: RAW_PATHS.oval,
+    description: 'Start at the top and go all the way round to the left',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/p/geometry.ts
+// Lowercase letter p — descending stem + bowl on the right
+// Drawn in LOWERCASE_VIEWBOX; reaches the descender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * X-height to descender
+   */
+  stem: 'M 35,40 L 35,95',
+
+  /**
+   * STROKE 2 — Bowl
+   * Clockwise from the x-height
+   */
+  bowl: 'M 35,55 C 35,46.72 40.82,40 48,40 C 55.18,40 61,46.72 61,55 C 61,63.28 55.18,70 48,70 C 40.82,70 35,63.28 35,55',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Long Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down below the line',
+  },
+  {
+    name: 'Round Bowl',
+    path: RAW_PATHS.bowl,
+    description: 'Go back up and bounce round to the right to make the bowl',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/r/geometry.ts
+// Lowercase letter r — short stem + shoulder
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * X-height to baseline
+   */
+  stem: 'M 38,40 L 38,70',
+
+  /**
+   * STROKE 2 — Shoulder
+   * Springs from the stem and stops at the x-height
+   */
+  shoulder: 'M 38,52 C 38,45 43,40 50,40 C 54,40 57,41 60,43',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down from the middle line',
+  },
+  {
+    name: 'Shoulder',
+    path: RAW_PATHS.shoulder,
+    description: 'Go back up and over to the right',
+  },
+];
@@ -0,0 +1,19 @@
+// src/letters/lowercase/s/geometry.ts
+// Lowercase letter s — single continuous s curve within the x-height
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Single stroke
+   * Top arc into mirrored bottom arc
+   */
+  sStroke: 'M 57,44 C 54,41 50,40 46,40 C 39,40 35,43 35,47.5 C 35,52 40,54 46,55 C 52,56 58,58 58,62.5 C 58,67 53,70 46,70 C 41,70 37,69 34,66',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'S Curve',
+    path: RAW_PATHS.sStroke,
+    description: 'Curve left, slide across and curve back round',
+  },
+];
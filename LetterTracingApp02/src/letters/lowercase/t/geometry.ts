@@ -0,0 +1,30 @@
+// src/letters/lowercase/t/geometry.ts
+// Lowercase letter t — stem with a flick + crossbar
+// Drawn in LOWERCASE_VIEWBOX; reaches the ascender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Below the ascender, flicking right at the baseline
+   */
+  stem: 'M 46,18 L 46,64 C 46,68 48,70 52,70 C 55,70 57,69 58,68',
+
+  /**
+   * STROKE 2 — Crossbar
+   * Along the x-height
+   */
+  crossbar: 'M 36,40 L 56,40',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Start below the top line, pull down and flick right',
+  },
+  {
+    name: 'Crossbar',
+    path: RAW_PATHS.crossbar,
+    description: 'Cross it on the middle line from left to right',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/u/geometry.ts
+// Lowercase letter u — cup + right stem
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Cup
+   * Down, round the bottom and up
+   */
+  cup: 'M 35,40 L 35,58 C 35,65 40,70 47,70 C 54,70 59,65 59,58 L 59,40',
+
+  /**
+   * STROKE 2 — Stem
+   * X-height to baseline on the right
+   */
+  stem: 'M 59,40 L 59,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Cup',
+    path: RAW_PATHS.cup,
+    description: 'Go down, round the bottom and back up',
+  },
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/v/geometry.ts
+// Lowercase letter v — two diagonals meeting on the baseline
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Left diagonal
+   * Down to the baseline
+   */
+  leftDiagonal: 'M 33,40 L 46,70',
+
+  /**
+   * STROKE 2 — Right diagonal
+   * Back up to the x-height
+   */
+  rightDiagonal: 'M 46,70 L 59,40',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Left Diagonal',
+    path: RAW_PATHS.leftDiagonal,
+    description: 'Slide down to the bottom line',
+  },
+  {
+    name: 'Right Diagonal',
+    path: RAW_PATHS.rightDiagonal,
+    description: 'Slide back up to the middle line',
+  },
+];
@@ -0,0 +1,52 @@
+// src/letters/lowercase/w/geometry.ts
+// Lowercase letter w — four diagonals: down, up, down, up
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — First diagonal
+   * Down
+   */
+  firstDown: 'M 25,40 L 34,70',
+
+  /**
+   * STROKE 2 — Second diagonal
+   * Up
+   */
+  firstUp: 'M 34,70 L 43,40',
+
+  /**
+   * STROKE 3 — Third diagonal
+   * Down
+   */
+  secondDown: 'M 43,40 L 52,70',
+
+  /**
+   * STROKE 4 — Fourth diagonal
+   * Up
+   */
+  secondUp: 'M 52,70 L 61,40',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'First Down',
+    path: RAW_PATHS.firstDown,
+    description: 'Slide down to the bottom line',
+  },
+  {
+    name: 'First Up',
+    path: RAW_PATHS.firstUp,
+    description: 'Slide up to the middle line',
+  },
+  {
+    name: 'Second Down',
+    path: RAW_PATHS.secondDown,
+    description: 'Slide down again',
+  },
+  {
+    name: 'Second Up',
+    path: RAW_PATHS.secondUp,
+    description: 'Slide up again',
+  },
+];
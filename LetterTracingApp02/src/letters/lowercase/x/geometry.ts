@@ -0,0 +1,30 @@
+// src/letters/lowercase/x/geometry.ts
+// Lowercase letter x — two crossing diagonals
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — First diagonal
+   * Top-left to bottom-right
+   */
+  downRight: 'M 35,40 L 59,70',
+
+  /**
+   * STROKE 2 — Second diagonal
+   * Top-right to bottom-left
+   */
+  downLeft: 'M 59,40 L 35,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Down Right',
+    path: RAW_PATHS.downRight,
+    description: 'Slide from the top left to the bottom right',
+  },
+  {
+    name: 'Down Left',
+    path: RAW_PATHS.downLeft,
+    description: 'Slide from the top right to the bottom left',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/lowercase/y/geometry.ts
+// Lowercase letter y — short diagonal + long diagonal into the descender
+// Drawn in LOWERCASE_VIEWBOX; reaches the descender line
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Short diagonal
+   * X-height to baseline
+   */
+  shortDiagonal: 'M 34,40 L 47,70',
+
+  /**
+   * STROKE 2 — Long diagonal
+   * X-height through the baseline to the descender
+   */
+  longDiagonal: 'M 60,40 L 40,95',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Short Diagonal',
+    path: RAW_PATHS.shortDiagonal,
+    description: 'Slide down to the bottom line',
+  },
+  {
+    name: 'Long Diagonal',
+    path: RAW_PATHS.longDiagonal,
+    description: 'Slide all the way down below the line',
+  },
+];
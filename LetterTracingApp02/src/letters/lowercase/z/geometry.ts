@@ -0,0 +1,19 @@
+// src/letters/lowercase/z/geometry.ts
+// Lowercase letter z — single zig-zag stroke
+// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Single stroke
+   * Across, diagonal back, across
+   */
+  zStroke: 'M 35,40 L 59,40 L 35,70 L 59,70',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Z Zig-Zag',
+    path: RAW_PATHS.zStroke,
+    description: 'Go across, slide down to the left, go across again',
+  },
+];
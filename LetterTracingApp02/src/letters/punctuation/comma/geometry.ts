@@ -0,0 +1,19 @@
+// src/letters/punctuation/comma/geometry.ts
+// Comma — short curved tail from the baseline down to the left
+// Drawn in LOWERCASE_VIEWBOX so it sits on the line beside letters
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Tail
+   * Just above the baseline, curving down below it to the left
+   */
+  tail: 'M 51,64 C 53,66 53,70 51,74 C 50,76 48,78 46,79',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Tail',
+    path: RAW_PATHS.tail,
+    description: 'Start on the line and curl down to the left',
+  },
+];
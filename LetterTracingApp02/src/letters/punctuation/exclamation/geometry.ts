@@ -0,0 +1,30 @@
+// src/letters/punctuation/exclamation/geometry.ts
+// Exclamation mark — tall stem + dot
+// Drawn in LOWERCASE_VIEWBOX so it sits on the line beside letters
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Stem
+   * Top line down, stopping short of the baseline
+   */
+  stem: 'M 50,10 L 50,56',
+
+  /**
+   * STROKE 2 — Dot
+   * Small circle resting on the baseline
+   */
+  dot: 'M 50,65 C 48.62,65 47.5,66.12 47.5,67.5 C 47.5,68.88 48.62,70 50,70 C 51.38,70 52.5,68.88 52.5,67.5 C 52.5,66.12 51.38,65 50,65',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Stem',
+    path: RAW_PATHS.stem,
+    description: 'Pull straight down from the top line',
+  },
+  {
+    name: 'Dot',
+    path: RAW_PATHS.dot,
+    description: 'Add the dot on the line',
+  },
+];
@@ -0,0 +1,19 @@
+// src/letters/punctuation/period/geometry.ts
+// Full stop — one dot on the baseline
+// Drawn in LOWERCASE_VIEWBOX so it sits on the line beside letters
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Dot
+   * Small circle resting on the baseline
+   */
+  dot: 'M 50,65 C 48.62,65 47.5,66.12 47.5,67.5 C 47.5,68.88 48.62,70 50,70 C 51.38,70 52.5,68.88 52.5,67.5 C 52.5,66.12 51.38,65 50,65',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Dot',
+    path: RAW_PATHS.dot,
+    description: 'Make a small dot on the line',
+  },
+];
@@ -0,0 +1,30 @@
+// src/letters/punctuation/question/geometry.ts
+// Question mark — hook + dot
+// Drawn in LOWERCASE_VIEWBOX so it sits on the line beside letters
+
+export const RAW_PATHS = {
+  /**
+   * STROKE 1 — Hook
+   * Up and over from the left, round and back into the middle, then down
+   */
+  hook: 'M 36,22 C 38,12 48,9 55,10 C 64,12 68,20 65,28 C 62,35 50,38 50,46 L 50,56',
+
+  /**
+   * STROKE 2 — Dot
+   * Small circle resting on the baseline
+   */
+  dot: 'M 50,65 C 48.62,65 47.5,66.12 47.5,67.5 C 47.5,68.88 48.62,70 50,70 C 51.38,70 52.5,68.88 52.5,67.5 C 52.5,66.12 51.38,65 50,65',
+};
+
+export const STROKE_ORDER = [
+  {
+    name: 'Hook',
+    path: RAW_PATHS.hook,
+    description: 'Curve up and over, come back to the middle and go down',
+  },
+  {
+    name: 'Dot',
+    path: RAW_PATHS.dot,
+    description: 'Add the dot on the line',
+  },
+];
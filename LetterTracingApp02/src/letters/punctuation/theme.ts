@@ -0,0 +1,23 @@
+// src/letters/punctuation/theme.ts
+// One palette and avatar for every punctuation mark
+
+import type { LetterTheme } from '../types';
+
+export const PUNCTUATION_THEME: LetterTheme = {
+  id: 'punctuation',
+  background: require('../../../assets/images/background.png'),
+  avatar: {
+    idle: require('../../../assets/images/tiger-waving.png'),
+    happy: require('../../../assets/images/tiger-happy.png'),
+    surprised: require('../../../assets/images/tiger-surprised.png'),
+  },
+  colors: {
+    pathGradientStart: '#BE185D',
+    pathGradientEnd: '#F472B6',
+    guideDot: '#FBCFE8',
+  },
+  bee: {
+    speedMsPerPoint: 6,
+    pauseAtEndMs: 200,
+  },
+};
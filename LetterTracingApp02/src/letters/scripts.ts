@@ -0,0 +1,316 @@
+// src/letters/scripts.ts
+// Script packs: the handwriting models schools teach, derived from the print glyphs
+
+import type {
+  BoundingBox,
+  GlyphSet,
+  LetterBuild,
+  LetterDefinition,
+  ScriptPack,
+  ScriptPackId,
+  StrokeDefinition,
+} from './types';
+import {
+  LOWERCASE_LINES,
+  LOWERCASE_PADDING,
+  LOWERCASE_VIEWBOX,
+  buildWritingGuides,
+  usesWritingFrame,
+} from './lowercase/metrics';
+import {
+  Subpath,
+  flattenSubpaths,
+  parsePathSegments,
+  pointsToPathD,
+  scaleMultiplePathsToBox,
+  scalePathsToFrame,
+} from './utils/pathParser';
+
+interface XY {
+  x: number;
+  y: number;
+}
+
+export const SCRIPT_PACKS: Record<ScriptPackId, ScriptPack> = {
+  print: {
+    id: 'print',
+    name: 'Print',
+    description: 'Upright ball-and-stick letters',
+    slant: 0,
+    leadIns: false,
+    exits: 'none',
+    joined: false,
+  },
+  precursive: {
+    id: 'precursive',
+    name: 'Pre-cursive',
+    description: 'Upright letters that start on the line and finish with an exit stroke, ready to join',
+    slant: 0,
+    leadIns: true,
+    exits: 'all',
+    joined: false,
+  },
+  cursive: {
+    id: 'cursive',
+    name: 'Cursive',
+    description: 'Pre-cursive letters joined within a word, each exit running into the next lead-in',
+    slant: 0,
+    leadIns: true,
+    exits: 'all',
+    joined: true,
+  },
+  dnealian: {
+    id: 'dnealian',
+    name: "D'Nealian",
+    description: 'Slanted manuscript with a tail on letters that finish at the baseline',
+    slant: 8,
+    leadIns: false,
+    exits: 'baseline',
+    joined: false,
+  },
+};
+
+export const DEFAULT_SCRIPT_PACK: ScriptPackId = 'print';
+
+// How far (viewBox units) a stroke end may sit from the baseline or x-height and still join there
+const JOIN_ZONE = 6;
+// Lead-ins start this far left of the glyph; exits finish this far right of it
+const LEAD_IN_OFFSET = 8;
+const EXIT_LENGTH = 8;
+
+const UP_AND_RIGHT: XY = { x: 0.8, y: -0.6 };
+const STEEPLY_UP: XY = { x: 0.45, y: -0.9 };
+const ACROSS: XY = { x: 1, y: 0.15 };
+
+/**
+ * A pack by id, falling back to print for missing or unknown ids (e.g. a stale saved setting)
+ */
+export function getScriptPack(id: string | null | undefined): ScriptPack {
+  return SCRIPT_PACKS[(id ?? DEFAULT_SCRIPT_PACK) as ScriptPackId] ?? SCRIPT_PACKS[DEFAULT_SCRIPT_PACK];
+}
+
+const derived = new WeakMap<LetterDefinition, Map<ScriptPackId, LetterDefinition>>();
+
+/**
+ * A print glyph redrawn in a script pack (print itself comes back unchanged)
+ */
+export function applyScriptPack(
+  definition: LetterDefinition,
+  letterCase: GlyphSet,
+  pack: ScriptPack
+): LetterDefinition {
+  if (pack.id === 'print') return definition;
+
+  const cache = derived.get(definition) ?? new Map<ScriptPackId, LetterDefinition>();
+  derived.set(definition, cache);
+
+  const cached = cache.get(pack.id);
+  if (cached) return cached;
+
+  const strokes = scriptStrokes(definition.strokes, letterCase, pack);
+  const result = { ...definition, strokes, build: buildFromStrokes(strokes, letterCase) };
+  cache.set(pack.id, result);
+  return result;
+}
+
+/**
+ * Stroke order in a script pack: slant first, then the lead-in before the
+ * letter's own strokes and the exit after them
+ */
+export function scriptStrokes(
+  strokes: StrokeDefinition[],
+  letterCase: GlyphSet,
+  pack: ScriptPack
+): StrokeDefinition[] {
+  const slanted = pack.slant === 0 ? strokes : slantStrokes(strokes, letterCase, pack.slant);
+  if (letterCase !== 'lowercase') return slanted;
+
+  const entry = pack.leadIns ? leadInStroke(slanted) : null;
+  const exit = pack.exits !== 'none' ? exitStroke(slanted, pack.exits) : null;
+
+  return [...(entry ? [entry] : []), ...slanted, ...(exit ? [exit] : [])];
+}
+
+/**
+ * Cubic from one point to another, leaving and arriving along the given directions
+ * Lead-ins, exits and the joins between letters in a word are all drawn this way.
+ */
+export function joinPath(from: XY, fromDirection: XY, to: XY, toDirection: XY): string {
+  const reach = Math.hypot(to.x - from.x, to.y - from.y) * 0.4;
+  const c1 = { x: from.x + fromDirection.x * reach, y: from.y + fromDirection.y * reach };
+  const c2 = { x: to.x - toDirection.x * reach, y: to.y - toDirection.y * reach };
+  return `M ${fmt(from.x)},${fmt(from.y)} C ${fmt(c1.x)},${fmt(c1.y)} ${fmt(c2.x)},${fmt(c2.y)} ${fmt(to.x)},${fmt(to.y)}`;
+}
+
+/**
+ * Unit direction a polyline leaves its start (or arrives at its end) with
+ */
+export function strokeDirection(points: XY[], at: 'start' | 'end', minDistance: number = 2): XY {
+  const ordered = at === 'start' ? points : [...points].reverse();
+  const origin = ordered[0];
+  const ahead =
+    ordered.find(p => Math.hypot(p.x - origin.x, p.y - origin.y) >= minDistance) ??
+    ordered[ordered.length - 1];
+  const length = Math.hypot(ahead.x - origin.x, ahead.y - origin.y) || 1;
+  const sign = at === 'start' ? 1 : -1;
+  return { x: (sign * (ahead.x - origin.x)) / length, y: (sign * (ahead.y - origin.y)) / length };
+}
+
+/**
+ * Lead-in from the baseline, left of the letter, sweeping up into its first stroke
+ * When that stroke heads down or back left (l, n, a, c) the lead-in climbs
+ * steeply to its start and the child turns there, as pre-cursive is taught.
+ */
+function leadInStroke(strokes: StrokeDefinition[]): StrokeDefinition | null {
+  const first = pointsOf(strokes[0].path);
+  const start = first[0];
+  if (!start || start.y > LOWERCASE_LINES.baseline - JOIN_ZONE) return null;
+
+  const minX = Math.min(...strokes.flatMap(stroke => pointsOf(stroke.path)).map(p => p.x));
+  const origin = { x: minX - LEAD_IN_OFFSET, y: LOWERCASE_LINES.baseline };
+
+  const direction = strokeDirection(first, 'start');
+  const arrival = direction.y > 0.3 || direction.x < -0.3 ? STEEPLY_UP : direction;
+
+  return {
+    name: 'Lead-in',
+    path: joinPath(origin, UP_AND_RIGHT, start, arrival),
+    description: 'Start on the line and sweep up into the letter',
+    join: 'entry',
+  };
+}
+
+/**
+ * Exit from the right-most free stroke end on the baseline (a flick up) or the
+ * x-height (carried across, as after o, r, v and w)
+ * Ends that meet another stroke (the point of a y), closed shapes within a
+ * larger letter (the bowl of a g, a dot) and strokes finishing back along the
+ * baseline to the left (s) get no exit, so those letters don't join.
+ */
+function exitStroke(strokes: StrokeDefinition[], heights: 'baseline' | 'all'): StrokeDefinition | null {
+  const all = strokes.map(stroke => pointsOf(stroke.path));
+  const maxX = Math.max(...all.flat().map(p => p.x));
+
+  let best: { end: XY; direction: XY; height: 'baseline' | 'xHeight' } | null = null;
+  for (const [index, points] of all.entries()) {
+    const end = points[points.length - 1];
+    if (!end) continue;
+    if (all.length > 1 && isClosed(points)) continue;
+    if (all.some((other, j) => j !== index && distanceToPolyline(end, other) < JOIN_ZONE / 3)) continue;
+
+    const direction = strokeDirection(points, 'end');
+    const height =
+      Math.abs(end.y - LOWERCASE_LINES.baseline) <= JOIN_ZONE
+        ? 'baseline'
+        : Math.abs(end.y - LOWERCASE_LINES.xHeight) <= JOIN_ZONE
+          ? 'xHeight'
+          : null;
+    if (!height || (height === 'xHeight' && heights !== 'all')) continue;
+    if (height === 'baseline' && direction.x < -0.5) continue;
+    // A baseline flick can't run out under the rest of the letter (the stem of a b)
+    if (height === 'baseline' && all.flat().some(p => Math.abs(p.y - end.y) <= JOIN_ZONE && p.x > end.x + 2)) continue;
+
+    if (!best || end.x >= best.end.x) {
+      best = { end, direction, height };
+    }
+  }
+  if (!best) return null;
+
+  const { end, direction, height } = best;
+  const target = {
+    x: Math.max(end.x, maxX) + EXIT_LENGTH,
+    y: height === 'baseline' ? LOWERCASE_LINES.baseline - JOIN_ZONE : LOWERCASE_LINES.xHeight + 2,
+  };
+
+  return {
+    name: 'Exit',
+    path: joinPath(end, direction, target, height === 'baseline' ? UP_AND_RIGHT : ACROSS),
+    description: height === 'baseline' ? 'Flick up and out to the right' : 'Carry the line out to the right',
+    join: 'exit',
+  };
+}
+
+/**
+ * Shear strokes about the baseline (lowercase and punctuation) or the glyph's foot
+ */
+function slantStrokes(strokes: StrokeDefinition[], letterCase: GlyphSet, slant: number): StrokeDefinition[] {
+  const pivotY =
+    usesWritingFrame(letterCase)
+      ? LOWERCASE_LINES.baseline
+      : Math.max(...strokes.flatMap(stroke => pointsOf(stroke.path)).map(p => p.y));
+  const shear = Math.tan((slant * Math.PI) / 180);
+
+  return strokes.map(stroke => ({
+    ...stroke,
+    path: transformPath(stroke.path, p => ({ x: p.x + (pivotY - p.y) * shear, y: p.y })),
+  }));
+}
+
+/**
+ * Apply a point transform to path data (affine transforms keep curves exact)
+ */
+function transformPath(path: string, transform: (p: XY) => XY): string {
+  const pt = (p: XY) => {
+    const q = transform(p);
+    return `${fmt(q.x)},${fmt(q.y)}`;
+  };
+
+  return parsePathSegments(path)
+    .map((subpath: Subpath) => {
+      const commands = subpath.segments.map(segment =>
+        segment.type === 'line'
+          ? `L ${pt(segment.to)}`
+          : `C ${pt(segment.cp1)} ${pt(segment.cp2)} ${pt(segment.to)}`
+      );
+      return [`M ${pt(subpath.start)}`, ...commands, ...(subpath.closed ? ['Z'] : [])].join(' ');
+    })
+    .join(' ');
+}
+
+function buildFromStrokes(strokes: StrokeDefinition[], letterCase: GlyphSet): LetterBuild {
+  return (box: BoundingBox) => {
+    const paths = strokes.map(stroke => ({ path: stroke.path, numPoints: 250 }));
+    // Same framing as the print glyphs: lowercase and punctuation keep the writing frame
+    const scaledPaths =
+      usesWritingFrame(letterCase)
+        ? scalePathsToFrame(paths, LOWERCASE_VIEWBOX, box, LOWERCASE_PADDING)
+        : scaleMultiplePathsToBox(paths, box, 30);
+
+    const segments = strokes.map((stroke, index) => {
+      const points = scaledPaths[index];
+
+      return {
+        name: stroke.name,
+        description: stroke.description,
+        d: pointsToPathD(points),
+        pts: points,
+        start: points[0] || { x: 0, y: 0, angle: 0 },
+        end: points[points.length - 1] || { x: 0, y: 0, angle: 0 },
+      };
+    });
+
+    return usesWritingFrame(letterCase) ? { segments, guides: buildWritingGuides(box) } : { segments };
+  };
+}
+
+const isClosed = (points: XY[]): boolean =>
+  points.length > 2 &&
+  Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y) < 0.5;
+
+function distanceToPolyline(p: XY, points: XY[]): number {
+  let best = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    best = Math.min(best, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+  }
+  return best;
+}
+
+const pointsOf = (path: string): XY[] => flattenSubpaths(parsePathSegments(path.trim()));
+
+const fmt = (value: number): string => String(Math.round(value * 100) / 100);
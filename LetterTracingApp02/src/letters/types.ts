@@ -1,5 +1,10 @@
 // src/letters/types.ts
 
+import type { LetterCase } from '../types/tracing';
+
+// Which registry a glyph lives in; numerals and punctuation have no case
+export type GlyphSet = LetterCase | 'digits' | 'punctuation';
+
 export interface Point {
   x: number;
   y: number;
@@ -8,14 +13,27 @@ export interface Point {
 
 export interface Segment {
   name: string;
+  description?: string;
   d: string;
   pts: Point[];
   start: { x: number; y: number };
   end: { x: number; y: number };
 }
 
+/**
+ * Handwriting guide lines in target-box coordinates
+ * Only lowercase letters provide these; capitals fill the box.
+ */
+export interface WritingGuides {
+  ascender: number;
+  xHeight: number;
+  baseline: number;
+  descender: number;
+}
+
 export interface LetterBuildResult {
   segments: Segment[];
+  guides?: WritingGuides;
 }
 
 export interface LetterTheme {
@@ -46,7 +64,34 @@ export interface BoundingBox {
 
 export type LetterBuild = (box: BoundingBox) => LetterBuildResult;
 
+/**
+ * One stroke as authored in a glyph's geometry.ts (SVG path in the glyph's viewBox)
+ */
+export interface StrokeDefinition {
+  name: string;
+  path: string;
+  description: string;
+  join?: 'entry' | 'exit'; // Lead-in or exit stroke added by a script pack
+}
+
+export type ScriptPackId = 'print' | 'precursive' | 'cursive' | 'dnealian';
+
+/**
+ * A handwriting model: how the print glyphs are reshaped for it
+ * Lead-ins and exits only apply to lowercase; capitals and numerals just take the slant.
+ */
+export interface ScriptPack {
+  id: ScriptPackId;
+  name: string;
+  description: string;
+  slant: number; // Degrees clockwise from upright
+  leadIns: boolean; // Every lowercase letter starts from the baseline
+  exits: 'none' | 'baseline' | 'all'; // Which join heights get an exit stroke
+  joined: boolean; // Words are written without lifting between letters
+}
+
 export interface LetterDefinition {
   build: LetterBuild;
   theme: LetterTheme;
+  strokes: StrokeDefinition[];
 }
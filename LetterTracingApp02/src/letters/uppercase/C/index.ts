@@ -4,6 +4,9 @@ import type { LetterBuild, LetterTheme, BoundingBox } from '../../types';
 import { scaleMultiplePathsToBox, pointsToPathD } from '../../utils/pathParser';
 import { SVG_VIEWBOX, STROKE_ORDER } from './geometry';
 
+// Raw stroke geometry, used to lay out whole words
+export { STROKE_ORDER as strokes } from './geometry';
+
 export const build: LetterBuild = (box: BoundingBox) => {
   // Scale the C arc to fit the bounding box
   const scaledPaths = scaleMultiplePathsToBox(
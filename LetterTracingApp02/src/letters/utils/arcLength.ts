@@ -0,0 +1,162 @@
+// src/letters/utils/arcLength.ts
+
+import { Point } from '../types';
+
+type XY = { x: number; y: number };
+
+/**
+ * Cumulative distance along a polyline
+ * lengths[i] is the arc length from the first point to point i, so the array is
+ * monotone non-decreasing and lengths[lengths.length - 1] is the total length.
+ */
+export function cumulativeLengths(points: XY[]): number[] {
+  const lengths = points.length > 0 ? [0] : [];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  }
+  return lengths;
+}
+
+/**
+ * Resample a polyline to numPoints equally spaced along its arc length
+ * The first and last points are the polyline's own end points; angles are smooth tangents.
+ */
+export function resampleByArcLength(points: XY[], numPoints: number): Point[] {
+  if (points.length === 0 || numPoints < 1) return [];
+
+  const lengths = cumulativeLengths(points);
+  const total = lengths[lengths.length - 1];
+  const spacing = numPoints > 1 ? total / (numPoints - 1) : 0;
+
+  const resampled = Array.from({ length: numPoints }, (_, i) =>
+    positionAtLength(points, lengths, i === numPoints - 1 ? total : i * spacing)
+  );
+  const angles = tangentAngles(resampled);
+
+  return resampled.map((p, i) => ({ x: p.x, y: p.y, angle: angles[i] }));
+}
+
+/**
+ * Tangent direction at each point in degrees (0 = +x, 90 = +y)
+ * Central differences over the neighbouring points smooth out polyline corners;
+ * the ends use one-sided differences, and closed loops wrap around the seam.
+ */
+export function tangentAngles(points: XY[]): number[] {
+  const count = points.length;
+  if (count < 2) return points.map(() => 0);
+
+  const first = points[0];
+  const last = points[count - 1];
+  const closed = count > 2 && first.x === last.x && first.y === last.y;
+
+  const angles = points.map((_, i) => {
+    let before = points[Math.max(0, i - 1)];
+    let after = points[Math.min(count - 1, i + 1)];
+    if (closed && (i === 0 || i === count - 1)) {
+      before = points[count - 2];
+      after = points[1];
+    }
+    if (before.x === after.x && before.y === after.y) return NaN;
+    return Math.atan2(after.y - before.y, after.x - before.x) * (180 / Math.PI);
+  });
+
+  // Repeated points have no direction of their own; carry the nearest known tangent over them
+  const known = angles.findIndex((a) => !Number.isNaN(a));
+  if (known === -1) return angles.map(() => 0);
+  for (let i = 0; i < count; i++) {
+    if (Number.isNaN(angles[i])) angles[i] = i < known ? angles[known] : angles[i - 1];
+  }
+  return angles;
+}
+
+/**
+ * Index of the last point at or before a given arc length (binary search)
+ */
+export function indexAtLength(lengths: number[], length: number): number {
+  let low = 0;
+  let high = lengths.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lengths[mid] <= length) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Point at a given arc length, interpolated between samples
+ * The angle is that of the nearer sample, so it stays smooth between tangents.
+ */
+export function pointAtLength(points: Point[], lengths: number[], length: number): Point {
+  const position = positionAtLength(points, lengths, length);
+  const index = indexAtLength(lengths, length);
+  const next = Math.min(points.length - 1, index + 1);
+  const nearer = length - lengths[index] <= lengths[next] - length ? index : next;
+  return { ...position, angle: points[nearer].angle };
+}
+
+/**
+ * Closest point on a polyline to p, as an arc length along it
+ * Only the stretch between fromLength and toLength is searched, which keeps
+ * progress from jumping to a later part of a letter that crosses itself.
+ *
+ * @returns The arc length of the closest point and the squared distance to it
+ */
+export function projectOntoPath(
+  points: XY[],
+  lengths: number[],
+  p: XY,
+  fromLength: number = 0,
+  toLength: number = Infinity
+): { length: number; dist2: number } {
+  if (points.length === 1) {
+    const d = distance(points[0], p);
+    return { length: 0, dist2: d * d };
+  }
+
+  let best = { length: 0, dist2: Number.POSITIVE_INFINITY };
+  const start = Math.max(1, indexAtLength(lengths, fromLength));
+  const end = Math.min(points.length - 1, indexAtLength(lengths, toLength) + 1);
+
+  for (let i = start; i <= end; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const segLen = lengths[i] - lengths[i - 1];
+    const t =
+      segLen > 0
+        ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (segLen * segLen)))
+        : 0;
+    const length = Math.max(fromLength, Math.min(toLength, lengths[i - 1] + t * segLen));
+    const onPath = positionAtLength(points, lengths, length);
+    const dx = onPath.x - p.x;
+    const dy = onPath.y - p.y;
+    const dist2 = dx * dx + dy * dy;
+
+    if (dist2 < best.dist2) {
+      best = { length, dist2 };
+    }
+  }
+
+  return best;
+}
+
+function positionAtLength(points: XY[], lengths: number[], length: number): XY {
+  const total = lengths[lengths.length - 1];
+  const clamped = Math.max(0, Math.min(total, length));
+  const index = indexAtLength(lengths, clamped);
+  if (index >= points.length - 1) return { x: points[index].x, y: points[index].y };
+
+  const a = points[index];
+  const b = points[index + 1];
+  const segLen = lengths[index + 1] - lengths[index];
+  const ratio = segLen > 0 ? (clamped - lengths[index]) / segLen : 0;
+
+  return { x: a.x + (b.x - a.x) * ratio, y: a.y + (b.y - a.y) * ratio };
+}
+
+function distance(a: XY, b: XY): number {
+  return Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y));
+}
@@ -1,161 +1,407 @@
 // src/letters/utils/pathParser.ts
 
 import { Point } from '../types';
+import { resampleByArcLength } from './arcLength';
+
+interface XY {
+  x: number;
+  y: number;
+}
 
 /**
- * Parse SVG path commands and convert to points array
- * Supports M (moveto), L (lineto), C (cubic bezier), c (relative cubic)
+ * One drawing segment in absolute coordinates
+ * Every SVG command reduces to these: H/V/Z become lines, quadratics and arcs become cubics.
  */
-export function parseSVGPath(pathData: string, numPoints: number = 250): Point[] {
-  const commands = pathData.trim().split(/(?=[MLCmlc])/);
-  const points: Point[] = [];
-  let currentX = 0;
-  let currentY = 0;
-
-  const allPathPoints: { x: number; y: number }[] = [];
-
-  commands.forEach((cmd) => {
-    const type = cmd[0];
-    const values = cmd
-      .slice(1)
-      .trim()
-      .split(/[\s,]+/)
-      .map(parseFloat)
-      .filter((n) => !isNaN(n));
+export type PathSegment =
+  | { type: 'line'; from: XY; to: XY }
+  | { type: 'cubic'; from: XY; cp1: XY; cp2: XY; to: XY };
+
+export interface Subpath {
+  start: XY;
+  segments: PathSegment[];
+  closed: boolean;
+}
+
+// Number of arguments each command consumes per repetition
+const COMMAND_ARITY: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+// Max distance (in path units) between a curve and its flattened polyline
+const FLATNESS_TOLERANCE = 0.01;
+const MAX_SUBDIVISION_DEPTH = 16;
+
+/**
+ * Parse SVG path data into absolute subpaths
+ * Implements the full SVG 1.1 path grammar: M, L, H, V, C, S, Q, T, A and Z in
+ * absolute and relative forms, implicit command repetition (a moveto followed by
+ * extra pairs continues as lineto), and compact number syntax such as "1.5.5" or
+ * "10-5". Throws on malformed data so broken glyph geometry fails loudly.
+ */
+export function parsePathSegments(pathData: string): Subpath[] {
+  const subpaths: Subpath[] = [];
+  let index = 0;
+  let command: string | null = null;
+  let current: XY = { x: 0, y: 0 };
+  let subpath: Subpath | null = null;
+  // Control point reflected by S/T; only set when the previous command was cubic/quadratic
+  let lastCubicControl: XY | null = null;
+  let lastQuadControl: XY | null = null;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid SVG path data at ${index}: ${reason}`);
+  };
+
+  const skipSeparators = () => {
+    while (index < pathData.length && /[\s,]/.test(pathData[index])) index++;
+  };
+
+  const readNumber = (): number => {
+    skipSeparators();
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(pathData);
+    if (!match) return fail(`expected a number for "${command}"`);
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  // Arc flags are a single 0/1 and may be written without separators ("a5 5 0 1010 10")
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = pathData[index];
+    if (flag !== '0' && flag !== '1') return fail(`expected an arc flag for "${command}"`);
+    index++;
+    return flag === '1';
+  };
+
+  const openSubpath = (): Subpath => {
+    if (!subpath) {
+      subpath = { start: current, segments: [], closed: false };
+      subpaths.push(subpath);
+    }
+    return subpath;
+  };
+
+  const lineTo = (to: XY) => {
+    openSubpath().segments.push({ type: 'line', from: current, to });
+    current = to;
+  };
+
+  const cubicTo = (cp1: XY, cp2: XY, to: XY) => {
+    openSubpath().segments.push({ type: 'cubic', from: current, cp1, cp2, to });
+    current = to;
+  };
+
+  // Degree elevation: a quadratic is exactly a cubic with controls 2/3 of the way to its control point
+  const quadraticTo = (control: XY, to: XY) => {
+    cubicTo(
+      { x: current.x + (2 / 3) * (control.x - current.x), y: current.y + (2 / 3) * (control.y - current.y) },
+      { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) },
+      to
+    );
+  };
+
+  skipSeparators();
+  while (index < pathData.length) {
+    const char = pathData[index];
+    if (/[a-zA-Z]/.test(char)) {
+      if (COMMAND_ARITY[char.toUpperCase()] === undefined) fail(`unknown command "${char}"`);
+      command = char;
+      index++;
+    } else if (command === null) {
+      fail('path data must start with a moveto');
+    } else if (command === 'Z' || command === 'z') {
+      fail('closepath takes no arguments');
+    } else if (command === 'M' || command === 'm') {
+      // Extra coordinate pairs after a moveto are implicit linetos
+      command = command === 'M' ? 'L' : 'l';
+    }
+
+    if (subpaths.length === 0 && command !== 'M' && command !== 'm') {
+      fail('path data must start with a moveto');
+    }
+
+    const type = command!.toUpperCase();
+    const relative = command !== type;
+    const origin = relative ? current : { x: 0, y: 0 };
+    const at = (x: number, y: number): XY => ({ x: origin.x + x, y: origin.y + y });
+    let cubicControl: XY | null = null;
+    let quadControl: XY | null = null;
 
     switch (type) {
-      case 'M':
-      case 'm':
-        currentX = type === 'M' ? values[0] : currentX + values[0];
-        currentY = type === 'M' ? values[1] : currentY + values[1];
-        allPathPoints.push({ x: currentX, y: currentY });
+      case 'M': {
+        current = at(readNumber(), readNumber());
+        subpath = null;
+        openSubpath();
         break;
-
+      }
       case 'L':
-      case 'l':
-        for (let i = 0; i < values.length; i += 2) {
-          currentX = type === 'L' ? values[i] : currentX + values[i];
-          currentY = type === 'L' ? values[i + 1] : currentY + values[i + 1];
-          allPathPoints.push({ x: currentX, y: currentY });
+        lineTo(at(readNumber(), readNumber()));
+        break;
+      case 'H':
+        lineTo({ x: (relative ? current.x : 0) + readNumber(), y: current.y });
+        break;
+      case 'V':
+        lineTo({ x: current.x, y: (relative ? current.y : 0) + readNumber() });
+        break;
+      case 'C': {
+        const cp1 = at(readNumber(), readNumber());
+        const cp2 = at(readNumber(), readNumber());
+        cubicTo(cp1, cp2, at(readNumber(), readNumber()));
+        cubicControl = cp2;
+        break;
+      }
+      case 'S': {
+        const cp1 = reflect(lastCubicControl, current);
+        const cp2 = at(readNumber(), readNumber());
+        cubicTo(cp1, cp2, at(readNumber(), readNumber()));
+        cubicControl = cp2;
+        break;
+      }
+      case 'Q': {
+        const control = at(readNumber(), readNumber());
+        quadraticTo(control, at(readNumber(), readNumber()));
+        quadControl = control;
+        break;
+      }
+      case 'T': {
+        const control = reflect(lastQuadControl, current);
+        quadraticTo(control, at(readNumber(), readNumber()));
+        quadControl = control;
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const to = at(readNumber(), readNumber());
+        const from = current;
+        const curves = arcToCubics(from, to, rx, ry, rotation, largeArc, sweep);
+        if (curves === null) {
+          lineTo(to);
+        } else {
+          curves.forEach(([cp1, cp2, end]) => cubicTo(cp1, cp2, end));
         }
         break;
-
-      case 'C':
-      case 'c':
-        // Cubic Bezier: C/c x1 y1, x2 y2, x y (control points and end point)
-        for (let i = 0; i < values.length; i += 6) {
-          const startX = currentX;
-          const startY = currentY;
-
-          const cp1x = type === 'C' ? values[i] : currentX + values[i];
-          const cp1y = type === 'C' ? values[i + 1] : currentY + values[i + 1];
-          const cp2x = type === 'C' ? values[i + 2] : currentX + values[i + 2];
-          const cp2y = type === 'C' ? values[i + 3] : currentY + values[i + 3];
-          const endX = type === 'C' ? values[i + 4] : currentX + values[i + 4];
-          const endY = type === 'C' ? values[i + 5] : currentY + values[i + 5];
-
-          // Sample bezier curve
-          const steps = 50;
-          for (let t = 0; t <= steps; t++) {
-            const ratio = t / steps;
-            const bezierPoint = cubicBezier(
-              startX,
-              startY,
-              cp1x,
-              cp1y,
-              cp2x,
-              cp2y,
-              endX,
-              endY,
-              ratio
-            );
-            allPathPoints.push(bezierPoint);
-          }
-
-          currentX = endX;
-          currentY = endY;
+      }
+      case 'Z': {
+        const open = openSubpath();
+        if (current.x !== open.start.x || current.y !== open.start.y) {
+          lineTo(open.start);
         }
+        open.closed = true;
+        current = open.start;
+        // A command after Z without a moveto starts a new subpath at the same point
+        subpath = null;
         break;
+      }
     }
-  });
 
-  // Resample to exact number of points
-  if (allPathPoints.length === 0) return [];
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
+    skipSeparators();
+  }
+
+  return subpaths;
+}
 
-  const totalLength = calculatePathLength(allPathPoints);
-  const segmentLength = totalLength / (numPoints - 1);
+/**
+ * Parse SVG path commands and convert to points array
+ * Curves are flattened to within FLATNESS_TOLERANCE and the result is resampled
+ * to numPoints spaced evenly by arc length, with smooth tangent angles.
+ * Subpaths are joined in drawing order.
+ */
+export function parseSVGPath(pathData: string, numPoints: number = 250): Point[] {
+  const polyline = flattenSubpaths(parsePathSegments(pathData));
+  return resampleByArcLength(polyline, numPoints);
+}
 
-  points.push({
-    x: allPathPoints[0].x,
-    y: allPathPoints[0].y,
-    angle: 0,
+/**
+ * Flatten subpaths into one polyline; curves are subdivided until flat
+ */
+export function flattenSubpaths(subpaths: Subpath[]): XY[] {
+  const polyline: XY[] = [];
+
+  subpaths.forEach((subpath) => {
+    pushDistinct(polyline, subpath.start);
+    subpath.segments.forEach((segment) => {
+      if (segment.type === 'line') {
+        pushDistinct(polyline, segment.to);
+      } else {
+        flattenCubic(segment.from, segment.cp1, segment.cp2, segment.to, polyline, 0);
+      }
+    });
   });
 
-  let accumulatedLength = 0;
-  let targetLength = segmentLength;
+  return polyline;
+}
+
+/**
+ * Mirror a control point through the current point (S/T shorthand)
+ * Without a preceding curve of the same kind the control point is the current point.
+ */
+function reflect(control: XY | null, current: XY): XY {
+  if (!control) return current;
+  return { x: 2 * current.x - control.x, y: 2 * current.y - control.y };
+}
+
+/**
+ * Convert an SVG endpoint-parameterised arc to cubic Béziers (SVG 1.1 appendix F.6)
+ * Returns null when a radius is zero, which SVG draws as a straight line, and an
+ * empty list when the end points coincide, which SVG omits.
+ */
+export function arcToCubics(
+  from: XY,
+  to: XY,
+  radiusX: number,
+  radiusY: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean
+): Array<[XY, XY, XY]> | null {
+  if (from.x === to.x && from.y === to.y) return [];
+
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0) return null;
+
+  const phi = (rotationDegrees * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Step 1: midpoint in the ellipse's rotated frame
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up when no ellipse of the given size reaches both end points
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
 
-  for (let i = 1; i < allPathPoints.length; i++) {
-    const p1 = allPathPoints[i - 1];
-    const p2 = allPathPoints[i];
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    const segLen = Math.sqrt(dx * dx + dy * dy);
+  // Step 2: centre in the rotated frame
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxPrime = (coefficient * rx * y1) / ry;
+  const cyPrime = (-coefficient * ry * x1) / rx;
+
+  // Step 3: centre in path coordinates
+  const cx = cosPhi * cxPrime - sinPhi * cyPrime + (from.x + to.x) / 2;
+  const cy = sinPhi * cxPrime + cosPhi * cyPrime + (from.y + to.y) / 2;
+
+  // Step 4: start angle and sweep on the unit circle
+  const startAngle = vectorAngle(1, 0, (x1 - cxPrime) / rx, (y1 - cyPrime) / ry);
+  let sweepAngle = vectorAngle(
+    (x1 - cxPrime) / rx,
+    (y1 - cyPrime) / ry,
+    (-x1 - cxPrime) / rx,
+    (-y1 - cyPrime) / ry
+  );
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
 
-    accumulatedLength += segLen;
+  // At most a quarter turn per cubic keeps the approximation error below 0.03%
+  const count = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+  const delta = sweepAngle / count;
+  const handle = (4 / 3) * Math.tan(delta / 4);
 
-    while (accumulatedLength >= targetLength && points.length < numPoints) {
-      const ratio = (targetLength - (accumulatedLength - segLen)) / segLen;
-      const x = p1.x + dx * ratio;
-      const y = p1.y + dy * ratio;
-      const angle = Math.atan2(dy, dx) * (180 / Math.PI);
+  const toPath = (ux: number, uy: number): XY => ({
+    x: cx + rx * cosPhi * ux - ry * sinPhi * uy,
+    y: cy + rx * sinPhi * ux + ry * cosPhi * uy,
+  });
 
-      points.push({ x, y, angle });
-      targetLength += segmentLength;
-    }
+  const curves: Array<[XY, XY, XY]> = [];
+  for (let i = 0; i < count; i++) {
+    const a1 = startAngle + i * delta;
+    const a2 = a1 + delta;
+    const cos1 = Math.cos(a1);
+    const sin1 = Math.sin(a1);
+    const cos2 = Math.cos(a2);
+    const sin2 = Math.sin(a2);
+
+    curves.push([
+      toPath(cos1 - handle * sin1, sin1 + handle * cos1),
+      toPath(cos2 + handle * sin2, sin2 - handle * cos2),
+      i === count - 1 ? to : toPath(cos2, sin2),
+    ]);
   }
 
-  // Ensure we have exactly numPoints
-  while (points.length < numPoints) {
-    const last = allPathPoints[allPathPoints.length - 1];
-    const prev = points[points.length - 1];
-    const angle = prev ? prev.angle : 0;
-    points.push({ x: last.x, y: last.y, angle });
+  return curves;
+}
+
+// Signed angle from vector u to vector v
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
+/**
+ * Append a cubic to the polyline by recursive de Casteljau subdivision
+ * Flat enough once both control points lie within FLATNESS_TOLERANCE of the chord.
+ */
+function flattenCubic(p0: XY, p1: XY, p2: XY, p3: XY, out: XY[], depth: number) {
+  if (depth >= MAX_SUBDIVISION_DEPTH || isFlat(p0, p1, p2, p3)) {
+    pushDistinct(out, p3);
+    return;
   }
 
-  return points.slice(0, numPoints);
+  const p01 = midpoint(p0, p1);
+  const p12 = midpoint(p1, p2);
+  const p23 = midpoint(p2, p3);
+  const p012 = midpoint(p01, p12);
+  const p123 = midpoint(p12, p23);
+  const mid = midpoint(p012, p123);
+
+  flattenCubic(p0, p01, p012, mid, out, depth + 1);
+  flattenCubic(mid, p123, p23, p3, out, depth + 1);
 }
 
-function cubicBezier(
-  x0: number,
-  y0: number,
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number,
-  x3: number,
-  y3: number,
-  t: number
-): { x: number; y: number } {
-  const mt = 1 - t;
-  const mt2 = mt * mt;
-  const mt3 = mt2 * mt;
-  const t2 = t * t;
-  const t3 = t2 * t;
-
-  return {
-    x: mt3 * x0 + 3 * mt2 * t * x1 + 3 * mt * t2 * x2 + t3 * x3,
-    y: mt3 * y0 + 3 * mt2 * t * y1 + 3 * mt * t2 * y2 + t3 * y3,
-  };
+function isFlat(p0: XY, p1: XY, p2: XY, p3: XY): boolean {
+  return (
+    distanceToSegment(p1, p0, p3) <= FLATNESS_TOLERANCE &&
+    distanceToSegment(p2, p0, p3) <= FLATNESS_TOLERANCE
+  );
+}
+
+function distanceToSegment(p: XY, a: XY, b: XY): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distance(p, a);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+function midpoint(a: XY, b: XY): XY {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function distance(a: XY, b: XY): number {
+  return Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y));
 }
 
-function calculatePathLength(points: { x: number; y: number }[]): number {
-  let length = 0;
-  for (let i = 1; i < points.length; i++) {
-    const dx = points[i].x - points[i - 1].x;
-    const dy = points[i].y - points[i - 1].y;
-    length += Math.sqrt(dx * dx + dy * dy);
+function pushDistinct(points: XY[], p: XY) {
+  const last = points[points.length - 1];
+  if (!last || last.x !== p.x || last.y !== p.y) {
+    points.push(p);
   }
-  return length;
 }
 
 /**
@@ -286,3 +532,65 @@ export function pointsToPathD(points: Point[]): string {
   const rest = points.slice(1).map((p) => `L ${p.x} ${p.y}`);
   return `M ${first.x} ${first.y} ${rest.join(' ')}`;
 }
+
+/**
+ * Scale paths against a fixed writing frame rather than their own bounds
+ * Lowercase letters need this: an "a" and an "l" must keep their x-height and
+ * ascender proportions, and a "g" must hang below the baseline.
+ *
+ * The frame's vertical extent fills the target box; paths are centred horizontally.
+ *
+ * @param pathsData - Array of path strings with optional point counts
+ * @param frame - Source frame the paths were drawn in (e.g. 100x100 viewBox)
+ * @param targetBox - Bounding box to fit the frame into
+ * @param padding - Padding around the frame in pixels
+ * @returns Array of scaled point arrays, one per input path
+ */
+export function scalePathsToFrame(
+  pathsData: Array<{ path: string; numPoints?: number }>,
+  frame: { width: number; height: number },
+  targetBox: { x: number; y: number; w: number; h: number },
+  padding: number = 40
+): Point[][] {
+  const allParsedPaths = pathsData.map(({ path, numPoints = 250 }) =>
+    parseSVGPath(path, numPoints)
+  );
+
+  const allPoints = allParsedPaths.flat();
+  if (allPoints.length === 0) return [];
+
+  const minX = Math.min(...allPoints.map((p) => p.x));
+  const maxX = Math.max(...allPoints.map((p) => p.x));
+
+  const scale = Math.min(
+    (targetBox.w - 2 * padding) / frame.width,
+    (targetBox.h - 2 * padding) / frame.height
+  );
+
+  const offsetX = targetBox.x + (targetBox.w - (maxX - minX) * scale) / 2 - minX * scale;
+  const offsetY = targetBox.y + (targetBox.h - frame.height * scale) / 2;
+
+  return allParsedPaths.map((points) =>
+    points.map((p) => ({
+      x: p.x * scale + offsetX,
+      y: p.y * scale + offsetY,
+      angle: p.angle,
+    }))
+  );
+}
+
+/**
+ * Map a y coordinate in a writing frame to the target box (same transform as scalePathsToFrame)
+ */
+export function frameYToBox(
+  y: number,
+  frame: { width: number; height: number },
+  targetBox: { x: number; y: number; w: number; h: number },
+  padding: number = 40
+): number {
+  const scale = Math.min(
+    (targetBox.w - 2 * padding) / frame.width,
+    (targetBox.h - 2 * padding) / frame.height
+  );
+  return targetBox.y + (targetBox.h - frame.height * scale) / 2 + y * scale;
+}
@@ -0,0 +1,274 @@
+// src/letters/word.ts
+// Lays out several glyphs on one baseline so a whole word can be traced
+
+import type { BoundingBox, Point, Segment, WritingGuides, LetterTheme, ScriptPack } from './types';
+import { loadLetter, caseOf } from './index';
+import { LOWERCASE_LINES, usesWritingFrame } from './lowercase/metrics';
+import { DEFAULT_SCRIPT_PACK, SCRIPT_PACKS, joinPath, strokeDirection } from './scripts';
+import { parseSVGPath, scaleMultiplePathsToBox, pointsToPathD } from './utils/pathParser';
+
+/**
+ * Word units: the baseline is y = 0 and one capital is 1 unit tall (y grows downward)
+ */
+const CAP_HEIGHT = 1;
+const X_HEIGHT =
+  (LOWERCASE_LINES.baseline - LOWERCASE_LINES.xHeight) /
+  (LOWERCASE_LINES.baseline - LOWERCASE_LINES.ascender);
+
+// Gap between glyphs, and the width of a space, in cap heights
+const TRACKING = 0.22;
+// Joined letters close up: the exit and lead-in strokes already space them
+const JOIN_TRACKING = 0.04;
+const SPACE_ADVANCE = 0.5;
+// Thin glyphs (I, l, 1) still need room for the child's finger
+const MIN_GLYPH_WIDTH = 0.12;
+
+/**
+ * Pair kerning in cap heights (negative pulls the second glyph closer)
+ */
+const KERNING: Record<string, number> = {
+  AV: -0.12, VA: -0.12, AW: -0.08, WA: -0.08, AY: -0.1, YA: -0.1,
+  AT: -0.08, TA: -0.08, LT: -0.1, LV: -0.1, LW: -0.08, LY: -0.1,
+  To: -0.1, Ta: -0.1, Te: -0.1, Vo: -0.06, Va: -0.06, Yo: -0.08, Ya: -0.08,
+  rv: -0.04, vr: -0.04, ry: -0.04, yr: -0.04, rt: -0.03, tt: -0.03,
+};
+
+export interface WordGlyph {
+  char: string;
+  index: number; // Position in the word
+  segments: Segment[];
+  firstSegment: number; // Index into WordLayout.segments
+  bounds: BoundingBox; // Screen space, from the traced geometry
+  advanceBox: BoundingBox; // Screen space slot including tracking
+  theme: LetterTheme;
+}
+
+export interface WordLayout {
+  text: string;
+  glyphs: WordGlyph[];
+  segments: Segment[]; // Every glyph's segments in writing order
+  guides: WritingGuides;
+  unitPx: number; // One cap height in pixels
+}
+
+interface PlacedStroke {
+  name: string;
+  description: string;
+  join?: 'entry' | 'exit';
+  pts: { x: number; y: number }[];
+}
+
+interface PlacedGlyph {
+  char: string;
+  index: number;
+  strokes: PlacedStroke[];
+  left: number;
+  advance: number;
+}
+
+/**
+ * Normalise a glyph's parsed strokes into word units sitting on the baseline
+ * Lowercase letters and punctuation keep their frame so x-height, ascenders and
+ * descenders line up; capitals and numerals stand on the bottom of their bounds.
+ */
+function toWordUnits(char: string, strokes: { x: number; y: number }[][]) {
+  const all = strokes.flat();
+  const minX = Math.min(...all.map(p => p.x));
+  const maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y));
+  const maxY = Math.max(...all.map(p => p.y));
+
+  const framed = usesWritingFrame(caseOf(char));
+  const scale = framed
+    ? CAP_HEIGHT / (LOWERCASE_LINES.baseline - LOWERCASE_LINES.ascender)
+    : CAP_HEIGHT / Math.max(maxY - minY, 1e-6);
+  const baseline = framed ? LOWERCASE_LINES.baseline : maxY;
+
+  return {
+    strokes: strokes.map(pts => pts.map(p => ({ x: (p.x - minX) * scale, y: (p.y - baseline) * scale }))),
+    width: Math.max((maxX - minX) * scale, MIN_GLYPH_WIDTH),
+  };
+}
+
+/**
+ * Cursive join: the previous letter's exit and the next letter's lead-in are
+ * replaced by one connecting stroke, traced as the start of the next letter
+ */
+function joinGlyphs(prev: PlacedGlyph, next: PlacedGlyph, exit: PlacedStroke, entry: PlacedStroke) {
+  const from = { x: exit.pts[0].x + prev.left, y: exit.pts[0].y };
+  const end = entry.pts[entry.pts.length - 1];
+  const to = { x: end.x + next.left, y: end.y };
+  // Direction sampling distance in cap heights (about two viewBox units)
+  const path = joinPath(
+    from,
+    strokeDirection(exit.pts, 'start', 0.03),
+    to,
+    strokeDirection(entry.pts, 'end', 0.03)
+  );
+
+  return {
+    prev: { ...prev, strokes: prev.strokes.filter(stroke => stroke !== exit) },
+    next: {
+      ...next,
+      strokes: next.strokes.map(stroke =>
+        stroke === entry
+          ? {
+              name: 'Join',
+              description: 'Carry on from the last letter without lifting',
+              join: 'entry' as const,
+              pts: parseSVGPath(path, 120).map(p => ({ x: p.x - next.left, y: p.y })),
+            }
+          : stroke
+      ),
+    },
+  };
+}
+
+/**
+ * Lay out a word in a bounding box: glyphs share one baseline, are kerned
+ * pairwise, and the whole word is fitted with scaleMultiplePathsToBox
+ * In a joined script pack, neighbouring letters with an exit and a lead-in are
+ * connected by a single join stroke.
+ * @param text - Letters, digits and punctuation; spaces separate words
+ * @param box - Target box in screen coordinates
+ * @param padding - Padding around the word in pixels
+ * @param pack - Handwriting model; print when omitted
+ * @throws if a character has no glyph
+ */
+export function layoutWord(
+  text: string,
+  box: BoundingBox,
+  padding: number = 30,
+  pack: ScriptPack = SCRIPT_PACKS[DEFAULT_SCRIPT_PACK]
+): WordLayout {
+  const placed: PlacedGlyph[] = [];
+  let cursor = 0;
+  let previous = '';
+
+  [...text].forEach((char, index) => {
+    if (char === ' ') {
+      cursor += SPACE_ADVANCE;
+      previous = '';
+      return;
+    }
+
+    const definition = loadLetter(char, caseOf(char), pack);
+    const parsed = definition.strokes.map(stroke => parseSVGPath(stroke.path.trim(), 120));
+    const { strokes, width } = toWordUnits(char, parsed);
+    const glyphStrokes: PlacedStroke[] = definition.strokes.map((stroke, i) => ({
+      name: stroke.name,
+      description: stroke.description,
+      join: stroke.join,
+      pts: strokes[i],
+    }));
+
+    const last = previous ? placed[placed.length - 1] : undefined;
+    const exit = pack.joined ? last?.strokes.find(stroke => stroke.join === 'exit') : undefined;
+    const entry = exit ? glyphStrokes.find(stroke => stroke.join === 'entry') : undefined;
+
+    cursor += KERNING[previous + char] ?? 0;
+    if (entry) cursor += JOIN_TRACKING - TRACKING;
+
+    const glyph: PlacedGlyph = { char, index, strokes: glyphStrokes, left: cursor, advance: width };
+    if (last && exit && entry) {
+      const joined = joinGlyphs(last, glyph, exit, entry);
+      placed[placed.length - 1] = joined.prev;
+      placed.push(joined.next);
+    } else {
+      placed.push(glyph);
+    }
+
+    cursor += width + TRACKING;
+    previous = char;
+  });
+
+  if (placed.length === 0) {
+    throw new Error(`Nothing to trace in "${text}"`);
+  }
+
+  // Reference marks pin the vertical frame (ascender to descender) so the
+  // baseline lands in the same place whatever letters the word contains
+  const ascender = -CAP_HEIGHT;
+  const descender =
+    (LOWERCASE_LINES.descender - LOWERCASE_LINES.baseline) /
+    (LOWERCASE_LINES.baseline - LOWERCASE_LINES.ascender);
+  const frame = [`M 0 ${ascender} L 0 ${descender}`];
+
+  const wordPaths = placed.flatMap(glyph =>
+    glyph.strokes.map(stroke =>
+      pointsToPathD(stroke.pts.map(p => ({ x: p.x + glyph.left, y: p.y, angle: 0 })))
+    )
+  );
+
+  const scaled = scaleMultiplePathsToBox(
+    [...frame, ...wordPaths].map(path => ({ path, numPoints: 250 })),
+    box,
+    padding
+  );
+  const scaledFrame = scaled[0];
+  const scaledStrokes = scaled.slice(1);
+
+  // Recover the word-unit → screen transform from the frame mark
+  const top = scaledFrame[0];
+  const bottom = scaledFrame[scaledFrame.length - 1];
+  const unitPx = (bottom.y - top.y) / (descender - ascender);
+  const originX = top.x;
+  const baselineY = top.y - ascender * unitPx;
+  const toScreenY = (y: number) => baselineY + y * unitPx;
+
+  const segments: Segment[] = [];
+  const glyphs: WordGlyph[] = [];
+  let strokeIndex = 0;
+
+  placed.forEach(glyph => {
+    const glyphSegments: Segment[] = glyph.strokes.map(stroke => {
+      const pts: Point[] = scaledStrokes[strokeIndex++];
+      return {
+        name: `${glyph.char}: ${stroke.name}`,
+        description: stroke.description,
+        d: pointsToPathD(pts),
+        pts,
+        start: pts[0] || { x: 0, y: 0, angle: 0 },
+        end: pts[pts.length - 1] || { x: 0, y: 0, angle: 0 },
+      };
+    });
+
+    const pts = glyphSegments.flatMap(s => s.pts);
+    const minX = Math.min(...pts.map(p => p.x));
+    const minY = Math.min(...pts.map(p => p.y));
+
+    glyphs.push({
+      char: glyph.char,
+      index: glyph.index,
+      segments: glyphSegments,
+      firstSegment: segments.length,
+      bounds: {
+        x: minX,
+        y: minY,
+        w: Math.max(...pts.map(p => p.x)) - minX,
+        h: Math.max(...pts.map(p => p.y)) - minY,
+      },
+      advanceBox: {
+        x: originX + glyph.left * unitPx,
+        y: toScreenY(ascender),
+        w: (glyph.advance + TRACKING) * unitPx,
+        h: (descender - ascender) * unitPx,
+      },
+      theme: loadLetter(glyph.char, caseOf(glyph.char), pack).theme,
+    });
+    segments.push(...glyphSegments);
+  });
+
+  return {
+    text,
+    glyphs,
+    segments,
+    guides: {
+      ascender: toScreenY(ascender),
+      xHeight: toScreenY(-X_HEIGHT),
+      baseline: baselineY,
+      descender: toScreenY(descender),
+    },
+    unitPx,
+  };
+}
@@ -8,14 +8,21 @@ import TracingScreen from '../screens/TracingScreen';
 import ComingSoonScreen from '../screens/ComingSoonScreen';
 import GuidedTracingScreen from '../screens/GuidedTracingScreen';
 import LetterGuidingMenuScreen from '../screens/LetterGuidingMenuScreen';
+import WordTracingScreen from '../screens/WordTracingScreen';
+import MemoryTracingScreen from '../screens/MemoryTracingScreen';
+import TracingReportScreen from '../screens/TracingReportScreen';
+import type { GlyphSet } from '../letters/types';
 
 export type RootStackParamList = {
   Home: undefined;
   LetterMenu: undefined;
   LetterGuidingMenu: undefined;
-  Tracing: { letter: string };
+  Tracing: { letter: string; letterCase?: GlyphSet };
   ComingSoon: { title: string };
   GuidedTracing: { letter: string; letterCase: 'uppercase' | 'lowercase' };
+  WordTracing: { word?: string } | undefined;
+  MemoryTracing: { letter: string; letterCase?: GlyphSet };
+  TracingReport: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -34,6 +41,9 @@ export default function RootNavigator() {
       <Stack.Screen name="Tracing" component={TracingScreen} />
       <Stack.Screen name="ComingSoon" component={ComingSoonScreen} />
       <Stack.Screen name="GuidedTracing" component={GuidedTracingScreen} />
+      <Stack.Screen name="WordTracing" component={WordTracingScreen} />
+      <Stack.Screen name="MemoryTracing" component={MemoryTracingScreen} />
+      <Stack.Screen name="TracingReport" component={TracingReportScreen} />
     </Stack.Navigator>
   );
 }
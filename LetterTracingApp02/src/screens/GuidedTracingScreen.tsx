@@ -10,7 +10,8 @@ import {
   Dimensions,
   StatusBar,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 
@@ -23,6 +24,7 @@ type GuidedTracingScreenNavigationProp = NativeStackNavigationProp<
 
 export default function GuidedTracingScreen() {
   const navigation = useNavigation<GuidedTracingScreenNavigationProp>();
+  const route = useRoute<RouteProp<RootStackParamList, 'GuidedTracing'>>();
 
   const handleGuidedPractice = () => {
     console.log('Guided Alphabet Practice clicked - Navigating to LetterMenu');
@@ -31,9 +33,12 @@ export default function GuidedTracingScreen() {
   };
 
   const handleUnguidedPractice = () => {
-    console.log('Unguided Alphabet Practice clicked');
-    // Add your navigation logic here for unguided practice
-    // Example: navigation.navigate('UnguidedLetterMenu');
+    console.log('Unguided Alphabet Practice clicked - Navigating to MemoryTracing');
+    // Show the letter briefly, then the child writes it from memory
+    navigation.navigate('MemoryTracing', {
+      letter: route.params?.letter ?? 'A',
+      letterCase: route.params?.letterCase ?? 'uppercase',
+    });
   };
 
   return (
@@ -1,6 +1,6 @@
 // src/screens/HomeScreen.tsx - ADD NEW BUTTON
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   ImageBackground,
@@ -8,11 +8,13 @@ import {
   TouchableOpacity,
   Image,
   Text,
+  TextInput,
   Dimensions,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { RootStackParamList } from '../navigation/RootNavigator';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useProfiles } from '../hooks/useProfiles';
 
 const { width: SCREEN_W } = Dimensions.get('window');
 
@@ -31,6 +33,8 @@ export default function HomeScreen() {
       <View style={styles.content}>
         <Text style={styles.title}>Alphabet Playground</Text>
 
+        <ProfilePicker />
+
         <View style={styles.buttonsRow}>
           <HomeButton
             image={BTN1}
@@ -39,8 +43,8 @@ export default function HomeScreen() {
           />
           <HomeButton
             image={BTN2}
-            label="Trace B (Soon)"
-            onPress={() => navigation.navigate('ComingSoon', { title: 'Trace B' })}
+            label="Trace Words"
+            onPress={() => navigation.navigate('WordTracing')}
           />
           <HomeButton
             image={BTN3}
@@ -62,11 +66,63 @@ export default function HomeScreen() {
         >
           <Text style={styles.guidedButtonText}>🎯 Try Guided Tracing (NEW!)</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.guidedButton, styles.reportButton]}
+          activeOpacity={0.9}
+          onPress={() => navigation.navigate('TracingReport')}
+        >
+          <Text style={styles.guidedButtonText}>📊 Progress Report</Text>
+        </TouchableOpacity>
       </View>
     </ImageBackground>
   );
 }
 
+/**
+ * Who is tracing: each child keeps their own handwriting model
+ */
+function ProfilePicker() {
+  const { profiles, activeId, switchProfile, addProfile } = useProfiles();
+  const [name, setName] = useState<string | null>(null);
+
+  const submit = () => {
+    if (name?.trim()) addProfile(name);
+    setName(null);
+  };
+
+  return (
+    <View style={styles.profileRow}>
+      {profiles.map(profile => (
+        <TouchableOpacity
+          key={profile.id}
+          style={[styles.profileChip, profile.id === activeId && styles.profileChipActive]}
+          onPress={() => switchProfile(profile.id)}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.profileText}>{profile.name}</Text>
+        </TouchableOpacity>
+      ))}
+      {name === null ? (
+        <TouchableOpacity style={styles.profileChip} onPress={() => setName('')} activeOpacity={0.8}>
+          <Text style={styles.profileText}>＋ Child</Text>
+        </TouchableOpacity>
+      ) : (
+        <TextInput
+          style={[styles.profileChip, styles.profileInput]}
+          value={name}
+          onChangeText={setName}
+          onSubmitEditing={submit}
+          onBlur={() => setName(null)}
+          placeholder="Name"
+          autoFocus
+          maxLength={20}
+        />
+      )}
+    </View>
+  );
+}
+
 function HomeButton({
   image,
   label,
@@ -109,6 +165,34 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     marginBottom: 16,
   },
+  profileRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  profileChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.85)',
+    borderWidth: 2,
+    borderColor: 'rgba(0,0,0,0.08)',
+  },
+  profileChipActive: {
+    borderColor: '#0EA5E9',
+    backgroundColor: 'rgba(224,242,254,0.95)',
+  },
+  profileText: {
+    color: '#0F172A',
+    fontWeight: '800',
+  },
+  profileInput: {
+    minWidth: 120,
+    color: '#0F172A',
+    fontWeight: '800',
+  },
   buttonsRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -151,6 +235,10 @@ const styles = StyleSheet.create({
     borderWidth: 3,
     borderColor: '#FFFFFF',
   },
+  reportButton: {
+    marginTop: 12,
+    backgroundColor: '#8B5CF6',
+  },
   guidedButtonText: {
     fontSize: 18,
     fontWeight: '900',
@@ -17,6 +17,7 @@ import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation/RootNavigator';
 import { getAvailableLetters, isLetterAvailable } from '../letters';
+import type { GlyphSet } from '../letters/types';
 
 const BG = require('../../assets/images/letters/Tracing_Menu_Background.png');
 
@@ -27,7 +28,26 @@ const isTablet = SCREEN_W > 700;
 const COLS = isTablet ? 6 : 4;
 const GAP = isTablet ? 16 : 12;
 
-const ALL_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const ALL_LETTERS: Record<GlyphSet, string[]> = {
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''),
+  lowercase: 'abcdefghijklmnopqrstuvwxyz'.split(''),
+  digits: '0123456789'.split(''),
+  punctuation: ['.', ',', '?', '!'],
+};
+
+const SET_LABELS: Record<GlyphSet, string> = {
+  uppercase: 'ABC',
+  lowercase: 'abc',
+  digits: '123',
+  punctuation: '.?!',
+};
+
+const SET_NOUNS: Record<GlyphSet, [string, string]> = {
+  uppercase: ['Letter', 'letters'],
+  lowercase: ['Letter', 'letters'],
+  digits: ['Number', 'numbers'],
+  punctuation: ['Mark', 'marks'],
+};
 
 function letterAsset(letter: string) {
   const map: Record<string, any> = {
@@ -63,9 +83,11 @@ function letterAsset(letter: string) {
 
 export default function LetterMenuScreen() {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [letterCase, setLetterCase] = useState<GlyphSet>('uppercase');
 
   // Get available letters from the letter registry
-  const availableLetters = useMemo(() => getAvailableLetters(), []);
+  const availableLetters = useMemo(() => getAvailableLetters(letterCase), [letterCase]);
+  const letters = ALL_LETTERS[letterCase];
 
   // Card width derived from screen, columns and gaps
   const CARD_W = useMemo(
@@ -77,10 +99,21 @@ export default function LetterMenuScreen() {
   return (
     <ImageBackground source={BG} style={styles.bg} resizeMode="cover">
       <View style={styles.header}>
-        <Text style={styles.title}>Choose a Letter</Text>
+        <Text style={styles.title}>Choose a {SET_NOUNS[letterCase][0]}</Text>
         <Text style={styles.subtitle}>
-          {availableLetters.length} of {ALL_LETTERS.length} letters available
+          {availableLetters.length} of {letters.length} {SET_NOUNS[letterCase][1]} available
         </Text>
+        <View style={styles.caseToggle}>
+          {(['uppercase', 'lowercase', 'digits', 'punctuation'] as const).map((c) => (
+            <TouchableWithoutFeedback key={c} onPress={() => setLetterCase(c)}>
+              <View style={[styles.caseOption, letterCase === c && styles.caseOptionActive]}>
+                <Text style={[styles.caseText, letterCase === c && styles.caseTextActive]}>
+                  {SET_LABELS[c]}
+                </Text>
+              </View>
+            </TouchableWithoutFeedback>
+          ))}
+        </View>
       </View>
 
       <FlatList
@@ -88,18 +121,19 @@ export default function LetterMenuScreen() {
           styles.grid,
           { paddingHorizontal: GAP, gap: GAP, paddingBottom: 28 },
         ]}
-        data={ALL_LETTERS}
+        data={letters}
         keyExtractor={(item) => item}
         numColumns={COLS}
         renderItem={({ item }) => {
-          const isAvailable = isLetterAvailable(item);
+          const isAvailable = isLetterAvailable(item, letterCase);
           
           return (
             <LiftedCard
               width={CARD_W}
               height={CARD_H}
-              onPress={() => navigation.navigate('Tracing', { letter: item })}
+              onPress={() => navigation.navigate('Tracing', { letter: item, letterCase })}
               source={letterAsset(item)}
+              label={item}
               disabled={!isAvailable}
               isAvailable={isAvailable}
             />
@@ -116,12 +150,14 @@ function LiftedCard({
   height,
   source,
   onPress,
+  label,
   disabled = false,
   isAvailable = true,
 }: {
   width: number;
   height: number;
   source: any;
+  label?: string;
   onPress: () => void;
   disabled?: boolean;
   isAvailable?: boolean;
@@ -166,7 +202,14 @@ function LiftedCard({
         <View style={[styles.shadowA, !isAvailable && styles.shadowDisabled]} />
         {/* Inner tighter shadow + content */}
         <View style={[styles.cardInner, !isAvailable && styles.cardDisabled]}>
-          <Image source={source} style={styles.image} resizeMode="contain" />
+          {source ? (
+            <Image source={source} style={styles.image} resizeMode="contain" />
+          ) : (
+            // No artwork for lowercase, numerals or punctuation yet, so draw the glyph
+            <View style={styles.glyphCard}>
+              <Text style={[styles.glyphText, { fontSize: height * 0.55 }]}>{label}</Text>
+            </View>
+          )}
           {/* Top subtle gloss for depth */}
           <View pointerEvents="none" style={styles.gloss} />
           {/* Coming Soon badge for unavailable letters */}
@@ -207,6 +250,29 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     marginTop: 6,
   },
+  caseToggle: {
+    flexDirection: 'row',
+    marginTop: 8,
+    backgroundColor: 'rgba(255,255,255,0.9)',
+    borderRadius: 12,
+    padding: 3,
+  },
+  caseOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 5,
+    borderRadius: 10,
+  },
+  caseOptionActive: {
+    backgroundColor: '#0F766E',
+  },
+  caseText: {
+    fontSize: isTablet ? 16 : 14,
+    fontWeight: '800',
+    color: '#64748B',
+  },
+  caseTextActive: {
+    color: '#FFFFFF',
+  },
   grid: {
     justifyContent: 'center',
     marginTop: 10,
@@ -279,6 +345,20 @@ const styles = StyleSheet.create({
     borderRadius: 20,
   },
 
+  glyphCard: {
+    width: '96%',
+    height: '96%',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.92)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  glyphText: {
+    fontWeight: '900',
+    color: '#0F766E',
+  },
+
   gloss: {
     position: 'absolute',
     left: 10,
@@ -0,0 +1,315 @@
+// src/screens/MemoryTracingScreen.tsx
+
+import React, { useMemo, useRef, useState, useEffect, useCallback } from 'react';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/RootNavigator';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  PanResponder,
+  Dimensions,
+} from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+
+import { loadLetter, caseOf, getAvailableLetters, isLetterAvailable } from '../letters';
+import LetterUnavailable from '../components/tracing/LetterUnavailable';
+import type { ScriptPack } from '../letters';
+import type { TouchPoint, Stroke, MemoryTracingResult } from '../types/tracing';
+import { scoreMemoryAttempt } from '../utils/shapeMatching';
+import TracingAnalysisService from '../services/TracingAnalysisService';
+import { useScriptPack } from '../hooks/useScriptPack';
+
+const { width: SCREEN_W } = Dimensions.get('window');
+const CANVAS_W = Math.min(380, SCREEN_W - 32);
+const CANVAS_H = Math.round(CANVAS_W * 1.1);
+const LETTER_BOX = { x: 20, y: 20, w: CANVAS_W - 40, h: CANVAS_H - 40 };
+
+// How long the letter is shown before it disappears
+const PREVIEW_MS = 3000;
+
+type Phase = 'preview' | 'writing' | 'result';
+
+function pointsToD(points: { x: number; y: number }[]): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+}
+
+export default function MemoryTracingScreen() {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, 'MemoryTracing'>>();
+  const [pack] = useScriptPack();
+  const letter = route.params?.letter ?? 'A';
+
+  if (!isLetterAvailable(letter, route.params?.letterCase)) {
+    return <LetterUnavailable letter={letter} onBack={() => navigation.goBack()} />;
+  }
+
+  // Wait for the saved pack rather than show the letter in one model and score it in another
+  if (!pack) return null;
+
+  return <MemoryTracer pack={pack} />;
+}
+
+function MemoryTracer({ pack }: { pack: ScriptPack }) {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'MemoryTracing'>>();
+  const letter = route.params?.letter ?? 'A';
+  const letterCase = route.params?.letterCase ?? caseOf(letter);
+
+  const { build, theme } = useMemo(
+    () => loadLetter(letter, letterCase, pack),
+    [letter, letterCase, pack]
+  );
+  const { segments } = useMemo(() => build(LETTER_BOX), [build]);
+
+  const [phase, setPhase] = useState<Phase>('preview');
+  const [countdown, setCountdown] = useState(Math.ceil(PREVIEW_MS / 1000));
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [currentStroke, setCurrentStroke] = useState<TouchPoint[]>([]);
+  const [result, setResult] = useState<MemoryTracingResult | null>(null);
+
+  const currentRef = useRef<TouchPoint[]>([]);
+  const strokeStartRef = useRef(0);
+
+  // Show the letter, count down, then hide it
+  useEffect(() => {
+    if (phase !== 'preview') return;
+    setCountdown(Math.ceil(PREVIEW_MS / 1000));
+    const tick = setInterval(() => setCountdown(c => Math.max(0, c - 1)), 1000);
+    const hide = setTimeout(() => setPhase('writing'), PREVIEW_MS);
+    return () => {
+      clearInterval(tick);
+      clearTimeout(hide);
+    };
+  }, [phase, letter]);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => phase === 'writing',
+        onMoveShouldSetPanResponder: () => phase === 'writing',
+        onPanResponderGrant: evt => {
+          strokeStartRef.current = Date.now();
+          currentRef.current = [
+            { x: evt.nativeEvent.locationX, y: evt.nativeEvent.locationY, timestamp: Date.now() },
+          ];
+          setCurrentStroke(currentRef.current);
+        },
+        onPanResponderMove: evt => {
+          currentRef.current = [
+            ...currentRef.current,
+            { x: evt.nativeEvent.locationX, y: evt.nativeEvent.locationY, timestamp: Date.now() },
+          ];
+          setCurrentStroke(currentRef.current);
+        },
+        onPanResponderRelease: () => {
+          const points = currentRef.current;
+          currentRef.current = [];
+          setCurrentStroke([]);
+          if (points.length === 0) return;
+
+          const endTime = Date.now();
+          setStrokes(prev => [
+            ...prev,
+            {
+              id: `stroke_${strokeStartRef.current}`,
+              points,
+              startTime: strokeStartRef.current,
+              endTime,
+              duration: endTime - strokeStartRef.current,
+            },
+          ]);
+        },
+      }),
+    [phase]
+  );
+
+  const handleDone = useCallback(() => {
+    setResult(scoreMemoryAttempt(strokes, segments));
+    setPhase('result');
+    TracingAnalysisService.recordSession(
+      {
+        letter,
+        letterCase,
+        mode: 'memory',
+        strokes,
+        startTime: strokes[0].startTime,
+        endTime: strokes[strokes.length - 1].endTime,
+      },
+      segments
+    );
+  }, [strokes, segments, letter, letterCase]);
+
+  const handleRetry = useCallback(() => {
+    setStrokes([]);
+    setResult(null);
+    setPhase('preview');
+  }, []);
+
+  const handleNext = useCallback(() => {
+    const letters = getAvailableLetters(letterCase);
+    const next = letters[(letters.indexOf(letter) + 1) % letters.length];
+    setStrokes([]);
+    setResult(null);
+    setPhase('preview');
+    navigation.setParams({ letter: next, letterCase });
+  }, [letter, letterCase, navigation]);
+
+  const showModel = phase !== 'writing';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.closeBtn} onPress={() => navigation.goBack()}>
+          <Text style={styles.closeText}>×</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>
+          {phase === 'preview'
+            ? `Remember ${letter}… ${countdown}`
+            : phase === 'writing'
+              ? `Now write ${letter} from memory!`
+              : `Your ${letter}`}
+        </Text>
+      </View>
+
+      <View style={styles.canvas} {...panResponder.panHandlers}>
+        <Svg width={CANVAS_W} height={CANVAS_H} pointerEvents="none">
+          {showModel &&
+            segments.map((s, i) => (
+              <Path
+                key={`model-${i}`}
+                d={s.d}
+                stroke={phase === 'result' ? '#CBD5E1' : theme.colors.pathGradientStart}
+                strokeWidth={phase === 'result' ? 18 : 22}
+                strokeLinecap="round"
+                fill="none"
+              />
+            ))}
+          {phase !== 'preview' &&
+            strokes.map(s => (
+              <Path
+                key={s.id}
+                d={pointsToD(s.points)}
+                stroke="#1F2937"
+                strokeWidth={8}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                fill="none"
+              />
+            ))}
+          {currentStroke.length > 0 && (
+            <Path
+              d={pointsToD(currentStroke)}
+              stroke="#3B82F6"
+              strokeWidth={10}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+            />
+          )}
+        </Svg>
+      </View>
+
+      {phase === 'writing' && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.btn, styles.secondaryBtn]} onPress={() => setStrokes([])}>
+            <Text style={styles.btnText}>🧽 Clear</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.btn, strokes.length === 0 && styles.btnDisabled]}
+            disabled={strokes.length === 0}
+            onPress={handleDone}
+          >
+            <Text style={styles.btnText}>✅ Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {phase === 'result' && result && (
+        <View style={styles.resultCard}>
+          <Text style={styles.resultLine}>Shape: {Math.round(result.shapeScore)}%</Text>
+          <Text style={styles.resultLine}>
+            Strokes: {result.actualStrokeCount} of {result.expectedStrokeCount}
+            {result.strokeOrderCorrect ? ' · right order 🌟' : ` · order ${result.strokeOrderScore}%`}
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.btn, styles.secondaryBtn]} onPress={handleRetry}>
+              <Text style={styles.btnText}>🔄 Try Again</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.btn} onPress={handleNext}>
+              <Text style={styles.btnText}>Next ➡️</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    alignItems: 'center',
+  },
+  header: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  closeBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EDE9FE',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: { fontSize: 28, fontWeight: '900', color: '#5B21B6' },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '900',
+    color: '#1F2937',
+  },
+  canvas: {
+    width: CANVAS_W,
+    height: CANVAS_H,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 24,
+    borderWidth: 3,
+    borderColor: '#8B5CF6',
+    overflow: 'hidden',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 20,
+  },
+  btn: {
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    backgroundColor: '#8B5CF6',
+    borderRadius: 18,
+  },
+  secondaryBtn: { backgroundColor: '#94A3B8' },
+  btnDisabled: { opacity: 0.5 },
+  btnText: { color: '#FFFFFF', fontSize: 16, fontWeight: '900' },
+  resultCard: {
+    marginTop: 20,
+    alignItems: 'center',
+    backgroundColor: '#F5F3FF',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 20,
+  },
+  resultLine: { fontSize: 18, fontWeight: '800', color: '#1F2937', marginBottom: 4 },
+});
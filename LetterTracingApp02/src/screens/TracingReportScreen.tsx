@@ -0,0 +1,214 @@
+// src/screens/TracingReportScreen.tsx
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+
+import TracingAnalysisService from '../services/TracingAnalysisService';
+import MLPredictionService from '../services/MLPredictionService';
+import type { ClinicalReport, MLPrediction } from '../types/tracing';
+
+const INDICATOR_COLORS: Record<MLPrediction['indicatorLevel'], string> = {
+  low: '#10B981',
+  medium: '#F59E0B',
+  high: '#F97316',
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+export default function TracingReportScreen() {
+  const navigation = useNavigation();
+  // undefined while saved sessions load, null when there are none
+  const [report, setReport] = useState<ClinicalReport | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    TracingAnalysisService.generateClinicalReport().then(next => {
+      if (!cancelled) setReport(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Tracing Report</Text>
+      </View>
+
+      {report === undefined ? null : report ? (
+        <ReportBody report={report} />
+      ) : (
+        <View style={styles.empty}>
+          <Text style={styles.emptyText}>No tracing sessions yet.</Text>
+          <Text style={styles.emptySub}>Trace a few letters and come back to see the report.</Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+function ReportBody({ report }: { report: ClinicalReport }) {
+  const { sessionSummary, performanceMetrics, mlAnalysis, detailedMetrics } = report;
+  const indicatorLevel = MLPredictionService.getIndicatorLevel(mlAnalysis.screeningScore / 100);
+
+  return (
+    <ScrollView contentContainerStyle={styles.scroll}>
+      <Section title="Sessions">
+        <Row label="Total sessions" value={`${sessionSummary.totalSessions}`} />
+        <Row label="Letters" value={sessionSummary.lettersAttempted.join(' ')} />
+        <Row
+          label="Dates"
+          value={`${formatDate(sessionSummary.dateRange.start)} – ${formatDate(sessionSummary.dateRange.end)}`}
+        />
+      </Section>
+
+      <Section title="Performance">
+        <Row label="Accuracy" value={`${Math.round(performanceMetrics.overallAccuracy)}%`} />
+        <Row label="Consistency" value={`${Math.round(performanceMetrics.consistencyScore)}%`} />
+        <Row label="Average speed" value={`${Math.round(performanceMetrics.averageSpeed)} px/s`} />
+        <Row
+          label="Improvement"
+          value={`${performanceMetrics.improvementRate >= 0 ? '+' : ''}${performanceMetrics.improvementRate.toFixed(1)} per session`}
+        />
+      </Section>
+
+      <Section title="Screening">
+        <View style={[styles.riskBadge, { backgroundColor: INDICATOR_COLORS[indicatorLevel] }]}>
+          <Text style={styles.riskText}>
+            {indicatorLevel.toUpperCase()} INDICATORS · {Math.round(mlAnalysis.screeningScore)}/100
+          </Text>
+        </View>
+        <Text style={styles.note}>
+          Based on {sessionSummary.totalSessions} sessions ({report.confidenceLevel} confidence). This
+          is an unvalidated heuristic score from hand-set weights, not a diagnosis.
+        </Text>
+        {mlAnalysis.keyIndicators.length > 0 && (
+          <BulletList title="Key indicators" items={mlAnalysis.keyIndicators} />
+        )}
+        {mlAnalysis.concernAreas.length > 0 && (
+          <BulletList title="Areas of concern" items={mlAnalysis.concernAreas} />
+        )}
+      </Section>
+
+      <Section title="By letter">
+        {Object.entries(detailedMetrics.byLetter).map(([letter, metrics]) => (
+          <Row
+            key={letter}
+            label={`${letter} (${metrics.length}×)`}
+            value={`${Math.round(
+              metrics.reduce((sum, m) => sum + m.accuracyScore, 0) / metrics.length
+            )}%`}
+          />
+        ))}
+      </Section>
+
+      <Section title="Recommendations">
+        <BulletList items={report.recommendations} />
+        {report.requiresFollowUp && (
+          <Text style={styles.followUp}>Indicators came up in several sessions</Text>
+        )}
+      </Section>
+    </ScrollView>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {children}
+    </View>
+  );
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue}>{value}</Text>
+    </View>
+  );
+}
+
+function BulletList({ title, items }: { title?: string; items: string[] }) {
+  return (
+    <View style={styles.bullets}>
+      {title && <Text style={styles.bulletTitle}>{title}</Text>}
+      {items.map(item => (
+        <Text key={item} style={styles.bullet}>
+          • {item}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  backBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#0EA5E9',
+    borderRadius: 10,
+  },
+  backText: { color: '#FFFFFF', fontWeight: '900' },
+  title: { fontSize: 24, fontWeight: '900', color: '#1F2937' },
+  scroll: { padding: 16, gap: 16 },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  sectionTitle: { fontSize: 18, fontWeight: '900', color: '#1F2937', marginBottom: 8 },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: { fontSize: 15, fontWeight: '600', color: '#6B7280' },
+  rowValue: { fontSize: 15, fontWeight: '800', color: '#1F2937', flexShrink: 1, textAlign: 'right' },
+  riskBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  riskText: { color: '#FFFFFF', fontWeight: '900', fontSize: 15 },
+  note: { marginTop: 8, fontSize: 13, color: '#6B7280', lineHeight: 18 },
+  bullets: { marginTop: 8 },
+  bulletTitle: { fontSize: 14, fontWeight: '800', color: '#374151', marginBottom: 4 },
+  bullet: { fontSize: 14, color: '#374151', lineHeight: 20 },
+  followUp: { marginTop: 8, fontSize: 14, fontWeight: '800', color: '#B91C1C' },
+  empty: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  emptyText: { fontSize: 20, fontWeight: '900', color: '#1F2937' },
+  emptySub: { marginTop: 8, fontSize: 15, color: '#6B7280', textAlign: 'center' },
+});
@@ -18,7 +18,9 @@ import {
   Platform,
   StatusBar,
 } from 'react-native';
+import type { GestureResponderEvent } from 'react-native';
 import Svg, {
+  Line,
   Path,
   Circle,
   G,
@@ -29,53 +31,100 @@ import Svg, {
   Image as SvgImage,
 } from 'react-native-svg';
 
-import { loadLetter } from '../letters';
-import type { Segment, LetterTheme } from '../letters/types';
+import { loadLetter, caseOf, isLetterAvailable } from '../letters';
+import LetterUnavailable from '../components/tracing/LetterUnavailable';
+import TracingAnalysisService from '../services/TracingAnalysisService';
+import type { GlyphSet, Segment, LetterTheme, ScriptPack, WritingGuides } from '../letters/types';
+import { useScriptPack } from '../hooks/useScriptPack';
+import { cumulativeLengths, indexAtLength, pointAtLength, projectOntoPath } from '../letters/utils/arcLength';
+import type { TouchPoint, Stroke } from '../types/tracing';
 
 const { width: SCREEN_W } = Dimensions.get('window');
-const CANVAS_W = Math.min(420, SCREEN_W);
-const CANVAS_H = Math.round(CANVAS_W * 1.2);
+export const CANVAS_W = Math.min(420, SCREEN_W);
+export const CANVAS_H = Math.round(CANVAS_W * 1.2);
 
 const BOX_W = 360;
 const BOX_H = 400;
 const BOX_X = (CANVAS_W - BOX_W) / 2;
 const BOX_Y = (CANVAS_H - BOX_H) / 2;
 
-function nearestIndex(
-  pts: { x: number; y: number; angle: number }[],
-  p: { x: number; y: number }
-) {
-  let best = 0;
-  let bestD = Number.POSITIVE_INFINITY;
-  for (let i = 0; i < pts.length; i++) {
-    const dx = pts[i].x - p.x;
-    const dy = pts[i].y - p.y;
-    const d = dx * dx + dy * dy;
-    if (d < bestD) {
-      bestD = d;
-      best = i;
-    }
-  }
-  return { index: best, dist2: bestD };
-}
-
 type SegmentState = 'locked' | 'active' | 'done';
 
+function toTouchPoint(evt: GestureResponderEvent): TouchPoint {
+  return {
+    x: evt.nativeEvent.locationX,
+    y: evt.nativeEvent.locationY,
+    timestamp: Date.now(),
+    pressure: Platform.OS === 'ios' ? evt.nativeEvent.force : undefined,
+  };
+}
+
 export default function TracingScreen() {
   const navigation = useNavigation();
   const route = useRoute<RouteProp<RootStackParamList, 'Tracing'>>();
   const letter = route.params?.letter ?? 'A';
+  const letterCase = route.params?.letterCase;
+  const [pack] = useScriptPack();
+
+  if (!isLetterAvailable(letter, letterCase)) {
+    return <LetterUnavailable letter={letter} onBack={() => navigation.goBack()} />;
+  }
+
+  // Wait for the saved pack rather than draw the letter twice
+  if (!pack) return null;
+
+  return (
+    <LetterTracer
+      letter={letter}
+      letterCase={letterCase}
+      pack={pack}
+      onClose={() => navigation.goBack()}
+    />
+  );
+}
 
-  const { build, theme } = useMemo(() => loadLetter(letter), [letter]);
+function LetterTracer({
+  letter,
+  letterCase,
+  pack,
+  onClose,
+}: {
+  letter: string;
+  letterCase?: GlyphSet;
+  pack: ScriptPack;
+  onClose: () => void;
+}) {
+  const { build, theme } = useMemo(
+    () => loadLetter(letter, letterCase, pack),
+    [letter, letterCase, pack]
+  );
 
   // Build segments directly from the letter builder
-  const { segments } = useMemo(
+  const { segments, guides } = useMemo(
     () => build({ x: BOX_X, y: BOX_Y, w: BOX_W, h: BOX_H }),
     [build]
   );
 
   console.log("TracingScreen segments:", segments);
 
+  const handleComplete = useCallback(
+    (strokes: Stroke[]) => {
+      if (strokes.length === 0) return;
+      TracingAnalysisService.recordSession(
+        {
+          letter,
+          letterCase: letterCase ?? caseOf(letter),
+          mode: 'guided',
+          strokes,
+          startTime: strokes[0].startTime,
+          endTime: strokes[strokes.length - 1].endTime,
+        },
+        segments
+      );
+    },
+    [letter, letterCase, segments]
+  );
+
   return (
     <ImageBackground source={theme.background} style={styles.bg} resizeMode="cover">
       <View style={styles.overlay}>
@@ -84,7 +133,9 @@ export default function TracingScreen() {
           letter={letter}
           theme={theme}
           segments={segments}
-          onClose={() => navigation.goBack()}
+          guides={guides}
+          onClose={onClose}
+          onComplete={handleComplete}
         />
       </View>
     </ImageBackground>
@@ -136,16 +187,39 @@ function AnimatedStar({ x, y, delay }: { x: number; y: number; delay: number })
   );
 }
 
-function TraceLetter({
+// Four-line handwriting sheet behind lowercase letters; the baseline is solid
+function WritingGuideLines({ guides }: { guides: WritingGuides }) {
+  const x1 = BOX_X - 10;
+  const x2 = BOX_X + BOX_W + 10;
+
+  return (
+    <G opacity={0.6}>
+      <Line x1={x1} x2={x2} y1={guides.ascender} y2={guides.ascender} stroke="#94A3B8" strokeWidth={2} strokeDasharray="8 8" />
+      <Line x1={x1} x2={x2} y1={guides.xHeight} y2={guides.xHeight} stroke="#60A5FA" strokeWidth={2} strokeDasharray="8 8" />
+      <Line x1={x1} x2={x2} y1={guides.baseline} y2={guides.baseline} stroke="#EF4444" strokeWidth={3} />
+      <Line x1={x1} x2={x2} y1={guides.descender} y2={guides.descender} stroke="#94A3B8" strokeWidth={2} strokeDasharray="8 8" />
+    </G>
+  );
+}
+
+export function TraceLetter({
   letter,
   theme,
   segments,
+  guides,
   onClose,
+  onTouch,
+  onComplete,
 }: {
   letter: string;
   theme: LetterTheme;
   segments: Segment[];
+  guides?: WritingGuides;
   onClose: () => void;
+  // Raw touches on the active segment, for callers that score the trace themselves
+  onTouch?: (segIndex: number, point: TouchPoint) => void;
+  // Called once the bee finishes, with every stroke recorded since the last restart
+  onComplete?: (strokes: Stroke[]) => void;
 }) {
   // Guard: if segments is missing or empty, render nothing but avoid crashes
   if (!segments || !Array.isArray(segments) || segments.length === 0) {
@@ -161,6 +235,47 @@ function TraceLetter({
   const [showSparkles, setShowSparkles] = useState(false);
   const [showBeeAnimation, setShowBeeAnimation] = useState(false);
 
+  // Strokes as the child actually drew them, one per touch-down/lift
+  const strokesRef = useRef<Stroke[]>([]);
+  const openStrokeRef = useRef<TouchPoint[] | null>(null);
+
+  const endStroke = useCallback(() => {
+    const points = openStrokeRef.current;
+    openStrokeRef.current = null;
+    if (!points || points.length === 0) return;
+    const startTime = points[0].timestamp;
+    const endTime = points[points.length - 1].timestamp;
+    strokesRef.current.push({
+      id: `stroke_${startTime}`,
+      points,
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+    });
+  }, []);
+
+  const beginStroke = useCallback(
+    (point: TouchPoint) => {
+      endStroke();
+      openStrokeRef.current = [point];
+    },
+    [endStroke]
+  );
+
+  const recordTouch = useCallback(
+    (point: TouchPoint) => {
+      if (!openStrokeRef.current) openStrokeRef.current = [];
+      openStrokeRef.current.push(point);
+      onTouch?.(segIndex, point);
+    },
+    [onTouch, segIndex]
+  );
+
+  const resetStrokes = useCallback(() => {
+    strokesRef.current = [];
+    openStrokeRef.current = null;
+  }, []);
+
   const goNext = useCallback(() => {
     setShowSparkles(true);
     setTimeout(() => setShowSparkles(false), 1000);
@@ -179,18 +294,20 @@ function TraceLetter({
   }, [segIndex, segments.length]);
 
   const handleRestart = useCallback(() => {
+    resetStrokes();
     setSegIndex(0);
     setStates(segments.map((_, i) => (i === 0 ? "active" : "locked")));
     setAllDone(false);
     setShowBeeAnimation(false);
-  }, [segments]);
+  }, [segments, resetStrokes]);
 
   useEffect(() => {
+    resetStrokes();
     setSegIndex(0);
     setStates(segments.map((_, i) => (i === 0 ? "active" : "locked")));
     setAllDone(false);
     setShowBeeAnimation(false);
-  }, [letter, segments]);
+  }, [letter, segments, resetStrokes]);
 
   return (
     <>
@@ -236,6 +353,8 @@ function TraceLetter({
             </LinearGradient>
           </Defs>
 
+          {guides && <WritingGuideLines guides={guides} />}
+
           <G opacity={0.85}>
             {segments.map((s, i) => (
               <Path
@@ -279,6 +398,8 @@ function TraceLetter({
               onDone={() => {
                 setShowBeeAnimation(false);
                 setAllDone(true);
+                endStroke();
+                onComplete?.([...strokesRef.current]);
               }}
             />
           )}
@@ -293,6 +414,9 @@ function TraceLetter({
             key={`${letter}-${segIndex}`}
             segment={segments[segIndex]}
             onDone={goNext}
+            onStrokeStart={beginStroke}
+            onTouch={recordTouch}
+            onStrokeEnd={endStroke}
           />
         ) : !showBeeAnimation ? (
           <SuccessBadge onRestart={handleRestart} />
@@ -608,25 +732,28 @@ function SuccessBadge({ onRestart }: any) {
   );
 }
 
-function SegmentTracer({ segment, onDone }: any) {
+function SegmentTracer({ segment, onDone, onStrokeStart, onTouch, onStrokeEnd }: any) {
   const TOLERANCE = 35;
-  const BACK_SLACK = 10;
+  // How far (px along the path) a touch may reach behind or ahead of the puck
+  const BACK_SLACK = 20;
+  const LOOK_AHEAD = 80;
   const puckR = 18;
-  const progressIndexRef = useRef(0);
+  const lengths = useMemo(() => cumulativeLengths(segment.pts), [segment.pts]);
+  const totalLength = lengths[lengths.length - 1] ?? 0;
+  const progressLengthRef = useRef(0);
   const [offTrack, setOffTrack] = useState(false);
   const [rotation, setRotation] = useState(segment.pts[0]?.angle || 0);
   const puck = useRef(new Animated.ValueXY({ x: segment.pts[0].x, y: segment.pts[0].y })).current;
   const glow = useRef(new Animated.Value(0)).current;
   const pulse = useRef(new Animated.Value(1)).current;
 
-  const setPuckToIndex = useCallback(
-    (idx: number) => {
-      const clamped = Math.max(0, Math.min(segment.pts.length - 1, idx));
-      const pt = segment.pts[clamped];
+  const setPuckToLength = useCallback(
+    (length: number) => {
+      const pt = pointAtLength(segment.pts, lengths, length);
       puck.setValue({ x: pt.x, y: pt.y });
       setRotation(pt.angle + 90);
     },
-    [segment.pts, puck]
+    [segment.pts, lengths, puck]
   );
 
   useEffect(() => {
@@ -655,35 +782,46 @@ function SegmentTracer({ segment, onDone }: any) {
       PanResponder.create({
         onStartShouldSetPanResponder: () => true,
         onMoveShouldSetPanResponder: () => true,
-        onPanResponderGrant: () => {
+        onPanResponderGrant: (evt) => {
+          onStrokeStart?.(toTouchPoint(evt));
           setOffTrack(false);
-          setPuckToIndex(progressIndexRef.current);
+          setPuckToLength(progressLengthRef.current);
         },
         onPanResponderMove: (evt) => {
           const touchX = evt.nativeEvent.locationX;
           const touchY = evt.nativeEvent.locationY;
-          const { index, dist2 } = nearestIndex(segment.pts, { x: touchX, y: touchY });
+          onTouch?.(toTouchPoint(evt));
+          const prev = progressLengthRef.current;
+          const { length, dist2 } = projectOntoPath(
+            segment.pts,
+            lengths,
+            { x: touchX, y: touchY },
+            prev - BACK_SLACK,
+            prev + LOOK_AHEAD
+          );
           const within = dist2 <= TOLERANCE * TOLERANCE;
           if (!within) {
             setOffTrack(true);
             return;
           }
           setOffTrack(false);
-          const prev = progressIndexRef.current;
-          const next = Math.max(prev - BACK_SLACK, index);
-          progressIndexRef.current = Math.max(prev, next);
-          setPuckToIndex(progressIndexRef.current);
-          if (progressIndexRef.current >= segment.pts.length - 1) {
+          progressLengthRef.current = Math.max(prev, length);
+          setPuckToLength(progressLengthRef.current);
+          if (progressLengthRef.current >= totalLength - 0.5) {
             setTimeout(onDone, 300);
           }
         },
         onPanResponderRelease: () => {
-          if (offTrack) setPuckToIndex(progressIndexRef.current);
+          onStrokeEnd?.();
+          if (offTrack) setPuckToLength(progressLengthRef.current);
         },
       }),
-    [segment.pts, onDone, offTrack, setPuckToIndex]
+    [segment.pts, lengths, totalLength, onDone, onStrokeStart, onTouch, onStrokeEnd, offTrack, setPuckToLength]
   );
 
+  const trailEnd = pointAtLength(segment.pts, lengths, progressLengthRef.current);
+  const trailPoints = [...segment.pts.slice(1, indexAtLength(lengths, progressLengthRef.current) + 1), trailEnd];
+
   const glowColor = glow.interpolate({ inputRange: [0, 1], outputRange: ['rgba(34,197,94,0.0)', 'rgba(255,215,0,0.8)'] });
 
   const puckStyle = {
@@ -707,7 +845,7 @@ function SegmentTracer({ segment, onDone }: any) {
           </LinearGradient>
         </Defs>
         <Path
-          d={`M ${segment.pts[0].x} ${segment.pts[0].y} ` + segment.pts.slice(1, progressIndexRef.current + 1).map((p: any) => `L ${p.x} ${p.y}`).join(' ')}
+          d={`M ${segment.pts[0].x} ${segment.pts[0].y} ` + trailPoints.map((p: any) => `L ${p.x} ${p.y}`).join(' ')}
           stroke={offTrack ? '#F87171' : 'url(#rainbowTrail)'}
           strokeWidth={16}
           strokeLinecap="round"
@@ -0,0 +1,291 @@
+// src/screens/WordTracingScreen.tsx
+
+import React, { useMemo, useRef, useState, useCallback } from 'react';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { RootStackParamList } from '../navigation/RootNavigator';
+import {
+  View,
+  Text,
+  TextInput,
+  ImageBackground,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+
+import { TraceLetter, CANVAS_W, CANVAS_H } from './TracingScreen';
+import { isLetterAvailable, caseOf } from '../letters';
+import type { ScriptPack } from '../letters';
+import { layoutWord } from '../letters/word';
+import { SCRIPT_PACKS } from '../letters/scripts';
+import { useScriptPack } from '../hooks/useScriptPack';
+import { calculateWordMetrics } from '../utils/wordMetrics';
+import TracingAnalysisService from '../services/TracingAnalysisService';
+import type { Stroke, TouchPoint, WordTracingMetrics } from '../types/tracing';
+
+const BG = require('../../assets/images/background_for_initial_home_screen.png');
+
+// Short, decodable words to get started; any name typed in works too
+const SAMPLE_WORDS = ['cat', 'dog', 'sun', 'fish', 'Mom', 'Dad'];
+const MAX_LENGTH = 8;
+
+const WORD_BOX = { x: 12, y: CANVAS_H / 2 - 130, w: CANVAS_W - 24, h: 260 };
+
+/**
+ * Keep only characters that have a traceable glyph
+ */
+function sanitizeWord(text: string): string {
+  return [...text]
+    .filter(char => char === ' ' || isLetterAvailable(char))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_LENGTH);
+}
+
+export default function WordTracingScreen() {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, 'WordTracing'>>();
+  const [draft, setDraft] = useState(route.params?.word ?? '');
+  const [word, setWord] = useState<string | null>(
+    route.params?.word ? sanitizeWord(route.params.word).trim() || null : null
+  );
+  const [pack, choosePack] = useScriptPack();
+
+  if (!word) {
+    return (
+      <ImageBackground source={BG} style={styles.bg} resizeMode="cover">
+        <View style={styles.center}>
+          <Text style={styles.title}>Trace a Word</Text>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={text => setDraft(sanitizeWord(text))}
+            placeholder="Type a word or name"
+            autoCapitalize="none"
+            autoCorrect={false}
+            maxLength={MAX_LENGTH}
+          />
+          <View style={styles.samples}>
+            {SAMPLE_WORDS.map(sample => (
+              <TouchableOpacity
+                key={sample}
+                style={styles.sampleChip}
+                onPress={() => setWord(sample)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.sampleText}>{sample}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.samples}>
+            {Object.values(SCRIPT_PACKS).map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.sampleChip, option.id === pack?.id && styles.packChipActive]}
+                onPress={() => choosePack(option)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.sampleText}>{option.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={[styles.btn, !draft.trim() && styles.btnDisabled]}
+            disabled={!draft.trim()}
+            onPress={() => setWord(draft.trim())}
+          >
+            <Text style={styles.btnText}>✏️ Start Tracing</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+            <Text style={styles.btnText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+      </ImageBackground>
+    );
+  }
+
+  // Wait for the saved pack rather than lay the word out twice
+  if (!pack) return null;
+
+  return <WordTracer word={word} pack={pack} onClose={() => setWord(null)} />;
+}
+
+function WordTracer({
+  word,
+  pack,
+  onClose,
+}: {
+  word: string;
+  pack: ScriptPack;
+  onClose: () => void;
+}) {
+  const layout = useMemo(() => layoutWord(word, WORD_BOX, undefined, pack), [word, pack]);
+  const theme = layout.glyphs[0].theme;
+
+  // Touches are bucketed by glyph as they arrive
+  const touchesRef = useRef<TouchPoint[][]>(layout.glyphs.map(() => []));
+  const [metrics, setMetrics] = useState<WordTracingMetrics | null>(null);
+
+  const glyphForSegment = useCallback(
+    (segIndex: number) => {
+      let glyph = 0;
+      layout.glyphs.forEach((g, i) => {
+        if (g.firstSegment <= segIndex) glyph = i;
+      });
+      return glyph;
+    },
+    [layout]
+  );
+
+  const handleTouch = useCallback(
+    (segIndex: number, point: TouchPoint) => {
+      touchesRef.current[glyphForSegment(segIndex)].push(point);
+    },
+    [glyphForSegment]
+  );
+
+  const handleComplete = useCallback(
+    (strokes: Stroke[]) => {
+      const wordMetrics = calculateWordMetrics(layout, touchesRef.current);
+      setMetrics(wordMetrics);
+      touchesRef.current = layout.glyphs.map(() => []);
+      if (strokes.length === 0) return;
+
+      TracingAnalysisService.recordSession(
+        {
+          letter: layout.text,
+          letterCase: caseOf(layout.glyphs[0].char),
+          mode: 'word',
+          strokes,
+          startTime: strokes[0].startTime,
+          endTime: strokes[strokes.length - 1].endTime,
+          wordMetrics,
+        },
+        layout.segments
+      );
+    },
+    [layout]
+  );
+
+  return (
+    <ImageBackground source={theme.background} style={styles.traceBg} resizeMode="cover">
+      <View style={styles.overlay}>
+        <TraceLetter
+          letter={word}
+          theme={theme}
+          segments={layout.segments}
+          guides={layout.guides}
+          onClose={onClose}
+          onTouch={handleTouch}
+          onComplete={handleComplete}
+        />
+        {metrics && <WordSummary metrics={metrics} />}
+      </View>
+    </ImageBackground>
+  );
+}
+
+function WordSummary({ metrics }: { metrics: WordTracingMetrics }) {
+  const drift = metrics.baselineDrift.slope;
+
+  return (
+    <View style={styles.summary} pointerEvents="none">
+      <Text style={styles.summaryTitle}>
+        {metrics.word}: {Math.round(metrics.overallAccuracy)}%
+      </Text>
+      <View style={styles.glyphRow}>
+        {metrics.glyphs.map(g => (
+          <View key={g.index} style={styles.glyphCell}>
+            <Text style={styles.glyphChar}>{g.char}</Text>
+            <Text style={styles.glyphScore}>{Math.round(g.accuracyScore)}</Text>
+          </View>
+        ))}
+      </View>
+      <Text style={styles.summaryLine}>
+        Spacing: {Math.round(metrics.spacing.consistency * 100)}% even
+      </Text>
+      <Text style={styles.summaryLine}>
+        Baseline: {Math.abs(drift) < 0.05 ? 'steady' : drift > 0 ? 'drifting down' : 'drifting up'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  traceBg: { flex: 1, backgroundColor: '#87CEEB' },
+  overlay: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingBottom: 28 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 24 },
+  title: {
+    fontSize: 28,
+    fontWeight: '900',
+    color: '#111827',
+    backgroundColor: 'rgba(255,255,255,0.9)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 14,
+  },
+  input: {
+    marginTop: 16,
+    minWidth: 240,
+    fontSize: 28,
+    fontWeight: '800',
+    textAlign: 'center',
+    color: '#0F172A',
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 14,
+    borderWidth: 3,
+    borderColor: '#0EA5E9',
+  },
+  samples: {
+    marginTop: 14,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  sampleChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: 'rgba(255,255,255,0.85)',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'rgba(0,0,0,0.08)',
+  },
+  sampleText: { fontSize: 18, fontWeight: '800', color: '#1F2937' },
+  packChipActive: { borderColor: '#0EA5E9', backgroundColor: 'rgba(224,242,254,0.95)' },
+  btn: {
+    marginTop: 18,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#3B82F6',
+    borderRadius: 14,
+  },
+  btnDisabled: { opacity: 0.5 },
+  backBtn: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#0EA5E9',
+    borderRadius: 10,
+  },
+  btnText: { color: 'white', fontWeight: '900', fontSize: 16 },
+  summary: {
+    position: 'absolute',
+    top: 60,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(255,255,255,0.92)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  summaryTitle: { fontSize: 20, fontWeight: '900', color: '#0F172A' },
+  glyphRow: { flexDirection: 'row', gap: 10, marginVertical: 6 },
+  glyphCell: { alignItems: 'center' },
+  glyphChar: { fontSize: 18, fontWeight: '900', color: '#1F2937' },
+  glyphScore: { fontSize: 12, fontWeight: '700', color: '#475569' },
+  summaryLine: { fontSize: 14, fontWeight: '700', color: '#334155' },
+});
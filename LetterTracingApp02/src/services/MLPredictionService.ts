@@ -0,0 +1,98 @@
+// src/services/MLPredictionService.ts
+
+import { MLFeatures, MLPrediction } from '../types/tracing';
+
+/**
+ * Heuristic screening score over the tracing features.
+ *
+ * No trained model ships with this app, so the weights below are a
+ * hand-set baseline over normalised indicators (reversal evidence first,
+ * then motor control). They have not been validated against assessed
+ * children, so the score only says how strongly the indicators showed up:
+ * it is not a diagnosis and carries no referral advice.
+ */
+const MODEL_NAME = 'tracing-heuristic-unvalidated';
+
+const INTERCEPT = -2.6;
+
+const WEIGHTS: { weight: number; value: (f: MLFeatures) => number; label: string }[] = [
+  { weight: 2.4, value: f => f.reversal_confidence_score, label: 'Letter reversals' },
+  { weight: 1.2, value: f => f.orientation_error_score, label: 'Orientation errors' },
+  { weight: 0.9, value: f => 1 - f.spatial_accuracy_score / 100, label: 'Low tracing accuracy' },
+  { weight: 0.6, value: f => f.stroke_retracing_ratio, label: 'Retracing within strokes' },
+  { weight: 0.5, value: f => 1 - f.stroke_completion_ratio, label: 'Incomplete strokes' },
+  { weight: 0.4, value: f => Math.min(1, f.inter_stroke_pause_mean / 2000), label: 'Long pauses between strokes' },
+  { weight: 0.3, value: f => 1 - f.smoothness_index / 100, label: 'Jerky movement' },
+];
+
+const INDICATOR_BANDS: { max: number; level: MLPrediction['indicatorLevel'] }[] = [
+  { max: 0.3, level: 'low' },
+  { max: 0.5, level: 'medium' },
+  { max: Infinity, level: 'high' },
+];
+
+const INTERPRETATIONS: Record<MLPrediction['indicatorLevel'], string> = {
+  low: 'Few of the tracked indicators showed up in this session.',
+  medium: 'Some of the tracked indicators showed up in this session.',
+  high: 'Many of the tracked indicators showed up in this session.',
+};
+
+export class MLPredictionService {
+  private static instance: MLPredictionService;
+
+  private constructor() {}
+
+  static getInstance(): MLPredictionService {
+    if (!MLPredictionService.instance) {
+      MLPredictionService.instance = new MLPredictionService();
+    }
+    return MLPredictionService.instance;
+  }
+
+  /**
+   * Score one session's features
+   */
+  predict(features: MLFeatures): MLPrediction {
+    const z = WEIGHTS.reduce(
+      (sum, w) => sum + w.weight * this.clamp01(w.value(features)),
+      INTERCEPT
+    );
+    const score = 1 / (1 + Math.exp(-z));
+    const indicatorLevel = this.getIndicatorLevel(score);
+
+    return {
+      score,
+      confidence: Math.abs(score - 0.5) * 2,
+      indicatorLevel,
+      interpretation: INTERPRETATIONS[indicatorLevel],
+      modelName: MODEL_NAME,
+      validated: false,
+      features,
+    };
+  }
+
+  /**
+   * Indicator band for a 0-1 score
+   */
+  getIndicatorLevel(score: number): MLPrediction['indicatorLevel'] {
+    return INDICATOR_BANDS.find(b => score < b.max)!.level;
+  }
+
+  /**
+   * Labels of the indicators contributing most to a prediction
+   */
+  getKeyIndicators(features: MLFeatures, limit: number = 3): string[] {
+    return WEIGHTS
+      .map(w => ({ label: w.label, contribution: w.weight * this.clamp01(w.value(features)) }))
+      .filter(c => c.contribution > 0.2)
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, limit)
+      .map(c => c.label);
+  }
+
+  private clamp01(value: number): number {
+    return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0;
+  }
+}
+
+export default MLPredictionService.getInstance();
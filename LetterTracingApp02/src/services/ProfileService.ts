@@ -0,0 +1,119 @@
+// src/services/ProfileService.ts
+// The children using this device and which of them is tracing now
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_SCRIPT_PACK, getScriptPack } from '../letters/scripts';
+import type { ScriptPackId } from '../letters/types';
+import type { ChildProfile } from '../types/profile';
+
+const PROFILE_KEYS = {
+  PROFILES: '@profiles',
+  ACTIVE_PROFILE: '@active_profile',
+  // The device-wide handwriting model saved before there were profiles
+  LEGACY_SCRIPT_PACK: '@settings_script_pack',
+};
+
+const newProfile = (name: string, scriptPack: ScriptPackId = DEFAULT_SCRIPT_PACK): ChildProfile => ({
+  id: `child_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  scriptPack,
+  createdAt: Date.now(),
+});
+
+export class ProfileService {
+  private static instance: ProfileService;
+  // Screens asking at once on first run share one new child
+  private firstRun: Promise<ChildProfile[]> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  /**
+   * Every child on this device, oldest first
+   * The first run creates one child, keeping any handwriting model already chosen.
+   */
+  async getProfiles(): Promise<ChildProfile[]> {
+    try {
+      const json = await AsyncStorage.getItem(PROFILE_KEYS.PROFILES);
+      if (json) return JSON.parse(json) as ChildProfile[];
+
+      this.firstRun =
+        this.firstRun ??
+        this.createFirstProfile().finally(() => {
+          this.firstRun = null;
+        });
+      return await this.firstRun;
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The child tracing now; null only if profiles can't be read
+   */
+  async getActiveProfile(): Promise<ChildProfile | null> {
+    const profiles = await this.getProfiles();
+    try {
+      const activeId = await AsyncStorage.getItem(PROFILE_KEYS.ACTIVE_PROFILE);
+      return profiles.find(p => p.id === activeId) ?? profiles[0] ?? null;
+    } catch (error) {
+      console.error('Failed to load active profile:', error);
+      return profiles[0] ?? null;
+    }
+  }
+
+  /**
+   * Add a child and make them the active one
+   */
+  async addProfile(name: string): Promise<ChildProfile> {
+    const profile = newProfile(name.trim());
+    const profiles = await this.getProfiles();
+    await this.saveProfiles([...profiles, profile]);
+    await this.setActiveProfile(profile.id);
+    return profile;
+  }
+
+  async setActiveProfile(id: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PROFILE_KEYS.ACTIVE_PROFILE, id);
+    } catch (error) {
+      console.error('Failed to switch profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the handwriting model a child is taught
+   */
+  async setScriptPack(profileId: string, scriptPack: ScriptPackId): Promise<void> {
+    const profiles = await this.getProfiles();
+    await this.saveProfiles(profiles.map(p => (p.id === profileId ? { ...p, scriptPack } : p)));
+  }
+
+  private async createFirstProfile(): Promise<ChildProfile[]> {
+    const legacyPack = await AsyncStorage.getItem(PROFILE_KEYS.LEGACY_SCRIPT_PACK);
+    const first = newProfile('Child 1', getScriptPack(legacyPack).id);
+    await this.saveProfiles([first]);
+    await AsyncStorage.setItem(PROFILE_KEYS.ACTIVE_PROFILE, first.id);
+    await AsyncStorage.removeItem(PROFILE_KEYS.LEGACY_SCRIPT_PACK);
+    return [first];
+  }
+
+  private async saveProfiles(profiles: ChildProfile[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PROFILE_KEYS.PROFILES, JSON.stringify(profiles));
+    } catch (error) {
+      console.error('Failed to save profiles:', error);
+      throw error;
+    }
+  }
+}
+
+export default ProfileService.getInstance();
@@ -0,0 +1,604 @@
+// src/services/TracingAnalysisService.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  TouchPoint,
+  Stroke,
+  TracingSession,
+  TracingMetrics,
+  TracingMode,
+  MLFeatures,
+  MLPrediction,
+  ClinicalReport,
+} from '../types/tracing';
+import type { GlyphSet, Segment } from '../letters/types';
+import {
+  calculateDistanceToPath,
+  calculatePathCoverage,
+  calculateStrokeLength,
+  calculateSmoothness,
+  calculateRealTimeMetrics,
+  isWithinBounds,
+} from '../utils/tracingMetrics';
+import { normalizeStrokes, resamplePolyline, frechetDistance } from '../utils/shapeMatching';
+import MLPredictionService from './MLPredictionService';
+
+type Pt = { x: number; y: number };
+
+export interface AnalyzedSession {
+  session: TracingSession;
+  metrics: TracingMetrics;
+  prediction: MLPrediction;
+}
+
+export interface SessionInput {
+  letter: string;
+  letterCase: GlyphSet;
+  mode: TracingMode;
+  strokes: Stroke[];
+  startTime: number;
+  endTime?: number;
+  wordMetrics?: TracingSession['wordMetrics'];
+  metadata?: Partial<TracingSession['metadata']>;
+}
+
+const SESSIONS_KEY = '@tracing_sessions';
+
+// Gaps between touch samples longer than this count as a pause mid-stroke
+const PAUSE_MS = 150;
+// Earlier ink closer than this counts as overlap
+const OVERLAP_PX = 8;
+// Turning angles below this (radians) are candidate tremor oscillations
+const TREMOR_ANGLE = Math.PI / 6;
+const DIRECTION_CHANGE_ANGLE = Math.PI / 4;
+const LIGHT_PRESSURE = 0.3;
+const HEAVY_PRESSURE = 0.7;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function std(values: number[]): number {
+  if (values.length === 0) return 0;
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
+
+function distance(a: Pt, b: Pt): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Signed turning angle at each interior point, wrapped to (-π, π]
+ */
+function turningAngles(points: Pt[]): number[] {
+  const angles: number[] = [];
+  for (let i = 2; i < points.length; i++) {
+    const h1 = Math.atan2(points[i - 1].y - points[i - 2].y, points[i - 1].x - points[i - 2].x);
+    const h2 = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+    let delta = h2 - h1;
+    while (delta > Math.PI) delta -= 2 * Math.PI;
+    while (delta <= -Math.PI) delta += 2 * Math.PI;
+    angles.push(delta);
+  }
+  return angles;
+}
+
+/**
+ * A rate sample and when it applies, in seconds
+ */
+interface TimedSample {
+  value: number;
+  t: number;
+}
+
+/**
+ * Speed between consecutive touch points, timed at the middle of each step.
+ * Steps without elapsed time are skipped, so each sample keeps its own time.
+ */
+function velocitySamples(points: TouchPoint[]): TimedSample[] {
+  const samples: TimedSample[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const dt = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+    if (dt > 0) {
+      samples.push({
+        value: distance(points[i - 1], points[i]) / dt,
+        t: (points[i].timestamp + points[i - 1].timestamp) / 2000,
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Rate of change of a timed series
+ */
+function derivative(samples: TimedSample[]): TimedSample[] {
+  const result: TimedSample[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const dt = samples[i].t - samples[i - 1].t;
+    if (dt > 0) {
+      result.push({
+        value: (samples[i].value - samples[i - 1].value) / dt,
+        t: (samples[i].t + samples[i - 1].t) / 2,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Principal-axis orientation of a point cloud, in degrees [0, 180)
+ */
+function principalAxis(points: Pt[]): number {
+  const cx = mean(points.map(p => p.x));
+  const cy = mean(points.map(p => p.y));
+  const sxx = mean(points.map(p => (p.x - cx) ** 2));
+  const syy = mean(points.map(p => (p.y - cy) ** 2));
+  const sxy = mean(points.map(p => (p.x - cx) * (p.y - cy)));
+  const angle = (0.5 * Math.atan2(2 * sxy, sxx - syy) * 180) / Math.PI;
+  return (angle + 180) % 180;
+}
+
+export class TracingAnalysisService {
+  private static instance: TracingAnalysisService;
+  // Loaded from storage on first use, then kept in step with it
+  private sessions: Promise<AnalyzedSession[]> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): TracingAnalysisService {
+    if (!TracingAnalysisService.instance) {
+      TracingAnalysisService.instance = new TracingAnalysisService();
+    }
+    return TracingAnalysisService.instance;
+  }
+
+  /**
+   * Build, analyse and save a finished session
+   */
+  async recordSession(input: SessionInput, segments: Segment[]): Promise<AnalyzedSession> {
+    const sessions = await this.loadSessions();
+    const endTime = input.endTime ?? Date.now();
+    const session: TracingSession = {
+      sessionId: `session_${input.startTime}`,
+      letter: input.letter,
+      letterCase: input.letterCase,
+      mode: input.mode,
+      startTime: input.startTime,
+      endTime,
+      totalDuration: endTime - input.startTime,
+      strokes: input.strokes,
+      touchPoints: input.strokes.flatMap(s => s.points),
+      ...(input.wordMetrics && { wordMetrics: input.wordMetrics }),
+      metadata: {
+        attemptNumber: sessions.filter(s => s.session.letter === input.letter).length + 1,
+        ...input.metadata,
+      },
+    };
+
+    const analyzed = this.analyzeSession(session, segments);
+    sessions.push(analyzed);
+    await this.saveSessions(sessions);
+    return analyzed;
+  }
+
+  /**
+   * Metrics, features and prediction for one session
+   */
+  analyzeSession(session: TracingSession, segments: Segment[]): AnalyzedSession {
+    const pathPoints = segments.flatMap(s => s.pts);
+    const metrics = {
+      ...calculateRealTimeMetrics(session.touchPoints, session.strokes, pathPoints, session.startTime),
+      totalTime: session.totalDuration ?? 0,
+    };
+    const features = this.extractFeatures(session, segments, metrics);
+
+    return {
+      session,
+      metrics,
+      prediction: MLPredictionService.predict(features),
+    };
+  }
+
+  /**
+   * Compute the 47 MLFeatures from a session's strokes and the letter geometry
+   */
+  extractFeatures(session: TracingSession, segments: Segment[], metrics: TracingMetrics): MLFeatures {
+    return {
+      ...this.temporalFeatures(session),
+      ...this.spatialFeatures(session, segments, metrics),
+      ...this.pressureFeatures(session),
+      ...this.strokePatternFeatures(session, segments),
+      ...this.reversalFeatures(session, segments),
+    };
+  }
+
+  async getSessions(): Promise<AnalyzedSession[]> {
+    return [...(await this.loadSessions())];
+  }
+
+  async clearSessions(): Promise<void> {
+    this.sessions = Promise.resolve([]);
+    this.writes = this.writes.then(async () => {
+      try {
+        await AsyncStorage.removeItem(SESSIONS_KEY);
+      } catch (error) {
+        console.error('Failed to clear tracing sessions:', error);
+      }
+    });
+    await this.writes;
+  }
+
+  /**
+   * Summarise every recorded session, including earlier app runs, into a clinical report
+   */
+  async generateClinicalReport(patientInfo: ClinicalReport['patientInfo'] = {}): Promise<ClinicalReport | null> {
+    const sessions = await this.loadSessions();
+    if (sessions.length === 0) return null;
+
+    const bySession = sessions.map(s => s.metrics);
+    const predictions = sessions.map(s => s.prediction);
+    const accuracies = bySession.map(m => m.accuracyScore);
+
+    const byLetter: Record<string, TracingMetrics[]> = {};
+    sessions.forEach(({ session, metrics }) => {
+      (byLetter[session.letter] = byLetter[session.letter] ?? []).push(metrics);
+    });
+
+    const overallAccuracy = mean(accuracies);
+    const consistencyScore = overallAccuracy > 0
+      ? Math.max(0, 100 - (std(accuracies) / overallAccuracy) * 100)
+      : 0;
+    const screeningScore = mean(predictions.map(p => p.score)) * 100;
+
+    const keyIndicators = this.rankIndicators(predictions);
+    const concernAreas = this.findConcernAreas(byLetter, predictions);
+    // Indicators that persist across sessions are worth a teacher's eye; a single bad day isn't
+    const requiresFollowUp =
+      sessions.length >= 3 && predictions.filter(p => p.indicatorLevel === 'high').length >= 2;
+
+    return {
+      reportId: `report_${Date.now()}`,
+      generatedAt: Date.now(),
+      patientInfo,
+      sessionSummary: {
+        totalSessions: sessions.length,
+        lettersAttempted: Object.keys(byLetter),
+        dateRange: {
+          start: Math.min(...sessions.map(s => s.session.startTime)),
+          end: Math.max(...sessions.map(s => s.session.endTime ?? s.session.startTime)),
+        },
+      },
+      performanceMetrics: {
+        overallAccuracy,
+        averageSpeed: mean(bySession.map(m => m.averageSpeed)),
+        consistencyScore,
+        improvementRate: this.improvementRate(accuracies),
+      },
+      mlAnalysis: {
+        screeningScore,
+        predictions,
+        keyIndicators,
+        concernAreas,
+      },
+      detailedMetrics: {
+        byLetter,
+        bySession,
+      },
+      recommendations: this.buildRecommendations(overallAccuracy, concernAreas, requiresFollowUp),
+      requiresFollowUp,
+      confidenceLevel: sessions.length >= 10 ? 'high' : sessions.length >= 3 ? 'medium' : 'low',
+    };
+  }
+
+  private loadSessions(): Promise<AnalyzedSession[]> {
+    if (!this.sessions) {
+      this.sessions = AsyncStorage.getItem(SESSIONS_KEY)
+        .then(json => (json ? (JSON.parse(json) as AnalyzedSession[]) : []))
+        .catch(error => {
+          console.error('Failed to load tracing sessions:', error);
+          return [];
+        });
+    }
+    return this.sessions;
+  }
+
+  /**
+   * Queue a write of the whole list; each write serialises the list as it is
+   * then, so the last one always holds every session
+   */
+  private saveSessions(sessions: AnalyzedSession[]): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      try {
+        await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+      } catch (error) {
+        console.error('Failed to save tracing sessions:', error);
+      }
+    });
+    return this.writes;
+  }
+
+  private temporalFeatures(session: TracingSession) {
+    // Differentiate within each stroke; lifts between strokes aren't motion
+    const speedSeries = session.strokes.map(s => velocitySamples(s.points));
+    const accelerationSeries = speedSeries.map(derivative);
+    const velocities = speedSeries.flat().map(v => v.value);
+    const accelerations = accelerationSeries.flat().map(a => a.value);
+    const jerks = accelerationSeries.flatMap(derivative).map(j => j.value);
+    const strokeDurations = session.strokes.map(s => s.duration);
+
+    return {
+      total_duration: session.totalDuration ?? 0, // milliseconds
+      mean_velocity: mean(velocities),
+      std_velocity: std(velocities),
+      mean_acceleration: mean(accelerations.map(Math.abs)),
+      std_acceleration: std(accelerations),
+      mean_jerk: mean(jerks.map(Math.abs)),
+      std_jerk: std(jerks),
+      num_strokes: session.strokes.length,
+      mean_stroke_duration: mean(strokeDurations),
+      std_stroke_duration: std(strokeDurations),
+      total_path_length: session.strokes.reduce((sum, s) => sum + calculateStrokeLength(s), 0),
+    };
+  }
+
+  private spatialFeatures(session: TracingSession, segments: Segment[], metrics: TracingMetrics) {
+    const pathPoints = segments.flatMap(s => s.pts);
+    const deviations = session.touchPoints.map(p => calculateDistanceToPath(p, pathPoints));
+
+    const angles = session.strokes.flatMap(s => turningAngles(s.points));
+    const curvatures = session.strokes.flatMap(s =>
+      turningAngles(s.points).map((a, i) => {
+        const len = distance(s.points[i + 1], s.points[i + 2]);
+        return len > 0 ? Math.abs(a) / len : 0;
+      })
+    );
+
+    // Small alternating turns are the signature of tremor
+    const tremorSwings = session.strokes.reduce((count, s) => {
+      const small = turningAngles(s.points).filter(a => Math.abs(a) < TREMOR_ANGLE && a !== 0);
+      return count + small.filter((a, i) => i > 0 && Math.sign(a) !== Math.sign(small[i - 1])).length;
+    }, 0);
+    const drawingSeconds = session.strokes.reduce((sum, s) => sum + s.duration, 0) / 1000;
+
+    const bounds = {
+      minX: Math.min(...pathPoints.map(p => p.x)),
+      minY: Math.min(...pathPoints.map(p => p.y)),
+      maxX: Math.max(...pathPoints.map(p => p.x)),
+      maxY: Math.max(...pathPoints.map(p => p.y)),
+    };
+
+    return {
+      mean_deviation_from_path: mean(deviations),
+      std_deviation_from_path: std(deviations),
+      max_deviation_from_path: deviations.length > 0 ? Math.max(...deviations) : 0,
+      path_coverage_percentage: metrics.pathCoverage,
+      mean_curvature: mean(curvatures),
+      std_curvature: std(curvatures),
+      smoothness_index: mean(session.strokes.map(s => calculateSmoothness(s.points))),
+      tremor_frequency: drawingSeconds > 0 ? tremorSwings / 2 / drawingSeconds : 0, // Hz
+      direction_changes: angles.filter(a => Math.abs(a) > DIRECTION_CHANGE_ANGLE).length,
+      mean_angle_variance: std(angles) ** 2,
+      spatial_accuracy_score: metrics.accuracyScore,
+      boundary_violations: pathPoints.length > 0
+        ? session.touchPoints.filter(p => !isWithinBounds(p, bounds, 20)).length
+        : 0,
+    };
+  }
+
+  private pressureFeatures(session: TracingSession) {
+    const pressures = session.touchPoints
+      .map(p => p.pressure ?? p.force)
+      .filter((p): p is number => p !== undefined && p > 0);
+
+    if (pressures.length === 0) {
+      return {
+        mean_pressure: 0,
+        std_pressure: 0,
+        pressure_variability: 0,
+        mean_pressure_change_rate: 0,
+        pressure_smoothness: 0,
+        light_pressure_ratio: 0,
+        heavy_pressure_ratio: 0,
+        pressure_consistency_score: 0,
+      };
+    }
+
+    const m = mean(pressures);
+    const sd = std(pressures);
+    const changes = pressures.slice(1).map((p, i) => Math.abs(p - pressures[i]));
+    const cv = m > 0 ? sd / m : 0;
+
+    return {
+      mean_pressure: m,
+      std_pressure: sd,
+      pressure_variability: cv,
+      mean_pressure_change_rate: mean(changes),
+      pressure_smoothness: Math.max(0, 100 - std(changes) * 100),
+      light_pressure_ratio: pressures.filter(p => p < LIGHT_PRESSURE).length / pressures.length,
+      heavy_pressure_ratio: pressures.filter(p => p > HEAVY_PRESSURE).length / pressures.length,
+      pressure_consistency_score: Math.max(0, 100 - cv * 100),
+    };
+  }
+
+  private strokePatternFeatures(session: TracingSession, segments: Segment[]) {
+    const { strokes } = session;
+
+    let overlapping = 0;
+    let total = 0;
+    strokes.forEach((stroke, k) => {
+      const earlier = strokes.slice(0, k).flatMap(s => s.points);
+      stroke.points.forEach(p => {
+        total++;
+        if (earlier.some(q => distance(p, q) <= OVERLAP_PX)) overlapping++;
+      });
+    });
+
+    const straightness = strokes
+      .map(s => {
+        const length = calculateStrokeLength(s);
+        return length > 0 ? distance(s.points[0], s.points[s.points.length - 1]) / length : null;
+      })
+      .filter((v): v is number => v !== null);
+
+    const startDistances = strokes
+      .filter(s => s.points.length > 0 && segments.length > 0)
+      .map((s, i) => distance(s.points[0], segments[Math.min(i, segments.length - 1)].start));
+
+    let moves = 0;
+    let backtracks = 0;
+    let paused = 0;
+    let drawing = 0;
+    strokes.forEach(s => {
+      for (let i = 2; i < s.points.length; i++) {
+        const [a, b, c] = [s.points[i - 2], s.points[i - 1], s.points[i]];
+        const dot = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y);
+        moves++;
+        if (dot < 0) backtracks++;
+      }
+      for (let i = 1; i < s.points.length; i++) {
+        const dt = s.points[i].timestamp - s.points[i - 1].timestamp;
+        drawing += dt;
+        if (dt > PAUSE_MS) paused += dt;
+      }
+    });
+
+    const pauses = strokes.slice(1).map((s, i) => Math.max(0, s.startTime - strokes[i].endTime));
+    const completedSegments = segments.filter(
+      seg => calculatePathCoverage(session.touchPoints, seg.pts) >= 80
+    ).length;
+
+    return {
+      stroke_overlap_ratio: total > 0 ? overlapping / total : 0,
+      mean_stroke_straightness: mean(straightness),
+      stroke_start_end_distance: mean(startDistances),
+      stroke_retracing_ratio: moves > 0 ? backtracks / moves : 0,
+      stroke_fluency_score: drawing > 0 ? Math.max(0, 100 * (1 - paused / drawing)) : 0,
+      inter_stroke_pause_mean: mean(pauses),
+      inter_stroke_pause_std: std(pauses),
+      stroke_completion_ratio: segments.length > 0 ? completedSegments / segments.length : 0,
+    };
+  }
+
+  /**
+   * Compare the drawing with the model and its mirror images; a drawing
+   * that matches a mirror better than the letter itself suggests reversal
+   */
+  private reversalFeatures(session: TracingSession, segments: Segment[]) {
+    const drawnRaw = session.touchPoints;
+    const modelRaw = segments.flatMap(s => s.pts);
+
+    if (drawnRaw.length < 2 || modelRaw.length < 2) {
+      return {
+        b_d_reversal_likelihood: 0,
+        p_q_reversal_likelihood: 0,
+        orientation_error_score: 0,
+        mirror_symmetry_error: 0,
+        left_right_confusion_score: 0,
+        vertical_flip_tendency: 0,
+        rotation_error_degree: 0,
+        reversal_confidence_score: 0,
+      };
+    }
+
+    const [drawn] = normalizeStrokes([drawnRaw]).map(p => resamplePolyline(p, 64));
+    const [model] = normalizeStrokes([modelRaw]).map(p => resamplePolyline(p, 64));
+
+    const direct = frechetDistance(drawn, model);
+    const mirrored = frechetDistance(drawn, model.map(p => ({ x: -p.x, y: p.y })));
+    const flipped = frechetDistance(drawn, model.map(p => ({ x: p.x, y: -p.y })));
+
+    // 0 when the letter itself fits best (or it is symmetric), towards 1 when the mirror fits much better
+    const preference = (other: number) => Math.max(0, (direct - other) / (direct + other + 1e-6));
+    const leftRight = preference(mirrored);
+    const vertical = preference(flipped);
+
+    const axisDiff = Math.abs(principalAxis(drawnRaw) - principalAxis(modelRaw));
+    const rotation = Math.min(axisDiff, 180 - axisDiff);
+
+    const letter = session.letter;
+    return {
+      b_d_reversal_likelihood: 'bd'.includes(letter) ? leftRight : 0,
+      p_q_reversal_likelihood: 'pq'.includes(letter) ? leftRight : 0,
+      orientation_error_score: Math.max(leftRight, vertical),
+      mirror_symmetry_error: direct,
+      left_right_confusion_score: leftRight,
+      vertical_flip_tendency: vertical,
+      rotation_error_degree: rotation,
+      reversal_confidence_score: Math.min(1, leftRight * 0.6 + vertical * 0.3 + (rotation / 90) * 0.1),
+    };
+  }
+
+  /**
+   * Least-squares accuracy change per session
+   */
+  private improvementRate(accuracies: number[]): number {
+    if (accuracies.length < 2) return 0;
+    const xMean = (accuracies.length - 1) / 2;
+    const yMean = mean(accuracies);
+    let num = 0;
+    let den = 0;
+    accuracies.forEach((y, x) => {
+      num += (x - xMean) * (y - yMean);
+      den += (x - xMean) ** 2;
+    });
+    return den > 0 ? num / den : 0;
+  }
+
+  private rankIndicators(predictions: MLPrediction[]): string[] {
+    const counts: Record<string, number> = {};
+    predictions.forEach(p =>
+      MLPredictionService.getKeyIndicators(p.features).forEach(label => {
+        counts[label] = (counts[label] ?? 0) + 1;
+      })
+    );
+    return Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([label]) => label);
+  }
+
+  private findConcernAreas(byLetter: Record<string, TracingMetrics[]>, predictions: MLPrediction[]): string[] {
+    const concerns: string[] = [];
+
+    const weakLetters = Object.entries(byLetter)
+      .filter(([, metrics]) => mean(metrics.map(m => m.accuracyScore)) < 60)
+      .map(([letter]) => letter);
+    if (weakLetters.length > 0) concerns.push(`Low accuracy on ${weakLetters.join(', ')}`);
+
+    const reversed = predictions.filter(p => p.features.reversal_confidence_score > 0.5).length;
+    if (reversed > 0) concerns.push(`Possible reversals in ${reversed} session(s)`);
+
+    if (mean(predictions.map(p => p.features.tremor_frequency)) > 4) {
+      concerns.push('Shaky lines (tremor-like oscillation)');
+    }
+    if (mean(predictions.map(p => p.features.stroke_completion_ratio)) < 0.7) {
+      concerns.push('Strokes often left unfinished');
+    }
+
+    return concerns;
+  }
+
+  private buildRecommendations(accuracy: number, concerns: string[], followUp: boolean): string[] {
+    const recommendations: string[] = [];
+
+    if (accuracy < 60) recommendations.push('Keep practising with guided tracing before moving on.');
+    else if (accuracy >= 85) recommendations.push('Try memory mode to practise writing without the guide.');
+    if (concerns.some(c => c.startsWith('Possible reversals'))) {
+      recommendations.push('Practise confusable pairs (b/d, p/q) side by side.');
+    }
+    if (concerns.some(c => c.startsWith('Shaky'))) {
+      recommendations.push('Short fine-motor warm-ups before tracing may help.');
+    }
+    if (followUp) {
+      recommendations.push('The same indicators came up in several sessions; go over them with a teacher.');
+    }
+    if (recommendations.length === 0) recommendations.push('Keep up regular short practice sessions.');
+
+    return recommendations;
+  }
+}
+
+export default TracingAnalysisService.getInstance();
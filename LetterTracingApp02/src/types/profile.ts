@@ -0,0 +1,13 @@
+// src/types/profile.ts
+
+import type { ScriptPackId } from '../letters/types';
+
+/**
+ * A child using this device; each keeps their own handwriting model
+ */
+export interface ChildProfile {
+  id: string;
+  name: string;
+  scriptPack: ScriptPackId;
+  createdAt: number;
+}
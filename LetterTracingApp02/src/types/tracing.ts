@@ -1,9 +1,11 @@
 // src/types/tracing.ts
 
+import type { GlyphSet } from '../letters/types';
+
 /**
  * Tracing Mode Types
  */
-export type TracingMode = 'guided' | 'memory';
+export type TracingMode = 'guided' | 'memory' | 'word';
 export type LetterCase = 'uppercase' | 'lowercase';
 export type FeedbackType = 'visual' | 'audio' | 'both' | 'none';
 
@@ -52,13 +54,14 @@ export interface Stroke {
 export interface TracingSession {
   sessionId: string;
   letter: string;
-  letterCase: LetterCase;
+  letterCase: GlyphSet;
   mode: TracingMode;
   startTime: number;
   endTime?: number;
   totalDuration?: number;
   strokes: Stroke[];
   touchPoints: TouchPoint[];
+  wordMetrics?: WordTracingMetrics; // Word mode only: per-glyph results, spacing and baseline drift
   metadata: {
     childId?: string;
     age?: number;
@@ -93,6 +96,65 @@ export interface TracingMetrics {
   currentDeviation: number;
 }
 
+/**
+ * Per-glyph result inside a word tracing session
+ */
+export interface GlyphTracingResult {
+  char: string;
+  index: number; // Position in the word
+  touchPoints: TouchPoint[];
+  accuracyScore: number; // 0-100
+  deviationFromPath: number; // Average distance in pixels
+  pathCoverage: number; // 0-100
+  duration: number; // milliseconds
+  baselineOffset: number; // Traced bottom minus model bottom, in cap heights (+ = below)
+  heightRatio: number; // Traced height / model height
+}
+
+/**
+ * Word-level metrics: per-glyph results plus spacing and baseline drift
+ */
+export interface WordTracingMetrics {
+  word: string;
+  glyphs: GlyphTracingResult[];
+  overallAccuracy: number; // 0-100, mean of glyph accuracy
+  totalTime: number; // milliseconds
+  spacing: {
+    gaps: number[]; // Traced gap between neighbouring glyphs, in cap heights
+    expectedGaps: number[]; // Model gaps, in cap heights
+    meanGapError: number; // Mean |traced - expected|, in cap heights
+    consistency: number; // 0-1, 1 = perfectly even gaps
+  };
+  baselineDrift: {
+    offsets: number[]; // Per-glyph baseline offsets, in cap heights
+    slope: number; // Cap heights per glyph (+ = drifting downhill)
+    maxDeviation: number; // Largest |offset|, in cap heights
+  };
+}
+
+/**
+ * One model segment paired with the drawn stroke that best matches it
+ */
+export interface StrokeMatch {
+  segment: number; // Index into the letter's segments
+  stroke: number | null; // Index of the matched drawn stroke, null if none
+  distance: number; // Normalised Fréchet distance
+  directionCorrect: boolean;
+}
+
+/**
+ * Result of a memory (unguided) attempt, scored after the child finishes
+ */
+export interface MemoryTracingResult {
+  shapeScore: number; // 0-100, position and size independent
+  frechetDistance: number; // Normalised, 0 = identical shape
+  strokeMatches: StrokeMatch[];
+  expectedStrokeCount: number;
+  actualStrokeCount: number;
+  strokeOrderCorrect: boolean;
+  strokeOrderScore: number; // 0-100, order and direction of matched strokes
+}
+
 /**
  * ML Feature Set (47 features from Notebook 03)
  */
@@ -156,15 +218,17 @@ export interface MLFeatures {
 }
 
 /**
- * ML Prediction Result
+ * Heuristic screening score for one session. The weights are hand-set and
+ * have not been validated against assessed children: it summarises how many
+ * indicators showed up, and is neither a diagnosis nor a referral.
  */
 export interface MLPrediction {
-  prediction: 'normal' | 'dyslexia';
-  probability: number; // 0.0 - 1.0
-  confidence: number; // 0.0 - 1.0
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  score: number; // 0.0 - 1.0
+  confidence: number; // 0.0 - 1.0, distance of the score from the midpoint
+  indicatorLevel: 'low' | 'medium' | 'high';
   interpretation: string;
   modelName: string;
+  validated: false;
   features: MLFeatures;
 }
 
@@ -200,7 +264,7 @@ export interface ClinicalReport {
   
   // ML analysis
   mlAnalysis: {
-    dyslexiaRiskScore: number;
+    screeningScore: number; // 0-100, mean heuristic score; unvalidated
     predictions: MLPrediction[];
     keyIndicators: string[];
     concernAreas: string[];
@@ -0,0 +1,198 @@
+// src/utils/shapeMatching.ts
+
+import { Stroke, MemoryTracingResult, StrokeMatch } from '../types/tracing';
+
+type Pt = { x: number; y: number };
+
+const RESAMPLE_POINTS = 32;
+// Normalised Fréchet distance at which the shape score reaches 0
+const MAX_SHAPE_DISTANCE = 0.5;
+// Share of the shape distance taken by the whole letter; the rest is the mean per-stroke distance
+const WHOLE_LETTER_WEIGHT = 0.5;
+
+/**
+ * Resample a polyline to n points evenly spaced along its length
+ */
+export function resamplePolyline(points: Pt[], n: number = RESAMPLE_POINTS): Pt[] {
+  if (points.length === 0) return [];
+  if (points.length === 1) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const total = lengths[lengths.length - 1];
+  if (total === 0) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+  const result: Pt[] = [];
+  let j = 1;
+  for (let i = 0; i < n; i++) {
+    const target = (total * i) / (n - 1);
+    while (j < points.length - 1 && lengths[j] < target) j++;
+    const span = lengths[j] - lengths[j - 1];
+    const t = span > 0 ? (target - lengths[j - 1]) / span : 0;
+    result.push({
+      x: points[j - 1].x + (points[j].x - points[j - 1].x) * t,
+      y: points[j - 1].y + (points[j].y - points[j - 1].y) * t,
+    });
+  }
+  return result;
+}
+
+/**
+ * Translate and scale a set of strokes together so their bounding box is
+ * centred on the origin with its longer side equal to 1. Strokes keep their
+ * positions relative to each other, so stroke placement still counts.
+ */
+export function normalizeStrokes(strokes: Pt[][]): Pt[][] {
+  const all = strokes.flat();
+  if (all.length === 0) return strokes;
+
+  const minX = Math.min(...all.map(p => p.x));
+  const maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y));
+  const maxY = Math.max(...all.map(p => p.y));
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+
+  return strokes.map(stroke => stroke.map(p => ({ x: (p.x - cx) / size, y: (p.y - cy) / size })));
+}
+
+/**
+ * Discrete Fréchet distance between two polylines
+ */
+export function frechetDistance(a: Pt[], b: Pt[]): number {
+  if (a.length === 0 || b.length === 0) return Infinity;
+
+  const ca: number[][] = a.map(() => new Array(b.length).fill(-1));
+  const d = (i: number, j: number) => Math.hypot(a[i].x - b[j].x, a[i].y - b[j].y);
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      const dist = d(i, j);
+      if (i === 0 && j === 0) ca[i][j] = dist;
+      else if (i === 0) ca[i][j] = Math.max(ca[i][j - 1], dist);
+      else if (j === 0) ca[i][j] = Math.max(ca[i - 1][j], dist);
+      else ca[i][j] = Math.max(Math.min(ca[i - 1][j], ca[i - 1][j - 1], ca[i][j - 1]), dist);
+    }
+  }
+  return ca[a.length - 1][b.length - 1];
+}
+
+/**
+ * Pair each expected stroke with the drawn stroke closest in shape and place.
+ * Greedy on the globally cheapest pair first, so one scribble can't claim
+ * two model strokes.
+ */
+export function matchStrokes(model: Pt[][], drawn: Pt[][]): StrokeMatch[] {
+  const candidates: { segment: number; stroke: number; forward: number; backward: number }[] = [];
+  model.forEach((m, segment) => {
+    drawn.forEach((s, stroke) => {
+      candidates.push({
+        segment,
+        stroke,
+        forward: frechetDistance(m, s),
+        backward: frechetDistance(m, [...s].reverse()),
+      });
+    });
+  });
+  candidates.sort((a, b) => Math.min(a.forward, a.backward) - Math.min(b.forward, b.backward));
+
+  const usedSegments = new Set<number>();
+  const usedStrokes = new Set<number>();
+  const matches: StrokeMatch[] = model.map((_, segment) => ({
+    segment,
+    stroke: null,
+    distance: MAX_SHAPE_DISTANCE,
+    directionCorrect: false,
+  }));
+
+  candidates.forEach(c => {
+    if (usedSegments.has(c.segment) || usedStrokes.has(c.stroke)) return;
+    usedSegments.add(c.segment);
+    usedStrokes.add(c.stroke);
+    matches[c.segment] = {
+      segment: c.segment,
+      stroke: c.stroke,
+      distance: Math.min(c.forward, c.backward),
+      directionCorrect: c.forward <= c.backward,
+    };
+  });
+
+  return matches;
+}
+
+/**
+ * Put the drawn strokes in the order and direction of the segments they
+ * matched, unmatched strokes last, so the whole-letter comparison measures
+ * shape only; order and direction are scored separately.
+ */
+function alignToModel(drawn: Pt[][], matches: StrokeMatch[]): Pt[][] {
+  const aligned = matches
+    .filter(m => m.stroke !== null)
+    .map(m => (m.directionCorrect ? drawn[m.stroke as number] : [...drawn[m.stroke as number]].reverse()));
+  const extras = drawn.filter((_, i) => !matches.some(m => m.stroke === i));
+  return [...aligned, ...extras];
+}
+
+/**
+ * Score a from-memory attempt against the letter's segment geometry.
+ * Both drawings are normalised first, so the score ignores where on the
+ * canvas the child wrote and how large; stroke order and direction come
+ * from matching the recorded strokes back to the model segments.
+ */
+export function scoreMemoryAttempt(
+  strokes: Stroke[],
+  segments: { pts: Pt[] }[]
+): MemoryTracingResult {
+  const drawnRaw = strokes.filter(s => s.points.length > 1).map(s => s.points);
+  const model = normalizeStrokes(segments.map(s => s.pts)).map(pts => resamplePolyline(pts));
+  const drawn = normalizeStrokes(drawnRaw).map(pts => resamplePolyline(pts));
+
+  if (drawn.length === 0) {
+    return {
+      shapeScore: 0,
+      frechetDistance: Infinity,
+      strokeMatches: model.map((_, segment) => ({
+        segment,
+        stroke: null,
+        distance: MAX_SHAPE_DISTANCE,
+        directionCorrect: false,
+      })),
+      expectedStrokeCount: model.length,
+      actualStrokeCount: 0,
+      strokeOrderCorrect: false,
+      strokeOrderScore: 0,
+    };
+  }
+
+  // Per stroke: each segment against its matched stroke, a missing stroke counting as the maximum
+  const matches = matchStrokes(model, drawn);
+  const meanStrokeDistance = matches.reduce((sum, m) => sum + m.distance, 0) / matches.length;
+  // Whole letter: all points of both drawings in segment order, which still
+  // credits a letter drawn with its strokes joined into one
+  const overall = frechetDistance(
+    resamplePolyline(model.flat(), RESAMPLE_POINTS * 2),
+    resamplePolyline(alignToModel(drawn, matches).flat(), RESAMPLE_POINTS * 2)
+  );
+  const shapeDistance = WHOLE_LETTER_WEIGHT * overall + (1 - WHOLE_LETTER_WEIGHT) * meanStrokeDistance;
+
+  // Order is right when the matched strokes were drawn in segment order
+  const drawnOrder = matches.filter(m => m.stroke !== null).map(m => m.stroke as number);
+  const inOrderPairs = drawnOrder.filter((s, i) => i === 0 || s > drawnOrder[i - 1]).length;
+  const matchedRatio = drawnOrder.length / model.length;
+  const orderRatio = drawnOrder.length > 0 ? inOrderPairs / drawnOrder.length : 0;
+  const directionRatio = matches.filter(m => m.directionCorrect).length / model.length;
+
+  return {
+    shapeScore: Math.max(0, Math.min(100, 100 * (1 - shapeDistance / MAX_SHAPE_DISTANCE))),
+    frechetDistance: shapeDistance,
+    strokeMatches: matches,
+    expectedStrokeCount: model.length,
+    actualStrokeCount: drawn.length,
+    strokeOrderCorrect:
+      matchedRatio === 1 && orderRatio === 1 && directionRatio === 1 && drawn.length === model.length,
+    strokeOrderScore: Math.round(100 * matchedRatio * (orderRatio + directionRatio) / 2),
+  };
+}
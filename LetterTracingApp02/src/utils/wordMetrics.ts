@@ -0,0 +1,126 @@
+// src/utils/wordMetrics.ts
+
+import { TouchPoint, GlyphTracingResult, WordTracingMetrics } from '../types/tracing';
+import type { WordLayout, WordGlyph } from '../letters/word';
+import { calculateDistanceToPath, calculatePathCoverage } from './tracingMetrics';
+
+const MAX_DEVIATION = 100; // Same scale as calculateRealTimeMetrics
+
+function extent(points: { x: number; y: number }[]) {
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Least-squares slope of values against their index
+ */
+function slopeOf(values: number[]): number {
+  if (values.length < 2) return 0;
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  let num = 0;
+  let den = 0;
+  values.forEach((y, x) => {
+    num += (x - xMean) * (y - yMean);
+    den += (x - xMean) * (x - xMean);
+  });
+  return den === 0 ? 0 : num / den;
+}
+
+/**
+ * Accuracy, coverage and placement of one traced glyph
+ */
+export function calculateGlyphResult(
+  glyph: WordGlyph,
+  touchPoints: TouchPoint[],
+  unitPx: number
+): GlyphTracingResult {
+  const pathPoints = glyph.segments.flatMap(s => s.pts);
+
+  const deviations = touchPoints.map(p => calculateDistanceToPath(p, pathPoints));
+  const deviationFromPath = mean(deviations);
+  const accuracyScore = touchPoints.length > 0
+    ? Math.max(0, Math.min(100, 100 - (deviationFromPath / MAX_DEVIATION) * 100))
+    : 0;
+
+  const model = extent(pathPoints);
+  const traced = touchPoints.length > 0 ? extent(touchPoints) : model;
+
+  return {
+    char: glyph.char,
+    index: glyph.index,
+    touchPoints,
+    accuracyScore,
+    deviationFromPath,
+    pathCoverage: calculatePathCoverage(touchPoints, pathPoints),
+    duration: touchPoints.length > 1
+      ? touchPoints[touchPoints.length - 1].timestamp - touchPoints[0].timestamp
+      : 0,
+    baselineOffset: (traced.maxY - model.maxY) / unitPx,
+    heightRatio: model.maxY > model.minY ? (traced.maxY - traced.minY) / (model.maxY - model.minY) : 1,
+  };
+}
+
+/**
+ * Per-glyph results plus word-level spacing and baseline drift
+ * @param layout - The laid-out word that was traced
+ * @param touchesByGlyph - Touch points recorded while each glyph was active
+ */
+export function calculateWordMetrics(
+  layout: WordLayout,
+  touchesByGlyph: TouchPoint[][]
+): WordTracingMetrics {
+  const glyphs = layout.glyphs.map((glyph, i) =>
+    calculateGlyphResult(glyph, touchesByGlyph[i] ?? [], layout.unitPx)
+  );
+
+  const gaps: number[] = [];
+  const expectedGaps: number[] = [];
+  for (let i = 1; i < layout.glyphs.length; i++) {
+    const prevModel = layout.glyphs[i - 1].bounds;
+    const nextModel = layout.glyphs[i].bounds;
+    const prevTouches = glyphs[i - 1].touchPoints;
+    const nextTouches = glyphs[i].touchPoints;
+    if (prevTouches.length === 0 || nextTouches.length === 0) continue;
+
+    gaps.push((extent(nextTouches).minX - extent(prevTouches).maxX) / layout.unitPx);
+    expectedGaps.push((nextModel.x - (prevModel.x + prevModel.w)) / layout.unitPx);
+  }
+
+  const gapErrors = gaps.map((gap, i) => Math.abs(gap - expectedGaps[i]));
+  const gapMean = mean(gaps);
+  const gapStd = Math.sqrt(mean(gaps.map(g => (g - gapMean) ** 2)));
+
+  const traced = glyphs.filter(g => g.touchPoints.length > 0);
+  const offsets = traced.map(g => g.baselineOffset);
+  const allTouches = traced.flatMap(g => g.touchPoints);
+
+  return {
+    word: layout.text,
+    glyphs,
+    overallAccuracy: mean(traced.map(g => g.accuracyScore)),
+    totalTime: allTouches.length > 1
+      ? allTouches[allTouches.length - 1].timestamp - allTouches[0].timestamp
+      : 0,
+    spacing: {
+      gaps,
+      expectedGaps,
+      meanGapError: mean(gapErrors),
+      // 1 - coefficient of variation of the gaps
+      consistency: gaps.length > 1 && gapMean > 0 ? Math.max(0, 1 - gapStd / gapMean) : 1,
+    },
+    baselineDrift: {
+      offsets,
+      slope: slopeOf(offsets),
+      maxDeviation: offsets.length > 0 ? Math.max(...offsets.map(Math.abs)) : 0,
+    },
+  };
+}
@@ -14,8 +14,14 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import TracingScreen from './src/screens/TracingScreen';
 // import AudioService from './src/services/AudioService';
-import { ALPHABET } from './src/constants/LetterPaths';
+import { GLYPHS } from './src/constants/LetterPaths';
 import WritingAssessmentScreen from './src/screens/WritingAssessmentScreen';
+import ProfileScreen from './src/screens/ProfileScreen';
+import SessionComparisonScreen from './src/screens/SessionComparisonScreen';
+import CalibrationScreen from './src/screens/CalibrationScreen';
+import LetterAuthoringScreen from './src/screens/LetterAuthoringScreen';
+import { useProfiles } from './src/hooks/useProfiles';
+import { usePracticeQueue } from './src/hooks/usePracticeQueue';
 
 const Stack = createStackNavigator();
 const { width } = Dimensions.get('window');
@@ -27,6 +33,14 @@ const ITEM_WIDTH = (width - (GRID_PADDING * 2)) / COLUMN_COUNT - (ITEM_MARGIN *
 // Letter Selection Screen
 const LetterSelectionScreen = ({ navigation }: any) => {
   const [loading, setLoading] = useState(true);
+  const { activeProfile, activeDemographics, loading: profilesLoading } = useProfiles();
+  const { queue, refresh: refreshQueue } = usePracticeQueue({
+    userId: activeProfile?.id ?? '',
+    childAgeYears: activeDemographics?.chronological_age,
+  });
+
+  // Pick up sessions finished on the tracing screen
+  useEffect(() => navigation.addListener('focus', refreshQueue), [navigation, refreshQueue]);
 
   useEffect(() => {
     // Preload audio files
@@ -38,6 +52,11 @@ const LetterSelectionScreen = ({ navigation }: any) => {
   }, []);
 
   const handleLetterPress = (letter: string) => {
+    // Sessions must belong to a child, so ask for one first
+    if (!activeProfile) {
+      navigation.navigate('Profiles');
+      return;
+    }
     navigation.navigate('Tracing', { letter });
   };
 
@@ -58,15 +77,43 @@ const LetterSelectionScreen = ({ navigation }: any) => {
       <View style={styles.headerContainer}>
         <Text style={styles.title}>Letter Mastery</Text>
         <Text style={styles.subtitle}>Select a letter to begin practice</Text>
+        {!profilesLoading && (
+          <TouchableOpacity
+            style={styles.profileButton}
+            onPress={() => navigation.navigate('Profiles')}
+          >
+            <Text style={styles.profileButtonText}>
+              {activeProfile ? `Practising as ${activeProfile.display_name}` : 'Add a child to begin'}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
+      {activeProfile && queue.length > 0 && (
+        <View style={styles.queueContainer}>
+          <Text style={styles.queueTitle}>Practice next</Text>
+          <View style={styles.queueRow}>
+            {queue.map(item => (
+              <TouchableOpacity
+                key={item.letter}
+                style={[styles.queueItem, item.reason === 'contrast' && styles.queueItemContrast]}
+                onPress={() => handleLetterPress(item.letter)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.queueItemText}>{item.letter}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
       {loading ? (
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>Loading audio files...</Text>
         </View>
       ) : (
         <FlatList
-          data={ALPHABET}
+          data={GLYPHS}
           renderItem={renderLetterItem}
           keyExtractor={item => item}
           numColumns={COLUMN_COUNT}
@@ -79,6 +126,11 @@ const LetterSelectionScreen = ({ navigation }: any) => {
         <Text style={styles.footerText}>
           Designed for children with dyslexia
         </Text>
+        {__DEV__ && (
+          <TouchableOpacity onPress={() => navigation.navigate('LetterAuthoring')}>
+            <Text style={styles.footerText}>Letter authoring (debug)</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -87,6 +139,7 @@ const LetterSelectionScreen = ({ navigation }: any) => {
 // Tracing Screen Wrapper
 const TracingScreenWrapper = ({ route, navigation }: any) => {
   const { letter } = route.params;
+  const { activeProfile, activeDemographics, loading } = useProfiles();
 
   const handleComplete = (analytics: any) => {
     console.log('Session completed:', analytics);
@@ -96,16 +149,32 @@ const TracingScreenWrapper = ({ route, navigation }: any) => {
     navigation.goBack();
   };
 
+  if (loading || !activeProfile) {
+    return null;
+  }
+
   return (
     <TracingScreen
       letter={letter}
-      userId="demo_user_001"
+      userId={activeProfile.id}
+      userDemographics={activeDemographics}
+      scriptPack={activeProfile.script_pack}
       onComplete={handleComplete}
       onExit={handleExit}
     />
   );
 };
 
+// Profiles Screen Wrapper
+const ProfilesScreenWrapper = ({ navigation }: any) => {
+  return (
+    <ProfileScreen
+      onDone={() => navigation.goBack()}
+      onCalibrate={() => navigation.navigate('Calibration')}
+    />
+  );
+};
+
 // Main App
 const App = () => {
   return (
@@ -124,10 +193,28 @@ const App = () => {
           name="Tracing"
           component={TracingScreenWrapper}
         />
+        <Stack.Screen
+          name="Profiles"
+          component={ProfilesScreenWrapper}
+        />
         <Stack.Screen
           name="Assessment"
           component={WritingAssessmentScreen}
         />
+        <Stack.Screen
+          name="SessionComparison"
+          component={SessionComparisonScreen}
+        />
+        <Stack.Screen
+          name="Calibration"
+          component={CalibrationScreen}
+        />
+        {__DEV__ && (
+          <Stack.Screen
+            name="LetterAuthoring"
+            component={LetterAuthoringScreen}
+          />
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -202,6 +289,52 @@ const styles = StyleSheet.create({
     color: '#3949AB',
     fontFamily: 'sans-serif-medium', // Cleaner font on Android
   },
+  profileButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#E8EAF6',
+  },
+  profileButtonText: {
+    fontSize: 14,
+    color: '#3949AB',
+    fontWeight: '600',
+  },
+  queueContainer: {
+    paddingHorizontal: GRID_PADDING + ITEM_MARGIN,
+    marginBottom: 16,
+  },
+  queueTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#7986CB',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  queueRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  queueItem: {
+    width: 44,
+    height: 44,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 14,
+    backgroundColor: '#3949AB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  queueItemContrast: {
+    backgroundColor: '#7986CB',
+  },
+  queueItemText: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
   footer: {
     padding: 24,
     alignItems: 'center',
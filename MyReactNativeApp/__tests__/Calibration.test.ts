@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import { TouchPoint } from '../src/models/AnalyticsTypes';
+import { calculateVelocityKinematics } from '../src/services/KinematicsEngine';
+import {
+  CARD_WIDTH_MM,
+  calibrationFromRuler,
+  calibrationFromScreenSize,
+  recordToMm,
+  referenceCalibration,
+  screenSizeInches,
+  toCanvasPoints,
+  toPhysicalPoints,
+  UNCALIBRATED,
+} from '../src/utils/CalibrationUtils';
+
+// A 40 mm horizontal line drawn in one second, sampled at 60 Hz
+const lineOnDevice = (unitsPerMm: number): TouchPoint[] =>
+  Array.from({ length: 61 }, (_, i) => ({
+    x: (i / 60) * 40 * unitsPerMm,
+    y: 10 * unitsPerMm,
+    timestamp: 1000 + (i * 1000) / 60,
+    pressure: 1,
+  }));
+
+describe('calibration', () => {
+  it('derives density from a ruler or the screen diagonal', () => {
+    expect(calibrationFromRuler(428, CARD_WIDTH_MM).units_per_mm).toBeCloseTo(5);
+
+    // 3:4 screen, 1000 dp diagonal, 10 inches
+    const bySize = calibrationFromScreenSize(600, 800, 10);
+    expect(bySize.units_per_mm).toBeCloseTo(1000 / 254);
+    expect(screenSizeInches(600, 800, bySize)).toBeCloseTo(10);
+
+    expect(() => calibrationFromScreenSize(600, 800, 0)).toThrow();
+  });
+
+  it('gives the same kinematics on phone and tablet densities', () => {
+    const phone = calibrationFromRuler(8 * CARD_WIDTH_MM);
+    const tablet = calibrationFromRuler(5 * CARD_WIDTH_MM);
+
+    const onPhone = calculateVelocityKinematics(toPhysicalPoints(lineOnDevice(8), phone));
+    const onTablet = calculateVelocityKinematics(toPhysicalPoints(lineOnDevice(5), tablet));
+
+    expect(onPhone.average_velocity).toBeCloseTo(40, 0);
+    expect(onTablet.average_velocity).toBeCloseTo(onPhone.average_velocity);
+  });
+
+  it('round-trips points and keeps their other fields', () => {
+    const calibration = referenceCalibration();
+    const points = lineOnDevice(calibration.units_per_mm);
+    const back = toCanvasPoints(toPhysicalPoints(points, calibration), calibration);
+
+    expect(back[30].x).toBeCloseTo(points[30].x);
+    expect(back[30].timestamp).toBe(points[30].timestamp);
+  });
+
+  it('reads legacy pixel metrics in millimetres', () => {
+    expect(recordToMm(UNCALIBRATED.units_per_mm * 3, UNCALIBRATED)).toBeCloseTo(3);
+    expect(recordToMm(3, referenceCalibration())).toBe(3);
+  });
+});
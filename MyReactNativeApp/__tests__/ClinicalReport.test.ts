@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import { ChildProfile } from '../src/models/ProfileTypes';
+import { createEmptyAnalytics } from '../src/services/storage/SessionMigrations';
+import {
+  buildClinicalReport,
+  REPORT_DISCLAIMER,
+} from '../src/services/reports/ClinicalReportBuilder';
+
+const profile: ChildProfile = {
+  id: 'child_a',
+  display_name: 'Sam <script>',
+  birth_date: '2017-01-15',
+  handedness: 'left',
+  prior_dyslexia_diagnosis: 'suspected',
+  comorbid_conditions: [],
+  intervention_history: [],
+  native_language: 'en',
+  language_of_instruction: 'en',
+  created_at: '2024-01-01T00:00:00.000Z',
+  archived_at: null,
+};
+
+const session = (day: number, letter: string, accuracy: number) => {
+  const record = createEmptyAnalytics({
+    session_id: `s${day}`,
+    user_id: profile.id,
+    letter,
+    timestamp: `2024-03-${String(day).padStart(2, '0')}T10:00:00.000Z`,
+  });
+  record.spatial_accuracy_deviation.accuracy_score = accuracy;
+  return record;
+};
+
+describe('buildClinicalReport', () => {
+  const sessions = [session(3, 'B', 50), session(1, 'A', 80), session(2, 'B', 40)];
+  sessions[0].automated_risk_assessment.reversal_risk_score = 70;
+  sessions[0].automated_risk_assessment.overall_risk_level = 'moderate';
+  sessions[0].clinical_alert_flags.specific_concern_flags = ['Letter reversal concern'];
+
+  const { summary, html } = buildClinicalReport(profile, sessions, new Date('2024-03-10T12:00:00.000Z'));
+
+  it('summarises the history around the latest session', () => {
+    expect(summary.summary_scores.overall_performance).toBeCloseTo(170 / 3);
+    expect(summary.summary_scores.risk_level).toBe('moderate');
+    expect(summary.summary_scores.key_concerns).toEqual(['Letter reversal concern']);
+    expect(summary.patient_info.chronological_age).toBe(7);
+    expect(summary.generated_date).toBe('2024-03-10T12:00:00.000Z');
+  });
+
+  it('recommends from risk scores and struggling letters', () => {
+    expect(summary.recommendations.some(r => r.includes('reversal-prone'))).toBe(true);
+    expect(summary.recommendations).toContain('Focus practice on: B');
+  });
+
+  it('produces a self-contained document', () => {
+    expect(summary.visual_reports.progress_chart_url.startsWith('data:image/svg+xml')).toBe(true);
+    expect(html).toContain(summary.visual_reports.heatmap_url);
+    expect(html).toContain(REPORT_DISCLAIMER);
+    expect(html).toContain('Sam &lt;script&gt;');
+    expect(html).not.toMatch(/(src|href)="https?:/);
+  });
+
+  it('needs at least one session', () => {
+    expect(() => buildClinicalReport(profile, [])).toThrow();
+  });
+});
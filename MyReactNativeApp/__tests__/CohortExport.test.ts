@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import { createEmptyAnalytics } from '../src/services/storage/SessionMigrations';
+import {
+  anonymizeId,
+  buildCohortExport,
+  cohortToCSV,
+  dictionaryToCSV,
+  flattenAnalytics,
+} from '../src/services/reports/CohortExport';
+
+const session = (sessionId: string, userId: string) => {
+  const record = createEmptyAnalytics({
+    session_id: sessionId,
+    user_id: userId,
+    letter: 'A',
+    timestamp: '2024-03-01T10:00:00.000Z',
+  });
+  record.velocity_kinematics.instantaneous_velocity = [100, 200, 300];
+  record.velocity_kinematics.velocity_peaks = [{ index: 4, value: 300 }];
+  record.spatial_accuracy_deviation.accuracy_score = 72;
+  record.clinical_alert_flags.monitor_closely_flag = true;
+  return record;
+};
+
+describe('flattenAnalytics', () => {
+  const flat = flattenAnalytics(session('s1', 'child_a'));
+
+  it('uses dotted names for nested fields', () => {
+    expect(flat['spatial_accuracy_deviation.accuracy_score'].value).toBe(72);
+    expect(flat['clinical_alert_flags.monitor_closely_flag']).toEqual({ value: 1, type: 'boolean' });
+  });
+
+  it('summarises arrays as mean, std and length', () => {
+    expect(flat['velocity_kinematics.instantaneous_velocity.mean'].value).toBe(200);
+    expect(flat['velocity_kinematics.instantaneous_velocity.std'].value).toBeGreaterThan(0);
+    expect(flat['velocity_kinematics.instantaneous_velocity.len'].value).toBe(3);
+    expect(flat['velocity_kinematics.velocity_peaks.value.mean'].value).toBe(300);
+  });
+
+  it('replaces child IDs when anonymised', () => {
+    const anonymous = flattenAnalytics(session('s1', 'child_a'), { anonymize: true, salt: 'x' });
+    expect(anonymous.user_id.value).toBe(anonymizeId('child_a', 'x'));
+    expect(anonymous['user_demographics_history.user_id'].value).toBe(anonymizeId('child_a', 'x'));
+    expect(JSON.stringify(anonymous)).not.toContain('"child_a"');
+  });
+});
+
+describe('buildCohortExport', () => {
+  const sessions = [session('s1', 'child_a'), session('s2', 'child_b')];
+  sessions[1].velocity_kinematics.instantaneous_velocity = [];
+  const cohort = buildCohortExport(sessions);
+
+  it('shares one column set across sessions', () => {
+    expect(cohort.columns.slice(0, 5)).toEqual(['session_id', 'user_id', 'letter', 'timestamp', 'version']);
+    const lines = cohortToCSV(cohort).split('\n');
+    expect(lines).toHaveLength(3);
+    lines.forEach(line => expect(line.split(',').length).toBe(cohort.columns.length));
+  });
+
+  it('describes every column', () => {
+    const peaks = cohort.dictionary.find(d => d.column === 'velocity_kinematics.velocity_peaks.value.mean')!;
+    expect(peaks).toMatchObject({
+      domain: 'velocity_kinematics',
+      statistic: 'mean',
+      unit: 'mm/s',
+      source: 'KinematicsEngine.calculateVelocityKinematics',
+    });
+    expect(dictionaryToCSV(cohort).split('\n')).toHaveLength(cohort.columns.length + 1);
+  });
+});
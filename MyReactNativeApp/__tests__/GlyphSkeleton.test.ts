@@ -0,0 +1,76 @@
+/**
+ * @format
+ */
+
+import { PathSegment, Point } from '../src/models/TracingData';
+import { extractCenterlineStrokes } from '../src/services/authoring/GlyphSkeleton';
+import { fitPolyline } from '../src/services/authoring/CurveFitting';
+
+const rectangle = (left: number, top: number, right: number, bottom: number): PathSegment[] => [
+  { type: 'line', start: { x: left, y: top }, end: { x: right, y: top } },
+  { type: 'line', start: { x: right, y: top }, end: { x: right, y: bottom } },
+  { type: 'line', start: { x: right, y: bottom }, end: { x: left, y: bottom } },
+  { type: 'line', start: { x: left, y: bottom }, end: { x: left, y: top } },
+];
+
+// A circle as a closed polygon; reversed for counter contours
+const circle = (radius: number, reversed = false): PathSegment[] => {
+  const points = Array.from({ length: 48 }, (_, i) => {
+    const angle = ((reversed ? -i : i) / 48) * 2 * Math.PI;
+    return { x: 300 + radius * Math.cos(angle), y: 360 + radius * Math.sin(angle) };
+  });
+  return points.map((start, i) => ({ type: 'line', start, end: points[(i + 1) % points.length] }));
+};
+
+const first = (stroke: PathSegment[]): Point => stroke[0].start;
+const last = (stroke: PathSegment[]): Point => stroke[stroke.length - 1].end;
+
+describe('centre-line extraction', () => {
+  it('reduces a bar to one stroke drawn top down', () => {
+    const strokes = extractCenterlineStrokes([rectangle(290, 220, 310, 500)]);
+
+    expect(strokes).toHaveLength(1);
+    expect(strokes[0]).toHaveLength(1);
+    expect(first(strokes[0]).x).toBeCloseTo(300, -1);
+    expect(first(strokes[0]).y).toBeLessThan(240);
+    expect(last(strokes[0]).y).toBeGreaterThan(480);
+  });
+
+  it('splits a T at its junction and orders the stem before the bar', () => {
+    const strokes = extractCenterlineStrokes([rectangle(200, 220, 400, 240), rectangle(290, 220, 310, 500)]);
+
+    expect(strokes).toHaveLength(2);
+    const [stem, bar] = strokes;
+    expect(first(stem).y).toBeLessThan(last(stem).y);
+    expect(Math.abs(first(stem).x - last(stem).x)).toBeLessThan(5);
+    expect(first(bar).x).toBeLessThan(220);
+    expect(last(bar).x).toBeGreaterThan(380);
+  });
+
+  it('keeps a ring as one closed stroke starting at the top', () => {
+    const strokes = extractCenterlineStrokes([circle(100), circle(80, true)]);
+
+    expect(strokes).toHaveLength(1);
+    const start = first(strokes[0]);
+    expect(start).toEqual(last(strokes[0]));
+    expect(start.y).toBeLessThan(275);
+    // Anticlockwise on screen: heading left from the top
+    expect(strokes[0][0].end.x).toBeLessThan(start.x);
+  });
+
+  it('fits lines through corners and curves along arcs', () => {
+    const corner = [
+      ...Array.from({ length: 20 }, (_, i) => ({ x: 100, y: 100 + i * 5 })),
+      ...Array.from({ length: 20 }, (_, i) => ({ x: 100 + i * 5, y: 200 })),
+    ];
+    expect(fitPolyline(corner, 1).map(segment => segment.type)).toEqual(['line', 'line']);
+
+    const arc = Array.from({ length: 40 }, (_, i) => ({
+      x: 100 * Math.cos((i / 39) * Math.PI),
+      y: 100 * Math.sin((i / 39) * Math.PI),
+    }));
+    const fitted = fitPolyline(arc, 1);
+    expect(fitted.every(segment => segment.type === 'bezier')).toBe(true);
+    expect(fitted.length).toBeLessThanOrEqual(3);
+  });
+});
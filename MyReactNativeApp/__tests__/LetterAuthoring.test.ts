@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import { PathSegment } from '../src/models/TracingData';
+import {
+  buildGeometryModule,
+  buildLetterPathsEntry,
+  strokeToSvgPath,
+  toViewBoxStrokes,
+} from '../src/services/authoring/GlyphExport';
+import {
+  AuthoringStroke,
+  contoursToCandidateStrokes,
+  mergeWithNext,
+  moveStroke,
+  reverseStroke,
+  splitStroke,
+} from '../src/services/authoring/StrokeEditing';
+
+const line = (x1: number, y1: number, x2: number, y2: number): PathSegment => ({
+  type: 'line',
+  start: { x: x1, y: y1 },
+  end: { x: x2, y: y2 },
+});
+
+// Outline of a bar: a closed rectangle contour, as a font stores an I
+const bar: PathSegment[] = [
+  line(280, 220, 320, 220),
+  line(320, 220, 320, 500),
+  line(320, 500, 280, 500),
+  line(280, 500, 280, 220),
+];
+
+// A closed circle of four quarter curves (no corners)
+const k = 0.5523 * 100;
+const circle: PathSegment[] = [
+  { type: 'bezier', start: { x: 300, y: 300 }, control1: { x: 300 + k, y: 300 }, control2: { x: 400, y: 400 - k }, end: { x: 400, y: 400 } },
+  { type: 'bezier', start: { x: 400, y: 400 }, control1: { x: 400, y: 400 + k }, control2: { x: 300 + k, y: 500 }, end: { x: 300, y: 500 } },
+  { type: 'bezier', start: { x: 300, y: 500 }, control1: { x: 300 - k, y: 500 }, control2: { x: 200, y: 400 + k }, end: { x: 200, y: 400 } },
+  { type: 'bezier', start: { x: 200, y: 400 }, control1: { x: 200, y: 400 - k }, control2: { x: 300 - k, y: 300 }, end: { x: 300, y: 300 } },
+];
+
+const stroke = (name: string, segments: PathSegment[]): AuthoringStroke => ({ name, description: '', segments });
+
+describe('letter authoring', () => {
+  it('breaks outlines at corners and keeps smooth contours whole', () => {
+    expect(contoursToCandidateStrokes([bar])).toHaveLength(4);
+    expect(contoursToCandidateStrokes([circle])).toHaveLength(1);
+    expect(contoursToCandidateStrokes([circle])[0].segments).toHaveLength(4);
+  });
+
+  it('reorders, reverses, splits and merges strokes', () => {
+    const strokes = [stroke('Down', [bar[1]]), stroke('Across', [bar[0]])];
+
+    expect(moveStroke(strokes, 1, -1).map(s => s.name)).toEqual(['Across', 'Down']);
+    expect(moveStroke(strokes, 0, -1)).toBe(strokes);
+
+    const [reversed] = reverseStroke([stroke('Bowl', circle)], 0);
+    expect(reversed.segments[0].start).toEqual({ x: 300, y: 300 });
+    expect(reversed.segments[0].end).toEqual({ x: 200, y: 400 });
+    expect(reversed.segments[0].control1).toEqual(circle[3].control2);
+
+    const split = splitStroke([stroke('Bowl', circle)], 0, 2);
+    expect(split.map(s => s.segments.length)).toEqual([2, 2]);
+    expect(mergeWithNext(split, 0)[0].segments).toEqual(circle);
+
+    // A gap between merged strokes is bridged with a line
+    expect(mergeWithNext(strokes, 0)[0].segments).toHaveLength(3);
+  });
+
+  it('fits glyphs into the viewBox frame for their set', () => {
+    // 280 px from the canvas baseline (500) to the cap height
+    const [down] = toViewBoxStrokes([stroke('Down', [line(300, 220, 300, 500)])], {
+      letter: 'I',
+      glyphSet: 'uppercase',
+      referenceHeight: 280,
+    });
+    expect(strokeToSvgPath(down.segments)).toBe('M 50,10 L 50,90');
+
+    const [stem] = toViewBoxStrokes([stroke('Stem', [line(300, 360, 300, 500)])], {
+      letter: 'i',
+      glyphSet: 'lowercase',
+      referenceHeight: 140,
+    });
+    expect(strokeToSvgPath(stem.segments)).toBe('M 50,40 L 50,70');
+  });
+
+  it('exports a LETTER_PATHS entry and a geometry module', () => {
+    const strokes = [
+      { name: 'Left Stroke', description: 'Start at the top', segments: [line(300, 220, 300, 500)] },
+      stroke('Left Stroke', [line(250, 220, 350, 220)]),
+    ];
+    const options = { letter: 'T', glyphSet: 'uppercase' as const, referenceHeight: 280, source: 'Andika' };
+
+    const entry = buildLetterPathsEntry(strokes, options);
+    expect(entry).toContain("  T: {\n    letter: 'T',\n    expectedStrokeCount: 2,");
+    expect(entry).toContain('      // Stroke 1: Left Stroke - M 50,10 L 50,90\n      // Start at the top\n');
+    expect(entry).toContain('        const p1 = convertFrom100x100(50, 10);\n        const p2 = convertFrom100x100(50, 90);\n');
+    expect(entry).toContain('        return [createLine(p1.x, p1.y, p2.x, p2.y)];');
+
+    const geometry = buildGeometryModule(strokes, options);
+    expect(geometry.startsWith('// src/letters/uppercase/T/geometry.ts\n// Capital letter T — generated from Andika\n')).toBe(true);
+    expect(geometry).toContain('export const SVG_VIEWBOX = {');
+    expect(geometry).toContain('  leftStroke: `\n    M 50,10\n    L 50,90\n  `,');
+    expect(geometry).toContain('    path: RAW_PATHS.leftStroke2,');
+    expect(geometry).toContain("    description: 'Start at the top',");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @format
+ */
+
+import { createEmptyAnalytics } from '../src/services/storage/SessionMigrations';
+import {
+  buildLetterCards,
+  buildPracticeQueue,
+  gradeSession,
+  LEITNER_BOXES,
+  reviewCard,
+} from '../src/services/LetterScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2024-03-01T10:00:00.000Z').getTime();
+
+const session = (letter: string, day: number, accuracy: number, reversed = false) => {
+  const record = createEmptyAnalytics({
+    session_id: `${letter}_${day}`,
+    user_id: 'child_a',
+    letter,
+    timestamp: new Date(START + day * DAY_MS).toISOString(),
+  });
+  record.spatial_accuracy_deviation.accuracy_score = accuracy;
+  if (reversed) {
+    record.unavailable_domains = record.unavailable_domains.filter(d => d !== 'letter_reversal_orientation');
+    record.letter_reversal_orientation.left_right_confusion_indicator = true;
+  }
+  return record;
+};
+
+describe('reviewCard', () => {
+  const fresh = buildLetterCards([], ['A'], START).A;
+
+  it('grows the interval with each successful review', () => {
+    const first = reviewCard(fresh, 5, START);
+    const second = reviewCard(first, 5, START + DAY_MS);
+    const third = reviewCard(second, 5, START + 7 * DAY_MS);
+
+    expect([first.intervalDays, second.intervalDays]).toEqual([1, 6]);
+    expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+    expect(second.easeFactor).toBeGreaterThan(fresh.easeFactor);
+    expect(third.leitnerBox).toBe(4);
+    expect(third.dueAt).toBe(START + 7 * DAY_MS + third.intervalDays * DAY_MS);
+  });
+
+  it('starts over after a failed review', () => {
+    let card = fresh;
+    for (let i = 0; i < LEITNER_BOXES + 1; i++) card = reviewCard(card, 5, START + i * DAY_MS);
+    expect(card.leitnerBox).toBe(LEITNER_BOXES);
+
+    const failed = reviewCard(card, 2, START + 30 * DAY_MS);
+    expect(failed.repetitions).toBe(0);
+    expect(failed.intervalDays).toBe(1);
+    expect(failed.leitnerBox).toBe(1);
+    expect(failed.easeFactor).toBeLessThan(card.easeFactor);
+    expect(failed.dueAt).toBe(START + 31 * DAY_MS);
+  });
+
+  it('never passes a reversed letter on neatness alone', () => {
+    expect(gradeSession(95, false)).toBe(5);
+    expect(gradeSession(95, true)).toBe(2);
+  });
+});
+
+describe('buildPracticeQueue', () => {
+  it('puts the most overdue letters first and leaves letters not yet due out', () => {
+    const history = [session('A', 0, 95), session('L', 3, 95), session('E', 9, 95)];
+    const queue = buildPracticeQueue(history, {
+      now: START + 9.5 * DAY_MS,
+      letters: ['A', 'E', 'L'],
+      newPerDay: 0,
+    });
+
+    expect(queue.map(item => [item.letter, item.reason])).toEqual([
+      ['A', 'due'],
+      ['L', 'due'],
+    ]);
+  });
+
+  it('only replays completed sessions', () => {
+    const abandoned = session('A', 0, 95);
+    abandoned.completion_persistence.letter_completion_status = 'abandoned';
+
+    const cards = buildLetterCards([abandoned], ['A'], START);
+    expect(cards.A.lastReviewed).toBeNull();
+  });
+
+  it('follows a reversed letter with its confusable partner', () => {
+    // D is learnt and not due until day 7; B was reversed on day 5
+    const history = [session('D', 0, 95), session('D', 1, 95), session('B', 5, 95, true)];
+    const queue = buildPracticeQueue(history, {
+      now: START + 6 * DAY_MS,
+      letters: ['B', 'D', 'O'],
+      newPerDay: 1,
+    });
+
+    expect(queue.map(item => [item.letter, item.reason])).toEqual([
+      ['B', 'due'],
+      ['D', 'contrast'],
+      ['O', 'new'],
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @format
+ */
+
+import {
+  buildTimeline,
+  calculateAdaptiveLearning,
+  calculateAttemptHistory,
+  calculateLetterMastery,
+  calculateLongitudinalProgress,
+  SessionOutcome,
+} from '../src/services/analytics/LongitudinalAnalyzer';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = new Date('2024-03-01T10:00:00.000Z').getTime();
+
+const outcome = (
+  letter: string,
+  day: number,
+  score: number,
+  extra: Partial<SessionOutcome> = {}
+): SessionOutcome => ({
+  letter,
+  timestamp: START + day * DAY_MS,
+  score,
+  completed: true,
+  duration: 30,
+  strokeCount: 2,
+  monitoringScore: 50,
+  ...extra,
+});
+
+describe('buildTimeline', () => {
+  it('orders stored sessions and drops any after the session being scored', () => {
+    const current = outcome('A', 2, 70);
+    const timeline = buildTimeline([outcome('A', 1, 60), outcome('A', 3, 90), outcome('B', 0, 50)], current);
+
+    expect(timeline.map(o => o.timestamp)).toEqual([START, START + DAY_MS, START + 2 * DAY_MS]);
+    expect(timeline[timeline.length - 1]).toBe(current);
+  });
+});
+
+describe('calculateLongitudinalProgress', () => {
+  it('measures retention across a day and across a week', () => {
+    const progress = calculateLongitudinalProgress([
+      outcome('A', 0, 80),
+      outcome('A', 1, 60),
+      outcome('A', 9, 45),
+    ]);
+
+    expect(progress.total_session_count).toBe(3);
+    expect(progress.retention_score_24hr).toBeCloseTo(0.75);
+    expect(progress.retention_score_1week).toBeCloseTo(0.75);
+    expect(progress.improvement_rate_per_session).toBeLessThan(0);
+  });
+
+  it('flags a flat run below mastery as a plateau, but not a mastered one', () => {
+    const flat = [0, 1, 2, 3, 4].map(day => outcome('A', day, 70));
+    const mastered = [0, 1, 2, 3, 4].map(day => outcome('A', day, 90));
+
+    expect(calculateLongitudinalProgress(flat).plateau_detection_flag).toBe(true);
+    expect(calculateLongitudinalProgress(mastered).plateau_detection_flag).toBe(false);
+    expect(calculateLongitudinalProgress(flat.slice(1)).plateau_detection_flag).toBe(false);
+  });
+
+  it('reports nothing for an empty history', () => {
+    const progress = calculateLongitudinalProgress([]);
+
+    expect(progress.total_session_count).toBe(0);
+    expect(progress.improvement_rate_per_session).toBe(0);
+    expect(progress.retention_score_24hr).toBe(0);
+  });
+});
+
+describe('calculateLetterMastery', () => {
+  const timeline = buildTimeline([
+    outcome('A', 0, 70),
+    outcome('A', 1, 63),
+    outcome('A', 2, 90),
+    outcome('A', 3, 90),
+    outcome('A', 4, 90),
+    outcome('B', 0.5, 40),
+    outcome('B', 1.5, 50),
+    outcome('C', 2, 30),
+  ]);
+
+  it('splits mastered and problematic letters on their recent sessions', () => {
+    const mastery = calculateLetterMastery(timeline, 26);
+
+    expect(mastery.mastered_letters_list).toEqual(['A']);
+    // C has a single low score: too early to call it a problem
+    expect(mastery.problematic_letters_list).toEqual(['B']);
+    expect(mastery.mastery_percentage).toBeCloseTo(100 / 26);
+  });
+
+  it('dates mastery to the session that completed the winning run', () => {
+    const mastery = calculateLetterMastery(timeline, 26);
+
+    expect(mastery.mastery_timeline).toEqual([
+      { letter: 'A', date: new Date(START + 4 * DAY_MS).toISOString(), score: 90 },
+    ]);
+  });
+
+  it('fits forgetting only to drops across a day or more', () => {
+    const { forgetting_curve_data } = calculateLetterMastery(timeline, 26);
+    const letterA = forgetting_curve_data.find(f => f.letter === 'A')!;
+
+    // Only 70 -> 63 is a drop; the three later gaps count as no forgetting
+    expect(letterA.decay_rate).toBeCloseTo(-Math.log(0.9) / 4);
+    expect(forgetting_curve_data.find(f => f.letter === 'C')).toBeUndefined();
+  });
+});
+
+describe('calculateAdaptiveLearning', () => {
+  it('counts stroke-count changes on repeat attempts and reads the error trend', () => {
+    const timeline = [40, 50, 60, 70, 80, 90].map((score, day) =>
+      outcome('A', day, score, { strokeCount: [3, 3, 2, 3, 3, 3][day], monitoringScore: 60 })
+    );
+    const adaptive = calculateAdaptiveLearning(timeline);
+
+    expect(adaptive.strategy_changes_detected).toBe(2);
+    expect(adaptive.error_pattern_evolution).toBe('improving');
+    expect(adaptive.self_regulation_score).toBe(60);
+    // 3 practice minutes for a 30-point gain between the first and last three sessions
+    expect(adaptive.learning_efficiency).toBeCloseTo(10);
+  });
+
+  it('calls a short history stable', () => {
+    expect(calculateAdaptiveLearning([outcome('A', 0, 90), outcome('A', 1, 40)]).error_pattern_evolution).toBe(
+      'stable'
+    );
+  });
+});
+
+describe('calculateAttemptHistory', () => {
+  const abandoned = (minutes: number) =>
+    outcome('A', 0, 20, { completed: false, timestamp: START + minutes * 60000 });
+
+  it('counts quick retries since the last completion', () => {
+    const current = outcome('A', 0, 80, { timestamp: START + 4 * 60000 });
+    const timeline = buildTimeline([outcome('A', -1, 90), abandoned(0), abandoned(2)], current);
+
+    const attempts = calculateAttemptHistory(timeline, current);
+    expect(attempts.attempts_to_complete).toBe(3);
+    expect(attempts.retry_count).toBe(2);
+    expect(attempts.retry_pattern).toBe('immediate');
+    // The letter was first completed the day before
+    expect(attempts.time_to_first_successful_completion).toBe(30);
+  });
+
+  it('tells delayed retries from fresh attempts', () => {
+    const current = outcome('A', 0, 80, { timestamp: START + HOUR_MS });
+
+    expect(calculateAttemptHistory(buildTimeline([abandoned(0)], current), current)).toEqual({
+      attempts_to_complete: 2,
+      retry_count: 1,
+      retry_pattern: 'delayed',
+      time_to_first_successful_completion: 60,
+    });
+    expect(calculateAttemptHistory([current], current).retry_pattern).toBe('none');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import { getIndexFromChar } from '../src/utils/WritingUtils';
+import { NUM_CLASSES } from '../src/services/recognizers/Recognizer';
+import { ConfirmedSample, rerankWithSamples } from '../src/services/recognizers/PersonalizationAdapter';
+import { InMemoryStorage } from '../src/services/storage/InMemoryStorage';
+import {
+  MAX_SAMPLES_PER_LETTER,
+  PersonalizationStore,
+} from '../src/services/storage/PersonalizationStore';
+
+// Mostly `reads`, with a little left over for `also`
+const probabilitiesFor = (reads: string, also: string, share: number): number[] => {
+  const probabilities = new Array(NUM_CLASSES).fill(0);
+  probabilities[getIndexFromChar(reads)] = 1 - share;
+  probabilities[getIndexFromChar(also)] = share;
+  return probabilities;
+};
+
+const sample = (letter: string, probabilities: number[], backend: ConfirmedSample['backend'] = 'tflite'): ConfirmedSample => ({
+  letter,
+  backend,
+  grid: [],
+  probabilities,
+  confirmed_at: '2024-05-01T10:00:00.000Z',
+});
+
+const top = (probabilities: number[]) => probabilities.indexOf(Math.max(...probabilities));
+
+describe('rerankWithSamples', () => {
+  // This child's "a" reliably reads as "d" to the model
+  const childA = Array.from({ length: 8 }, () => sample('a', probabilitiesFor('d', 'a', 0.3)));
+
+  it('moves a confirmed letterform ahead of the model reading', () => {
+    const reranked = rerankWithSamples(childA, 'tflite', probabilitiesFor('d', 'a', 0.32))!;
+    expect(top(reranked)).toBe(getIndexFromChar('a'));
+    expect(reranked.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('ignores samples scored by another backend', () => {
+    expect(rerankWithSamples(childA, 'pointcloud', probabilitiesFor('d', 'a', 0.32))).toBeNull();
+  });
+
+  it('leaves the model in charge with only a few samples', () => {
+    const reranked = rerankWithSamples(childA.slice(0, 1), 'tflite', probabilitiesFor('d', 'a', 0.1))!;
+    expect(top(reranked)).toBe(getIndexFromChar('d'));
+  });
+
+  it('leaves a drawing unlike every sample as the model read it', () => {
+    // Plenty of confirmed "b"s must not drag a clean "d" towards "b"
+    const childB = Array.from({ length: 10 }, () => sample('b', probabilitiesFor('b', 'd', 0.1)));
+    const cleanD = probabilitiesFor('d', 'b', 0.2);
+
+    const reranked = rerankWithSamples(childB, 'tflite', cleanD)!;
+    expect(top(reranked)).toBe(getIndexFromChar('d'));
+    reranked.forEach((p, i) => expect(p).toBeCloseTo(cleanD[i], 10));
+  });
+});
+
+describe('PersonalizationStore', () => {
+  it('keeps samples per profile and resets one profile only', async () => {
+    const store = new PersonalizationStore(new InMemoryStorage());
+    await store.addSample('child_a', sample('a', probabilitiesFor('d', 'a', 0.3)));
+    await store.addSample('child_b', sample('b', probabilitiesFor('b', 'd', 0.1)));
+
+    expect(await store.getSampleCounts('child_a')).toEqual({ a: 1 });
+
+    await store.reset('child_a');
+    expect(await store.getSamples('child_a')).toEqual([]);
+    expect(await store.getSamples('child_b')).toHaveLength(1);
+    expect(await store.rerank('child_a', 'tflite', probabilitiesFor('d', 'a', 0.3))).toBeNull();
+  });
+
+  it('keeps only the newest samples for a letter', async () => {
+    const store = new PersonalizationStore(new InMemoryStorage());
+    for (let i = 0; i < MAX_SAMPLES_PER_LETTER + 3; i++) {
+      await store.addSample('child_a', { ...sample('a', probabilitiesFor('d', 'a', 0.3)), confirmed_at: String(i) });
+    }
+    await store.addSample('child_a', sample('e', probabilitiesFor('e', 'f', 0.1)));
+
+    const samples = await store.getSamples('child_a');
+    expect(samples.filter(s => s.letter === 'a')).toHaveLength(MAX_SAMPLES_PER_LETTER);
+    expect(samples[0].confirmed_at).toBe('3');
+    expect(await store.getSampleCounts('child_a')).toEqual({ a: MAX_SAMPLES_PER_LETTER, e: 1 });
+  });
+
+  it('keeps one sample per confirmed session', async () => {
+    const store = new PersonalizationStore(new InMemoryStorage());
+    await store.addSample('child_a', { ...sample('a', probabilitiesFor('d', 'a', 0.3)), session_id: 's1' });
+    await store.addSample('child_a', { ...sample('o', probabilitiesFor('d', 'a', 0.3)), session_id: 's1' });
+    await store.addSample('child_a', { ...sample('a', probabilitiesFor('d', 'a', 0.3)), session_id: 's2' });
+
+    expect(await store.getSampleCounts('child_a')).toEqual({ o: 1, a: 1 });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @format
+ */
+
+import { LETTER_PATHS } from '../src/constants/LetterPaths';
+import { generateIdealPath } from '../src/utils/GeometryUtils';
+import {
+  getCharFromIndex,
+  flipStrokesHorizontal,
+  ORIENTATIONS,
+  rotate90,
+  rotate270,
+  rotateStrokes90,
+  transpose,
+} from '../src/utils/WritingUtils';
+import { Point } from '../src/models/TracingData';
+import { NUM_CLASSES } from '../src/services/recognizers/Recognizer';
+import { PointCloudRecognizer } from '../src/services/recognizers/PointCloudRecognizer';
+import { MockRecognizer } from '../src/services/recognizers/MockRecognizer';
+import { modelService } from '../src/services/ModelService';
+import { MLTracingAnalyzer } from '../src/services/MLTracingAnalyzer';
+
+const strokesFor = (char: string): Point[][] => {
+  const ideal = generateIdealPath(LETTER_PATHS[char].strokes);
+  return ideal.strokeBoundaries
+    .slice(1)
+    .map((end, i) => ideal.points.slice(ideal.strokeBoundaries[i], end).map(p => ({ x: p.x, y: p.y })));
+};
+
+const input = (strokes: Point[][]) => ({ strokes, canvasWidth: 600, canvasHeight: 800 });
+
+const topChar = (probabilities: number[]) =>
+  getCharFromIndex(probabilities.indexOf(Math.max(...probabilities)));
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('PointCloudRecognizer', () => {
+  const recognizer = new PointCloudRecognizer();
+
+  it('returns a probability vector over every class', async () => {
+    const probabilities = await recognizer.predict(input(strokesFor('A')));
+    expect(probabilities).toHaveLength(NUM_CLASSES);
+    expect(probabilities!.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('recognizes its own templates', async () => {
+    for (const char of ['A', 'B', 'E', 'H', 'K', 'M', 'S', 'T', 'X', 'Z', '4', '7']) {
+      expect(topChar((await recognizer.predict(input(strokesFor(char))))!)).toBe(char);
+    }
+  });
+
+  it('is invariant to position, scale and stroke direction', async () => {
+    const moved = strokesFor('K').map(stroke =>
+      stroke.map(p => ({ x: p.x * 0.5 + 40, y: p.y * 0.5 - 30 })).reverse()
+    );
+    expect(topChar((await recognizer.predict(input(moved)))!)).toBe('K');
+  });
+
+  it('returns null for empty input', async () => {
+    expect(await recognizer.predict(input([]))).toBeNull();
+  });
+});
+
+describe('orientation transforms', () => {
+  const grid = Float32Array.from({ length: 28 * 28 }, (_, i) => i);
+
+  it('has inverse pixel transforms', () => {
+    expect(rotate270(rotate90(grid))).toEqual(grid);
+    expect(transpose(transpose(grid))).toEqual(grid);
+  });
+
+  it('turns strokes clockwise in screen coordinates', () => {
+    // A horizontal stroke to the right becomes a vertical stroke downwards
+    const [stroke] = rotateStrokes90([[{ x: 0, y: 0 }, { x: 10, y: 0 }]]);
+    expect(stroke[1].x).toBeCloseTo(stroke[0].x);
+    expect(stroke[1].y - stroke[0].y).toBeCloseTo(10);
+  });
+
+  it('returns one row per requested orientation', async () => {
+    const orientations = ORIENTATIONS.map(o => o.orientation);
+    const rows = await new PointCloudRecognizer().predictOrientations(input(strokesFor('F')), orientations);
+    expect(rows).toHaveLength(orientations.length);
+    rows!.forEach(row => expect(row).toHaveLength(NUM_CLASSES));
+  });
+});
+
+describe('MockRecognizer', () => {
+  it('always predicts its fixed character', async () => {
+    const recognizer = new MockRecognizer('R', 0.8);
+    const probabilities = (await recognizer.predict(input(strokesFor('A'))))!;
+    expect(topChar(probabilities)).toBe('R');
+    expect(Math.max(...probabilities)).toBeCloseTo(0.8);
+  });
+
+  it('is deterministic for the same drawing', async () => {
+    const recognizer = new MockRecognizer();
+    const first = await recognizer.predict(input(strokesFor('S')));
+    const second = await recognizer.predict(input(strokesFor('S')));
+    expect(first).toEqual(second);
+  });
+});
+
+describe('ModelService', () => {
+  // The app never registers the mock; it is here to show it stays out of the fallback chain
+  beforeAll(() => modelService.registerRecognizer(new MockRecognizer()));
+  afterEach(() => modelService.setBackend(null));
+
+  it('falls back to the point-cloud recognizer when TFLite is unavailable', async () => {
+    const result = await modelService.recognize(strokesFor('T'), 600, 800);
+    expect(result!.backend).toBe('pointcloud');
+    expect(result!.predictedChar).toBe('T');
+  });
+
+  it('returns no recognition rather than falling back to the mock', async () => {
+    const result = await modelService.recognize([[{ x: 10, y: 10 }]], 600, 800);
+    expect(result).toBeNull();
+    expect(await MLTracingAnalyzer.analyzeTracing([[{ x: 10, y: 10 }]], 'E', 600, 800)).toBeNull();
+  });
+
+  it('honours the preferred backend', async () => {
+    modelService.setBackend('mock');
+    const result = await modelService.recognize(strokesFor('T'), 600, 800);
+    expect(result!.backend).toBe('mock');
+  });
+
+  it('compares every available backend on the same input', async () => {
+    const results = await modelService.compareBackends(strokesFor('H'), 600, 800);
+    expect(results.map(r => r.backend).sort()).toEqual(['mock', 'pointcloud']);
+  });
+
+  it('gives MLTracingAnalyzer a prediction without the native model', async () => {
+    const features = await MLTracingAnalyzer.analyzeTracing(strokesFor('E'), 'E', 600, 800);
+    expect(features).not.toBeNull();
+    expect(features!.recognizer).toBe('pointcloud');
+    expect(features!.isCorrect).toBe(true);
+  });
+
+  it('records every orientation in one call even when the upright reading is right', async () => {
+    const spy = jest.spyOn(modelService.getBackend('pointcloud')!, 'predictOrientations');
+
+    const features = await MLTracingAnalyzer.analyzeTracing(strokesFor('E'), 'E', 600, 800);
+
+    expect(features!.isCorrect).toBe(true);
+    expect(Object.keys(features!.orientationProbabilities!).sort()).toEqual(
+      ORIENTATIONS.map(o => o.orientation).sort()
+    );
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+  });
+
+  it('builds point-cloud templates once per script pack', () => {
+    const print = modelService.getBackend('pointcloud');
+
+    modelService.setScriptPack('print');
+    expect(modelService.getBackend('pointcloud')).toBe(print);
+
+    modelService.setScriptPack('slanted');
+    const slanted = modelService.getBackend('pointcloud');
+    expect(slanted).not.toBe(print);
+
+    modelService.setScriptPack('slanted');
+    expect(modelService.getBackend('pointcloud')).toBe(slanted);
+
+    modelService.setScriptPack('cursive');
+    expect(modelService.getBackend('pointcloud')).toBe(print);
+
+    modelService.setScriptPack(undefined);
+    expect(modelService.getBackend('pointcloud')).toBe(print);
+  });
+
+  it('reads a mirrored letter as a horizontal reversal', async () => {
+    const features = await MLTracingAnalyzer.analyzeTracing(flipStrokesHorizontal(strokesFor('J')), 'J', 600, 800);
+    expect(features!.reversalDetected).toBe(true);
+    expect(features!.reversalType).toBe('horizontal_flip');
+  });
+});
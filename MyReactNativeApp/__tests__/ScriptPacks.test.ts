@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import { LETTER_PATHS } from '../src/constants/LetterPaths';
+import { getLetterPath, getScriptPack, SCRIPT_PACKS } from '../src/constants/ScriptPacks';
+import { generateIdealPath } from '../src/utils/GeometryUtils';
+import { Point } from '../src/models/TracingData';
+import { gradeStrokeOrder } from '../src/services/analytics/StrokeOrderGrader';
+
+const strokesIn = (char: string, scriptPack: string): Point[][] => {
+  const ideal = generateIdealPath(getLetterPath(char, scriptPack)!.strokes);
+  return ideal.strokeBoundaries
+    .slice(1)
+    .map((end, i) => ideal.points.slice(ideal.strokeBoundaries[i], end).map(p => ({ x: p.x, y: p.y })));
+};
+
+describe('script packs', () => {
+  it('falls back to print for missing or unknown packs', () => {
+    expect(getScriptPack().id).toBe('print');
+    expect(getScriptPack('copperplate').id).toBe('print');
+    expect(getLetterPath('A', undefined)).toBe(LETTER_PATHS.A);
+  });
+
+  it('keeps lowercase-only packs on the profile and says they trace print capitals', () => {
+    for (const id of ['precursive', 'cursive']) {
+      const pack = getScriptPack(id);
+      expect(pack.id).toBe(id);
+      expect(pack.letterPaths).toBe(LETTER_PATHS);
+      expect(pack.description).toMatch(/capitals here are traced as in print/);
+    }
+  });
+
+  it('maps pack ids saved by earlier versions', () => {
+    expect(getScriptPack('dnealian').id).toBe('slanted');
+  });
+
+  it('slants letters to the right about their middle', () => {
+    const upright = LETTER_PATHS.I.strokes[0][0];
+    const slanted = SCRIPT_PACKS.slanted.letterPaths.I.strokes[0][0];
+
+    // The stem runs top down: the top moves right, the foot left, heights stay put
+    expect(slanted.start.y).toBe(upright.start.y);
+    expect(slanted.end.y).toBe(upright.end.y);
+    expect(slanted.start.x).toBeGreaterThan(upright.start.x);
+    expect(slanted.end.x).toBeLessThan(upright.end.x);
+    expect((slanted.start.x + slanted.end.x) / 2).toBeCloseTo((upright.start.x + upright.end.x) / 2, 1);
+    expect(SCRIPT_PACKS.slanted.letterPaths.I.expectedStrokeCount).toBe(LETTER_PATHS.I.expectedStrokeCount);
+  });
+
+  it("grades stroke order against the child's pack", () => {
+    const written = strokesIn('E', 'slanted');
+
+    const grade = gradeStrokeOrder(written, 'E', 'slanted')!;
+    expect(grade.orderErrors).toBe(0);
+    expect(grade.directionErrors).toBe(0);
+    expect(grade.missingStrokes).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @format
+ */
+
+import { createEmptyAnalytics } from '../src/services/storage/SessionMigrations';
+import { compareSessions, comparisonToCSV } from '../src/services/analytics/SessionComparison';
+
+const session = (day: number, accuracy: number, offset = 0) => {
+  const record = createEmptyAnalytics({
+    session_id: `s${day}`,
+    user_id: 'child_a',
+    letter: 'L',
+    timestamp: `2024-03-${String(day).padStart(2, '0')}T10:00:00.000Z`,
+  });
+  record.spatial_accuracy_deviation.accuracy_score = accuracy;
+  const points = [[0, 0], [0, 200], [100, 200]].map(([x, y], i) => ({
+    x: x + offset,
+    y: y + offset,
+    timestamp: i * 50,
+    pressure: 0.5,
+  }));
+  record.stroke_count_sequencing.strokes = [{
+    stroke_id: 0,
+    start_index: 0,
+    end_index: points.length - 1,
+    points,
+    duration: 100,
+    length: 300,
+    is_correct_order: true,
+    is_correct_direction: true,
+    deviation_from_ideal: 0,
+  }];
+  return record;
+};
+
+describe('compareSessions', () => {
+  const history = [session(1, 60), session(2, 64), session(3, 58), session(4, 62), session(20, 90, 300)];
+
+  it('orders sessions and overlays traces in one letter box', () => {
+    const result = compareSessions([history[4], history[0]], history);
+
+    expect(result.sessions.map(s => s.session_id)).toEqual(['s1', 's20']);
+    // Same shape drawn elsewhere on the canvas lands on the same unit-box points
+    expect(result.traces[0]).toEqual(result.traces[1]);
+  });
+
+  it('judges changes against the child\'s own variation', () => {
+    const big = compareSessions([history[0], history[4]], history).metrics.find(m => m.key === 'accuracy')!;
+    expect(big.delta).toBe(30);
+    expect(big.improved).toBe(true);
+    expect(big.significance).not.toBe('insufficient_data');
+
+    const small = compareSessions([history[0], history[1]], history).metrics.find(m => m.key === 'accuracy')!;
+    expect(small.significance).toBe('within_variation');
+  });
+
+  it('withholds a verdict with too little history', () => {
+    const metrics = compareSessions(history.slice(0, 2)).metrics;
+    expect(metrics.every(m => m.significance === 'insufficient_data')).toBe(true);
+  });
+
+  it('exports one CSV row per metric', () => {
+    const csv = comparisonToCSV(compareSessions([history[0], history[4]], history)).split('\n');
+    expect(csv).toHaveLength(5);
+    expect(csv[1].startsWith('Accuracy (%),60.000,90.000,30.000')).toBe(true);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @format
+ */
+
+import { ANALYTICS_SCHEMA_VERSION } from '../src/models/AnalyticsTypes';
+import { InMemoryStorage } from '../src/services/storage/InMemoryStorage';
+import {
+  createEmptyAnalytics,
+  LEGACY_USER_ID,
+  migrateRecord,
+  MigrationError,
+} from '../src/services/storage/SessionMigrations';
+import { SessionStore, STORAGE_LAYOUT_VERSION } from '../src/services/storage/SessionStore';
+
+const makeRecord = (sessionId: string, userId: string, letter: string, timestamp: string) =>
+  createEmptyAnalytics({ session_id: sessionId, user_id: userId, letter, timestamp });
+
+const shadowSummary = {
+  sessionId: 'legacy_1',
+  letter: 'B',
+  timestamp: '2024-03-01T10:00:00.000Z',
+  overview: { completionTime: 4000, status: 'completed', score: 80, stars: 2 },
+  clinical: {
+    kinematics: {
+      avgVelocity: 0.25,
+      velocityCoV: 0.4,
+      velocityPeaks: 3,
+      velocityValleys: 2,
+      timeInMotion: 3000,
+      timePaused: 1000,
+      fluencyRatio: 0.75,
+    },
+    dataQuality: { samplingRate: 60, completenessScore: 0.9, totalPoints: 240 },
+  },
+  ml: { predictedChar: 'B', confidence: 0.8, probabilities: [] },
+  context: { screenSize: { width: 400, height: 800 } },
+};
+
+const engineV1Record = () => {
+  const record: any = makeRecord('v1_session', 'child_a', 'A', '2024-04-02T09:30:00.000Z');
+  delete record.unavailable_domains;
+  delete record.ml_recognition;
+  record.version = '1.0.0';
+  record.raw_touch_data.sampling_rate = 50;
+  record.spatial_accuracy_deviation.off_track_events = [
+    { timestamp: 1000, duration: 25, max_deviation: 40 },
+  ];
+  record.spatial_accuracy_deviation.off_track_duration_total = 25;
+  record.spatial_accuracy_deviation.off_track_recovery_time = [25];
+  return record;
+};
+
+describe('session migrations', () => {
+  it('upgrades an unversioned shadow summary into a full record', () => {
+    const { record, migrated } = migrateRecord(shadowSummary);
+
+    expect(migrated).toBe(true);
+    expect(record.version).toBe(ANALYTICS_SCHEMA_VERSION);
+    expect(record.session_id).toBe('legacy_1');
+    expect(record.letter).toBe('B');
+    expect(record.velocity_kinematics.average_velocity).toBeCloseTo(250);
+    expect(record.time_based_performance.total_session_duration).toBeCloseTo(4);
+    expect(record.raw_touch_data.data_completeness_score).toBeCloseTo(90);
+    expect(record.ml_recognition?.predictedChar).toBe('B');
+    expect(record.unavailable_domains).not.toContain('velocity_kinematics');
+    expect(record.unavailable_domains).toContain('letter_reversal_orientation');
+  });
+
+  it('converts 1.0.0 off-track durations from samples to seconds', () => {
+    const { record } = migrateRecord(engineV1Record());
+
+    expect(record.version).toBe(ANALYTICS_SCHEMA_VERSION);
+    expect(record.ml_recognition).toBeNull();
+    expect(record.unavailable_domains).toContain('letter_confusion_matrix');
+    expect(record.spatial_accuracy_deviation.off_track_events[0].duration).toBeCloseTo(0.5);
+    expect(record.spatial_accuracy_deviation.off_track_duration_total).toBeCloseTo(0.5);
+    expect(record.spatial_accuracy_deviation.off_track_recovery_time).toEqual([0.5]);
+    expect(record.calibration.metric_unit).toBe('px');
+  });
+
+  it('leaves current records untouched', () => {
+    const current = makeRecord('s1', 'child_a', 'A', '2024-04-02T09:30:00.000Z');
+    const { record, migrated } = migrateRecord(current);
+
+    expect(migrated).toBe(false);
+    expect(record).toBe(current);
+  });
+
+  it('rejects versions with no migration path', () => {
+    expect(() => migrateRecord({ version: '9.9.9' })).toThrow(MigrationError);
+  });
+});
+
+describe('SessionStore', () => {
+  it('stamps saved records and filters by user', async () => {
+    const store = new SessionStore(new InMemoryStorage());
+    await store.save(makeRecord('s1', 'child_a', 'A', '2024-05-01T08:00:00.000Z'));
+    await store.save(makeRecord('s2', 'child_b', 'A', '2024-05-01T09:00:00.000Z'));
+    await store.save(makeRecord('s3', 'child_a', 'B', '2024-05-03T08:00:00.000Z'));
+
+    const sessions = await store.getAllAnalytics('child_a');
+    expect(sessions.map(s => s.session_id)).toEqual(['s1', 's3']);
+    expect(sessions.every(s => s.version === ANALYTICS_SCHEMA_VERSION)).toBe(true);
+  });
+
+  it('queries by letter and by inclusive date range', async () => {
+    const store = new SessionStore(new InMemoryStorage());
+    await store.save(makeRecord('s1', 'child_a', 'A', '2024-05-01T08:00:00.000Z'));
+    await store.save(makeRecord('s2', 'child_a', 'B', '2024-05-02T08:00:00.000Z'));
+    await store.save(makeRecord('s3', 'child_a', 'A', '2024-05-04T08:00:00.000Z'));
+
+    const letterA = await store.getAnalyticsByLetter('child_a', 'A');
+    expect(letterA.map(s => s.session_id)).toEqual(['s1', 's3']);
+
+    const range = await store.getAnalyticsByDateRange(
+      'child_a',
+      new Date('2024-05-02T00:00:00.000Z'),
+      new Date('2024-05-04T00:00:00.000Z')
+    );
+    expect(range.map(s => s.session_id)).toEqual(['s2', 's3']);
+  });
+
+  it('writes migrated records back on read', async () => {
+    const storage = new InMemoryStorage({
+      '@session_data_v1_session': JSON.stringify(engineV1Record()),
+    });
+    const store = new SessionStore(storage);
+
+    const record = await store.get('v1_session');
+    expect(record?.version).toBe(ANALYTICS_SCHEMA_VERSION);
+
+    const raw = JSON.parse((await storage.getItem('@session_data_v1_session')) as string);
+    expect(raw.version).toBe(ANALYTICS_SCHEMA_VERSION);
+  });
+
+  it('keeps every entry when saves for one user overlap', async () => {
+    const store = new SessionStore(new InMemoryStorage());
+    await Promise.all(
+      ['A', 'B', 'C'].map((letter, i) =>
+        store.save(makeRecord(`s${i}`, 'child_a', letter, `2024-04-0${i + 1}T10:00:00.000Z`))
+      )
+    );
+
+    const index = await store.getIndex('child_a');
+    expect([...index.sessions].sort()).toEqual(['s0', 's1', 's2']);
+    expect(Object.keys(index.byLetter).sort()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('moves sessions from before profiles existed to a child', async () => {
+    const storage = new InMemoryStorage({
+      '@session_data_legacy_1': JSON.stringify(shadowSummary),
+      '@analytics_history': JSON.stringify([
+        { sessionId: 'legacy_1', letter: 'B', timestamp: shadowSummary.timestamp },
+      ]),
+    });
+    const store = new SessionStore(storage);
+    await store.save(makeRecord('s1', 'child_a', 'A', '2024-04-01T10:00:00.000Z'));
+
+    expect(await store.reassignSessions(LEGACY_USER_ID, 'child_a')).toBe(1);
+
+    const childA = await store.getAllAnalytics('child_a');
+    expect(childA.map(s => [s.session_id, s.user_id])).toEqual([
+      ['legacy_1', 'child_a'],
+      ['s1', 'child_a'],
+    ]);
+    expect((await store.getAnalyticsByLetter('child_a', 'B')).map(s => s.session_id)).toEqual(['legacy_1']);
+    expect(await store.getAllAnalytics(LEGACY_USER_ID)).toEqual([]);
+    expect(await store.reassignSessions(LEGACY_USER_ID, 'child_b')).toBe(0);
+  });
+
+  it('keeps cached session outcomes in step with later saves', async () => {
+    const storage = new InMemoryStorage();
+    const store = new SessionStore(storage);
+    await store.save(makeRecord('s2', 'child_a', 'B', '2024-04-02T10:00:00.000Z'));
+    await store.save(makeRecord('s1', 'child_a', 'A', '2024-04-01T10:00:00.000Z'));
+
+    expect((await store.getOutcomes('child_a')).map(o => o.letter)).toEqual(['A', 'B']);
+
+    const reads = jest.spyOn(storage, 'getItem');
+    const retraced = makeRecord('s1', 'child_a', 'A', '2024-04-01T10:00:00.000Z');
+    retraced.spatial_accuracy_deviation.accuracy_score = 90;
+    await store.save(retraced);
+    await store.save(makeRecord('s3', 'child_a', 'C', '2024-04-03T10:00:00.000Z'));
+
+    const outcomes = await store.getOutcomes('child_a');
+    expect(outcomes.map(o => [o.letter, o.score])).toEqual([['A', 90], ['B', 0], ['C', 0]]);
+    // Only the index is read back; no session record is reloaded
+    expect(reads.mock.calls.every(([key]) => key.startsWith('@analytics_'))).toBe(true);
+  });
+
+  it('rebuilds per-user indexes from the legacy flat history', async () => {
+    const v1 = engineV1Record();
+    const storage = new InMemoryStorage({
+      '@session_data_v1_session': JSON.stringify(v1),
+      '@session_data_legacy_1': JSON.stringify(shadowSummary),
+      '@analytics_history': JSON.stringify([
+        { sessionId: 'v1_session', letter: 'A', timestamp: v1.timestamp, userId: 'default_user' },
+        { sessionId: 'legacy_1', letter: 'B', timestamp: shadowSummary.timestamp, userId: 'default_user' },
+      ]),
+    });
+    const store = new SessionStore(storage);
+
+    const childA = await store.getAllAnalytics('child_a');
+    expect(childA.map(s => s.session_id)).toEqual(['v1_session']);
+
+    const defaultUser = await store.getAnalyticsByLetter('default_user', 'B');
+    expect(defaultUser.map(s => s.session_id)).toEqual(['legacy_1']);
+
+    expect(storage.keys()).not.toContain('@analytics_history');
+    expect(await storage.getItem('@analytics_storage_version')).toBe(String(STORAGE_LAYOUT_VERSION));
+  });
+});
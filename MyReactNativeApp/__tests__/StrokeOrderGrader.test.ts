@@ -0,0 +1,62 @@
+/**
+ * @format
+ */
+
+import { LETTER_PATHS } from '../src/constants/LetterPaths';
+import { generateIdealPath } from '../src/utils/GeometryUtils';
+import { hungarianAssignment } from '../src/utils/MathUtils';
+import { Point } from '../src/models/TracingData';
+import { gradeStrokeOrder } from '../src/services/analytics/StrokeOrderGrader';
+
+// Template strokes, shrunk and moved as if written on a smaller canvas
+const writtenLike = (char: string): Point[][] => {
+  const ideal = generateIdealPath(LETTER_PATHS[char].strokes);
+  return ideal.strokeBoundaries
+    .slice(1)
+    .map((end, i) =>
+      ideal.points.slice(ideal.strokeBoundaries[i], end).map(p => ({ x: p.x * 0.5 + 12, y: p.y * 0.5 - 40 }))
+    );
+};
+
+describe('hungarianAssignment', () => {
+  it('finds the cheapest assignment', () => {
+    expect(hungarianAssignment([[4, 1, 3], [2, 0, 5], [3, 2, 2]])).toEqual([1, 0, 2]);
+  });
+
+  it('leaves surplus rows unassigned', () => {
+    expect(hungarianAssignment([[1], [0], [2]])).toEqual([-1, 0, -1]);
+  });
+});
+
+describe('gradeStrokeOrder', () => {
+  it('accepts a letter formed like its template', () => {
+    const grade = gradeStrokeOrder(writtenLike('E'), 'E')!;
+    expect(grade.score).toBe(1);
+    expect(grade.missingStrokes).toEqual([]);
+    expect(grade.extraStrokes).toEqual([]);
+  });
+
+  it('reports order, direction and missing strokes', () => {
+    const [first, second, third] = writtenLike('E');
+    const grade = gradeStrokeOrder([second, [...first].reverse(), third], 'E')!;
+
+    expect(grade.strokes.map(s => s.templateIndex)).toEqual([1, 0, 2]);
+    expect(grade.orderErrors).toBe(2);
+    expect(grade.directionErrors).toBe(1);
+    expect(grade.strokes[1].reversed).toBe(true);
+    expect(grade.missingStrokes).toEqual([3]);
+  });
+
+  it('flags a scribble as an extra stroke', () => {
+    const strokes = writtenLike('T');
+    // A small zigzag beside the stem, inside the letter's box
+    const { x, y } = strokes[1][Math.floor(strokes[1].length / 2)];
+    const scribble = [0, 1, 2, 3, 4].map(i => ({ x: x + 15 + (i % 2) * 10, y: y + i * 6 }));
+    const grade = gradeStrokeOrder([...strokes, scribble], 'T')!;
+    expect(grade.extraStrokes).toEqual([2]);
+  });
+
+  it('has no template for lowercase letters', () => {
+    expect(gradeStrokeOrder(writtenLike('T'), 't')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import {
+  activateThresholdProfile,
+  getActiveThresholds,
+  getThresholdProfiles,
+  parseThresholdProfiles,
+  registerThresholdProfiles,
+  resolveThresholds,
+  selectThresholdProfile,
+  ThresholdUtils,
+} from '../src/constants/Thresholds';
+
+const profileFile = (overrides: object, version = 1) => ({
+  schemaVersion: 1,
+  profiles: [
+    {
+      id: 'clinic_finger',
+      version,
+      label: 'Clinic',
+      ageRange: { min: 7, max: 7 },
+      inputMethods: ['finger'],
+      overrides,
+    },
+  ],
+});
+
+describe('threshold profiles', () => {
+  const profiles = getThresholdProfiles();
+
+  it('keeps the legacy pixel values at the reference density', () => {
+    const defaults = resolveThresholds(selectThresholdProfile(profiles, null, 'finger'));
+    expect(defaults.spatial.offTrackTolerance).toBeCloseTo(50, -1);
+    expect(defaults.velocity.pauseVelocityThreshold).toBeCloseTo(10, -1);
+    expect(defaults.spatial.averageAccuracy).toBe(60);
+  });
+
+  it('selects by age band and input method', () => {
+    expect(selectThresholdProfile(profiles, 6, 'finger').id).toBe('age5_6_finger');
+    expect(selectThresholdProfile(profiles, 9, 'stylus').id).toBe('age9_10_stylus');
+    expect(selectThresholdProfile(profiles, 14, 'finger').id).toBe('age11_plus_finger');
+  });
+
+  it('converts millimetres with the device density', () => {
+    const profile = selectThresholdProfile(profiles, 7, 'finger');
+    const reference = resolveThresholds(profile);
+    // A 3x screen at 320 dpi has fewer dp per inch than the 160 reference
+    const dense = resolveThresholds(profile, { dpi: 320, pixelRatio: 3 });
+    expect(dense.spatial.offTrackTolerance / reference.spatial.offTrackTolerance).toBeCloseTo(320 / 3 / 160);
+  });
+
+  it('rejects fields the base thresholds do not have', () => {
+    expect(() => parseThresholdProfiles(profileFile({ spatial: { offTrackToleranse: 6 } }))).toThrow(
+      /spatial.offTrackToleranse/
+    );
+    expect(() => parseThresholdProfiles({ schemaVersion: 2, profiles: [] })).toThrow();
+  });
+
+  it('activates the narrowest matching profile, newest version first', () => {
+    registerThresholdProfiles(parseThresholdProfiles(JSON.stringify(profileFile({ spatial: { offTrackTolerance: 4 } }, 2))));
+    registerThresholdProfiles(parseThresholdProfiles(profileFile({ spatial: { offTrackTolerance: 9 } }, 1)));
+
+    expect(activateThresholdProfile(7, 'finger', { canvasScale: 2 }).id).toBe('clinic_finger');
+    expect(getActiveThresholds().spatial.offTrackTolerance).toBeCloseTo(4 * (160 / 25.4) * 2);
+    expect(ThresholdUtils.getAgeNorms(10).averageAccuracy).toBe(80);
+
+    activateThresholdProfile(null, 'finger');
+    expect(getActiveThresholds().spatial.offTrackTolerance).toBeCloseTo(8 * (160 / 25.4));
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import { createEmptyAnalytics } from '../src/services/storage/SessionMigrations';
+import { detectSelfCorrections } from '../src/services/StrokeAnalyzer';
+import visualizationService from '../src/services/VisualizationService';
+import { canvasToRecordUnits } from '../src/utils/CalibrationUtils';
+
+const START = 5000;
+
+const touch = (x: number, y: number, ms: number) => ({ x, y, timestamp: START + ms, pressure: 0.5 });
+
+const stroke = (strokeId: number, points: ReturnType<typeof touch>[]) => ({
+  stroke_id: strokeId,
+  start_index: 0,
+  end_index: points.length - 1,
+  points,
+  duration: (points[points.length - 1].timestamp - points[0].timestamp) / 1000,
+  length: 0,
+  is_correct_order: true,
+  is_correct_direction: true,
+  deviation_from_ideal: 0,
+});
+
+// An L: down the stem, then along the foot after a lift
+const STEM = [touch(0, 0, 0), touch(0, 50, 100), touch(0, 100, 200)];
+const FOOT = [touch(0, 100, 600), touch(50, 100, 700), touch(100, 100, 800)];
+
+const record = () => {
+  const analytics = createEmptyAnalytics({
+    session_id: 'replay',
+    user_id: 'child_a',
+    letter: 'L',
+    timestamp: '2024-03-01T10:00:00.000Z',
+  });
+  analytics.raw_touch_data.touch_coordinates_array = [...STEM, ...FOOT];
+  analytics.stroke_count_sequencing.strokes = [stroke(0, STEM), stroke(1, FOOT)];
+  return analytics;
+};
+
+describe('generateReplayData', () => {
+  it('replays each recorded stroke on a clock starting at the first touch', () => {
+    const analytics = record();
+    const replay = visualizationService.generateReplayData(analytics);
+
+    expect(replay.strokes.map(s => s.map(p => p.t))).toEqual([[0, 100, 200], [600, 700, 800]]);
+    expect(replay.duration).toBe(800);
+    expect(replay.strokes[0][0].velocity).toBe(0);
+    // 50 canvas units in 0.1 s, in the record's metric unit
+    expect(replay.strokes[0][1].velocity).toBeCloseTo(canvasToRecordUnits(500, analytics.calibration), 5);
+    expect(replay.strokes.flat().every(p => p.deviation === 0)).toBe(true);
+    expect(replay.idealStrokes).toEqual([]);
+  });
+
+  it('falls back to the raw touches when no strokes were segmented', () => {
+    const analytics = record();
+    analytics.stroke_count_sequencing.strokes = [];
+
+    expect(visualizationService.generateReplayData(analytics).strokes).toHaveLength(1);
+  });
+
+  it('splits the ideal path at its stroke boundaries and measures deviation from it', () => {
+    const analytics = record();
+    const guide = (x: number, y: number, index: number) => ({ x, y, index, normalX: 0, normalY: 0 });
+    const replay = visualizationService.generateReplayData(analytics, {
+      points: [guide(10, 0, 0), guide(10, 100, 1), guide(10, 100, 2), guide(110, 100, 3)],
+      totalLength: 200,
+      strokeBoundaries: [0, 2, 4],
+    });
+
+    expect(replay.idealStrokes.map(s => s.length)).toEqual([2, 2]);
+    expect(replay.strokes[0][1].deviation).toBeGreaterThan(0);
+  });
+
+  it('marks off-track events and self-corrections in time order with their durations', () => {
+    const analytics = record();
+    analytics.spatial_accuracy_deviation.off_track_events = [{ timestamp: START + 700, duration: 0.1, distance: 4 }];
+    analytics.error_detection_self_correction.correction_events = [
+      { timestamp: START + 100, error_type: 'off_track', was_corrected: true, correction_time: 0.2 },
+    ];
+
+    const replay = visualizationService.generateReplayData(analytics);
+
+    expect(replay.markers).toEqual([
+      { t: 100, kind: 'self_correction', duration: 0.2 },
+      { t: 700, kind: 'off_track', duration: 0.1 },
+    ]);
+  });
+
+  it('marks only pauses long enough to matter', () => {
+    const analytics = record();
+    const touches = analytics.raw_touch_data.touch_coordinates_array;
+    // Speeds arriving at touches 1..5: the pen rests between touches 2 and 3 (a 400 ms gap)
+    analytics.velocity_kinematics.instantaneous_velocity = [100, 0, 0, 100, 100];
+
+    const replay = visualizationService.generateReplayData(analytics);
+
+    expect(replay.markers).toEqual([{ t: touches[2].timestamp - START, kind: 'pause', duration: 0.4 }]);
+  });
+});
+
+describe('detectSelfCorrections', () => {
+  it('times a correction from the point the pen doubled back to', () => {
+    const points = [touch(0, 0, 0), touch(10, 0, 100), touch(20, 0, 200), touch(30, 0, 300), touch(21, 0, 450)];
+
+    const { correctionEvents } = detectSelfCorrections([stroke(0, points)]);
+
+    expect(correctionEvents).toEqual([{ strokeId: 0, timestamp: START + 450, correctionTime: 0.25 }]);
+  });
+});
@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, GestureResponderEvent } from 'react-native';
+import Svg, { Path, Circle } from 'react-native-svg';
+import Colors, { ColorUtils } from '@constants/Colors';
+import { ReplayColorMode, ReplayData, ReplayMarker } from '@services/VisualizationService';
+
+interface ReplayPlayerProps {
+  data: ReplayData;
+  width: number;
+  height?: number;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const PADDING = 20;
+// The trace is drawn as one path per colour band, so the SVG stays small however long the recording
+const COLOR_BANDS = 8;
+
+const MARKER_COLORS: Record<ReplayMarker['kind'], string> = {
+  pause: Colors.warning,
+  off_track: Colors.error,
+  self_correction: Colors.info,
+};
+
+const MARKER_LABELS: Record<ReplayMarker['kind'], string> = {
+  pause: 'Pause',
+  off_track: 'Off track',
+  self_correction: 'Self-correction',
+};
+
+const toPath = (points: Array<{ x: number; y: number }>): string =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+/**
+ * Re-draws a recorded trace over the ideal path with its original timing
+ */
+const ReplayPlayer: React.FC<ReplayPlayerProps> = ({ data, width, height = width }) => {
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [colorMode, setColorMode] = useState<ReplayColorMode>('velocity');
+  const [timelineWidth, setTimelineWidth] = useState(0);
+
+  // Advance the clock while playing, scaled by the chosen speed
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let last = Date.now();
+    const step = () => {
+      const now = Date.now();
+      const elapsed = (now - last) * speed;
+      last = now;
+      setTime(t => Math.min(data.duration, t + elapsed));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, data.duration]);
+
+  useEffect(() => {
+    if (playing && time >= data.duration) setPlaying(false);
+  }, [playing, time, data.duration]);
+
+  const viewBox = useMemo(() => {
+    const points = [...data.strokes.flat(), ...data.idealStrokes.flat()];
+    if (points.length === 0) return `0 0 ${width} ${height}`;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    return `${minX} ${minY} ${Math.max(...xs) + PADDING - minX} ${Math.max(...ys) + PADDING - minY}`;
+  }, [data, width, height]);
+
+  const colorBand = (value: number): number => {
+    const { min, max } = data.ranges[colorMode];
+    const normalized = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0;
+    return Math.round(normalized * (COLOR_BANDS - 1));
+  };
+
+  const bandColor = (band: number): string => ColorUtils.getScoreColor(100 - (band / (COLOR_BANDS - 1)) * 100);
+
+  const visibleStrokes = data.strokes.map(stroke => stroke.filter(p => p.t <= time));
+  const pen = visibleStrokes.flat().pop();
+
+  // Each segment joins the path of its band as its own subpath
+  const bandPaths: string[][] = Array.from({ length: COLOR_BANDS }, () => []);
+  visibleStrokes.forEach(stroke =>
+    stroke.slice(1).forEach((p, i) => {
+      bandPaths[colorBand(p[colorMode])].push(`M ${stroke[i].x} ${stroke[i].y} L ${p.x} ${p.y}`);
+    })
+  );
+
+  const togglePlay = () => {
+    if (!playing && time >= data.duration) setTime(0);
+    setPlaying(p => !p);
+  };
+
+  const scrub = (event: GestureResponderEvent) => {
+    if (timelineWidth === 0) return;
+    const fraction = Math.min(1, Math.max(0, event.nativeEvent.locationX / timelineWidth));
+    setTime(fraction * data.duration);
+  };
+
+  const fractionAt = (t: number) => (data.duration > 0 ? Math.min(1, Math.max(0, t / data.duration)) : 0);
+
+  return (
+    <View style={styles.container}>
+      <Svg width={width} height={height} viewBox={viewBox} style={styles.canvas}>
+        {data.idealStrokes.map((stroke, i) => (
+          <Path
+            key={`ideal-${i}`}
+            d={toPath(stroke)}
+            stroke={Colors.tracingGuideline}
+            strokeWidth={24}
+            strokeOpacity={0.25}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            fill="none"
+          />
+        ))}
+        {bandPaths.map((segments, band) =>
+          segments.length > 0 ? (
+            <Path
+              key={`band-${band}`}
+              d={segments.join(' ')}
+              stroke={bandColor(band)}
+              strokeWidth={6}
+              strokeLinecap="round"
+              fill="none"
+            />
+          ) : null
+        )}
+        {pen && <Circle cx={pen.x} cy={pen.y} r={10} fill={Colors.primary} />}
+      </Svg>
+
+      {/* Timeline with event markers; tap or drag to scrub */}
+      <View
+        style={styles.timeline}
+        onLayout={e => setTimelineWidth(e.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={event => {
+          setPlaying(false);
+          scrub(event);
+        }}
+        onResponderMove={scrub}
+      >
+        <View style={[styles.timelineFill, { width: `${fractionAt(time) * 100}%` }]} pointerEvents="none" />
+        {data.markers.map((marker, i) => (
+          <View
+            key={`marker-${i}`}
+            pointerEvents="none"
+            style={[
+              styles.marker,
+              {
+                left: `${fractionAt(marker.t) * 100}%`,
+                width: Math.max(3, fractionAt(marker.duration * 1000) * timelineWidth),
+                backgroundColor: MARKER_COLORS[marker.kind],
+              },
+            ]}
+          />
+        ))}
+      </View>
+      <Text style={styles.timeText}>
+        {(time / 1000).toFixed(1)}s / {(data.duration / 1000).toFixed(1)}s
+      </Text>
+
+      <View style={styles.legend}>
+        {(Object.keys(MARKER_LABELS) as ReplayMarker['kind'][]).map(kind => (
+          <View key={kind} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS[kind] }]} />
+            <Text style={styles.legendText}>{MARKER_LABELS[kind]}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.playButton} onPress={togglePlay}>
+          <Text style={styles.playButtonText}>{playing ? 'Pause' : 'Play'}</Text>
+        </TouchableOpacity>
+        {SPEEDS.map(s => (
+          <TouchableOpacity
+            key={s}
+            style={[styles.chip, speed === s && styles.chipSelected]}
+            onPress={() => setSpeed(s)}
+          >
+            <Text style={[styles.chipText, speed === s && styles.chipTextSelected]}>{s}×</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.controls}>
+        {(['velocity', 'deviation'] as const).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.chip, colorMode === mode && styles.chipSelected]}
+            onPress={() => setColorMode(mode)}
+          >
+            <Text style={[styles.chipText, colorMode === mode && styles.chipTextSelected]}>
+              Colour by {mode}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  canvas: {
+    backgroundColor: Colors.tracingBackground,
+    borderRadius: 12,
+  },
+  timeline: {
+    marginTop: 12,
+    width: '100%',
+    height: 20,
+    borderRadius: 4,
+    backgroundColor: Colors.borderLight,
+    overflow: 'hidden',
+  },
+  timelineFill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: Colors.primaryLight,
+  },
+  marker: {
+    position: 'absolute',
+    top: 4,
+    bottom: 4,
+    borderRadius: 2,
+    opacity: 0.85,
+  },
+  timeText: {
+    marginTop: 4,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  controls: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  playButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+  },
+  playButtonText: {
+    color: Colors.textOnPrimary,
+    fontWeight: 'bold',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: Colors.textOnPrimary,
+  },
+});
+
+export default ReplayPlayer;
@@ -88,8 +88,13 @@ export const ALPHABET = [
   'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z'
 ];
 
+export const NUMERALS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+// Everything a child can trace: letters first, then numerals
+export const GLYPHS = [...ALPHABET, ...NUMERALS];
+
 // ==================================================================================
-// LETTER PATH DEFINITIONS - ALL 26 LETTERS
+// LETTER PATH DEFINITIONS - ALL 26 LETTERS AND 10 NUMERALS
 // ==================================================================================
 
 export const LETTER_PATHS: Record<string, LetterPath> = {
@@ -252,7 +257,7 @@ export const LETTER_PATHS: Record<string, LetterPath> = {
     height: LETTER_HEIGHT,
     baseline: BASELINE,
     difficulty: 'easy',
-    confusionPairs: ['F'],
+    confusionPairs: ['F', '3'],
     strokes: [
       // Stroke 1: Vertical Spine - M 20,10 L 20,90
       // Trace the straight line from top to bottom
@@ -1036,6 +1041,411 @@ export const LETTER_PATHS: Record<string, LetterPath> = {
       })(),
     ],
   },
+
+  // ================================================================================
+  // NUMERALS 0-9 - same 100×100 frame and cap height as the capitals
+  // ================================================================================
+
+  // ================================================================================
+  // NUMERAL 0 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '0': {
+    letter: '0',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'easy',
+    confusionPairs: ['O'],
+    strokes: [
+      // Stroke 1: Oval - M 50,10 C 30,10 25,30 25,50 C 25,70 30,90 50,90 C 70,90 75,70 75,50 C 75,30 70,10 50,10
+      // Start at the top and go all the way round to the left
+      (() => {
+        const p1 = convertFrom100x100(50, 10);
+        const c1 = convertFrom100x100(30, 10);
+        const c2 = convertFrom100x100(25, 30);
+        const p2 = convertFrom100x100(25, 50);
+        const c3 = convertFrom100x100(25, 70);
+        const c4 = convertFrom100x100(30, 90);
+        const p3 = convertFrom100x100(50, 90);
+        const c5 = convertFrom100x100(70, 90);
+        const c6 = convertFrom100x100(75, 70);
+        const p4 = convertFrom100x100(75, 50);
+        const c7 = convertFrom100x100(75, 30);
+        const c8 = convertFrom100x100(70, 10);
+        const p5 = convertFrom100x100(50, 10);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c7.x, c7.y, c8.x, c8.y, p5.x, p5.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 1 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '1': {
+    letter: '1',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'easy',
+    confusionPairs: ['7', 'I'],
+    strokes: [
+      // Stroke 1: Flag and Stem - M 38,22 L 52,10 L 52,90
+      // Flick up to the top, then pull straight down
+      (() => {
+        const p1 = convertFrom100x100(38, 22);
+        const p2 = convertFrom100x100(52, 10);
+        const p3 = convertFrom100x100(52, 90);
+        return [
+          createLine(p1.x, p1.y, p2.x, p2.y),
+          createLine(p2.x, p2.y, p3.x, p3.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 2 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '2': {
+    letter: '2',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'medium',
+    confusionPairs: ['5', 'Z'],
+    strokes: [
+      // Stroke 1: Two Curve - M 28,28 C 30,14 42,10 50,10 C 62,10 72,18 72,30 C 72,45 55,58 28,90 L 74,90
+      // Curve over the top, slide down to the left and go across
+      (() => {
+        const p1 = convertFrom100x100(28, 28);
+        const c1 = convertFrom100x100(30, 14);
+        const c2 = convertFrom100x100(42, 10);
+        const p2 = convertFrom100x100(50, 10);
+        const c3 = convertFrom100x100(62, 10);
+        const c4 = convertFrom100x100(72, 18);
+        const p3 = convertFrom100x100(72, 30);
+        const c5 = convertFrom100x100(72, 45);
+        const c6 = convertFrom100x100(55, 58);
+        const p4 = convertFrom100x100(28, 90);
+        const p5 = convertFrom100x100(74, 90);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createLine(p4.x, p4.y, p5.x, p5.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 3 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '3': {
+    letter: '3',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'medium',
+    confusionPairs: ['E', '8'],
+    strokes: [
+      // Stroke 1: Three Curve - M 28,20 C 36,11 46,10 50,10 C 62,10 70,18 70,29 C 70,41 60,48 48,48 C 62,48 72,57 72,69 C 72,82 62,90 49,90 C 40,90 32,87 27,80
+      // Round the top bump to the middle, then round the bigger bottom bump
+      (() => {
+        const p1 = convertFrom100x100(28, 20);
+        const c1 = convertFrom100x100(36, 11);
+        const c2 = convertFrom100x100(46, 10);
+        const p2 = convertFrom100x100(50, 10);
+        const c3 = convertFrom100x100(62, 10);
+        const c4 = convertFrom100x100(70, 18);
+        const p3 = convertFrom100x100(70, 29);
+        const c5 = convertFrom100x100(70, 41);
+        const c6 = convertFrom100x100(60, 48);
+        const p4 = convertFrom100x100(48, 48);
+        const c7 = convertFrom100x100(62, 48);
+        const c8 = convertFrom100x100(72, 57);
+        const p5 = convertFrom100x100(72, 69);
+        const c9 = convertFrom100x100(72, 82);
+        const c10 = convertFrom100x100(62, 90);
+        const p6 = convertFrom100x100(49, 90);
+        const c11 = convertFrom100x100(40, 90);
+        const c12 = convertFrom100x100(32, 87);
+        const p7 = convertFrom100x100(27, 80);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c7.x, c7.y, c8.x, c8.y, p5.x, p5.y),
+          createBezier(p5.x, p5.y, c9.x, c9.y, c10.x, c10.y, p6.x, p6.y),
+          createBezier(p6.x, p6.y, c11.x, c11.y, c12.x, c12.y, p7.x, p7.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 4 - ViewBox: 100×100, Strokes: 2
+  // ================================================================================
+  '4': {
+    letter: '4',
+    expectedStrokeCount: 2,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'medium',
+    confusionPairs: ['9'],
+    strokes: [
+      // Stroke 1: Down and Across - M 60,10 L 24,66 L 78,66
+      // Slide down to the left, then go across
+      (() => {
+        const p1 = convertFrom100x100(60, 10);
+        const p2 = convertFrom100x100(24, 66);
+        const p3 = convertFrom100x100(78, 66);
+        return [
+          createLine(p1.x, p1.y, p2.x, p2.y),
+          createLine(p2.x, p2.y, p3.x, p3.y),
+        ];
+      })(),
+      
+      // Stroke 2: Stem - M 60,10 L 60,90
+      // Pull straight down through the crossing line
+      (() => {
+        const start = convertFrom100x100(60, 10);
+        const end = convertFrom100x100(60, 90);
+        return [createLine(start.x, start.y, end.x, end.y)];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 5 - ViewBox: 100×100, Strokes: 2
+  // ================================================================================
+  '5': {
+    letter: '5',
+    expectedStrokeCount: 2,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'medium',
+    confusionPairs: ['2', 'S'],
+    strokes: [
+      // Stroke 1: Stem and Belly - M 32,10 L 30,46 C 36,41 43,40 50,40 C 63,40 72,50 72,64 C 72,79 62,90 48,90 C 40,90 33,87 28,82
+      // Pull down a little, then round the big belly
+      (() => {
+        const p1 = convertFrom100x100(32, 10);
+        const p2 = convertFrom100x100(30, 46);
+        const c1 = convertFrom100x100(36, 41);
+        const c2 = convertFrom100x100(43, 40);
+        const p3 = convertFrom100x100(50, 40);
+        const c3 = convertFrom100x100(63, 40);
+        const c4 = convertFrom100x100(72, 50);
+        const p4 = convertFrom100x100(72, 64);
+        const c5 = convertFrom100x100(72, 79);
+        const c6 = convertFrom100x100(62, 90);
+        const p5 = convertFrom100x100(48, 90);
+        const c7 = convertFrom100x100(40, 90);
+        const c8 = convertFrom100x100(33, 87);
+        const p6 = convertFrom100x100(28, 82);
+        return [
+          createLine(p1.x, p1.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c1.x, c1.y, c2.x, c2.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c3.x, c3.y, c4.x, c4.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c5.x, c5.y, c6.x, c6.y, p5.x, p5.y),
+          createBezier(p5.x, p5.y, c7.x, c7.y, c8.x, c8.y, p6.x, p6.y),
+        ];
+      })(),
+      
+      // Stroke 2: Flag - M 32,10 L 70,10
+      // Add the flag across the top
+      (() => {
+        const start = convertFrom100x100(32, 10);
+        const end = convertFrom100x100(70, 10);
+        return [createLine(start.x, start.y, end.x, end.y)];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 6 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '6': {
+    letter: '6',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'hard',
+    confusionPairs: ['9'],
+    strokes: [
+      // Stroke 1: Six Curve - M 66,14 C 60,11 55,10 50,10 C 35,10 27,28 27,55 C 27,76 36,90 50,90 C 63,90 72,80 72,67 C 72,54 63,45 50,45 C 38,45 29,53 27,62
+      // Curve down the left side and curl into the loop
+      (() => {
+        const p1 = convertFrom100x100(66, 14);
+        const c1 = convertFrom100x100(60, 11);
+        const c2 = convertFrom100x100(55, 10);
+        const p2 = convertFrom100x100(50, 10);
+        const c3 = convertFrom100x100(35, 10);
+        const c4 = convertFrom100x100(27, 28);
+        const p3 = convertFrom100x100(27, 55);
+        const c5 = convertFrom100x100(27, 76);
+        const c6 = convertFrom100x100(36, 90);
+        const p4 = convertFrom100x100(50, 90);
+        const c7 = convertFrom100x100(63, 90);
+        const c8 = convertFrom100x100(72, 80);
+        const p5 = convertFrom100x100(72, 67);
+        const c9 = convertFrom100x100(72, 54);
+        const c10 = convertFrom100x100(63, 45);
+        const p6 = convertFrom100x100(50, 45);
+        const c11 = convertFrom100x100(38, 45);
+        const c12 = convertFrom100x100(29, 53);
+        const p7 = convertFrom100x100(27, 62);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c7.x, c7.y, c8.x, c8.y, p5.x, p5.y),
+          createBezier(p5.x, p5.y, c9.x, c9.y, c10.x, c10.y, p6.x, p6.y),
+          createBezier(p6.x, p6.y, c11.x, c11.y, c12.x, c12.y, p7.x, p7.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 7 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '7': {
+    letter: '7',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'easy',
+    confusionPairs: ['1'],
+    strokes: [
+      // Stroke 1: Seven Line - M 26,10 L 74,10 L 40,90
+      // Go across the top, then slide down to the left
+      (() => {
+        const p1 = convertFrom100x100(26, 10);
+        const p2 = convertFrom100x100(74, 10);
+        const p3 = convertFrom100x100(40, 90);
+        return [
+          createLine(p1.x, p1.y, p2.x, p2.y),
+          createLine(p2.x, p2.y, p3.x, p3.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 8 - ViewBox: 100×100, Strokes: 1
+  // ================================================================================
+  '8': {
+    letter: '8',
+    expectedStrokeCount: 1,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'hard',
+    confusionPairs: ['3'],
+    strokes: [
+      // Stroke 1: Eight Loop - M 50,10 C 39,10 31,17 31,28 C 31,40 41,45 50,50 C 60,55 70,60 70,72 C 70,83 61,90 50,90 C 39,90 30,83 30,72 C 30,60 40,55 50,50 C 59,45 69,40 69,28 C 69,17 61,10 50,10
+      // Make an S, then go back up to where you started
+      (() => {
+        const p1 = convertFrom100x100(50, 10);
+        const c1 = convertFrom100x100(39, 10);
+        const c2 = convertFrom100x100(31, 17);
+        const p2 = convertFrom100x100(31, 28);
+        const c3 = convertFrom100x100(31, 40);
+        const c4 = convertFrom100x100(41, 45);
+        const p3 = convertFrom100x100(50, 50);
+        const c5 = convertFrom100x100(60, 55);
+        const c6 = convertFrom100x100(70, 60);
+        const p4 = convertFrom100x100(70, 72);
+        const c7 = convertFrom100x100(70, 83);
+        const c8 = convertFrom100x100(61, 90);
+        const p5 = convertFrom100x100(50, 90);
+        const c9 = convertFrom100x100(39, 90);
+        const c10 = convertFrom100x100(30, 83);
+        const p6 = convertFrom100x100(30, 72);
+        const c11 = convertFrom100x100(30, 60);
+        const c12 = convertFrom100x100(40, 55);
+        const p7 = convertFrom100x100(50, 50);
+        const c13 = convertFrom100x100(59, 45);
+        const c14 = convertFrom100x100(69, 40);
+        const p8 = convertFrom100x100(69, 28);
+        const c15 = convertFrom100x100(69, 17);
+        const c16 = convertFrom100x100(61, 10);
+        const p9 = convertFrom100x100(50, 10);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c7.x, c7.y, c8.x, c8.y, p5.x, p5.y),
+          createBezier(p5.x, p5.y, c9.x, c9.y, c10.x, c10.y, p6.x, p6.y),
+          createBezier(p6.x, p6.y, c11.x, c11.y, c12.x, c12.y, p7.x, p7.y),
+          createBezier(p7.x, p7.y, c13.x, c13.y, c14.x, c14.y, p8.x, p8.y),
+          createBezier(p8.x, p8.y, c15.x, c15.y, c16.x, c16.y, p9.x, p9.y),
+        ];
+      })(),
+    ],
+  },
+
+  // ================================================================================
+  // NUMERAL 9 - ViewBox: 100×100, Strokes: 2
+  // ================================================================================
+  '9': {
+    letter: '9',
+    expectedStrokeCount: 2,
+    width: LETTER_WIDTH,
+    height: LETTER_HEIGHT,
+    baseline: BASELINE,
+    difficulty: 'hard',
+    confusionPairs: ['6', 'P'],
+    strokes: [
+      // Stroke 1: Loop - M 72,30 C 72,18 63,10 50,10 C 37,10 28,18 28,30 C 28,42 37,50 50,50 C 63,50 72,42 72,30
+      // Go round to the left to make the loop
+      (() => {
+        const p1 = convertFrom100x100(72, 30);
+        const c1 = convertFrom100x100(72, 18);
+        const c2 = convertFrom100x100(63, 10);
+        const p2 = convertFrom100x100(50, 10);
+        const c3 = convertFrom100x100(37, 10);
+        const c4 = convertFrom100x100(28, 18);
+        const p3 = convertFrom100x100(28, 30);
+        const c5 = convertFrom100x100(28, 42);
+        const c6 = convertFrom100x100(37, 50);
+        const p4 = convertFrom100x100(50, 50);
+        const c7 = convertFrom100x100(63, 50);
+        const c8 = convertFrom100x100(72, 42);
+        const p5 = convertFrom100x100(72, 30);
+        return [
+          createBezier(p1.x, p1.y, c1.x, c1.y, c2.x, c2.y, p2.x, p2.y),
+          createBezier(p2.x, p2.y, c3.x, c3.y, c4.x, c4.y, p3.x, p3.y),
+          createBezier(p3.x, p3.y, c5.x, c5.y, c6.x, c6.y, p4.x, p4.y),
+          createBezier(p4.x, p4.y, c7.x, c7.y, c8.x, c8.y, p5.x, p5.y),
+        ];
+      })(),
+      
+      // Stroke 2: Stem - M 72,30 L 72,90
+      // Pull straight down from the loop
+      (() => {
+        const start = convertFrom100x100(72, 30);
+        const end = convertFrom100x100(72, 90);
+        return [createLine(start.x, start.y, end.x, end.y)];
+      })(),
+    ],
+  },
+
 };
 
 // ==================================================================================
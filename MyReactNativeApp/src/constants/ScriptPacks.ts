@@ -0,0 +1,104 @@
+/**
+ * Handwriting styles a child can be taught in.
+ *
+ * A script pack is a full set of glyph geometries in the LETTER_PATHS
+ * format, so the tracing screen, ideal paths, stroke-order grading and
+ * recognizer templates all follow the style chosen on the child's profile.
+ *
+ * This app traces capitals and numerals only. Pre-cursive and cursive
+ * change lowercase letters alone, so those packs keep their ids (the same
+ * profile drives the other tracing apps) but draw print capitals here; their
+ * descriptions say so wherever a pack is chosen.
+ */
+
+import { LetterPath, PathSegment, Point } from '@models/TracingData';
+import { LETTER_PATHS } from './LetterPaths';
+
+export type ScriptPackId = 'print' | 'precursive' | 'cursive' | 'slanted';
+
+export interface ScriptPack {
+  id: ScriptPackId;
+  name: string;
+  description: string;
+  slant: number; // degrees, clockwise from upright
+  letterPaths: Record<string, LetterPath>;
+}
+
+export const DEFAULT_SCRIPT_PACK: ScriptPackId = 'print';
+
+const SLANT_DEGREES = 8;
+
+/**
+ * Shear a letter about its vertical centre, so it leans without drifting
+ * off the canvas
+ */
+const slantLetter = (letterPath: LetterPath, degrees: number): LetterPath => {
+  const ys = letterPath.strokes.flat().flatMap(segment => [segment.start.y, segment.end.y]);
+  const pivotY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const shear = Math.tan((degrees * Math.PI) / 180);
+
+  const slantPoint = (point: Point): Point => ({
+    x: Math.round((point.x + (pivotY - point.y) * shear) * 100) / 100,
+    y: point.y,
+  });
+  const slantSegment = (segment: PathSegment): PathSegment => ({
+    ...segment,
+    start: slantPoint(segment.start),
+    end: slantPoint(segment.end),
+    ...(segment.control1 && { control1: slantPoint(segment.control1) }),
+    ...(segment.control2 && { control2: slantPoint(segment.control2) }),
+  });
+
+  return { ...letterPath, strokes: letterPath.strokes.map(stroke => stroke.map(slantSegment)) };
+};
+
+const slantAll = (degrees: number): Record<string, LetterPath> =>
+  Object.fromEntries(
+    Object.entries(LETTER_PATHS).map(([glyph, letterPath]) => [glyph, slantLetter(letterPath, degrees)])
+  );
+
+export const SCRIPT_PACKS: Record<ScriptPackId, ScriptPack> = {
+  print: {
+    id: 'print',
+    name: 'Print',
+    description: 'Upright ball-and-stick letters',
+    slant: 0,
+    letterPaths: LETTER_PATHS,
+  },
+  precursive: {
+    id: 'precursive',
+    name: 'Pre-cursive',
+    description: 'Lead-ins and exit strokes on lowercase letters; capitals here are traced as in print',
+    slant: 0,
+    letterPaths: LETTER_PATHS,
+  },
+  cursive: {
+    id: 'cursive',
+    name: 'Cursive',
+    description: 'Joined lowercase letters; capitals here are traced as in print',
+    slant: 0,
+    letterPaths: LETTER_PATHS,
+  },
+  slanted: {
+    id: 'slanted',
+    name: 'Slanted print',
+    description: 'Print letters leaning to the right, as in slanted manuscript styles',
+    slant: SLANT_DEGREES,
+    letterPaths: slantAll(SLANT_DEGREES),
+  },
+};
+
+// Ids stored by earlier versions: the D'Nealian pack was this slant
+const RENAMED_PACKS: Record<string, ScriptPackId> = {
+  dnealian: 'slanted',
+};
+
+/**
+ * Look up a pack; unknown or missing ids (e.g. older profiles) fall back to print
+ */
+export const getScriptPack = (id?: string | null): ScriptPack =>
+  SCRIPT_PACKS[(id ? RENAMED_PACKS[id] ?? id : DEFAULT_SCRIPT_PACK) as ScriptPackId] ??
+  SCRIPT_PACKS[DEFAULT_SCRIPT_PACK];
+
+export const getLetterPath = (glyph: string, id?: string | null): LetterPath | undefined =>
+  getScriptPack(id).letterPaths[glyph];
@@ -1,18 +1,25 @@
 /**
  * Threshold values for analytics and risk assessment
  * Based on research and clinical guidelines for dyslexia/dysgraphia assessment
+ *
+ * Distances and speeds are stored in physical units (mm, mm/s) and converted
+ * to canvas units for the device by the active threshold profile. Analytics
+ * should read getActiveThresholds() rather than these base values.
  */
 
+import BuiltInProfiles from './ThresholdProfiles.json';
+import { MM_PER_INCH, REFERENCE_DP_PER_INCH } from '@utils/CalibrationUtils';
+
 export const Thresholds = {
   // ========================================================================
   // SPATIAL ACCURACY THRESHOLDS
   // ========================================================================
   spatial: {
-    // Deviation from ideal path (pixels)
-    excellentDeviation: 20,
-    goodDeviation: 35,
-    averageDeviation: 50,
-    poorDeviation: 75,
+    // Deviation from ideal path (mm)
+    excellentDeviation: 3,
+    goodDeviation: 5.5,
+    averageDeviation: 8,
+    poorDeviation: 12,
     
     // Accuracy scores (0-100)
     excellentAccuracy: 90,
@@ -21,7 +28,7 @@ export const Thresholds = {
     poorAccuracy: 40,
     
     // Off-track tolerance
-    offTrackTolerance: 50, // pixels
+    offTrackTolerance: 8, // mm
     maxOffTrackEvents: 3,
     maxOffTrackDuration: 2.0, // seconds
   },
@@ -30,17 +37,17 @@ export const Thresholds = {
   // VELOCITY & KINEMATICS THRESHOLDS
   // ========================================================================
   velocity: {
-    // Velocity ranges (pixels/second)
-    minNormalVelocity: 30,
-    maxNormalVelocity: 150,
-    averageVelocity: 80,
+    // Velocity ranges (mm/s)
+    minNormalVelocity: 5,
+    maxNormalVelocity: 24,
+    averageVelocity: 13,
     
     // Fluency
     minFluencyRatio: 0.7, // 70% time in motion
     excellentFluencyRatio: 0.9,
     
     // Pause detection
-    pauseVelocityThreshold: 10, // px/s
+    pauseVelocityThreshold: 1.5, // mm/s
     maxPauseDuration: 3.0, // seconds
     maxPauseFrequency: 5,
   },
@@ -81,8 +88,11 @@ export const Thresholds = {
     maxPlanningTime: 2.0,
     
     // Line continuity
-    maxGapSize: 20, // pixels
+    maxGapSize: 3, // mm
     maxGapsAllowed: 2,
+    
+    // Start and end of a closed letter closer than this count as joined
+    closureTolerance: 4, // mm
   },
 
   // ========================================================================
@@ -111,14 +121,14 @@ export const Thresholds = {
     minTremorFrequency: 3,
     maxTremorFrequency: 12,
     
-    // Amplitude (pixels)
-    minTremorAmplitude: 3,
-    maxAcceptableAmplitude: 8,
+    // Amplitude (mm)
+    minTremorAmplitude: 0.5,
+    maxAcceptableAmplitude: 1.3,
     
-    // Tremor severity
-    mildTremorAmplitude: 5,
-    moderateTremorAmplitude: 8,
-    severeTremorAmplitude: 12,
+    // Tremor severity (mm)
+    mildTremorAmplitude: 0.8,
+    moderateTremorAmplitude: 1.3,
+    severeTremorAmplitude: 1.9,
   },
 
   // ========================================================================
@@ -161,7 +171,7 @@ export const Thresholds = {
     minShapeQuality: 65,
     
     // Motor control indicators
-    maxAcceptableTremor: 5,
+    maxAcceptableTremor: 0.8, // mm
     minCoordinationScore: 60,
   },
 
@@ -207,7 +217,7 @@ export const Thresholds = {
     maxDegradationSlope: 0.1,
     
     // Speed degradation
-    maxSpeedDropoff: -2.0, // px/s per sample
+    maxSpeedDropoff: -0.3, // mm/s per sample
     
     // Session tolerance
     normalToleranceDuration: 60, // seconds
@@ -229,6 +239,7 @@ export const Thresholds = {
     // Mastery criteria
     masteryAccuracy: 85,
     masteryConsistency: 3, // sessions
+    problematicAccuracy: 60,
     
     // Plateau detection
     plateauSessions: 5,
@@ -237,6 +248,11 @@ export const Thresholds = {
     // Retention (0-1)
     minRetention24h: 0.7,
     minRetention1week: 0.6,
+    retention24hWindowHours: [20, 48],
+    retention1weekWindowDays: [5, 10],
+    
+    // Retries within this many minutes count as immediate
+    immediateRetryMinutes: 5,
   },
 
   // ========================================================================
@@ -297,29 +313,12 @@ export const Thresholds = {
   },
 
   // ========================================================================
-  // AGE-BASED NORMS (Simplified)
-  // ========================================================================
-  ageNorms: {
-    age5_6: {
-      averageAccuracy: 60,
-      averageVelocity: 50,
-      averageDuration: 45,
-    },
-    age7_8: {
-      averageAccuracy: 70,
-      averageVelocity: 70,
-      averageDuration: 35,
-    },
-    age9_10: {
-      averageAccuracy: 80,
-      averageVelocity: 90,
-      averageDuration: 25,
-    },
-    age11_plus: {
-      averageAccuracy: 85,
-      averageVelocity: 110,
-      averageDuration: 20,
-    },
+  // AGE-BASED NORMS (overridden per age band by the threshold profiles)
+  // ========================================================================
+  norms: {
+    averageAccuracy: 70,
+    averageVelocity: 11, // mm/s
+    averageDuration: 35, // seconds
   },
 
   // ========================================================================
@@ -340,6 +339,242 @@ export const Thresholds = {
   },
 };
 
+export type ThresholdSet = typeof Thresholds;
+export type InputMethod = 'finger' | 'stylus';
+
+export type ThresholdOverrides = {
+  [K in keyof ThresholdSet]?: Partial<ThresholdSet[K]>;
+};
+
+/**
+ * A versioned set of overrides for one age band and input method
+ */
+export interface ThresholdProfile {
+  id: string;
+  version: number;
+  label: string;
+  ageRange: { min: number; max: number | null }; // years, inclusive
+  inputMethods: InputMethod[];
+  overrides: ThresholdOverrides;
+}
+
+/**
+ * How canvas units relate to the physical screen. Touch coordinates are dp,
+ * which React Native lays out at ~160 per inch unless the real density is known
+ */
+export interface DeviceScale {
+  unitsPerMm?: number; // from a device calibration; takes precedence
+  dpi?: number; // physical pixels per inch
+  pixelRatio?: number; // physical pixels per dp
+  canvasScale?: number; // canvas units per dp
+}
+
+export const THRESHOLD_SCHEMA_VERSION = 1;
+
+const INPUT_METHODS: InputMethod[] = ['finger', 'stylus'];
+
+// Fields stored in mm or mm/s, converted to canvas units on activation
+const PHYSICAL_FIELDS: { [K in keyof ThresholdSet]?: (keyof ThresholdSet[K])[] } = {
+  spatial: ['excellentDeviation', 'goodDeviation', 'averageDeviation', 'poorDeviation', 'offTrackTolerance'],
+  velocity: ['minNormalVelocity', 'maxNormalVelocity', 'averageVelocity', 'pauseVelocityThreshold'],
+  strokes: ['maxGapSize', 'closureTolerance'],
+  tremor: [
+    'minTremorAmplitude',
+    'maxAcceptableAmplitude',
+    'mildTremorAmplitude',
+    'moderateTremorAmplitude',
+    'severeTremorAmplitude',
+  ],
+  dysgraphia: ['maxAcceptableTremor'],
+  fatigue: ['maxSpeedDropoff'],
+  norms: ['averageVelocity'],
+};
+
+/**
+ * Canvas units per millimetre for a device
+ */
+export const unitsPerMm = (scale: DeviceScale = {}): number => {
+  if (scale.unitsPerMm) return scale.unitsPerMm;
+  const dpPerInch = scale.dpi && scale.pixelRatio ? scale.dpi / scale.pixelRatio : REFERENCE_DP_PER_INCH;
+  return (dpPerInch / MM_PER_INCH) * (scale.canvasScale ?? 1);
+};
+
+/**
+ * Apply a profile's overrides to the base thresholds and convert physical
+ * fields to canvas units
+ */
+export const resolveThresholds = (profile: ThresholdProfile, scale: DeviceScale = {}): ThresholdSet => {
+  const factor = unitsPerMm(scale);
+  const resolved: Record<string, Record<string, unknown>> = {};
+
+  for (const group of Object.keys(Thresholds) as (keyof ThresholdSet)[]) {
+    const values: Record<string, unknown> = { ...Thresholds[group], ...profile.overrides[group] };
+    for (const field of PHYSICAL_FIELDS[group] ?? []) {
+      values[field as string] = (values[field as string] as number) * factor;
+    }
+    resolved[group] = values;
+  }
+
+  return resolved as unknown as ThresholdSet;
+};
+
+const coversAge = (profile: ThresholdProfile, ageYears: number): boolean =>
+  ageYears >= profile.ageRange.min &&
+  (profile.ageRange.max === null || ageYears < profile.ageRange.max + 1);
+
+const ageSpan = (profile: ThresholdProfile): number =>
+  (profile.ageRange.max ?? 100) - profile.ageRange.min;
+
+/**
+ * Pick the narrowest profile covering the age, preferring ones made for the
+ * input method; falls back to the "default" profile
+ */
+export const selectThresholdProfile = (
+  profiles: ThresholdProfile[],
+  ageYears: number | null | undefined,
+  inputMethod: InputMethod
+): ThresholdProfile => {
+  const fallback = profiles.find(p => p.id === 'default') ?? profiles[0];
+  if (ageYears === null || ageYears === undefined) return fallback;
+
+  const candidates = profiles.filter(p => coversAge(p, ageYears));
+  const forMethod = candidates.filter(p => p.inputMethods.includes(inputMethod));
+  const pool = forMethod.length > 0 ? forMethod : candidates;
+  if (pool.length === 0) return fallback;
+
+  return pool.reduce((best, p) => (ageSpan(p) < ageSpan(best) ? p : best));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateOverrides = (id: string, raw: unknown): ThresholdOverrides => {
+  if (!isRecord(raw)) throw new Error(`Threshold profile ${id}: overrides must be an object`);
+  const base = Thresholds as unknown as Record<string, Record<string, unknown>>;
+
+  for (const [group, fields] of Object.entries(raw)) {
+    if (!base[group] || !isRecord(fields)) {
+      throw new Error(`Threshold profile ${id}: unknown group "${group}"`);
+    }
+    for (const [field, value] of Object.entries(fields)) {
+      const expected = base[group][field];
+      const valid = Array.isArray(expected)
+        ? Array.isArray(value) && value.length === expected.length && value.every(Number.isFinite)
+        : expected !== undefined && Number.isFinite(value);
+      if (!valid) {
+        throw new Error(`Threshold profile ${id}: invalid value for ${group}.${field}`);
+      }
+    }
+  }
+
+  return raw as ThresholdOverrides;
+};
+
+const validateProfile = (raw: unknown, index: number): ThresholdProfile => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id.length === 0) {
+    throw new Error(`Threshold profile #${index + 1}: missing id`);
+  }
+  const id = raw.id;
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    throw new Error(`Threshold profile ${id}: version must be a positive integer`);
+  }
+
+  const ageRange = raw.ageRange;
+  if (
+    !isRecord(ageRange) ||
+    !Number.isFinite(ageRange.min) ||
+    !(ageRange.max === null || (Number.isFinite(ageRange.max) && (ageRange.max as number) >= (ageRange.min as number)))
+  ) {
+    throw new Error(`Threshold profile ${id}: invalid age range`);
+  }
+
+  const inputMethods = raw.inputMethods;
+  if (
+    !Array.isArray(inputMethods) ||
+    inputMethods.length === 0 ||
+    !inputMethods.every(m => INPUT_METHODS.includes(m))
+  ) {
+    throw new Error(`Threshold profile ${id}: inputMethods must list finger and/or stylus`);
+  }
+
+  return {
+    id,
+    version: raw.version as number,
+    label: typeof raw.label === 'string' ? raw.label : id,
+    ageRange: { min: ageRange.min as number, max: ageRange.max as number | null },
+    inputMethods: inputMethods as InputMethod[],
+    overrides: validateOverrides(id, raw.overrides ?? {}),
+  };
+};
+
+/**
+ * Parse and validate a threshold profile file ({ schemaVersion, profiles })
+ */
+export const parseThresholdProfiles = (input: unknown): ThresholdProfile[] => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isRecord(data) || data.schemaVersion !== THRESHOLD_SCHEMA_VERSION || !Array.isArray(data.profiles)) {
+    throw new Error(`Unsupported threshold profile file (expected schemaVersion ${THRESHOLD_SCHEMA_VERSION})`);
+  }
+  return data.profiles.map(validateProfile);
+};
+
+// ============================================================================
+// ACTIVE PROFILE
+// ============================================================================
+
+let registeredProfiles: ThresholdProfile[] = parseThresholdProfiles(BuiltInProfiles);
+let activeProfile = selectThresholdProfile(registeredProfiles, null, 'finger');
+let activeInputMethod: InputMethod = 'finger';
+let activeScale: DeviceScale = {};
+let activeThresholds = resolveThresholds(activeProfile, activeScale);
+let activePhysicalThresholds = resolveThresholds(activeProfile, { unitsPerMm: 1 });
+
+/**
+ * Add profiles loaded from JSON; a profile replaces a registered one with the
+ * same id unless its version is older
+ */
+export const registerThresholdProfiles = (profiles: ThresholdProfile[]): void => {
+  const byId = new Map(registeredProfiles.map(p => [p.id, p]));
+  for (const profile of profiles) {
+    const existing = byId.get(profile.id);
+    if (!existing || profile.version >= existing.version) {
+      byId.set(profile.id, profile);
+    }
+  }
+  registeredProfiles = Array.from(byId.values());
+};
+
+export const getThresholdProfiles = (): ThresholdProfile[] => [...registeredProfiles];
+
+/**
+ * Select the profile for a child and device and make it the active one
+ */
+export const activateThresholdProfile = (
+  ageYears: number | null | undefined,
+  inputMethod: InputMethod,
+  scale: DeviceScale = {}
+): ThresholdProfile => {
+  activeProfile = selectThresholdProfile(registeredProfiles, ageYears, inputMethod);
+  activeInputMethod = inputMethod;
+  activeScale = scale;
+  activeThresholds = resolveThresholds(activeProfile, scale);
+  activePhysicalThresholds = resolveThresholds(activeProfile, { unitsPerMm: 1 });
+  return activeProfile;
+};
+
+/**
+ * Thresholds of the active profile, in canvas units
+ */
+export const getActiveThresholds = (): ThresholdSet => activeThresholds;
+
+/**
+ * Thresholds of the active profile in mm and mm/s, for metrics computed on
+ * calibrated touch data
+ */
+export const getActivePhysicalThresholds = (): ThresholdSet => activePhysicalThresholds;
+
+export const getActiveThresholdProfile = (): ThresholdProfile => activeProfile;
+
 /**
  * Threshold utility functions
  */
@@ -348,7 +583,7 @@ export const ThresholdUtils = {
    * Get risk level from score
    */
   getRiskLevel: (score: number, type: 'dyslexia' | 'dysgraphia'): string => {
-    const thresholds = type === 'dyslexia' ? Thresholds.dyslexia : Thresholds.dysgraphia;
+    const thresholds = type === 'dyslexia' ? activeThresholds.dyslexia : activeThresholds.dysgraphia;
     
     if (score < thresholds.lowRisk) return 'low';
     if (score < thresholds.mildRisk) return 'mild';
@@ -361,10 +596,10 @@ export const ThresholdUtils = {
    * Get accuracy rating
    */
   getAccuracyRating: (accuracy: number): string => {
-    if (accuracy >= Thresholds.spatial.excellentAccuracy) return 'excellent';
-    if (accuracy >= Thresholds.spatial.goodAccuracy) return 'good';
-    if (accuracy >= Thresholds.spatial.averageAccuracy) return 'average';
-    if (accuracy >= Thresholds.spatial.poorAccuracy) return 'poor';
+    if (accuracy >= activeThresholds.spatial.excellentAccuracy) return 'excellent';
+    if (accuracy >= activeThresholds.spatial.goodAccuracy) return 'good';
+    if (accuracy >= activeThresholds.spatial.averageAccuracy) return 'average';
+    if (accuracy >= activeThresholds.spatial.poorAccuracy) return 'poor';
     return 'very poor';
   },
 
@@ -372,8 +607,8 @@ export const ThresholdUtils = {
    * Get velocity rating
    */
   getVelocityRating: (velocity: number): string => {
-    if (velocity < Thresholds.velocity.minNormalVelocity) return 'too slow';
-    if (velocity > Thresholds.velocity.maxNormalVelocity) return 'too fast';
+    if (velocity < activeThresholds.velocity.minNormalVelocity) return 'too slow';
+    if (velocity > activeThresholds.velocity.maxNormalVelocity) return 'too fast';
     return 'normal';
   },
 
@@ -387,21 +622,19 @@ export const ThresholdUtils = {
     completeness: number
   ): boolean => {
     return (
-      touchPoints >= Thresholds.dataQuality.minTouchPoints &&
-      duration >= Thresholds.temporal.minSessionDuration &&
-      samplingRate >= Thresholds.dataQuality.minSamplingRate &&
-      completeness >= Thresholds.dataQuality.minCompleteness
+      touchPoints >= activeThresholds.dataQuality.minTouchPoints &&
+      duration >= activeThresholds.temporal.minSessionDuration &&
+      samplingRate >= activeThresholds.dataQuality.minSamplingRate &&
+      completeness >= activeThresholds.dataQuality.minCompleteness
     );
   },
 
   /**
-   * Get age-appropriate norms
+   * Get age-appropriate norms from the matching profile, velocity in canvas units
    */
-  getAgeNorms: (ageYears: number) => {
-    if (ageYears <= 6) return Thresholds.ageNorms.age5_6;
-    if (ageYears <= 8) return Thresholds.ageNorms.age7_8;
-    if (ageYears <= 10) return Thresholds.ageNorms.age9_10;
-    return Thresholds.ageNorms.age11_plus;
+  getAgeNorms: (ageYears: number, inputMethod: InputMethod = activeInputMethod) => {
+    const profile = selectThresholdProfile(registeredProfiles, ageYears, inputMethod);
+    return resolveThresholds(profile, activeScale).norms;
   },
 
   /**
@@ -414,8 +647,8 @@ export const ThresholdUtils = {
     const avgRisk = (riskScores.dyslexia + riskScores.dysgraphia + riskScores.reversal) / 3;
     
     return (
-      avgRisk >= Thresholds.clinicalAlerts.severitySevere ||
-      concernFlags.length >= Thresholds.clinicalAlerts.maxConcurrentRisks
+      avgRisk >= activeThresholds.clinicalAlerts.severitySevere ||
+      concernFlags.length >= activeThresholds.clinicalAlerts.maxConcurrentRisks
     );
   },
 };
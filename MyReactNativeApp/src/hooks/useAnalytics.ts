@@ -1,6 +1,19 @@
 import { useState, useCallback, useEffect } from 'react';
-import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import {
+  ComprehensiveTracingAnalytics,
+  LongitudinalProgressTracking,
+  LetterSpecificMastery,
+  AdaptiveLearningIndicators,
+} from '@models/AnalyticsTypes';
 import StorageService from '@services/StorageService';
+import {
+  buildTimeline,
+  toSessionOutcome,
+  fitLearningCurve,
+  calculateLongitudinalProgress,
+  calculateLetterMastery,
+  calculateAdaptiveLearning,
+} from '@services/analytics/LongitudinalAnalyzer';
 
 interface UseAnalyticsProps {
   userId: string;
@@ -16,6 +29,10 @@ interface AnalyticsSummary {
   overallRiskLevel: string;
   recentImprovement: number;
   sessionHistory: ComprehensiveTracingAnalytics[];
+  progress: LongitudinalProgressTracking;
+  mastery: LetterSpecificMastery;
+  adaptive: AdaptiveLearningIndicators;
+  learningCurve: { actual: number[]; fitted: number[] };
 }
 
 export const useAnalytics = ({ userId, letter }: UseAnalyticsProps) => {
@@ -66,54 +83,42 @@ export const useAnalytics = ({ userId, letter }: UseAnalyticsProps) => {
         overallRiskLevel: 'low',
         recentImprovement: 0,
         sessionHistory: [],
+        progress: calculateLongitudinalProgress([]),
+        mastery: calculateLetterMastery([]),
+        adaptive: calculateAdaptiveLearning([]),
+        learningCurve: { actual: [], fitted: [] },
       };
     }
 
+    // Unfinished attempts are stored for retry counts but excluded from performance figures
+    const completed = data.filter(
+      a => a.completion_persistence.letter_completion_status === 'completed'
+    );
+    const scored = completed.length > 0 ? completed : data;
+    const timeline = buildTimeline(completed.map(toSessionOutcome));
+    const mastery = calculateLetterMastery(timeline);
+    const { actual, fitted } = fitLearningCurve(timeline);
+
     // Calculate averages
-    const totalAccuracy = data.reduce(
+    const totalAccuracy = scored.reduce(
       (sum, a) => sum + a.spatial_accuracy_deviation.accuracy_score,
       0
     );
-    const averageAccuracy = totalAccuracy / data.length;
+    const averageAccuracy = totalAccuracy / scored.length;
 
-    const totalDuration = data.reduce(
+    const totalDuration = scored.reduce(
       (sum, a) => sum + a.time_based_performance.total_session_duration,
       0
     );
-    const averageDuration = totalDuration / data.length;
-
-    // Group by letter
-    const letterGroups: Record<string, ComprehensiveTracingAnalytics[]> = {};
-    data.forEach(a => {
-      if (!letterGroups[a.letter]) {
-        letterGroups[a.letter] = [];
-      }
-      letterGroups[a.letter].push(a);
-    });
-
-    // Determine mastered and problematic letters
-    const masteredLetters: string[] = [];
-    const problematicLetters: string[] = [];
-
-    Object.entries(letterGroups).forEach(([letter, sessions]) => {
-      const avgAccuracy =
-        sessions.reduce((sum, s) => sum + s.spatial_accuracy_deviation.accuracy_score, 0) /
-        sessions.length;
-
-      if (avgAccuracy >= 85 && sessions.length >= 3) {
-        masteredLetters.push(letter);
-      } else if (avgAccuracy < 60) {
-        problematicLetters.push(letter);
-      }
-    });
+    const averageDuration = totalDuration / scored.length;
 
     // Calculate overall risk level
     const avgDyslexiaRisk =
-      data.reduce((sum, a) => sum + a.automated_risk_assessment.dyslexia_risk_score, 0) /
-      data.length;
+      scored.reduce((sum, a) => sum + a.automated_risk_assessment.dyslexia_risk_score, 0) /
+      scored.length;
     const avgDysgraphiaRisk =
-      data.reduce((sum, a) => sum + a.automated_risk_assessment.dysgraphia_risk_score, 0) /
-      data.length;
+      scored.reduce((sum, a) => sum + a.automated_risk_assessment.dysgraphia_risk_score, 0) /
+      scored.length;
     const overallRisk = (avgDyslexiaRisk + avgDysgraphiaRisk) / 2;
 
     const overallRiskLevel =
@@ -122,35 +127,30 @@ export const useAnalytics = ({ userId, letter }: UseAnalyticsProps) => {
       overallRisk < 60 ? 'moderate' :
       overallRisk < 80 ? 'high' : 'severe';
 
-    // Calculate recent improvement (last 5 vs previous 5 sessions)
+    // Calculate recent improvement (last 5 vs previous 5 completed sessions)
     let recentImprovement = 0;
-    if (data.length >= 10) {
-      const sorted = [...data].sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      
-      const recent5 = sorted.slice(0, 5);
-      const previous5 = sorted.slice(5, 10);
-
-      const recentAvg =
-        recent5.reduce((sum, a) => sum + a.spatial_accuracy_deviation.accuracy_score, 0) / 5;
-      const previousAvg =
-        previous5.reduce((sum, a) => sum + a.spatial_accuracy_deviation.accuracy_score, 0) / 5;
+    if (timeline.length >= 10) {
+      const recentAvg = actual.slice(-5).reduce((sum, v) => sum + v, 0) / 5;
+      const previousAvg = actual.slice(-10, -5).reduce((sum, v) => sum + v, 0) / 5;
 
-      recentImprovement = ((recentAvg - previousAvg) / previousAvg) * 100;
+      recentImprovement = previousAvg > 0 ? ((recentAvg - previousAvg) / previousAvg) * 100 : 0;
     }
 
     return {
       totalSessions: data.length,
       averageAccuracy,
       averageDuration,
-      masteredLetters,
-      problematicLetters,
+      masteredLetters: mastery.mastered_letters_list,
+      problematicLetters: mastery.problematic_letters_list,
       overallRiskLevel,
       recentImprovement,
       sessionHistory: data.sort((a, b) => 
         new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       ),
+      progress: calculateLongitudinalProgress(timeline),
+      mastery,
+      adaptive: calculateAdaptiveLearning(timeline),
+      learningCurve: { actual, fitted },
     };
   };
 
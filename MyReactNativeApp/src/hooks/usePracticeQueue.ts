@@ -0,0 +1,45 @@
+import { useState, useCallback, useEffect } from 'react';
+import StorageService from '@services/StorageService';
+import { buildPracticeQueue, ScheduledLetter } from '@services/LetterScheduler';
+
+interface UsePracticeQueueProps {
+  userId: string;
+  childAgeYears?: number;
+  letters?: string[];
+}
+
+export const usePracticeQueue = ({ userId, childAgeYears, letters }: UsePracticeQueueProps) => {
+  const [loading, setLoading] = useState(true);
+  const [queue, setQueue] = useState<ScheduledLetter[]>([]);
+
+  /**
+   * Rebuild today's queue from the child's stored sessions
+   */
+  const loadQueue = useCallback(async () => {
+    if (!userId) {
+      setQueue([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const history = await StorageService.getAllAnalytics(userId);
+      setQueue(buildPracticeQueue(history, { childAgeYears, letters }));
+    } catch (error) {
+      console.error('Failed to build practice queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, childAgeYears, letters]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  return {
+    loading,
+    queue,
+    refresh: loadQueue,
+  };
+};
@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ChildProfile, ChildProfileInput, toDemographics } from '@models/ProfileTypes';
+import ProfileService from '@services/ProfileService';
+import StorageService from '@services/StorageService';
+
+export const useProfiles = () => {
+  const [loading, setLoading] = useState(true);
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<ChildProfile | null>(null);
+
+  /**
+   * Load profiles and the active selection from storage
+   */
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [all, active] = await Promise.all([
+        ProfileService.getProfiles(true),
+        ProfileService.getActiveProfile(),
+      ]);
+      setProfiles(all);
+      setActiveProfile(active);
+      // Sessions from before profiles existed belong to the first child set active
+      if (active) await StorageService.adoptLegacySessions(active.id);
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+    // Keep every screen in step when another one switches child
+    return ProfileService.subscribe(profile => {
+      setActiveProfile(profile);
+      ProfileService.getProfiles(true).then(setProfiles);
+    });
+  }, [loadProfiles]);
+
+  const createProfile = useCallback(async (input: ChildProfileInput) => {
+    const profile = await ProfileService.createProfile(input);
+    await loadProfiles();
+    return profile;
+  }, [loadProfiles]);
+
+  const updateProfile = useCallback(async (profileId: string, changes: Partial<ChildProfileInput>) => {
+    await ProfileService.updateProfile(profileId, changes);
+    await loadProfiles();
+  }, [loadProfiles]);
+
+  const switchProfile = useCallback(async (profileId: string) => {
+    await ProfileService.setActiveProfile(profileId);
+  }, []);
+
+  const archiveProfile = useCallback(async (profileId: string) => {
+    await ProfileService.archiveProfile(profileId);
+    await loadProfiles();
+  }, [loadProfiles]);
+
+  const restoreProfile = useCallback(async (profileId: string) => {
+    await ProfileService.restoreProfile(profileId);
+    await loadProfiles();
+  }, [loadProfiles]);
+
+  const activeDemographics = useMemo(
+    () => (activeProfile ? toDemographics(activeProfile) : null),
+    [activeProfile]
+  );
+
+  return {
+    loading,
+    profiles: profiles.filter(p => !p.archived_at),
+    archivedProfiles: profiles.filter(p => !!p.archived_at),
+    activeProfile,
+    activeDemographics,
+    createProfile,
+    updateProfile,
+    switchProfile,
+    archiveProfile,
+    restoreProfile,
+    refresh: loadProfiles,
+  };
+};
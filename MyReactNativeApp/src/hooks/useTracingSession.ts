@@ -1,97 +1,202 @@
-import { useState, useRef, useCallback } from 'react';
-import { LetterPath, Point, ValidationResult } from '@models/TracingData';
-import { SessionFeatureSummary } from '@models/TracingData';
-import { ShadowFeatureExtractor } from '@services/ShadowFeatureExtractor';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Dimensions } from 'react-native';
+import { LetterPath, Point, ValidationResult, IdealPathData } from '@models/TracingData';
+import {
+  ComprehensiveTracingAnalytics,
+  DeviceCalibration,
+  SessionContext,
+  UserDemographicsHistory,
+} from '@models/AnalyticsTypes';
+import { TracingAnalyticsEngine } from '@services/TracingAnalytics';
 import { StrokeValidator } from '@services/StrokeValidator';
 import StorageService from '@services/StorageService';
+import ThresholdProfileService from '@services/ThresholdProfileService';
+import CalibrationService from '@services/CalibrationService';
+import { getActiveThresholds } from '@constants/Thresholds';
+import { DEFAULT_SCRIPT_PACK } from '@constants/ScriptPacks';
+import { referenceCalibration, screenSizeInches } from '@utils/CalibrationUtils';
 import { generateIdealPath } from '@utils/GeometryUtils';
 
 interface UseTracingSessionProps {
   letterPath: LetterPath;
   userId: string;
-  userDemographics: any;
+  userDemographics: UserDemographicsHistory | null;
+  scriptPack?: string;
 }
 
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type ThresholdContext = Pick<SessionContext, 'input_method' | 'threshold_profile'>;
+
+/**
+ * Screen diagonal implied by the calibration, to a tenth of an inch
+ */
+const screenDiagonalInches = (calibration: DeviceCalibration): number => {
+  const { width, height } = Dimensions.get('screen');
+  return Math.round(screenSizeInches(width, height, calibration) * 10) / 10;
+};
+
+/**
+ * Describe the device and time of day the session runs in
+ */
+const buildSessionContext = (
+  sessionId: string,
+  letter: string,
+  thresholdContext: ThresholdContext,
+  calibration: DeviceCalibration,
+  scriptPack: string
+): Partial<SessionContext> => {
+  const now = new Date();
+  const hour = now.getHours();
+  const { width, height } = Dimensions.get('window');
+
+  return {
+    session_id: sessionId,
+    letter,
+    time_of_day: hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : hour < 21 ? 'evening' : 'night',
+    day_of_week: DAYS[now.getDay()],
+    device_type: Math.min(width, height) >= 600 ? 'tablet' : 'phone',
+    screen_size_inches: screenDiagonalInches(calibration),
+    screen_orientation: width > height ? 'landscape' : 'portrait',
+    script_pack: scriptPack,
+    ...thresholdContext,
+  };
+};
+
 export const useTracingSession = ({
   letterPath,
   userId,
   userDemographics,
+  scriptPack = DEFAULT_SCRIPT_PACK,
 }: UseTracingSessionProps) => {
   const [isActive, setIsActive] = useState(false);
   const [sessionStarted, setSessionStarted] = useState(false);
   const [activeStrokeIndex, setActiveStrokeIndex] = useState(0);
   const [feedback, setFeedback] = useState<ValidationResult>({ isValid: true, feedbackType: 'none' });
+  const [idealPath, setIdealPath] = useState<IdealPathData | null>(null);
+  const [offTrackTolerance, setOffTrackTolerance] = useState(
+    () => getActiveThresholds().spatial.offTrackTolerance
+  );
+
+  // The canvas builds its PanResponder once, so touch handlers read live state from refs
+  const engineRef = useRef<TracingAnalyticsEngine | null>(null);
+  const isActiveRef = useRef(false);
+  const sessionStartedRef = useRef(false);
+  const activeStrokeIndexRef = useRef(0);
+  const thresholdContextRef = useRef<ThresholdContext>({ input_method: 'finger' });
+  const calibrationRef = useRef<DeviceCalibration>(referenceCalibration());
+
+  // Thresholds follow the child's age band, the input method and the screen calibration
+  useEffect(() => {
+    let cancelled = false;
 
-  // Refs for engines
-  const shadowEngineRef = useRef<ShadowFeatureExtractor>(new ShadowFeatureExtractor());
-  const idealPathRef = useRef<any>(null); // Legacy prop, kept if needed by canvas but we use direct strokes now
+    const activate = async () => {
+      const calibration = await CalibrationService.getCalibration();
+      const profile = await ThresholdProfileService.activateFor(userDemographics?.chronological_age);
+      const { inputMethod } = await ThresholdProfileService.getSettings();
+      if (cancelled) return;
+
+      calibrationRef.current = calibration;
+      thresholdContextRef.current = {
+        input_method: inputMethod,
+        threshold_profile: `${profile.id}@${profile.version}`,
+      };
+      engineRef.current?.setCalibration(calibration);
+      engineRef.current?.updateSessionContext({
+        ...thresholdContextRef.current,
+        screen_size_inches: screenDiagonalInches(calibration),
+      });
+      setOffTrackTolerance(getActiveThresholds().spatial.offTrackTolerance);
+    };
+
+    activate();
+    return () => {
+      cancelled = true;
+    };
+  }, [userDemographics]);
 
   /**
    * Initialize session
    */
   const initializeSession = useCallback(() => {
-    shadowEngineRef.current.startSession();
-
-    // Generate ideal path for Canvas rendering/validation logic
-    const idealPath = generateIdealPath(letterPath.strokes, 30);
-    idealPathRef.current = idealPath;
+    const path = generateIdealPath(letterPath.strokes, 30);
+    const engine = new TracingAnalyticsEngine(path, letterPath);
+    engine.setCalibration(calibrationRef.current);
+    engine.startSession(
+      buildSessionContext(
+        `session_${Date.now()}`,
+        letterPath.letter,
+        thresholdContextRef.current,
+        calibrationRef.current,
+        scriptPack
+      )
+    );
+    engineRef.current = engine;
 
+    setIdealPath(path);
+    sessionStartedRef.current = true;
     setSessionStarted(true);
+    activeStrokeIndexRef.current = 0;
     setActiveStrokeIndex(0);
     setFeedback({ isValid: true, feedbackType: 'none' });
-  }, [letterPath]);
+  }, [letterPath, scriptPack]);
 
   /**
    * Start tracing
    */
   const startTracing = useCallback(() => {
-    if (!sessionStarted) {
+    if (!sessionStartedRef.current) {
       initializeSession();
     }
+    isActiveRef.current = true;
     setIsActive(true);
-  }, [sessionStarted, initializeSession]);
+  }, [initializeSession]);
 
   /**
    * Handle touch move
    */
   const handleTouchMove = useCallback((x: number, y: number, pressure: number) => {
-    if (!isActive) return;
+    if (!isActiveRef.current) return;
 
     const point: Point = { x, y };
 
-    // 1. Shadow Engine (Background)
-    shadowEngineRef.current.addPoint({
-      x, y,
+    // 1. Analytics engine (background)
+    engineRef.current?.addPoint({
+      x,
+      y,
       timestamp: Date.now(),
-      pressure
+      pressure,
     });
 
     // 2. Stroke Validator (UI Critical)
-    const currentStroke = letterPath.strokes[activeStrokeIndex];
+    const currentStroke = letterPath.strokes[activeStrokeIndexRef.current];
     if (currentStroke) {
       const validation = StrokeValidator.validatePoint(point, currentStroke);
       setFeedback(validation);
-
-      // If totally off track, maybe snap back? Implementation depends on Canvas
     }
-  }, [isActive, activeStrokeIndex, letterPath]);
+  }, [letterPath]);
+
+  /**
+   * Handle finger lift - closes the stroke in the analytics stream
+   */
+  const handleTouchEnd = useCallback(() => {
+    engineRef.current?.endStroke();
+  }, []);
 
   /**
    * Advance to next stroke
    */
   const advanceStroke = useCallback(() => {
-    // Notify shadow engine stroke is done
-    shadowEngineRef.current.endStroke(activeStrokeIndex);
-
-    setActiveStrokeIndex(prev => prev + 1);
+    activeStrokeIndexRef.current += 1;
+    setActiveStrokeIndex(activeStrokeIndexRef.current);
     setFeedback({ isValid: true, feedbackType: 'none' });
-  }, [activeStrokeIndex]);
+  }, []);
 
   /**
-   * Handle audio playback (Tracked as feature?)
+   * Handle audio playback
    */
   const handleAudioPlay = useCallback(() => {
-    // shadowEngineRef.current.logEvent('audio_play'); // If we had event logging
+    engineRef.current?.incrementAudioPlayback();
   }, []);
 
   /**
@@ -99,26 +204,20 @@ export const useTracingSession = ({
    */
   const endSession = useCallback(async (
     completionStatus: 'completed' | 'abandoned' | 'timed_out'
-  ) => {
+  ): Promise<ComprehensiveTracingAnalytics | null> => {
+    isActiveRef.current = false;
     setIsActive(false);
 
-    // Finalize last stroke if needed
-    if (completionStatus === 'completed') {
-      shadowEngineRef.current.endStroke(activeStrokeIndex);
-    }
+    const engine = engineRef.current;
+    if (!engine) return null;
 
-    const report = shadowEngineRef.current.generateSessionSummary(
-      `session_${Date.now()}`,
-      letterPath.letter,
-      {
-        inputType: 'finger',
-        screenSize: 'medium' // placeholder
-      }
-    );
+    engine.endStroke();
+    const history = await StorageService.getSessionOutcomes(userId);
+    const report = await engine.calculateAnalytics(userId, completionStatus, userDemographics, history);
 
-    // Save to storage
+    // Save to storage - unfinished attempts are kept so retries can be counted
     try {
-      if (completionStatus === 'completed') {
+      if (report.raw_touch_data.touch_coordinates_array.length > 0) {
         await StorageService.saveAnalytics(report);
       }
     } catch (error) {
@@ -126,14 +225,17 @@ export const useTracingSession = ({
     }
 
     return report;
-  }, [activeStrokeIndex, letterPath]);
+  }, [userId, userDemographics]);
 
   /**
    * Reset session
    */
   const resetSession = useCallback(() => {
+    isActiveRef.current = false;
     setIsActive(false);
+    sessionStartedRef.current = false;
     setSessionStarted(false);
+    activeStrokeIndexRef.current = 0;
     setActiveStrokeIndex(0);
     setFeedback({ isValid: true, feedbackType: 'none' });
   }, []);
@@ -141,12 +243,13 @@ export const useTracingSession = ({
   return {
     isActive,
     sessionStarted,
-    analytics: null, // Legacy prop compatibility
-    idealPath: idealPathRef.current, // Legacy prop compatibility
+    idealPath,
     activeStrokeIndex,
-    feedback, // NEW: Expose feedback state
+    feedback,
+    offTrackTolerance,
     startTracing,
     handleTouchMove,
+    handleTouchEnd,
     advanceStroke,
     handleAudioPlay,
     endSession,
@@ -154,4 +257,3 @@ export const useTracingSession = ({
     initializeSession,
   };
 };
-
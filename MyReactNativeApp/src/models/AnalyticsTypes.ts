@@ -1,3 +1,5 @@
+import { MLFeatures } from './TracingData';
+
 // ============================================================================
 // DOMAIN I: RAW KINEMATIC & SPATIAL METRICS
 // ============================================================================
@@ -125,7 +127,7 @@ export interface ErrorDetectionSelfCorrection {
     timestamp: number;
     error_type: string;
     was_corrected: boolean;
-    correction_time: number;
+    correction_time: number; // seconds spent doubling back
   }>;
 }
 
@@ -174,7 +176,7 @@ export interface StrokeQualityConsistency {
   stroke_width_variance: number;
   stroke_width_range: number;
   tremor_frequency: number; // Hz
-  tremor_amplitude: number; // pixels
+  tremor_amplitude: number; // mm
   tremor_power_spectral_density: number[];
   pressure_modulation_score: number;
   line_straightness_score: number; // For straight segments
@@ -256,7 +258,7 @@ export interface LetterSpecificMastery {
 
 export interface AdaptiveLearningIndicators {
   strategy_changes_detected: number;
-  error_pattern_evolution: string; // 'improving' | 'same' | 'declining'
+  error_pattern_evolution: string; // 'improving' | 'stable' | 'declining'
   self_regulation_score: number;
   learning_efficiency: number;
 }
@@ -272,6 +274,8 @@ export interface SessionContext {
   device_type: 'phone' | 'tablet';
   screen_size_inches: number;
   input_method: 'finger' | 'stylus' | 'apple_pencil';
+  threshold_profile?: string; // id@version of the threshold profile in use
+  script_pack?: string; // handwriting style the letter was traced in; print when absent
   screen_orientation: 'portrait' | 'landscape';
   ambient_noise_level?: number; // dB if available
   session_id: string;
@@ -402,13 +406,33 @@ export interface ClinicalAlertFlags {
 // COMPREHENSIVE SESSION ANALYTICS
 // ============================================================================
 
+/**
+ * Schema version stamped on every stored analytics record
+ */
+export const ANALYTICS_SCHEMA_VERSION = '2.1.0';
+
+/**
+ * How canvas coordinates were converted to millimetres for a session
+ */
+export interface DeviceCalibration {
+  method: 'ruler' | 'screen_size' | 'reference' | 'none'; // 'none': recorded before calibration existed
+  units_per_mm: number; // Canvas units (dp) per millimetre
+  metric_unit: 'mm' | 'px'; // Length unit of the kinematic, tremor and spatial metrics
+  screen_size_inches?: number; // Diagonal the calibration implies or was given
+  pixel_ratio?: number; // Physical pixels per dp on the recording device
+  calibrated_at?: string; // When the on-screen ruler was set
+}
+
 export interface ComprehensiveTracingAnalytics {
   // Meta
   session_id: string;
   user_id: string;
   letter: string;
   timestamp: string;
-  version: string; // Analytics engine version
+  version: string; // Record schema version (ANALYTICS_SCHEMA_VERSION)
+  unavailable_domains: AnalyticsDomainKey[]; // Domains holding neutral placeholders, not measurements
+  ml_recognition: MLFeatures | null; // Null when the recognition model could not run
+  calibration: DeviceCalibration; // Touch coordinates stay in canvas units; metrics use this
 
   // Domain I
   raw_touch_data: RawTouchData;
@@ -469,6 +493,21 @@ export interface ComprehensiveTracingAnalytics {
   clinical_alert_flags: ClinicalAlertFlags;
 }
 
+/**
+ * Every analytics domain of a session record (everything except the meta fields)
+ */
+export type AnalyticsDomainKey = Exclude<
+  keyof ComprehensiveTracingAnalytics,
+  | 'session_id'
+  | 'user_id'
+  | 'letter'
+  | 'timestamp'
+  | 'version'
+  | 'unavailable_domains'
+  | 'ml_recognition'
+  | 'calibration'
+>;
+
 // ============================================================================
 // EXPORT DATA FORMATS
 // ============================================================================
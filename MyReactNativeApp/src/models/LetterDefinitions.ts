@@ -131,7 +131,7 @@ export const LETTER_DEFINITIONS: Record<string, LetterMetadata> = {
         exampleWords: ['egg', 'elephant', 'eye'],
         frequency: 12.7,
         difficulty: 'easy',
-        confusionPairs: ['F'],
+        confusionPairs: ['F', '3'],
         strokeCount: 4,
         hasClosedShape: false,
         hasCurves: false,
@@ -657,6 +657,246 @@ export const LETTER_DEFINITIONS: Record<string, LetterMetadata> = {
         ],
         visualDescription: 'Horizontal lines at top and bottom connected by diagonal',
     },
+
+    // Numerals: same shape so they flow through tracing, analytics and scheduling
+    '0': {
+        letter: '0',
+        upperCase: '0',
+        lowerCase: '0',
+        phoneme: 'ˈzɪəroʊ', // "zero"
+        exampleWords: ['zero', 'none', 'nothing'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'easy',
+        confusionPairs: ['O'],
+        strokeCount: 1,
+        hasClosedShape: true,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'curved',
+        typicalMasteryAge: 4,
+        commonErrors: ['Confused with letter O', 'Not closed', 'Too round'],
+        teachingTips: [
+            'Start at the top',
+            'Go round to the left',
+            'Make it tall and thin',
+        ],
+        visualDescription: 'Tall closed oval',
+    },
+
+    '1': {
+        letter: '1',
+        upperCase: '1',
+        lowerCase: '1',
+        phoneme: 'wʌn', // "one"
+        exampleWords: ['one', 'sun', 'first'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'easy',
+        confusionPairs: ['7', 'I'],
+        strokeCount: 1,
+        hasClosedShape: false,
+        hasCurves: false,
+        hasDiagonals: true,
+        category: 'straight',
+        typicalMasteryAge: 4,
+        commonErrors: ['Missing flag', 'Confused with letter I', 'Written as 7'],
+        teachingTips: [
+            'Small flick up first',
+            'Then straight down',
+            'No line at the bottom',
+        ],
+        visualDescription: 'Short diagonal flag joining a vertical line',
+    },
+
+    '2': {
+        letter: '2',
+        upperCase: '2',
+        lowerCase: '2',
+        phoneme: 'tuː', // "two"
+        exampleWords: ['two', 'shoes', 'pair'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'medium',
+        confusionPairs: ['5', 'Z'],
+        strokeCount: 1,
+        hasClosedShape: false,
+        hasCurves: true,
+        hasDiagonals: true,
+        category: 'mixed',
+        typicalMasteryAge: 5,
+        commonErrors: ['Reversed like 5', 'Like Z', 'Flat top'],
+        teachingTips: [
+            'Curve over the top like a hook',
+            'Slide down to the left',
+            'Flat line along the bottom',
+        ],
+        visualDescription: 'Hooked curve sliding down into a flat base',
+    },
+
+    '3': {
+        letter: '3',
+        upperCase: '3',
+        lowerCase: '3',
+        phoneme: 'θriː', // "three"
+        exampleWords: ['three', 'tree', 'third'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'medium',
+        confusionPairs: ['E', '8'],
+        strokeCount: 1,
+        hasClosedShape: false,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'curved',
+        typicalMasteryAge: 5,
+        commonErrors: ['Reversed like E', 'Bumps different sizes', 'Closed like 8'],
+        teachingTips: [
+            'Round the top bump',
+            'Back to the middle',
+            'Round the bigger bottom bump',
+        ],
+        visualDescription: 'Two bumps opening to the left',
+    },
+
+    '4': {
+        letter: '4',
+        upperCase: '4',
+        lowerCase: '4',
+        phoneme: 'fɔː', // "four"
+        exampleWords: ['four', 'door', 'floor'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'medium',
+        confusionPairs: ['9'],
+        strokeCount: 2,
+        hasClosedShape: true,
+        hasCurves: false,
+        hasDiagonals: true,
+        category: 'straight',
+        typicalMasteryAge: 5,
+        commonErrors: ['Reversed', 'Closed top like 9', 'Crossbar missing'],
+        teachingTips: [
+            'Down and across first',
+            'Then the long line down',
+            'Cross it near the bottom',
+        ],
+        visualDescription: 'Diagonal and crossbar with a vertical line through them',
+    },
+
+    '5': {
+        letter: '5',
+        upperCase: '5',
+        lowerCase: '5',
+        phoneme: 'faɪv', // "five"
+        exampleWords: ['five', 'hive', 'fingers'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'medium',
+        confusionPairs: ['2', 'S'],
+        strokeCount: 2,
+        hasClosedShape: false,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'mixed',
+        typicalMasteryAge: 5,
+        commonErrors: ['Reversed like 2', 'Flag forgotten', 'Like S'],
+        teachingTips: [
+            'Short line down',
+            'Round the big belly',
+            'Add the flag last',
+        ],
+        visualDescription: 'Short vertical into a round belly, with a flag on top',
+    },
+
+    '6': {
+        letter: '6',
+        upperCase: '6',
+        lowerCase: '6',
+        phoneme: 'sɪks', // "six"
+        exampleWords: ['six', 'sticks', 'mix'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'hard',
+        confusionPairs: ['9'],
+        strokeCount: 1,
+        hasClosedShape: true,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'curved',
+        typicalMasteryAge: 6,
+        commonErrors: ['Upside down like 9', 'Loop not closed', 'Reversed'],
+        teachingTips: [
+            'Start near the top right',
+            'Curve down the left side',
+            'Curl up into a loop at the bottom',
+        ],
+        visualDescription: 'Curve down into a closed loop at the bottom',
+    },
+
+    '7': {
+        letter: '7',
+        upperCase: '7',
+        lowerCase: '7',
+        phoneme: 'ˈsɛvən', // "seven"
+        exampleWords: ['seven', 'heaven', 'week'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'easy',
+        confusionPairs: ['1'],
+        strokeCount: 1,
+        hasClosedShape: false,
+        hasCurves: false,
+        hasDiagonals: true,
+        category: 'straight',
+        typicalMasteryAge: 5,
+        commonErrors: ['Reversed', 'Like 1', 'Diagonal too steep'],
+        teachingTips: [
+            'Across the top first',
+            'Then slide down to the left',
+        ],
+        visualDescription: 'Horizontal top line joined to a long diagonal',
+    },
+
+    '8': {
+        letter: '8',
+        upperCase: '8',
+        lowerCase: '8',
+        phoneme: 'eɪt', // "eight"
+        exampleWords: ['eight', 'gate', 'octopus'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'hard',
+        confusionPairs: ['3'],
+        strokeCount: 1,
+        hasClosedShape: true,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'curved',
+        typicalMasteryAge: 6,
+        commonErrors: ['Two separate circles', 'Loops uneven', 'Open like 3'],
+        teachingTips: [
+            'Start at the top',
+            'Make an S',
+            'Go back up to where you started',
+        ],
+        visualDescription: 'Two stacked loops crossing in the middle',
+    },
+
+    '9': {
+        letter: '9',
+        upperCase: '9',
+        lowerCase: '9',
+        phoneme: 'naɪn', // "nine"
+        exampleWords: ['nine', 'line', 'shine'],
+        frequency: 0, // Not a letter; no English letter frequency
+        difficulty: 'hard',
+        confusionPairs: ['6', 'P'],
+        strokeCount: 2,
+        hasClosedShape: true,
+        hasCurves: true,
+        hasDiagonals: false,
+        category: 'mixed',
+        typicalMasteryAge: 6,
+        commonErrors: ['Upside down like 6', 'Reversed like P', 'Loop not closed'],
+        teachingTips: [
+            'Loop at the top first',
+            'Then the line straight down on the right',
+        ],
+        visualDescription: 'Closed loop at the top with a vertical line on the right',
+    },
+
 };
 
 /**
@@ -664,23 +904,29 @@ export const LETTER_DEFINITIONS: Record<string, LetterMetadata> = {
  */
 export const LetterCategories = {
     // By difficulty
-    easy: ['C', 'E', 'F', 'H', 'I', 'L', 'O', 'T', 'U', 'V', 'X', 'Y', 'Z'],
-    medium: ['A', 'B', 'D', 'G', 'J', 'K', 'N', 'P', 'Q', 'R', 'S'],
-    hard: ['M', 'W'],
+    easy: ['C', 'E', 'F', 'H', 'I', 'L', 'O', 'T', 'U', 'V', 'X', 'Y', 'Z', '0', '1', '7'],
+    medium: ['A', 'B', 'D', 'G', 'J', 'K', 'N', 'P', 'Q', 'R', 'S', '2', '3', '4', '5'],
+    hard: ['M', 'W', '6', '8', '9'],
 
     // By shape type
-    straight: ['E', 'F', 'H', 'I', 'K', 'L', 'T', 'V', 'W', 'X', 'Y', 'Z'],
-    curved: ['B', 'C', 'D', 'G', 'J', 'O', 'P', 'Q', 'S', 'U'],
-    mixed: ['A', 'M', 'N', 'R'],
+    straight: ['E', 'F', 'H', 'I', 'K', 'L', 'T', 'V', 'W', 'X', 'Y', 'Z', '1', '4', '7'],
+    curved: ['B', 'C', 'D', 'G', 'J', 'O', 'P', 'Q', 'S', 'U', '0', '3', '6', '8'],
+    mixed: ['A', 'M', 'N', 'R', '2', '5', '9'],
+
+    // By glyph type
+    numerals: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
 
     // By common confusions
     mirrorPairs: [
         ['B', 'D'],
         ['P', 'Q'],
+        ['2', '5'],
+        ['3', 'E'],
     ],
     rotationPairs: [
         ['N', 'U'],
         ['M', 'W'],
+        ['6', '9'],
     ],
     similarShapes: [
         ['C', 'G', 'O'],
@@ -0,0 +1,58 @@
+import { UserDemographicsHistory } from './AnalyticsTypes';
+import type { ScriptPackId } from '@constants/ScriptPacks';
+
+// ============================================================================
+// CHILD PROFILES
+// ============================================================================
+
+/**
+ * One child using the device. Sessions are stored under `id`.
+ */
+export interface ChildProfile {
+  id: string;
+  display_name: string;
+  birth_date: string; // ISO date; age is derived so it never goes stale
+  handedness: UserDemographicsHistory['handedness'];
+  prior_dyslexia_diagnosis: UserDemographicsHistory['prior_dyslexia_diagnosis'];
+  comorbid_conditions: string[];
+  intervention_history: string[];
+  native_language: string;
+  language_of_instruction: string;
+  script_pack?: ScriptPackId; // handwriting style taught; print when unset
+  created_at: string;
+  archived_at: string | null;
+}
+
+export type ChildProfileInput = Omit<ChildProfile, 'id' | 'created_at' | 'archived_at'>;
+
+/**
+ * Whole months between a birth date and a reference date
+ */
+export const ageInMonths = (birthDate: string, at: Date = new Date()): number => {
+  const birth = new Date(birthDate);
+  let months = (at.getFullYear() - birth.getFullYear()) * 12 + (at.getMonth() - birth.getMonth());
+  if (at.getDate() < birth.getDate()) months -= 1;
+  return Math.max(0, months);
+};
+
+/**
+ * Project a profile onto the demographics domain recorded with each session
+ */
+export const toDemographics = (
+  profile: ChildProfile,
+  at: Date = new Date()
+): UserDemographicsHistory => {
+  const months = ageInMonths(profile.birth_date, at);
+
+  return {
+    chronological_age: Math.floor(months / 12),
+    chronological_age_months: months,
+    handedness: profile.handedness,
+    prior_dyslexia_diagnosis: profile.prior_dyslexia_diagnosis,
+    comorbid_conditions: [...profile.comorbid_conditions],
+    intervention_history: [...profile.intervention_history],
+    native_language: profile.native_language,
+    language_of_instruction: profile.language_of_instruction,
+    user_id: profile.id,
+  };
+};
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { DeviceCalibration } from '@models/AnalyticsTypes';
+import CalibrationService from '@services/CalibrationService';
+import { CARD_WIDTH_MM, screenSizeInches } from '@utils/CalibrationUtils';
+import Colors from '@constants/Colors';
+
+const MAX_RULER_WIDTH = Dimensions.get('window').width - 40;
+
+// Coarse and fine ruler adjustments in dp
+const RULER_STEPS = [-5, -0.5, 0.5, 5];
+
+const METHOD_LABELS: Record<DeviceCalibration['method'], string> = {
+  ruler: 'On-screen ruler',
+  screen_size: 'Screen size',
+  reference: 'Not calibrated (nominal density)',
+  none: 'Not calibrated',
+};
+
+const CalibrationScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [calibration, setCalibration] = useState<DeviceCalibration | null>(null);
+  const [rulerWidth, setRulerWidth] = useState(0);
+  const [screenSize, setScreenSize] = useState('');
+
+  useEffect(() => {
+    CalibrationService.getCalibration().then(current => {
+      setCalibration(current);
+      setRulerWidth(Math.min(CARD_WIDTH_MM * current.units_per_mm, MAX_RULER_WIDTH));
+    });
+  }, []);
+
+  const adjustRuler = (step: number) =>
+    setRulerWidth(prev => Math.max(20, Math.min(prev + step, MAX_RULER_WIDTH)));
+
+  const save = async (calibrate: () => Promise<DeviceCalibration>) => {
+    try {
+      setCalibration(await calibrate());
+      Alert.alert('Calibrated', 'New sessions will be measured with this calibration.');
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      Alert.alert('Error', 'Failed to save the calibration.');
+    }
+  };
+
+  const handleScreenSize = () => {
+    const inches = parseFloat(screenSize);
+    if (!(inches > 0)) {
+      Alert.alert('Screen size', 'Enter the screen diagonal in inches, e.g. 10.2');
+      return;
+    }
+    save(() => CalibrationService.calibrateWithScreenSize(inches));
+  };
+
+  const handleReset = async () => {
+    try {
+      await CalibrationService.reset();
+      setCalibration(await CalibrationService.getCalibration());
+    } catch (error) {
+      console.error('Calibration reset failed:', error);
+      Alert.alert('Error', 'Failed to reset the calibration.');
+    }
+  };
+
+  const screen = Dimensions.get('screen');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Screen Calibration</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView style={styles.scrollView}>
+        {calibration && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Current</Text>
+            <Text style={styles.detailText}>{METHOD_LABELS[calibration.method]}</Text>
+            <Text style={styles.detailText}>
+              {calibration.units_per_mm.toFixed(2)} dp per mm · {' '}
+              {screenSizeInches(screen.width, screen.height, calibration).toFixed(1)}" screen
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Ruler</Text>
+          <Text style={styles.sectionSubtitle}>
+            Hold a bank or library card against the screen and stretch the bar to match its long edge.
+          </Text>
+          <View style={[styles.ruler, { width: rulerWidth }]} />
+          <View style={styles.stepRow}>
+            {RULER_STEPS.map(step => (
+              <TouchableOpacity key={step} style={styles.stepButton} onPress={() => adjustRuler(step)}>
+                <Text style={styles.stepText}>{step > 0 ? `+${step}` : step}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => save(() => CalibrationService.calibrateWithRuler(rulerWidth))}
+          >
+            <Text style={styles.primaryButtonText}>Save Ruler</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Screen Size</Text>
+          <Text style={styles.sectionSubtitle}>
+            Or enter the screen diagonal from the device specifications.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={screenSize}
+            onChangeText={setScreenSize}
+            placeholder="Diagonal in inches"
+            keyboardType="decimal-pad"
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleScreenSize}>
+            <Text style={styles.primaryButtonText}>Save Screen Size</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={styles.resetLink} onPress={handleReset}>
+          <Text style={styles.resetText}>Reset calibration</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  backButton: {
+    padding: 8,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    padding: 20,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    marginBottom: 4,
+  },
+  ruler: {
+    height: 24,
+    backgroundColor: Colors.primary,
+    borderRadius: 2,
+    marginBottom: 12,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  stepButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  stepText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 12,
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.surface,
+  },
+  resetLink: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  resetText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+});
+
+export default CalibrationScreen;
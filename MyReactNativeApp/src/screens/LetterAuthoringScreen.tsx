@@ -0,0 +1,519 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import Svg, { Circle, Path, Text as SvgText } from 'react-native-svg';
+import LetterAuthoringService from '@services/LetterAuthoringService';
+import { GlyphSet, strokeToSvgPath } from '@services/authoring/GlyphExport';
+import {
+  AuthoringStroke,
+  contoursToCandidateStrokes,
+  mergeWithNext,
+  moveStroke,
+  removeStroke,
+  renameStroke,
+  reverseStroke,
+  splitStroke,
+  toAuthoringStrokes,
+} from '@services/authoring/StrokeEditing';
+import { CANVAS_CONFIG } from '@constants/LetterPaths';
+import Colors from '@constants/Colors';
+
+const PREVIEW_SIZE = Dimensions.get('window').width - 40;
+
+// The letter area of the 600×800 canvas: the glyph sits on CANVAS_CONFIG.baseline
+const PREVIEW_VIEWBOX = `0 ${CANVAS_CONFIG.baseline - 450} ${CANVAS_CONFIG.width} ${CANVAS_CONFIG.width}`;
+
+const STROKE_COLORS = [
+  Colors.graphLine1,
+  Colors.graphLine2,
+  Colors.graphLine3,
+  Colors.graphLine4,
+  Colors.graphLine5,
+];
+
+const GLYPH_SETS: Array<{ value: GlyphSet; label: string }> = [
+  { value: 'uppercase', label: 'Capital' },
+  { value: 'lowercase', label: 'Lowercase' },
+  { value: 'digits', label: 'Numeral' },
+];
+
+type StrokeSource = 'centerline' | 'outline';
+
+const STROKE_SOURCES: Array<{ value: StrokeSource; label: string }> = [
+  { value: 'centerline', label: 'Centre Line' },
+  { value: 'outline', label: 'Outline' },
+];
+
+const glyphSetFor = (letter: string): GlyphSet => {
+  if (/[0-9]/.test(letter)) return 'digits';
+  return letter === letter.toLowerCase() && letter !== letter.toUpperCase() ? 'lowercase' : 'uppercase';
+};
+
+const fileName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * Debug-build tool: turn a font glyph into a traceable letter by choosing,
+ * ordering and orienting strokes, then export it as source
+ */
+const LetterAuthoringScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [fontFiles, setFontFiles] = useState<string[]>([]);
+  const [fontPath, setFontPath] = useState('');
+  const [fontName, setFontName] = useState<string | null>(null);
+  const [letter, setLetter] = useState('A');
+  const [glyphSet, setGlyphSet] = useState<GlyphSet>('uppercase');
+  const [strokeSource, setStrokeSource] = useState<StrokeSource>('centerline');
+  const [strokes, setStrokes] = useState<AuthoringStroke[]>([]);
+  const [history, setHistory] = useState<AuthoringStroke[][]>([]);
+  const [selected, setSelected] = useState(0);
+  const [splitAt, setSplitAt] = useState(1);
+
+  useEffect(() => {
+    LetterAuthoringService.listFontFiles().then(files => {
+      setFontFiles(files);
+      if (files.length > 0) setFontPath(files[0]);
+    });
+  }, []);
+
+  const apply = (next: AuthoringStroke[], nextSelected: number = selected) => {
+    setHistory(prev => [...prev, strokes]);
+    setStrokes(next);
+    setSelected(Math.max(0, Math.min(nextSelected, next.length - 1)));
+    setSplitAt(1);
+  };
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setStrokes(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  };
+
+  const handleLoadFont = async () => {
+    try {
+      setFontName(await LetterAuthoringService.loadFont(fontPath.trim()));
+      setStrokes([]);
+      setHistory([]);
+    } catch (error) {
+      console.error('Font load failed:', error);
+      Alert.alert('Error', 'Could not read a TTF/OTF font at that path.');
+    }
+  };
+
+  const handleLoadGlyph = () => {
+    try {
+      const candidates =
+        strokeSource === 'centerline'
+          ? toAuthoringStrokes(LetterAuthoringService.getCenterlineStrokes(letter))
+          : contoursToCandidateStrokes(LetterAuthoringService.getGlyphContours(letter));
+      setHistory([]);
+      setStrokes(candidates);
+      setSelected(0);
+      setSplitAt(1);
+    } catch (error) {
+      console.error('Glyph load failed:', error);
+      Alert.alert('Error', `The font has no outline for "${letter}".`);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const files = await LetterAuthoringService.exportGlyph(strokes, letter, glyphSet);
+      Alert.alert('Exported', `${fileName(files.letterPathsPath)}\n${fileName(files.geometryPath)}`, [
+        { text: 'Done' },
+        { text: 'Share', onPress: () => LetterAuthoringService.shareExport(files).catch(() => undefined) },
+      ]);
+    } catch (error) {
+      console.error('Glyph export failed:', error);
+      Alert.alert('Error', 'Failed to export the letter.');
+    }
+  };
+
+  const handleLetterChange = (text: string) => {
+    const next = text.slice(-1);
+    setLetter(next);
+    if (next) setGlyphSet(glyphSetFor(next));
+  };
+
+  const current = strokes[selected];
+  const splitPoint = current?.segments[splitAt]?.start;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Letter Authoring</Text>
+        <TouchableOpacity onPress={undo} style={styles.backButton} disabled={history.length === 0}>
+          <Text style={[styles.backButtonText, history.length === 0 && styles.disabledText]}>Undo</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.scrollView}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Font</Text>
+          <Text style={styles.sectionSubtitle}>
+            Copy a TTF or OTF file into the app's documents (or documents/fonts) folder.
+          </Text>
+          <View style={styles.chipRow}>
+            {fontFiles.map(path => (
+              <TouchableOpacity
+                key={path}
+                style={[styles.chip, path === fontPath && styles.chipActive]}
+                onPress={() => setFontPath(path)}
+              >
+                <Text style={[styles.chipText, path === fontPath && styles.chipTextActive]}>{fileName(path)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={fontPath}
+            onChangeText={setFontPath}
+            placeholder="Path to a .ttf or .otf file"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleLoadFont} disabled={!fontPath.trim()}>
+            <Text style={styles.primaryButtonText}>{fontName ? `Loaded: ${fontName}` : 'Load Font'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {fontName && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Glyph</Text>
+            <View style={styles.glyphRow}>
+              <TextInput style={styles.letterInput} value={letter} onChangeText={handleLetterChange} maxLength={2} />
+              {GLYPH_SETS.map(set => (
+                <TouchableOpacity
+                  key={set.value}
+                  style={[styles.chip, set.value === glyphSet && styles.chipActive]}
+                  onPress={() => setGlyphSet(set.value)}
+                >
+                  <Text style={[styles.chipText, set.value === glyphSet && styles.chipTextActive]}>{set.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.chipRow}>
+              {STROKE_SOURCES.map(source => (
+                <TouchableOpacity
+                  key={source.value}
+                  style={[styles.chip, source.value === strokeSource && styles.chipActive]}
+                  onPress={() => setStrokeSource(source.value)}
+                >
+                  <Text style={[styles.chipText, source.value === strokeSource && styles.chipTextActive]}>
+                    {source.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleLoadGlyph} disabled={!letter}>
+              <Text style={styles.primaryButtonText}>Break Into Strokes</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {strokes.length > 0 && (
+          <>
+            <View style={styles.section}>
+              <Svg width={PREVIEW_SIZE} height={PREVIEW_SIZE} viewBox={PREVIEW_VIEWBOX}>
+                {strokes.map((stroke, i) => (
+                  <Path
+                    key={`stroke-${i}`}
+                    d={strokeToSvgPath(stroke.segments)}
+                    stroke={STROKE_COLORS[i % STROKE_COLORS.length]}
+                    strokeWidth={i === selected ? 10 : 5}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    opacity={i === selected ? 1 : 0.6}
+                    fill="none"
+                  />
+                ))}
+                {strokes.map((stroke, i) => {
+                  const start = stroke.segments[0]?.start;
+                  if (!start) return null;
+                  return (
+                    <React.Fragment key={`start-${i}`}>
+                      <Circle cx={start.x} cy={start.y} r={14} fill={STROKE_COLORS[i % STROKE_COLORS.length]} />
+                      <SvgText x={start.x} y={start.y + 6} fontSize={16} fontWeight="bold" fill={Colors.surface} textAnchor="middle">
+                        {i + 1}
+                      </SvgText>
+                    </React.Fragment>
+                  );
+                })}
+                {splitPoint && (
+                  <Circle cx={splitPoint.x} cy={splitPoint.y} r={9} fill="none" stroke={Colors.error} strokeWidth={4} />
+                )}
+              </Svg>
+              <Text style={styles.sectionSubtitle}>
+                Numbered dots mark where each stroke starts. Delete outline sides a child would not draw.
+              </Text>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Strokes</Text>
+              {strokes.map((stroke, i) => (
+                <TouchableOpacity
+                  key={`row-${i}`}
+                  style={[styles.strokeRow, i === selected && styles.strokeRowSelected]}
+                  onPress={() => {
+                    setSelected(i);
+                    setSplitAt(1);
+                  }}
+                >
+                  <View style={[styles.strokeSwatch, { backgroundColor: STROKE_COLORS[i % STROKE_COLORS.length] }]} />
+                  <Text style={styles.strokeName} numberOfLines={1}>
+                    {i + 1}. {stroke.name} ({stroke.segments.length})
+                  </Text>
+                  <View style={styles.strokeActions}>
+                    <ActionButton label="↑" onPress={() => apply(moveStroke(strokes, i, -1), i - 1)} />
+                    <ActionButton label="↓" onPress={() => apply(moveStroke(strokes, i, 1), i + 1)} />
+                    <ActionButton label="⇄" onPress={() => apply(reverseStroke(strokes, i), i)} />
+                    <ActionButton label="✕" onPress={() => apply(removeStroke(strokes, i), i)} />
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {current && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Stroke {selected + 1}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={current.name}
+                  onChangeText={name => setStrokes(renameStroke(strokes, selected, { name }))}
+                  placeholder="Name, e.g. Left Stroke"
+                />
+                <TextInput
+                  style={styles.input}
+                  value={current.description}
+                  onChangeText={description => setStrokes(renameStroke(strokes, selected, { description }))}
+                  placeholder="Instruction, e.g. Start at the top and pull down"
+                />
+                <View style={styles.glyphRow}>
+                  <ActionButton
+                    label="‹"
+                    onPress={() => setSplitAt(prev => Math.max(1, prev - 1))}
+                  />
+                  <Text style={styles.detailText}>
+                    Split before segment {splitAt + 1} of {current.segments.length}
+                  </Text>
+                  <ActionButton
+                    label="›"
+                    onPress={() => setSplitAt(prev => Math.min(current.segments.length - 1, prev + 1))}
+                  />
+                </View>
+                <View style={styles.glyphRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => apply(splitStroke(strokes, selected, splitAt), selected)}
+                    disabled={current.segments.length < 2}
+                  >
+                    <Text style={styles.secondaryButtonText}>Split</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => apply(mergeWithNext(strokes, selected), selected)}
+                    disabled={selected >= strokes.length - 1}
+                  >
+                    <Text style={styles.secondaryButtonText}>Merge With Next</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleExport}>
+                <Text style={styles.primaryButtonText}>Export LETTER_PATHS + geometry.ts</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const ActionButton = ({ label, onPress }: { label: string; onPress: () => void }) => (
+  <TouchableOpacity style={styles.actionButton} onPress={onPress}>
+    <Text style={styles.actionText}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  backButton: {
+    padding: 8,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    padding: 20,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.surface,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 12,
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  glyphRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  letterInput: {
+    width: 56,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingVertical: 8,
+    fontSize: 22,
+    textAlign: 'center',
+    color: Colors.textPrimary,
+  },
+  strokeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  strokeRowSelected: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  strokeSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  strokeName: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  strokeActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  actionText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.surface,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
+
+export default LetterAuthoringScreen;
@@ -11,11 +11,13 @@ import {
   TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { ALPHABET, LETTER_PATHS } from '@constants/LetterPaths';
+import { GLYPHS, LETTER_PATHS } from '@constants/LetterPaths';
 import LETTER_DEFINITIONS, { LetterCategories } from '@models/LetterDefinitions';
 import Colors, { ColorUtils } from '@constants/Colors';
 import AudioService from '@services/AudioService';
 import { useAnalytics } from '@hooks/useAnalytics';
+import { useProfiles } from '@hooks/useProfiles';
+import { usePracticeQueue } from '@hooks/usePracticeQueue';
 import ProgressIndicator from '@components/ProgressIndicator';
 
 interface LetterItemProps {
@@ -102,7 +104,12 @@ const LetterSelectionScreen: React.FC = () => {
   const [filterDifficulty, setFilterDifficulty] = useState<'all' | 'easy' | 'medium' | 'hard'>('all');
   const [filterStatus, setFilterStatus] = useState<'all' | 'mastered' | 'learning' | 'new'>('all');
 
-  const { summary, loading: analyticsLoading } = useAnalytics({ userId: 'demo_user_001' });
+  const { activeProfile, activeDemographics } = useProfiles();
+  const { summary, loading: analyticsLoading } = useAnalytics({ userId: activeProfile?.id ?? '' });
+  const { queue } = usePracticeQueue({
+    userId: activeProfile?.id ?? '',
+    childAgeYears: activeDemographics?.chronological_age,
+  });
 
   useEffect(() => {
     // Preload audio files
@@ -134,7 +141,7 @@ const LetterSelectionScreen: React.FC = () => {
   };
 
   const getFilteredLetters = () => {
-    let filtered = [...ALPHABET];
+    let filtered = [...GLYPHS];
 
     // Search filter
     if (searchQuery) {
@@ -224,6 +231,26 @@ const LetterSelectionScreen: React.FC = () => {
         </View>
       )}
 
+      {queue.length > 0 && (
+        <View style={styles.queueCard}>
+          <Text style={styles.queueTitle}>Practice next</Text>
+          <View style={styles.queueRow}>
+            {queue.map(item => (
+              <TouchableOpacity
+                key={item.letter}
+                style={[
+                  styles.queueItem,
+                  { backgroundColor: item.reason === 'contrast' ? Colors.warning : Colors.primary },
+                ]}
+                onPress={() => handleLetterPress(item.letter)}
+              >
+                <Text style={styles.queueItemText}>{item.letter}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Search */}
       <View style={styles.searchContainer}>
         <TextInput
@@ -390,6 +417,33 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 20,
   },
+  queueCard: {
+    marginBottom: 20,
+  },
+  queueTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  queueRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  queueItem: {
+    width: 40,
+    height: 40,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  queueItemText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.surface,
+  },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
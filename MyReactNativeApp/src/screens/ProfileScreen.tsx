@@ -0,0 +1,571 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import Colors from '@constants/Colors';
+import { useProfiles } from '@hooks/useProfiles';
+import { ChildProfile, ChildProfileInput, ageInMonths } from '@models/ProfileTypes';
+import PersonalizationService from '@services/PersonalizationService';
+import ReportService from '@services/ReportService';
+import ThresholdProfileService from '@services/ThresholdProfileService';
+import { InputMethod } from '@constants/Thresholds';
+import { DEFAULT_SCRIPT_PACK, SCRIPT_PACKS, ScriptPackId, getScriptPack } from '@constants/ScriptPacks';
+
+interface ProfileScreenProps {
+  onDone?: () => void;
+  onCalibrate?: () => void;
+}
+
+const HANDEDNESS: ChildProfileInput['handedness'][] = ['right', 'left', 'ambidextrous'];
+const DIAGNOSIS: ChildProfileInput['prior_dyslexia_diagnosis'][] = ['none', 'suspected', 'confirmed'];
+const CONDITIONS = ['ADHD', 'dysgraphia', 'DCD', 'ASD'];
+const INPUT_METHODS: InputMethod[] = ['finger', 'stylus'];
+const SCRIPT_PACK_OPTIONS = Object.values(SCRIPT_PACKS);
+
+const EMPTY_FORM: ChildProfileInput = {
+  display_name: '',
+  birth_date: '',
+  handedness: 'right',
+  prior_dyslexia_diagnosis: 'none',
+  comorbid_conditions: [],
+  intervention_history: [],
+  native_language: 'English',
+  language_of_instruction: 'English',
+  script_pack: DEFAULT_SCRIPT_PACK,
+};
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+const Chip: React.FC<{ label: string; selected: boolean; onPress: () => void }> = ({
+  label,
+  selected,
+  onPress,
+}) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+    activeOpacity={0.7}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ onDone, onCalibrate }) => {
+  const {
+    loading,
+    profiles,
+    archivedProfiles,
+    activeProfile,
+    createProfile,
+    updateProfile,
+    switchProfile,
+    archiveProfile,
+    restoreProfile,
+  } = useProfiles();
+
+  const [form, setForm] = useState<ChildProfileInput>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [inputMethod, setInputMethod] = useState<InputMethod>('finger');
+
+  useEffect(() => {
+    ThresholdProfileService.getSettings().then(settings => setInputMethod(settings.inputMethod));
+  }, []);
+
+  const update = (changes: Partial<ChildProfileInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const toggleCondition = (condition: string) =>
+    update({
+      comorbid_conditions: form.comorbid_conditions.includes(condition)
+        ? form.comorbid_conditions.filter(c => c !== condition)
+        : [...form.comorbid_conditions, condition],
+    });
+
+  const handleCreate = async () => {
+    if (!form.display_name.trim()) {
+      Alert.alert('Name needed', "Enter the child's name.");
+      return;
+    }
+    if (!isValidDate(form.birth_date)) {
+      Alert.alert('Birth date needed', 'Use the format YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      const profile = await createProfile({ ...form, display_name: form.display_name.trim() });
+      await switchProfile(profile.id);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to save profile:', error);
+      Alert.alert('Error', 'Failed to save profile.');
+    }
+  };
+
+  const handleArchive = (profile: ChildProfile) => {
+    Alert.alert(
+      'Archive profile?',
+      `${profile.display_name} will be hidden. Their sessions are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Archive', style: 'destructive', onPress: () => archiveProfile(profile.id) },
+      ]
+    );
+  };
+
+  const handleResetPersonalization = (profile: ChildProfile) => {
+    Alert.alert(
+      'Reset handwriting recognition?',
+      `Letters confirmed for ${profile.display_name} will be forgotten. Sessions are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () =>
+            PersonalizationService.reset(profile.id).catch(() =>
+              Alert.alert('Error', 'Failed to reset handwriting recognition.')
+            ),
+        },
+      ]
+    );
+  };
+
+  const exportCohort = async (anonymize: boolean) => {
+    try {
+      const result = await ReportService.exportCohort({
+        anonymize,
+        // Fresh salt per export so pseudonyms can't be matched across exports
+        salt: anonymize ? Math.random().toString(36).slice(2) : undefined,
+      });
+      Alert.alert(
+        'Export Successful',
+        `${result.sessionCount} sessions from ${result.childCount} children exported to:\n` +
+          `${result.csvPath}\n${result.dictionaryPath}`
+      );
+    } catch (error) {
+      console.error('Research export failed:', error);
+      Alert.alert('Error', 'Failed to export research data.');
+    }
+  };
+
+  const handleResearchExport = () => {
+    Alert.alert(
+      'Export research data?',
+      'Every session of every child is written to a CSV with a data dictionary.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'With child IDs', onPress: () => exportCohort(false) },
+        { text: 'Anonymised', onPress: () => exportCohort(true) },
+      ]
+    );
+  };
+
+  const handleInputMethod = async (method: InputMethod) => {
+    setInputMethod(method);
+    try {
+      await ThresholdProfileService.updateSettings({ inputMethod: method });
+    } catch (error) {
+      console.error('Input method update failed:', error);
+      Alert.alert('Error', 'Failed to save the input method.');
+    }
+  };
+
+  const handleScriptPack = async (profile: ChildProfile, scriptPack: ScriptPackId) => {
+    try {
+      await updateProfile(profile.id, { script_pack: scriptPack });
+    } catch (error) {
+      console.error('Script pack update failed:', error);
+      Alert.alert('Error', 'Failed to save the handwriting style.');
+    }
+  };
+
+  const renderProfile = (profile: ChildProfile) => {
+    const isActive = activeProfile?.id === profile.id;
+    const years = Math.floor(ageInMonths(profile.birth_date) / 12);
+
+    return (
+      <View key={profile.id} style={[styles.profileCard, isActive && styles.profileCardActive]}>
+        <TouchableOpacity style={styles.profileInfo} onPress={() => switchProfile(profile.id)}>
+          <Text style={styles.profileName}>{profile.display_name}</Text>
+          <Text style={styles.profileMeta}>
+            {years} yrs · {profile.handedness}-handed
+            {profile.prior_dyslexia_diagnosis !== 'none' ? ` · ${profile.prior_dyslexia_diagnosis}` : ''}
+          </Text>
+          {isActive && (
+            <View style={styles.chipRow}>
+              {SCRIPT_PACK_OPTIONS.map(pack => (
+                <Chip
+                  key={pack.id}
+                  label={pack.name}
+                  selected={getScriptPack(profile.script_pack).id === pack.id}
+                  onPress={() => handleScriptPack(profile, pack.id)}
+                />
+              ))}
+            </View>
+          )}
+          {isActive && (
+            <Text style={styles.profileMeta}>{getScriptPack(profile.script_pack).description}</Text>
+          )}
+          <TouchableOpacity onPress={() => handleResetPersonalization(profile)}>
+            <Text style={styles.resetText}>Reset handwriting recognition</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+        {isActive ? (
+          <Text style={styles.activeBadge}>Active</Text>
+        ) : (
+          <TouchableOpacity onPress={() => handleArchive(profile)}>
+            <Text style={styles.archiveText}>Archive</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Children</Text>
+        {onDone && (
+          <TouchableOpacity onPress={onDone} disabled={!activeProfile}>
+            <Text style={[styles.doneText, !activeProfile && styles.disabledText]}>Done</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {profiles.length === 0 && !showForm && (
+          <Text style={styles.emptyText}>Add a child to start recording their practice.</Text>
+        )}
+
+        {profiles.map(renderProfile)}
+
+        {showForm ? (
+          <View style={styles.form}>
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={form.display_name}
+              onChangeText={display_name => update({ display_name })}
+              placeholder="First name"
+            />
+
+            <Text style={styles.label}>Birth date</Text>
+            <TextInput
+              style={styles.input}
+              value={form.birth_date}
+              onChangeText={birth_date => update({ birth_date })}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+            />
+
+            <Text style={styles.label}>Handedness</Text>
+            <View style={styles.chipRow}>
+              {HANDEDNESS.map(h => (
+                <Chip key={h} label={h} selected={form.handedness === h} onPress={() => update({ handedness: h })} />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Dyslexia diagnosis</Text>
+            <View style={styles.chipRow}>
+              {DIAGNOSIS.map(d => (
+                <Chip
+                  key={d}
+                  label={d}
+                  selected={form.prior_dyslexia_diagnosis === d}
+                  onPress={() => update({ prior_dyslexia_diagnosis: d })}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Other conditions</Text>
+            <View style={styles.chipRow}>
+              {CONDITIONS.map(c => (
+                <Chip
+                  key={c}
+                  label={c}
+                  selected={form.comorbid_conditions.includes(c)}
+                  onPress={() => toggleCondition(c)}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Handwriting style</Text>
+            <View style={styles.chipRow}>
+              {SCRIPT_PACK_OPTIONS.map(pack => (
+                <Chip
+                  key={pack.id}
+                  label={pack.name}
+                  selected={form.script_pack === pack.id}
+                  onPress={() => update({ script_pack: pack.id })}
+                />
+              ))}
+            </View>
+            <Text style={styles.profileMeta}>{getScriptPack(form.script_pack).description}</Text>
+
+            <Text style={styles.label}>Native language</Text>
+            <TextInput
+              style={styles.input}
+              value={form.native_language}
+              onChangeText={native_language => update({ native_language })}
+            />
+
+            <Text style={styles.label}>Language of instruction</Text>
+            <TextInput
+              style={styles.input}
+              value={form.language_of_instruction}
+              onChangeText={language_of_instruction => update({ language_of_instruction })}
+            />
+
+            <View style={styles.formActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowForm(false)}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+                <Text style={styles.primaryButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => setShowForm(true)}>
+            <Text style={styles.primaryButtonText}>+ Add child</Text>
+          </TouchableOpacity>
+        )}
+
+        {archivedProfiles.length > 0 && (
+          <View style={styles.archivedSection}>
+            <Text style={styles.sectionTitle}>Archived</Text>
+            {archivedProfiles.map(profile => (
+              <View key={profile.id} style={styles.profileCard}>
+                <Text style={[styles.profileName, styles.disabledText]}>{profile.display_name}</Text>
+                <TouchableOpacity onPress={() => restoreProfile(profile.id)}>
+                  <Text style={styles.restoreText}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.deviceSection}>
+          <Text style={styles.label}>Writing on this device with</Text>
+          <View style={styles.chipRow}>
+            {INPUT_METHODS.map(method => (
+              <Chip
+                key={method}
+                label={method}
+                selected={inputMethod === method}
+                onPress={() => handleInputMethod(method)}
+              />
+            ))}
+          </View>
+          {onCalibrate && (
+            <TouchableOpacity onPress={onCalibrate}>
+              <Text style={styles.restoreText}>Calibrate screen size</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {profiles.length > 0 && (
+          <TouchableOpacity style={styles.exportLink} onPress={handleResearchExport}>
+            <Text style={styles.resetText}>Export research data (all children)</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  profileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 2,
+    borderColor: Colors.border,
+  },
+  profileCardActive: {
+    borderColor: Colors.primary,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  profileMeta: {
+    marginTop: 4,
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  activeBadge: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  archiveText: {
+    fontSize: 14,
+    color: Colors.error,
+  },
+  deviceSection: {
+    marginTop: 24,
+  },
+  exportLink: {
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  resetText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  restoreText: {
+    fontSize: 14,
+    color: Colors.primary,
+  },
+  form: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+  },
+  label: {
+    marginTop: 12,
+    marginBottom: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: Colors.surface,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  primaryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.surface,
+  },
+  secondaryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  archivedSection: {
+    marginTop: 32,
+  },
+  sectionTitle: {
+    marginBottom: 12,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+});
+
+export default ProfileScreen;
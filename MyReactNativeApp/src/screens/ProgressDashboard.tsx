@@ -11,7 +11,9 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAnalytics } from '@hooks/useAnalytics';
+import { useProfiles } from '@hooks/useProfiles';
 import Colors, { ColorUtils } from '@constants/Colors';
+import { GLYPHS } from '@constants/LetterPaths';
 import ProgressIndicator from '@components/ProgressIndicator';
 import VisualizationService from '@services/VisualizationService';
 import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
@@ -54,8 +56,9 @@ const MetricCard: React.FC<MetricCardProps> = ({
 
 const ProgressDashboard: React.FC = () => {
   const navigation = useNavigation();
-  const { summary, analytics, loading, getPerformanceTrend } = useAnalytics({
-    userId: 'demo_user_001',
+  const { activeProfile } = useProfiles();
+  const { summary, analytics, loading } = useAnalytics({
+    userId: activeProfile?.id ?? '',
   });
 
   const [selectedView, setSelectedView] = useState<'overview' | 'details' | 'risk'>('overview');
@@ -91,7 +94,9 @@ const ProgressDashboard: React.FC = () => {
   }
 
   const renderOverview = () => {
-    const masteryProgress = summary.masteredLetters.length / 26;
+    const masteryProgress = summary.mastery.mastery_percentage / 100;
+    const { progress, learningCurve } = summary;
+    const curveWindow = Math.max(0, learningCurve.actual.length - 20);
 
     return (
       <View>
@@ -108,7 +113,7 @@ const ProgressDashboard: React.FC = () => {
             />
             <View style={styles.progressDetails}>
               <Text style={styles.progressText}>
-                {summary.masteredLetters.length} / 26 Letters Mastered
+                {summary.masteredLetters.length} / {GLYPHS.length} Letters & Numbers Mastered
               </Text>
               <Text style={styles.progressSubtext}>
                 {summary.problematicLetters.length} letters need more practice
@@ -144,18 +149,29 @@ const ProgressDashboard: React.FC = () => {
           </View>
         </View>
 
-        {/* Performance Trend */}
+        {/* Learning Curve */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Accuracy Trend</Text>
-          {analytics.length >= 2 && (
+          <Text style={styles.sectionTitle}>Learning Curve</Text>
+          <Text style={styles.sectionSubtitle}>
+            {progress.improvement_rate_per_session >= 0 ? '+' : ''}
+            {(progress.improvement_rate_per_session * 100).toFixed(1)}% per session
+            {progress.plateau_detection_flag ? ' · plateau detected' : ''}
+          </Text>
+          {learningCurve.actual.length >= 2 && (
             <LineChart
               data={{
-                labels: analytics.slice(-10).map((_, i) => `S${i + 1}`),
+                labels: learningCurve.actual.slice(curveWindow).map((_, i) => `S${curveWindow + i + 1}`),
                 datasets: [
                   {
-                    data: getPerformanceTrend('accuracy').slice(-10),
+                    data: learningCurve.actual.slice(curveWindow),
+                  },
+                  {
+                    data: learningCurve.fitted.slice(curveWindow),
+                    color: (opacity = 1) => `rgba(255, 152, 0, ${opacity})`,
+                    withDots: false,
                   },
                 ],
+                legend: ['Accuracy', 'Trend'],
               }}
               width={SCREEN_WIDTH - 40}
               height={220}
@@ -175,12 +191,39 @@ const ProgressDashboard: React.FC = () => {
                   stroke: Colors.primary,
                 },
               }}
-              bezier
               style={styles.chart}
             />
           )}
         </View>
 
+        {/* Retention */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Retention</Text>
+          <View style={styles.metricsGrid}>
+            <MetricCard
+              title="After 1 Day"
+              value={progress.retention_score_24hr > 0 ? `${(progress.retention_score_24hr * 100).toFixed(0)}%` : '—'}
+              color={ColorUtils.getScoreColor(progress.retention_score_24hr * 100)}
+            />
+            <MetricCard
+              title="After 1 Week"
+              value={progress.retention_score_1week > 0 ? `${(progress.retention_score_1week * 100).toFixed(0)}%` : '—'}
+              color={ColorUtils.getScoreColor(progress.retention_score_1week * 100)}
+            />
+            <MetricCard
+              title="Error Trend"
+              value={summary.adaptive.error_pattern_evolution}
+              color={Colors.info}
+            />
+            <MetricCard
+              title="Gain / Minute"
+              value={summary.adaptive.learning_efficiency.toFixed(1)}
+              subtitle="accuracy points"
+              color={Colors.accent}
+            />
+          </View>
+        </View>
+
         {/* Letter Mastery */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Letter Mastery</Text>
@@ -196,7 +239,7 @@ const ProgressDashboard: React.FC = () => {
                 },
                 {
                   name: 'Learning',
-                  count: 26 - summary.masteredLetters.length - summary.problematicLetters.length,
+                  count: GLYPHS.length - summary.masteredLetters.length - summary.problematicLetters.length,
                   color: Colors.warning,
                   legendFontColor: Colors.textPrimary,
                   legendFontSize: 14,
@@ -263,8 +306,46 @@ const ProgressDashboard: React.FC = () => {
   const renderDetails = () => {
     return (
       <View>
+        {summary.mastery.mastery_timeline.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Mastery Timeline</Text>
+            {summary.mastery.mastery_timeline.map(entry => (
+              <View key={entry.letter} style={styles.timelineRow}>
+                <Text style={styles.timelineLetter}>{entry.letter}</Text>
+                <Text style={styles.timelineText}>
+                  Mastered {new Date(entry.date).toLocaleDateString()} at {entry.score.toFixed(0)}%
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {summary.mastery.forgetting_curve_data.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Forgetting Curve</Text>
+            <Text style={styles.sectionSubtitle}>Days until accuracy halves without practice</Text>
+            {[...summary.mastery.forgetting_curve_data]
+              .sort((a, b) => b.decay_rate - a.decay_rate)
+              .map(entry => (
+                <View key={entry.letter} style={styles.timelineRow}>
+                  <Text style={styles.timelineLetter}>{entry.letter}</Text>
+                  <Text style={styles.timelineText}>
+                    {entry.decay_rate > 0 ? `${(Math.LN2 / entry.decay_rate).toFixed(0)} days` : 'No decay seen'}
+                  </Text>
+                </View>
+              ))}
+          </View>
+        )}
+
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Session History</Text>
+          <View style={styles.sectionHeaderRow}>
+            <Text style={styles.sectionTitle}>Session History</Text>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('SessionComparison' as never)}
+            >
+              <Text style={styles.sectionLink}>Compare sessions</Text>
+            </TouchableOpacity>
+          </View>
           {summary.sessionHistory.slice(0, 10).map((session, index) => (
             <TouchableOpacity
               key={session.session_id}
@@ -553,6 +634,16 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     marginBottom: 4,
   },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   sectionSubtitle: {
     fontSize: 14,
     color: Colors.textSecondary,
@@ -613,6 +704,23 @@ const styles = StyleSheet.create({
     marginVertical: 8,
     borderRadius: 16,
   },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  timelineLetter: {
+    width: 40,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  timelineText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
   lettersList: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,425 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { useAnalytics } from '@hooks/useAnalytics';
+import { useProfiles } from '@hooks/useProfiles';
+import StorageService from '@services/StorageService';
+import {
+  compareSessions,
+  SignificanceHint,
+} from '@services/analytics/SessionComparison';
+import Colors from '@constants/Colors';
+
+const OVERLAY_SIZE = Dimensions.get('window').width - 40;
+
+// One colour per overlaid session, oldest first
+const SESSION_COLORS = [
+  Colors.graphLine1,
+  Colors.graphLine2,
+  Colors.graphLine3,
+  Colors.graphLine4,
+  Colors.graphLine5,
+];
+
+const SIGNIFICANCE_LABELS: Record<SignificanceHint, string> = {
+  significant: 'Beyond normal variation',
+  possible: 'Possibly real',
+  within_variation: 'Within normal variation',
+  insufficient_data: 'Too few sessions to judge',
+};
+
+interface RouteParams {
+  letter?: string;
+}
+
+const toPath = (points: Array<{ x: number; y: number }>): string =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+const SessionComparisonScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const params = (route.params ?? {}) as RouteParams;
+  const { activeProfile } = useProfiles();
+  const { analytics, loading } = useAnalytics({ userId: activeProfile?.id ?? '' });
+
+  const letters = useMemo(
+    () => Array.from(new Set(analytics.map(a => a.letter))).sort(),
+    [analytics]
+  );
+  const [pickedLetter, setPickedLetter] = useState<string | undefined>(params.letter);
+  const letter = pickedLetter ?? letters[0];
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // The child's full history for the letter, oldest first
+  const history = useMemo(
+    () =>
+      analytics
+        .filter(a => a.letter === letter)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+    [analytics, letter]
+  );
+
+  const comparison = useMemo(() => {
+    const chosen = history.filter(a => selectedIds.includes(a.session_id));
+    return chosen.length >= 2 ? compareSessions(chosen, history) : null;
+  }, [history, selectedIds]);
+
+  const selectLetter = (next: string) => {
+    setPickedLetter(next);
+    setSelectedIds([]);
+  };
+
+  const toggleSession = (sessionId: string) => {
+    setSelectedIds(ids => {
+      if (ids.includes(sessionId)) return ids.filter(id => id !== sessionId);
+      if (ids.length >= SESSION_COLORS.length) return ids;
+      return [...ids, sessionId];
+    });
+  };
+
+  const handleExport = async () => {
+    if (!comparison) return;
+
+    try {
+      const csvPath = await StorageService.exportComparisonToCSV(comparison);
+      await Share.share({
+        title: 'Session Comparison',
+        message: `Session comparison for letter ${comparison.letter}`,
+        url: `file://${csvPath}`,
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      Alert.alert('Error', 'Failed to export comparison');
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading sessions...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare Sessions</Text>
+        <TouchableOpacity
+          onPress={handleExport}
+          style={styles.exportButton}
+          disabled={!comparison}
+        >
+          <Text style={[styles.exportButtonText, !comparison && styles.disabledText]}>Export</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.scrollView}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Letter</Text>
+          <View style={styles.chipRow}>
+            {letters.map(l => (
+              <TouchableOpacity
+                key={l}
+                style={[styles.chip, l === letter && styles.chipSelected]}
+                onPress={() => selectLetter(l)}
+              >
+                <Text style={[styles.chipText, l === letter && styles.chipTextSelected]}>{l}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sessions</Text>
+          <Text style={styles.sectionSubtitle}>
+            Pick 2 to {SESSION_COLORS.length} sessions to overlay
+          </Text>
+          {history.map(session => {
+            const colorIndex = comparison
+              ? comparison.sessions.findIndex(s => s.session_id === session.session_id)
+              : -1;
+            const selected = selectedIds.includes(session.session_id);
+            return (
+              <TouchableOpacity
+                key={session.session_id}
+                style={[styles.sessionRow, selected && styles.sessionRowSelected]}
+                onPress={() => toggleSession(session.session_id)}
+              >
+                <View
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: colorIndex >= 0 ? SESSION_COLORS[colorIndex] : Colors.borderLight },
+                  ]}
+                />
+                <Text style={styles.sessionDate}>{formatDate(session.timestamp)}</Text>
+                <Text style={styles.sessionAccuracy}>
+                  {session.spatial_accuracy_deviation.accuracy_score.toFixed(0)}%
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {history.length < 2 && (
+            <Text style={styles.emptyText}>Trace this letter at least twice to compare sessions.</Text>
+          )}
+        </View>
+
+        {comparison && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Traces</Text>
+              {/* Every trace is scaled into the same unit letter box */}
+              <Svg
+                width={OVERLAY_SIZE}
+                height={OVERLAY_SIZE}
+                viewBox="-0.1 -0.1 1.2 1.2"
+                style={styles.overlay}
+              >
+                <Rect x={0} y={0} width={1} height={1} fill="none" stroke={Colors.border} strokeWidth={0.005} />
+                {comparison.traces.map((strokes, s) =>
+                  strokes.map((stroke, i) => (
+                    <Path
+                      key={`trace-${s}-${i}`}
+                      d={toPath(stroke)}
+                      stroke={SESSION_COLORS[s]}
+                      strokeWidth={0.015}
+                      strokeOpacity={0.8}
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      fill="none"
+                    />
+                  ))
+                )}
+              </Svg>
+              <View style={styles.legend}>
+                {comparison.sessions.map((session, s) => (
+                  <View key={session.session_id} style={styles.legendItem}>
+                    <View style={[styles.swatch, { backgroundColor: SESSION_COLORS[s] }]} />
+                    <Text style={styles.legendText}>{formatDate(session.timestamp)}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Changes</Text>
+              <Text style={styles.sectionSubtitle}>
+                {formatDate(comparison.sessions[0].timestamp)} →{' '}
+                {formatDate(comparison.sessions[comparison.sessions.length - 1].timestamp)}, judged
+                against {comparison.baselineSessionCount} sessions of this letter
+              </Text>
+              {comparison.metrics.map(metric => (
+                <View key={metric.key} style={styles.metricRow}>
+                  <View style={styles.metricInfo}>
+                    <Text style={styles.metricLabel}>{metric.label}</Text>
+                    <Text style={styles.metricHint}>{SIGNIFICANCE_LABELS[metric.significance]}</Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.metricDelta,
+                      metric.delta !== 0 && {
+                        color: metric.improved ? Colors.success : Colors.error,
+                      },
+                    ]}
+                  >
+                    {metric.delta >= 0 ? '+' : ''}
+                    {metric.delta.toFixed(metric.key === 'jerk' ? 3 : 1)}
+                    {metric.unit}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  exportButton: {
+    padding: 8,
+  },
+  exportButtonText: {
+    fontSize: 16,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    padding: 20,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: Colors.textOnPrimary,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  sessionRowSelected: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  sessionDate: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  sessionAccuracy: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  overlay: {
+    backgroundColor: Colors.tracingBackground,
+    borderRadius: 12,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  metricRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  metricInfo: {
+    flex: 1,
+  },
+  metricLabel: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  metricHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  metricDelta: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+});
+
+export default SessionComparisonScreen;
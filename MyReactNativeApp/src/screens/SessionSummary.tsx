@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,15 +9,23 @@ import {
   ActivityIndicator,
   Share,
   Alert,
+  Dimensions,
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
 import StorageService from '@services/StorageService';
+import PersonalizationService from '@services/PersonalizationService';
+import ReportService from '@services/ReportService';
 import VisualizationService from '@services/VisualizationService';
 import Colors, { ColorUtils } from '@constants/Colors';
 import ProgressIndicator from '@components/ProgressIndicator';
+import ReplayPlayer from '@components/ReplayPlayer';
+import { getLetterPath } from '@constants/ScriptPacks';
+import { generateIdealPath } from '@utils/GeometryUtils';
 import ValidationUtils from '@utils/ValidationUtils';
 
+const REPLAY_SIZE = Dimensions.get('window').width - 40;
+
 interface RouteParams {
   sessionId: string;
 }
@@ -90,11 +98,22 @@ const SessionSummary: React.FC = () => {
   const [analytics, setAnalytics] = useState<ComprehensiveTracingAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTab, setSelectedTab] = useState<'overview' | 'detailed' | 'diagnostic'>('overview');
+  const [confirmedLetter, setConfirmedLetter] = useState<string | null>(null);
 
   useEffect(() => {
     loadSessionData();
   }, [sessionId]);
 
+  const replayData = useMemo(() => {
+    if (!analytics) return null;
+    // Replay against the style the letter was traced in
+    const letterPath = getLetterPath(analytics.letter.toUpperCase(), analytics.session_context?.script_pack);
+    return VisualizationService.generateReplayData(
+      analytics,
+      letterPath ? generateIdealPath(letterPath.strokes) : undefined
+    );
+  }, [analytics]);
+
   const loadSessionData = async () => {
     setLoading(true);
     try {
@@ -123,6 +142,10 @@ const SessionSummary: React.FC = () => {
             text: 'Share',
             onPress: () => shareSessionData(jsonPath),
           },
+          {
+            text: 'Clinical Report',
+            onPress: () => handleReport(),
+          },
           { text: 'OK' },
         ]
       );
@@ -132,6 +155,21 @@ const SessionSummary: React.FC = () => {
     }
   };
 
+  /**
+   * Build the child's full-history report (HTML + PDF) and offer the PDF for sharing
+   */
+  const handleReport = async () => {
+    if (!analytics) return;
+
+    try {
+      const report = await ReportService.generateReport(analytics.user_id);
+      await ReportService.shareReport(report.pdfPath);
+    } catch (error) {
+      console.error('Report failed:', error);
+      Alert.alert('Error', 'Failed to generate the clinical report');
+    }
+  };
+
   const shareSessionData = async (filePath: string) => {
     try {
       await Share.share({
@@ -144,6 +182,22 @@ const SessionSummary: React.FC = () => {
     }
   };
 
+  /**
+   * Teach the child's recognizer adapter what this drawing really was
+   */
+  const handleConfirm = async (letter: string) => {
+    if (!analytics) return;
+
+    try {
+      if (await PersonalizationService.confirmSession(analytics, letter)) {
+        setConfirmedLetter(letter);
+      }
+    } catch (error) {
+      console.error('Confirm failed:', error);
+      Alert.alert('Error', 'Failed to save confirmation');
+    }
+  };
+
   const handleRetry = () => {
     if (!analytics) return;
     navigation.navigate('Tracing' as never, { letter: analytics.letter } as never);
@@ -175,6 +229,7 @@ const SessionSummary: React.FC = () => {
 
   // Calculate data quality
   const validationReport = ValidationUtils.generateValidationReport(analytics);
+  const phonologyMeasured = !analytics.unavailable_domains.includes('phonological_awareness_integration');
 
   const renderOverview = () => (
     <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
@@ -225,7 +280,7 @@ const SessionSummary: React.FC = () => {
         />
         <MetricRow
           label="Average Velocity"
-          value={`${analytics.velocity_kinematics.average_velocity.toFixed(1)} px/s`}
+          value={`${analytics.velocity_kinematics.average_velocity.toFixed(1)} ${analytics.calibration.metric_unit}/s`}
         />
         <MetricRow
           label="Initial Reaction Time"
@@ -237,15 +292,45 @@ const SessionSummary: React.FC = () => {
         />
       </DetailSection>
 
+      {/* Recognition & therapist confirmation */}
+      {analytics.ml_recognition && (
+        <DetailSection title="Recognition">
+          <MetricRow
+            label="Recognized As"
+            value={analytics.ml_recognition.predictedChar}
+            subtitle={analytics.ml_recognition.personalized ? 'Personalized for this child' : undefined}
+          />
+          <Text style={styles.confirmPrompt}>
+            {confirmedLetter ? `Confirmed as ${confirmedLetter}` : 'Which letter did the child write?'}
+          </Text>
+          <View style={styles.confirmOptions}>
+            {Array.from(
+              new Set([analytics.letter, ...analytics.ml_recognition.topPredictions.slice(0, 3).map(p => p.char)])
+            ).map(char => (
+              <TouchableOpacity
+                key={char}
+                style={[styles.confirmOption, confirmedLetter === char && styles.confirmOptionSelected]}
+                onPress={() => handleConfirm(char)}
+                disabled={confirmedLetter !== null}
+              >
+                <Text style={[styles.confirmOptionText, confirmedLetter === char && styles.confirmOptionTextSelected]}>
+                  {char}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </DetailSection>
+      )}
+
       {/* Spatial Accuracy */}
       <DetailSection title="Spatial Accuracy">
         <MetricRow
           label="Mean Deviation"
-          value={`${analytics.spatial_accuracy_deviation.mean_path_deviation.toFixed(1)} px`}
+          value={`${analytics.spatial_accuracy_deviation.mean_path_deviation.toFixed(1)} ${analytics.calibration.metric_unit}`}
         />
         <MetricRow
           label="Max Deviation"
-          value={`${analytics.spatial_accuracy_deviation.max_path_deviation.toFixed(1)} px`}
+          value={`${analytics.spatial_accuracy_deviation.max_path_deviation.toFixed(1)} ${analytics.calibration.metric_unit}`}
         />
         <MetricRow
           label="Off-Track Events"
@@ -314,11 +399,18 @@ const SessionSummary: React.FC = () => {
 
   const renderDetailed = () => (
     <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      {/* Replay */}
+      {replayData && replayData.strokes.length > 0 && (
+        <DetailSection title="Replay">
+          <ReplayPlayer data={replayData} width={REPLAY_SIZE} />
+        </DetailSection>
+      )}
+
       {/* Kinematics */}
       <DetailSection title="Velocity & Kinematics">
         <MetricRow
           label="Average Velocity"
-          value={`${analytics.velocity_kinematics.average_velocity.toFixed(2)} px/s`}
+          value={`${analytics.velocity_kinematics.average_velocity.toFixed(2)} ${analytics.calibration.metric_unit}/s`}
         />
         <MetricRow
           label="Velocity CoV"
@@ -327,7 +419,7 @@ const SessionSummary: React.FC = () => {
         />
         <MetricRow
           label="Velocity Range"
-          value={`${analytics.velocity_kinematics.velocity_range.toFixed(1)} px/s`}
+          value={`${analytics.velocity_kinematics.velocity_range.toFixed(1)} ${analytics.calibration.metric_unit}/s`}
         />
         <MetricRow
           label="Velocity Peaks"
@@ -411,7 +503,7 @@ const SessionSummary: React.FC = () => {
         />
         <MetricRow
           label="Tremor Amplitude"
-          value={`${analytics.stroke_quality_consistency.tremor_amplitude.toFixed(2)} px`}
+          value={`${analytics.stroke_quality_consistency.tremor_amplitude.toFixed(2)} ${analytics.calibration.metric_unit}`}
           color={
             analytics.stroke_quality_consistency.tremor_amplitude < 5
               ? Colors.success
@@ -565,11 +657,15 @@ const SessionSummary: React.FC = () => {
       <DetailSection title="Phonological Awareness">
         <MetricRow
           label="Letter Name Recall"
-          value={`${(analytics.phonological_awareness_integration.letter_name_recall_accuracy * 100).toFixed(0)}%`}
+          value={phonologyMeasured
+            ? `${(analytics.phonological_awareness_integration.letter_name_recall_accuracy * 100).toFixed(0)}%`
+            : 'Not measured'}
         />
         <MetricRow
           label="Letter-Sound Association"
-          value={`${(analytics.phonological_awareness_integration.letter_sound_association * 100).toFixed(0)}%`}
+          value={phonologyMeasured
+            ? `${(analytics.phonological_awareness_integration.letter_sound_association * 100).toFixed(0)}%`
+            : 'Not measured'}
         />
         <MetricRow
           label="Audio Playback Count"
@@ -901,6 +997,37 @@ const styles = StyleSheet.create({
     color: Colors.textTertiary,
     marginTop: 2,
   },
+  confirmPrompt: {
+    marginTop: 12,
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  confirmOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  confirmOption: {
+    minWidth: 48,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+  },
+  confirmOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  confirmOptionText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  confirmOptionTextSelected: {
+    color: Colors.textOnPrimary,
+  },
   riskLevelCard: {
     backgroundColor: Colors.surfaceVariant,
     padding: 24,
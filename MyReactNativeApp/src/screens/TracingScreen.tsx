@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -13,61 +13,54 @@ import TracingCanvas from '@components/TracingCanvas';
 import AudioButton from '@components/AudioButton';
 import LetterDisplay from '@components/LetterDisplay';
 import { useTracingSession } from '@hooks/useTracingSession';
-import { LETTER_PATHS } from '@constants/LetterPaths';
+import { getLetterPath } from '@constants/ScriptPacks';
 import { LetterPath } from '@models/TracingData';
+import { ComprehensiveTracingAnalytics, UserDemographicsHistory } from '@models/AnalyticsTypes';
 import StorageService from '@services/StorageService';
 
 interface TracingScreenProps {
   letter: string;
   userId: string;
-  onComplete?: (analytics: any) => void;
+  userDemographics: UserDemographicsHistory | null;
+  scriptPack?: string;
+  onComplete?: (analytics: ComprehensiveTracingAnalytics) => void;
   onExit?: () => void;
 }
 
 const TracingScreen: React.FC<TracingScreenProps> = ({
   letter,
   userId,
+  userDemographics,
+  scriptPack,
   onComplete,
   onExit,
 }) => {
-  const letterPath: LetterPath = LETTER_PATHS[letter.toUpperCase()];
+  const letterPath = getLetterPath(letter.toUpperCase(), scriptPack) as LetterPath;
   
   const [showInstructions, setShowInstructions] = useState(true);
   const [isCompleting, setIsCompleting] = useState(false);
   const [showResults, setShowResults] = useState(false);
-  const [sessionAnalytics, setSessionAnalytics] = useState<any>(null);
-
-  // User demographics (would come from user profile)
-  const userDemographics = {
-    chronological_age: 7,
-    chronological_age_months: 84,
-    handedness: 'right',
-    prior_dyslexia_diagnosis: 'none',
-    comorbid_conditions: [],
-    intervention_history: [],
-    native_language: 'English',
-    language_of_instruction: 'English',
-    user_id: userId,
-  };
+  const [sessionAnalytics, setSessionAnalytics] = useState<ComprehensiveTracingAnalytics | null>(null);
 
   const {
     isActive,
-    sessionStarted,
-    analytics,
     idealPath,
     activeStrokeIndex,
     startTracing,
     handleTouchMove,
+    handleTouchEnd,
     advanceStroke,
     handleAudioPlay,
     endSession,
     resetSession,
     initializeSession,
     feedback,
+    offTrackTolerance,
   } = useTracingSession({
     letterPath,
     userId,
     userDemographics,
+    scriptPack,
   });
 
   // Removed canvasRef as state is managed by props and hooks
@@ -76,7 +69,7 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
   useEffect(() => {
     // Initialize session on mount
     initializeSession();
-  }, []);
+  }, [initializeSession]);
 
   /**
    * Start tracing session
@@ -91,18 +84,16 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
    * 
    * HYBRID APPROACH:
    * - Template remains visible in TracingCanvas for visual guidance
-   * - ML model (via ShadowFeatureExtractor) validates character correctness
+   * - ML model (via TracingAnalyticsEngine) validates character correctness
    * - All biomechanical features (jerk, tremor, etc.) calculated independently
    */
   const handleComplete = async () => {
     setIsCompleting(true);
 
     try {
-      // Get session analytics (includes ML validation from ShadowFeatureExtractor)
       const result = await endSession('completed');
       if (result) {
-        // result.mlFeatures contains ML-based character recognition
-        // result.features contains all biomechanical metrics (unchanged)
+        // result.ml_recognition holds character recognition; every other domain is biomechanical
         setSessionAnalytics(result);
         setShowResults(true);
         onComplete?.(result);
@@ -156,7 +147,7 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
     if (isActive && !showResults) {
       Alert.alert(
         'Exit?',
-        'Your progress will not be saved. Are you sure?',
+        'This attempt will be saved as unfinished. Are you sure?',
         [
           { text: 'Cancel', style: 'cancel' },
           {
@@ -247,11 +238,12 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
               letterStrokes={letterPath.strokes}
               onTouchStart={startTracing}
               onTouchMove={handleTouchMove}
+              onTouchEnd={handleTouchEnd}
               onStrokeComplete={advanceStroke} // Auto-advance stroke
               showGuidelines={false}  // Remove letter template from canvas
               showFeedback={true}
               validationFeedback={feedback}
-              tolerancePixels={50}
+              tolerancePixels={offTrackTolerance}
             />
           </View>
 
@@ -281,7 +273,7 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
                  <View style={styles.statBox}>
                     <Text style={styles.statLabel}>TIME</Text>
                     <Text style={[styles.statValue, { color: '#2196F3' }]}>
-                        {(sessionAnalytics.overview.completionTime / 1000).toFixed(1)}s
+                        {sessionAnalytics.time_based_performance.total_session_duration.toFixed(1)}s
                     </Text>
                  </View>
             </View>
@@ -293,46 +285,45 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
             
             {/* 1. Structural Analysis */}
             <Text style={styles.subHeader}>📐 Shape & Structure</Text>
-            <DetailRow label="Aspect Ratio" value={sessionAnalytics.clinical.shape?.aspect_ratio.toFixed(2) ?? '-'} />
-            <DetailRow label="Compactness" value={sessionAnalytics.features?.shapeQuality?.compactness_score?.toFixed(2) ?? sessionAnalytics.clinical.shape?.compactness_score.toFixed(2) ?? '-'} />
-            <DetailRow label="Closure Rate" value={`${((sessionAnalytics.clinical.shape?.closure_success_rate ?? 0) * 100).toFixed(0)}%`} />
+            <DetailRow label="Accuracy" value={`${sessionAnalytics.spatial_accuracy_deviation.accuracy_score.toFixed(0)}%`} />
+            <DetailRow label="Aspect Ratio" value={sessionAnalytics.shape_formation_quality.aspect_ratio.toFixed(2)} />
+            <DetailRow label="Compactness" value={sessionAnalytics.shape_formation_quality.compactness_score.toFixed(2)} />
+            <DetailRow label="Closure Rate" value={`${(sessionAnalytics.line_continuity_closure.closure_success_rate * 100).toFixed(0)}%`} />
             
             {/* 2. Kinematics & Fluency */}
             <Text style={styles.subHeader}>⚡ Speed & Fluency</Text>
-            <DetailRow label="Avg Velocity" value={`${(sessionAnalytics.clinical.kinematics.avgVelocity ?? 0).toFixed(1)} px/ms`} />
-            <DetailRow label="Peak Velocity" value={`${(sessionAnalytics.clinical.kinematics.peakVelocity ?? 0).toFixed(1)} px/ms`} />
-            <DetailRow label="Velocity CoV" value={`${(sessionAnalytics.clinical.kinematics.velocityCoV ?? 0).toFixed(2)}`} />
-            <DetailRow label="Velocity Peaks" value={`${sessionAnalytics.clinical.kinematics.velocityPeaks}`} />
-            <DetailRow label="Hesitations" value={`${sessionAnalytics.clinical.kinematics.velocityValleys}`} />
-            <DetailRow label="Smoothness" value={`${(100 - (sessionAnalytics.clinical.dynamics.avgJerk * 1000)).toFixed(0)}%`} />
-            <DetailRow label="Avg Jerk" value={`${sessionAnalytics.clinical.dynamics.avgJerk.toFixed(4)}`} />
-            <DetailRow label="Sampling Rate" value={`${sessionAnalytics.clinical.dataQuality.samplingRate.toFixed(0)} Hz`} />
+            <DetailRow label="Avg Velocity" value={`${sessionAnalytics.velocity_kinematics.average_velocity.toFixed(1)} ${sessionAnalytics.calibration.metric_unit}/s`} />
+            <DetailRow label="Velocity Range" value={`${sessionAnalytics.velocity_kinematics.velocity_range.toFixed(1)} ${sessionAnalytics.calibration.metric_unit}/s`} />
+            <DetailRow label="Velocity CoV" value={sessionAnalytics.velocity_kinematics.velocity_coefficient_of_variation.toFixed(2)} />
+            <DetailRow label="Velocity Peaks" value={`${sessionAnalytics.velocity_kinematics.velocity_peaks.length}`} />
+            <DetailRow label="Hesitations" value={`${sessionAnalytics.velocity_kinematics.velocity_valleys.length}`} />
+            <DetailRow label="Normalized Jerk" value={sessionAnalytics.acceleration_jerk_analysis.normalized_jerk_score.toFixed(4)} />
+            <DetailRow label="Sampling Rate" value={`${sessionAnalytics.raw_touch_data.sampling_rate.toFixed(0)} Hz`} />
 
             {/* 3. Motor Control & Dynamics */}
             <Text style={styles.subHeader}>🧠 Motor & Dynamics</Text>
-            <DetailRow label="Tremor Power" value={`${sessionAnalytics.clinical.graphomotor.tremorPower?.toFixed(2) ?? '0.00'}`} />
-            <DetailRow label="Tremor Freq" value={`${sessionAnalytics.clinical.graphomotor.tremorFrequency?.toFixed(1) ?? '0'} Hz`} />
-            <DetailRow label="Tremor Amp" value={`${sessionAnalytics.clinical.graphomotor.tremorAmplitude.toFixed(2) ?? '0'} px`} />
-            <DetailRow label="Max Accel" value={`${sessionAnalytics.clinical.dynamics.maxAcceleration.toFixed(1)} px/s²`} />
-            <DetailRow label="Symmetry" value={`${sessionAnalytics.clinical.dynamics.accelerationSymmetry.toFixed(2)}`} />
-            <DetailRow label="Avg Pressure" value={`${sessionAnalytics.clinical.graphomotor.avgPressure.toFixed(2)}`} />
-            <DetailRow label="Press Variance" value={`${sessionAnalytics.clinical.graphomotor.pressureVariance.toFixed(4)}`} />
-            <DetailRow label="Ballistic Strokes" value={`${sessionAnalytics.clinical.dynamics.ballisticMovements}`} />
+            <DetailRow label="Tremor Freq" value={`${sessionAnalytics.stroke_quality_consistency.tremor_frequency.toFixed(1)} Hz`} />
+            <DetailRow label="Tremor Amp" value={`${sessionAnalytics.stroke_quality_consistency.tremor_amplitude.toFixed(2)} ${sessionAnalytics.calibration.metric_unit}`} />
+            <DetailRow label="Peak Jerk" value={sessionAnalytics.acceleration_jerk_analysis.peak_jerk.toFixed(1)} />
+            <DetailRow label="Symmetry" value={sessionAnalytics.acceleration_jerk_analysis.acceleration_symmetry.toFixed(2)} />
+            <DetailRow label="Avg Pressure" value={sessionAnalytics.stroke_quality_consistency.stroke_width_mean.toFixed(2)} />
+            <DetailRow label="Press Variance" value={sessionAnalytics.stroke_quality_consistency.stroke_width_variance.toFixed(4)} />
+            <DetailRow label="Ballistic Moves" value={`${sessionAnalytics.acceleration_jerk_analysis.ballistic_movement_count}`} />
 
             {/* 4. Temporal & Sequencing */}
             <Text style={styles.subHeader}>⏱️ Temporal & Sequencing</Text>
-            <DetailRow label="Time in Motion" value={`${(sessionAnalytics.clinical.kinematics.timeInMotion / 1000).toFixed(1)}s`} />
-            <DetailRow label="Paused Time" value={`${(sessionAnalytics.clinical.kinematics.timePaused / 1000).toFixed(1)}s`} />
-            <DetailRow label="Fluency Ratio" value={`${(sessionAnalytics.clinical.kinematics.fluencyRatio * 100).toFixed(0)}%`} />
-            <DetailRow label="Strokes" value={`${sessionAnalytics.clinical.sequencing.strokeCountActual} ${sessionAnalytics.clinical.sequencing.strokeCountExpected > 0 ? '/ ' + sessionAnalytics.clinical.sequencing.strokeCountExpected : ''}`} />
-            <DetailRow label="Extra Strokes" value={`${sessionAnalytics.clinical.sequencing.extraStrokes}`} />
-            <DetailRow label="Lift Offs" value={`${sessionAnalytics.clinical.sequencing.liftOffCount}`} />
-            <DetailRow label="Pauses" value={`${sessionAnalytics.clinical.kinematics.velocityValleys}`} />
-            <DetailRow label="Reversals" value={`${sessionAnalytics.clinical.orientation.reversalDetected ? 'YES' : 'NO'}`} />
+            <DetailRow label="Time in Motion" value={`${sessionAnalytics.velocity_kinematics.time_in_motion.toFixed(1)}s`} />
+            <DetailRow label="Paused Time" value={`${sessionAnalytics.velocity_kinematics.time_paused.toFixed(1)}s`} />
+            <DetailRow label="Fluency Ratio" value={`${(sessionAnalytics.velocity_kinematics.fluency_ratio * 100).toFixed(0)}%`} />
+            <DetailRow label="Strokes" value={`${sessionAnalytics.stroke_count_sequencing.actual_stroke_count_used} / ${sessionAnalytics.stroke_count_sequencing.expected_stroke_count}`} />
+            <DetailRow label="Extra Strokes" value={`${sessionAnalytics.stroke_count_sequencing.extra_strokes}`} />
+            <DetailRow label="Lift Offs" value={`${sessionAnalytics.stroke_count_sequencing.lift_off_count}`} />
+            <DetailRow label="Pauses" value={`${sessionAnalytics.time_based_performance.pause_frequency}`} />
+            <DetailRow label="Reversals" value={sessionAnalytics.ml_recognition?.reversalDetected ? 'YES' : 'NO'} />
           </View>
 
           {/* ML Analysis Section */}
-          {sessionAnalytics.ml && (
+          {sessionAnalytics.ml_recognition && (
             <View style={styles.detailedMetrics}>
               <Text style={styles.sectionTitle}>🤖 ML Analysis</Text>
               <Text style={styles.reportSubtitle}>
@@ -341,31 +332,34 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
               
               <DetailRow
                 label="Recognition"
-                value={sessionAnalytics.ml.predictedChar}
+                value={sessionAnalytics.ml_recognition.predictedChar}
               />
               <DetailRow
                 label="Confidence"
-                value={`${(sessionAnalytics.ml.confidence * 100).toFixed(1)}%`}
+                value={`${(sessionAnalytics.ml_recognition.confidence * 100).toFixed(1)}%`}
               />
               <DetailRow
                 label="Accuracy"
-                value={sessionAnalytics.ml.isCorrect ? '✅ Correct' : '❌ Incorrect'}
+                value={sessionAnalytics.ml_recognition.isCorrect ? '✅ Correct' : '❌ Incorrect'}
               />
               
               {/* Reversal Warning */}
-              {sessionAnalytics.ml.reversalDetected && (
+              {sessionAnalytics.ml_recognition.reversalDetected && (
                 <View style={styles.warningBox}>
                   <Text style={styles.warningIcon}>⚠️</Text>
                   <View style={styles.warningContent}>
                     <Text style={styles.warningTitle}>Reversal Detected</Text>
                     <Text style={styles.warningText}>
-                      {sessionAnalytics.ml.reversalType === 'horizontal_flip' && 'Character written backward (mirrored)'}
-                      {sessionAnalytics.ml.reversalType === 'vertical_flip' && 'Character written upside down'}
-                      {sessionAnalytics.ml.reversalType === 'rotation_180' && 'Character rotated 180°'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'horizontal_flip' && 'Character written backward (mirrored)'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'vertical_flip' && 'Character written upside down'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'rotation_180' && 'Character rotated 180°'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'rotation_90' && 'Character turned a quarter turn anticlockwise'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'rotation_270' && 'Character turned a quarter turn clockwise'}
+                      {sessionAnalytics.ml_recognition.reversalType === 'diagonal_flip' && 'Character flipped across its diagonal'}
                     </Text>
-                    {sessionAnalytics.ml.reversalConfidence && (
+                    {sessionAnalytics.ml_recognition.reversalConfidence && (
                       <Text style={styles.warningSubtext}>
-                        Confidence: {(sessionAnalytics.ml.reversalConfidence * 100).toFixed(1)}%
+                        Confidence: {(sessionAnalytics.ml_recognition.reversalConfidence * 100).toFixed(1)}%
                       </Text>
                     )}
                   </View>
@@ -373,10 +367,10 @@ const TracingScreen: React.FC<TracingScreenProps> = ({
               )}
               
               {/* Top Predictions */}
-              {sessionAnalytics.ml.topPredictions && sessionAnalytics.ml.topPredictions.length > 1 && (
+              {sessionAnalytics.ml_recognition.topPredictions && sessionAnalytics.ml_recognition.topPredictions.length > 1 && (
                 <View style={styles.topPredictionsContainer}>
                   <Text style={styles.topPredictionsTitle}>Top Predictions:</Text>
-                  {sessionAnalytics.ml.topPredictions.slice(0, 3).map((pred, idx) => (
+                  {sessionAnalytics.ml_recognition.topPredictions.slice(0, 3).map((pred, idx) => (
                     <View key={idx} style={styles.predictionRow}>
                       <Text style={styles.predictionChar}>{idx + 1}. {pred.char}</Text>
                       <View style={styles.confidenceBar}>
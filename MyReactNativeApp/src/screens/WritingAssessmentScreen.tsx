@@ -3,8 +3,11 @@ import { View, Text, StyleSheet, Button, ScrollView, Alert, Dimensions, Touchabl
 import Tts from 'react-native-tts';
 import { WritingCanvas, Stroke } from '../components/WritingCanvas';
 import { modelService } from '../services/ModelService';
+import { gradeStrokeOrder, StrokeOrderGrade } from '../services/analytics/StrokeOrderGrader';
+import { useProfiles } from '../hooks/useProfiles';
 import { 
     ALPHABET_INDICES, 
+    DIGIT_INDICES,
     getCharFromIndex, 
     rasterizeStrokes,
     flipHorizontal,
@@ -14,6 +17,7 @@ import {
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const CANVAS_SIZE = SCREEN_WIDTH - 40;
+const PROMPT_INDICES = [...ALPHABET_INDICES, ...DIGIT_INDICES];
 
 const WritingAssessmentScreen = () => {
     const [targetChar, setTargetChar] = useState<string | null>(null);
@@ -24,10 +28,19 @@ const WritingAssessmentScreen = () => {
     const [confidence, setConfidence] = useState<number>(0);
     const [timing, setTiming] = useState(0);
     const [isTimerRunning, setIsTimerRunning] = useState(false);
+    const [formation, setFormation] = useState<StrokeOrderGrade | null>(null);
     
     // Stats
     const [stats, setStats] = useState({ total: 0, correct: 0 });
 
+    // Templates follow the handwriting style the child is taught
+    const { activeProfile } = useProfiles();
+    const scriptPack = activeProfile?.script_pack;
+
+    useEffect(() => {
+        modelService.setScriptPack(scriptPack);
+    }, [scriptPack]);
+
     useEffect(() => {
         // Init TTS
         Tts.setDefaultLanguage('en-GB');
@@ -47,8 +60,8 @@ const WritingAssessmentScreen = () => {
 
     const startNewTest = () => {
         // Select random character
-        const randomIndex = Math.floor(Math.random() * ALPHABET_INDICES.length);
-        const classId = ALPHABET_INDICES[randomIndex];
+        const randomIndex = Math.floor(Math.random() * PROMPT_INDICES.length);
+        const classId = PROMPT_INDICES[randomIndex];
         const char = getCharFromIndex(classId);
         
         setTargetChar(char);
@@ -57,6 +70,7 @@ const WritingAssessmentScreen = () => {
         setCanvasKey(k => k + 1); // Clear canvas
         setResult('');
         setConfidence(0);
+        setFormation(null);
         setTiming(0);
         setIsTimerRunning(true);
         
@@ -70,6 +84,8 @@ const WritingAssessmentScreen = () => {
             text = `Write capital ${char}`;
         } else if (char.match(/[a-z]/)) {
             text = `Write small ${char}`;
+        } else if (char.match(/[0-9]/)) {
+            text = `Write the number ${char}`;
         }
         Tts.speak(text);
     };
@@ -79,6 +95,9 @@ const WritingAssessmentScreen = () => {
         
         setIsTimerRunning(false);
         
+        // How the letter was formed, independent of what the model reads
+        setFormation(targetChar ? gradeStrokeOrder(strokes, targetChar, scriptPack) : null);
+        
         // 1. Rasterize
         const inputTensor = rasterizeStrokes(strokes, CANVAS_SIZE, CANVAS_SIZE);
         
@@ -204,6 +223,35 @@ const WritingAssessmentScreen = () => {
                     <Text>Confidence: {(confidence * 100).toFixed(1)}%</Text>
                 </View>
             ) : null}
+
+            {result && formation ? (
+                <View style={styles.formationBox}>
+                    <Text style={styles.formationTitle}>
+                        Stroke formation: {(formation.score * 100).toFixed(0)}%
+                    </Text>
+                    <Text style={styles.formationLine}>
+                        {formation.writtenStrokeCount} of {formation.expectedStrokeCount} strokes written
+                    </Text>
+                    {formation.strokes.map(s => (
+                        <Text key={s.writtenIndex} style={styles.formationLine}>
+                            Stroke {s.writtenIndex + 1} → template stroke {s.templateIndex + 1}
+                            {s.outOfOrder ? ' · out of order' : ''}
+                            {s.reversed ? ' · drawn backwards' : ''}
+                            {!s.outOfOrder && !s.reversed ? ' ✓' : ''}
+                        </Text>
+                    ))}
+                    {formation.missingStrokes.length > 0 && (
+                        <Text style={[styles.formationLine, styles.red]}>
+                            Missing: template stroke {formation.missingStrokes.map(i => i + 1).join(', ')}
+                        </Text>
+                    )}
+                    {formation.extraStrokes.length > 0 && (
+                        <Text style={[styles.formationLine, styles.red]}>
+                            Extra: stroke {formation.extraStrokes.map(i => i + 1).join(', ')}
+                        </Text>
+                    )}
+                </View>
+            ) : null}
             
         </ScrollView>
     );
@@ -271,6 +319,23 @@ const styles = StyleSheet.create({
         fontSize: 22,
         fontWeight: 'bold',
     },
+    formationBox: {
+        marginTop: 16,
+        padding: 12,
+        width: '100%',
+        borderRadius: 8,
+        backgroundColor: '#f5f5f5',
+    },
+    formationTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        marginBottom: 6,
+    },
+    formationLine: {
+        fontSize: 14,
+        color: '#333',
+        marginTop: 2,
+    },
     green: { color: 'green' },
     red: { color: 'red' },
 });
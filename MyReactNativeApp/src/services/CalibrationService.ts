@@ -0,0 +1,82 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Dimensions, PixelRatio } from 'react-native';
+import { DeviceCalibration } from '@models/AnalyticsTypes';
+import {
+  CARD_WIDTH_MM,
+  calibrationFromRuler,
+  calibrationFromScreenSize,
+  referenceCalibration,
+} from '@utils/CalibrationUtils';
+
+const CALIBRATION_KEYS = {
+  CALIBRATION: '@device_calibration',
+};
+
+/**
+ * Device calibration converting canvas coordinates to millimetres. Falls back
+ * to React Native's nominal density until the screen is calibrated.
+ */
+export class CalibrationService {
+  private static instance: CalibrationService;
+  private calibration: DeviceCalibration | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CalibrationService {
+    if (!CalibrationService.instance) {
+      CalibrationService.instance = new CalibrationService();
+    }
+    return CalibrationService.instance;
+  }
+
+  async getCalibration(): Promise<DeviceCalibration> {
+    if (this.calibration) return this.calibration;
+
+    try {
+      const data = await AsyncStorage.getItem(CALIBRATION_KEYS.CALIBRATION);
+      this.calibration = data ? JSON.parse(data) : referenceCalibration(PixelRatio.get());
+      return this.calibration as DeviceCalibration;
+    } catch (error) {
+      console.error('Failed to load calibration:', error);
+      return referenceCalibration(PixelRatio.get());
+    }
+  }
+
+  /**
+   * Calibrate from an on-screen ruler stretched to match a card (or another object of known length)
+   */
+  async calibrateWithRuler(rulerLengthDp: number, knownLengthMm: number = CARD_WIDTH_MM): Promise<DeviceCalibration> {
+    return this.save(calibrationFromRuler(rulerLengthDp, knownLengthMm, PixelRatio.get()));
+  }
+
+  /**
+   * Calibrate from the screen's true diagonal in inches
+   */
+  async calibrateWithScreenSize(screenSizeInches: number): Promise<DeviceCalibration> {
+    const { width, height } = Dimensions.get('screen');
+    return this.save(calibrationFromScreenSize(width, height, screenSizeInches, PixelRatio.get()));
+  }
+
+  async reset(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(CALIBRATION_KEYS.CALIBRATION);
+      this.calibration = null;
+    } catch (error) {
+      console.error('Failed to reset calibration:', error);
+      throw error;
+    }
+  }
+
+  private async save(calibration: DeviceCalibration): Promise<DeviceCalibration> {
+    try {
+      await AsyncStorage.setItem(CALIBRATION_KEYS.CALIBRATION, JSON.stringify(calibration));
+      this.calibration = calibration;
+      return calibration;
+    } catch (error) {
+      console.error('Failed to save calibration:', error);
+      throw error;
+    }
+  }
+}
+
+export default CalibrationService.getInstance();
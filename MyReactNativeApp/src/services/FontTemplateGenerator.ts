@@ -1,5 +1,6 @@
 import * as opentype from 'opentype.js';
 import { PathSegment, LetterPath } from '@models/TracingData';
+import { extractCenterlineStrokes } from './authoring/GlyphSkeleton';
 
 /**
  * FontTemplateGenerator - Automatically generates letter templates from font files
@@ -27,29 +28,94 @@ export class FontTemplateGenerator {
         }
     }
 
+    /**
+     * Load a font from file contents, e.g. a TTF/OTF read from the device with RNFS
+     * @param data - Raw font file bytes
+     */
+    loadFontData(data: ArrayBuffer): void {
+        try {
+            this.font = opentype.parse(data);
+        } catch (error) {
+            console.error('[FontTemplateGenerator] Failed to parse font:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Family name of the loaded font
+     */
+    getFontName(): string {
+        return this.requireFont().names.fontFamily?.en ?? 'Unknown font';
+    }
+
+    /**
+     * Glyph outline in canvas coordinates, one segment list per closed contour
+     * @param letter - The character to outline
+     */
+    getGlyphContours(letter: string): PathSegment[][] {
+        const glyph = this.requireFont().charToGlyph(letter);
+        return this.convertOpentypePath(glyph.getPath(0, 0, this.LETTER_SIZE));
+    }
+
+    /**
+     * Canvas height from the baseline to the cap height or x-height
+     * Uses the OS/2 metrics when the font has them, else measures H or x.
+     */
+    getReferenceHeight(metric: 'capHeight' | 'xHeight'): number {
+        const font = this.requireFont();
+        const scale = this.LETTER_SIZE / font.unitsPerEm;
+        const os2 = font.tables.os2 as { sCapHeight?: number; sxHeight?: number } | undefined;
+        const height = metric === 'capHeight' ? os2?.sCapHeight : os2?.sxHeight;
+        if (height) {
+            return height * scale;
+        }
+
+        const reference = font.charToGlyph(metric === 'capHeight' ? 'H' : 'x');
+        return reference.getBoundingBox().y2 * scale;
+    }
+
     /**
      * Generate letter path from font
      * @param letter - The letter to generate (A-Z)
-     * @param strokeOrder - Optional manual stroke order indices
+     * @param strokeOrder - Optional manual stroke order, listing every stroke index once
      */
     generateLetterPath(
         letter: string,
         strokeOrder?: number[]
     ): LetterPath {
-        if (!this.font) {
-            throw new Error('Font not loaded. Call loadFont() first.');
-        }
-
-        const glyph = this.font.charToGlyph(letter);
+        const glyph = this.requireFont().charToGlyph(letter);
         const path = glyph.getPath(0, 0, this.LETTER_SIZE);
 
         // Convert OpenType path to our PathSegment format
         const rawStrokes = this.convertOpentypePath(path);
 
         // Apply stroke order if provided
-        const orderedStrokes = strokeOrder
-            ? strokeOrder.map(idx => rawStrokes[idx]).filter(Boolean)
-            : rawStrokes;
+        const orderedStrokes = this.applyStrokeOrder(letter, rawStrokes, strokeOrder);
+
+        return {
+            letter,
+            expectedStrokeCount: orderedStrokes.length,
+            width: this.LETTER_SIZE,
+            height: this.LETTER_SIZE,
+            baseline: this.BASELINE,
+            difficulty: this.estimateDifficulty(orderedStrokes.length),
+            confusionPairs: this.getConfusionPairs(letter),
+            strokes: orderedStrokes
+        };
+    }
+
+    /**
+     * Generate a single-line tracing path from the glyph's centre line
+     * Strokes come oriented and ordered by handwriting conventions.
+     * @param letter - The letter to generate
+     * @param strokeOrder - Optional manual stroke order, listing every stroke index once
+     */
+    generateCenterlinePath(
+        letter: string,
+        strokeOrder?: number[]
+    ): LetterPath {
+        const strokes = extractCenterlineStrokes(this.getGlyphContours(letter));
+        const orderedStrokes = this.applyStrokeOrder(letter, strokes, strokeOrder);
 
         return {
             letter,
@@ -63,6 +129,21 @@ export class FontTemplateGenerator {
         };
     }
 
+    /**
+     * Reorder strokes by a manual order, which must list every stroke exactly once
+     */
+    private applyStrokeOrder<T>(letter: string, strokes: T[], strokeOrder?: number[]): T[] {
+        if (!strokeOrder) return strokes;
+
+        const covered = new Set(strokeOrder.filter(idx => idx >= 0 && idx < strokes.length));
+        if (strokeOrder.length !== strokes.length || covered.size !== strokes.length) {
+            throw new Error(
+                `Stroke order [${strokeOrder.join(', ')}] for ${letter} doesn't match its ${strokes.length} strokes`
+            );
+        }
+        return strokeOrder.map(idx => strokes[idx]);
+    }
+
     /**
      * Convert OpenType path commands to PathSegment arrays
      */
@@ -70,6 +151,7 @@ export class FontTemplateGenerator {
         const strokes: PathSegment[][] = [];
         let currentStroke: PathSegment[] = [];
         let currentPoint = { x: 0, y: 0 };
+        let contourStart = { x: 0, y: 0 };
 
         for (const cmd of path.commands) {
             const transformedCmd = this.transformCommand(cmd);
@@ -81,6 +163,7 @@ export class FontTemplateGenerator {
                         currentStroke = [];
                     }
                     currentPoint = { x: transformedCmd.x, y: transformedCmd.y };
+                    contourStart = { ...currentPoint };
                     break;
 
                 case 'L': // Line to
@@ -122,8 +205,15 @@ export class FontTemplateGenerator {
                     currentPoint = { x: transformedCmd.x, y: transformedCmd.y };
                     break;
 
-                case 'Z': // Close path
-                    // Optionally add closing line if needed
+                case 'Z': // Close path back to the contour's start
+                    if (currentPoint.x !== contourStart.x || currentPoint.y !== contourStart.y) {
+                        currentStroke.push({
+                            type: 'line',
+                            start: { ...currentPoint },
+                            end: { ...contourStart }
+                        });
+                        currentPoint = { ...contourStart };
+                    }
                     break;
             }
         }
@@ -136,17 +226,17 @@ export class FontTemplateGenerator {
     }
 
     /**
-     * Transform OpenType coordinates to canvas coordinates
-     * OpenType uses bottom-left origin, we use top-left with baseline
+     * Transform OpenType path coordinates to canvas coordinates
+     * Glyph.getPath already flips font units to y-down with the baseline at
+     * y = 0, so only an offset onto the canvas baseline is needed.
      */
     private transformCommand(cmd: any): any {
         const scale = 1.0;
         const offsetX = this.CENTER_X - (this.LETTER_SIZE / 2);
-        const offsetY = this.BASELINE - this.LETTER_SIZE;
 
         const transform = (x: number, y: number) => ({
             x: offsetX + x * scale,
-            y: offsetY + (this.LETTER_SIZE - y) * scale  // Flip Y axis
+            y: this.BASELINE + y * scale
         });
 
         const transformed: any = { type: cmd.type };
@@ -184,10 +274,17 @@ export class FontTemplateGenerator {
         return transformed;
     }
 
+    private requireFont(): opentype.Font {
+        if (!this.font) {
+            throw new Error('Font not loaded. Call loadFont() first.');
+        }
+        return this.font;
+    }
+
     /**
      * Estimate difficulty based on stroke count
      */
-    private estimateDifficulty(strokeCount: number): 'easy' | 'medium' | 'hard' {
+    estimateDifficulty(strokeCount: number): 'easy' | 'medium' | 'hard' {
         if (strokeCount <= 2) return 'easy';
         if (strokeCount <= 3) return 'medium';
         return 'hard';
@@ -196,7 +293,7 @@ export class FontTemplateGenerator {
     /**
      * Get confusion pairs for a letter (letters that look similar)
      */
-    private getConfusionPairs(letter: string): string[] {
+    getConfusionPairs(letter: string): string[] {
         const confusionMap: Record<string, string[]> = {
             'A': ['V', 'H'],
             'B': ['D', 'P', 'R'],
@@ -230,28 +327,15 @@ export class FontTemplateGenerator {
     }
 
     /**
-     * Generate all alphabet letters
+     * Generate all alphabet letters, in the order orderStrokes gives their centre lines
      */
     async generateAlphabet(): Promise<Record<string, LetterPath>> {
         const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
         const letterPaths: Record<string, LetterPath> = {};
 
-        // Pedagogically correct stroke orders
-        const strokeOrders: Record<string, number[]> = {
-            'A': [0, 1, 2],  // Left diagonal, right diagonal, crossbar
-            'B': [0, 1, 2],  // Vertical, upper curve, lower curve
-            'E': [0, 1, 2, 3],  // Vertical, top, middle, bottom
-            'F': [0, 1, 2],  // Vertical, top, middle
-            'H': [0, 1, 2],  // Left vertical, right vertical, crossbar
-            // Add more as needed
-        };
-
         for (const letter of alphabet) {
             try {
-                letterPaths[letter] = this.generateLetterPath(
-                    letter,
-                    strokeOrders[letter]
-                );
+                letterPaths[letter] = this.generateCenterlinePath(letter);
             } catch (error) {
                 console.error(`Failed to generate letter ${letter}:`, error);
             }
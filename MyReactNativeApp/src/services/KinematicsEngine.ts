@@ -30,9 +30,13 @@ import {
 import { gaussianSmooth, detectTremorFrequency } from '@utils/SignalProcessing';
 
 /**
- * Calculate complete velocity kinematics
+ * Calculate complete velocity kinematics, in the length unit of the touch points
+ * (mm/s for calibrated points)
  */
-export const calculateVelocityKinematics = (touchPoints: TouchPoint[]): VelocityKinematics => {
+export const calculateVelocityKinematics = (
+  touchPoints: TouchPoint[],
+  pauseVelocityThreshold: number = 10
+): VelocityKinematics => {
   if (touchPoints.length < 2) {
     return {
       instantaneous_velocity: [],
@@ -69,8 +73,8 @@ export const calculateVelocityKinematics = (touchPoints: TouchPoint[]): Velocity
   
   const velocity_range = Math.max(...smoothedVelocities) - Math.min(...smoothedVelocities);
   
-  // Detect pauses (velocity < 10 pixels/sec)
-  const pauses = detectPauses(smoothedVelocities, timestamps, 10);
+  // Detect pauses (velocity below the pause threshold)
+  const pauses = detectPauses(smoothedVelocities, timestamps, pauseVelocityThreshold);
   
   const time_paused = pauses.reduce((sum, p) => sum + p.duration, 0);
   const totalTime = (touchPoints[touchPoints.length - 1].timestamp - touchPoints[0].timestamp) / 1000;
@@ -247,7 +251,7 @@ export const calculateDirectionalAngularMetrics = (touchPoints: TouchPoint[]): D
 export const calculateSpatialAccuracyDeviation = (
   touchPoints: TouchPoint[],
   idealPath: IdealPathData,
-  tolerancePixels: number = 50
+  tolerance: number = 50 // same length unit as the points
 ): SpatialAccuracyDeviation => {
   if (touchPoints.length === 0) {
     return {
@@ -275,11 +279,15 @@ export const calculateSpatialAccuracyDeviation = (
   const deviation_std = std(deviations);
   
   // Detect off-track events
+  // Event durations come back in samples; convert to seconds using the touch timestamps
   const off_track_events = detectOffTrackEvents(
     touchPoints.map(p => ({ x: p.x, y: p.y })),
     idealPath,
-    tolerancePixels
-  );
+    tolerance
+  ).map(e => ({
+    ...e,
+    duration: (touchPoints[e.endIndex].timestamp - touchPoints[e.startIndex].timestamp) / 1000,
+  }));
   
   const off_track_duration_total = off_track_events.reduce((sum, e) => sum + e.duration, 0);
   
@@ -291,7 +299,7 @@ export const calculateSpatialAccuracyDeviation = (
   );
   
   // Calculate accuracy score (0-100)
-  const maxDeviation = tolerancePixels * 2;
+  const maxDeviation = tolerance * 2;
   const normalizedDeviation = Math.min(mean_path_deviation / maxDeviation, 1);
   const accuracy_score = Math.max(0, 100 * (1 - normalizedDeviation));
   
@@ -0,0 +1,149 @@
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { PathSegment } from '@models/TracingData';
+import { fontTemplateGenerator } from './FontTemplateGenerator';
+import { AuthoringStroke } from './authoring/StrokeEditing';
+import { extractCenterlineStrokes } from './authoring/GlyphSkeleton';
+import { buildGeometryModule, buildLetterPathsEntry, GlyphSet } from './authoring/GlyphExport';
+
+const FONT_EXTENSIONS = /\.(ttf|otf)$/i;
+const AUTHORING_DIR = `${RNFS.DocumentDirectoryPath}/authoring`;
+
+export interface GlyphExportFiles {
+  letterPathsPath: string;
+  geometryPath: string;
+}
+
+/**
+ * Debug-build letter authoring: loads fonts from the device and writes the
+ * generated letter sources where they can be shared off the device
+ */
+export class LetterAuthoringService {
+  private static instance: LetterAuthoringService;
+
+  private constructor() {}
+
+  static getInstance(): LetterAuthoringService {
+    if (!LetterAuthoringService.instance) {
+      LetterAuthoringService.instance = new LetterAuthoringService();
+    }
+    return LetterAuthoringService.instance;
+  }
+
+  /**
+   * TTF/OTF files in the documents directory and its fonts/ folder
+   */
+  async listFontFiles(): Promise<string[]> {
+    const directories = [RNFS.DocumentDirectoryPath, `${RNFS.DocumentDirectoryPath}/fonts`];
+
+    try {
+      const listings = await Promise.all(
+        directories.map(async dir => ((await RNFS.exists(dir)) ? RNFS.readDir(dir) : []))
+      );
+      return listings
+        .flat()
+        .filter(item => item.isFile() && FONT_EXTENSIONS.test(item.name))
+        .map(item => item.path);
+    } catch (error) {
+      console.error('Failed to list font files:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read a font file and make it the generator's current font
+   * @returns The font's family name
+   */
+  async loadFont(path: string): Promise<string> {
+    try {
+      const base64 = await RNFS.readFile(path, 'base64');
+      fontTemplateGenerator.loadFontData(base64ToArrayBuffer(base64));
+      return fontTemplateGenerator.getFontName();
+    } catch (error) {
+      console.error('Failed to load font:', error);
+      throw error;
+    }
+  }
+
+  getGlyphContours(letter: string): PathSegment[][] {
+    return fontTemplateGenerator.getGlyphContours(letter);
+  }
+
+  /**
+   * Single-line strokes along the glyph's centre line, in a proposed teaching order
+   */
+  getCenterlineStrokes(letter: string): PathSegment[][] {
+    return extractCenterlineStrokes(fontTemplateGenerator.getGlyphContours(letter));
+  }
+
+  /**
+   * Write the LETTER_PATHS entry and geometry.ts module for an authored glyph
+   */
+  async exportGlyph(strokes: AuthoringStroke[], letter: string, glyphSet: GlyphSet): Promise<GlyphExportFiles> {
+    try {
+      const options = {
+        letter,
+        glyphSet,
+        referenceHeight: fontTemplateGenerator.getReferenceHeight(glyphSet === 'lowercase' ? 'xHeight' : 'capHeight'),
+        source: fontTemplateGenerator.getFontName(),
+        difficulty: fontTemplateGenerator.estimateDifficulty(strokes.length),
+        confusionPairs: glyphSet === 'uppercase' ? fontTemplateGenerator.getConfusionPairs(letter) : [],
+      };
+      const baseName = `${AUTHORING_DIR}/${glyphSet}_${letter}`;
+      const letterPathsPath = `${baseName}_LetterPaths.ts`;
+      const geometryPath = `${baseName}_geometry.ts`;
+
+      await RNFS.mkdir(AUTHORING_DIR);
+      await RNFS.writeFile(letterPathsPath, buildLetterPathsEntry(strokes, options), 'utf8');
+      await RNFS.writeFile(geometryPath, buildGeometryModule(strokes, options), 'utf8');
+
+      return { letterPathsPath, geometryPath };
+    } catch (error) {
+      console.error('Failed to export glyph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the system share sheet for exported glyph sources
+   */
+  async shareExport(files: GlyphExportFiles): Promise<void> {
+    try {
+      await Share.open({
+        title: 'Letter Geometry',
+        urls: [`file://${files.letterPathsPath}`, `file://${files.geometryPath}`],
+        type: 'text/plain',
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Failed to share glyph export:', error);
+      throw error;
+    }
+  }
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// RNFS reads binary files as base64; opentype.js parses an ArrayBuffer
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    // Four 6-bit digits make one 24-bit group of three bytes
+    const group = [0, 1, 2, 3].reduce(
+      (value, k) => value * 64 + Math.max(0, BASE64_ALPHABET.indexOf(clean[i + k] ?? 'A')),
+      0
+    );
+    [65536, 256, 1].forEach(place => {
+      if (byteIndex < bytes.length) {
+        bytes[byteIndex++] = Math.floor(group / place) % 256;
+      }
+    });
+  }
+
+  return bytes.buffer;
+};
+
+export default LetterAuthoringService.getInstance();
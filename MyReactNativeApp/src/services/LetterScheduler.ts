@@ -0,0 +1,243 @@
+import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import { LETTER_DEFINITIONS, LetterMetadata } from '@models/LetterDefinitions';
+
+/**
+ * Spaced-repetition scheduling for letter practice.
+ *
+ * Each letter's completed sessions are replayed through SM-2 to get an ease
+ * factor and review interval, and through a five-box Leitner system to get
+ * a coarse mastery stage. Nothing is persisted: the schedule is rebuilt
+ * from session history, so it is always consistent with stored analytics.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LEITNER_BOXES = 5;
+
+export const SCHEDULER_DEFAULTS = {
+  dailyLimit: 8,
+  newPerDay: 3,
+  minEaseFactor: 1.3,
+  // Harder letters start with a lower ease so their intervals grow more slowly
+  initialEase: { easy: 2.5, medium: 2.3, hard: 2.1 } as Record<LetterMetadata['difficulty'], number>,
+  // Mirror-confusion composite above which a session counts as a reversal
+  reversalThreshold: 0.5,
+};
+
+export type ScheduleReason = 'due' | 'new' | 'contrast';
+
+export interface LetterCard {
+  letter: string;
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+  leitnerBox: number; // 1 (new/failing) .. LEITNER_BOXES (long-term)
+  lastReviewed: number | null; // ms since epoch
+  dueAt: number; // ms since epoch
+  lastAccuracy: number | null;
+  reversalFlagged: boolean;
+}
+
+export interface ScheduledLetter {
+  letter: string;
+  reason: ScheduleReason;
+  card: LetterCard;
+}
+
+export interface ScheduleOptions {
+  now?: number;
+  childAgeYears?: number;
+  letters?: string[];
+  dailyLimit?: number;
+  newPerDay?: number;
+}
+
+/**
+ * Map a session's accuracy (and reversal) onto the SM-2 0-5 recall grade
+ */
+export const gradeSession = (accuracy: number, reversed: boolean): number => {
+  const grade =
+    accuracy >= 90 ? 5 :
+    accuracy >= 80 ? 4 :
+    accuracy >= 65 ? 3 :
+    accuracy >= 50 ? 2 :
+    accuracy >= 35 ? 1 : 0;
+
+  // A reversed letter was not really recalled, however neat the trace
+  return reversed ? Math.max(0, Math.min(grade, 3) - 1) : grade;
+};
+
+const isReversal = (record: ComprehensiveTracingAnalytics): boolean => {
+  if (record.unavailable_domains.includes('letter_reversal_orientation')) return false;
+  const orientation = record.letter_reversal_orientation;
+  return (
+    orientation.left_right_confusion_indicator ||
+    orientation.mirror_confusion_composite_score > SCHEDULER_DEFAULTS.reversalThreshold
+  );
+};
+
+const newCard = (letter: string, now: number): LetterCard => ({
+  letter,
+  repetitions: 0,
+  easeFactor: SCHEDULER_DEFAULTS.initialEase[LETTER_DEFINITIONS[letter]?.difficulty ?? 'medium'],
+  intervalDays: 0,
+  leitnerBox: 1,
+  lastReviewed: null,
+  dueAt: now,
+  lastAccuracy: null,
+  reversalFlagged: false,
+});
+
+/**
+ * Apply one graded review to a card (SM-2 interval and ease, Leitner promotion)
+ */
+export const reviewCard = (card: LetterCard, grade: number, reviewedAt: number): LetterCard => {
+  const passed = grade >= 3;
+  const repetitions = passed ? card.repetitions + 1 : 0;
+
+  let intervalDays: number;
+  if (!passed || repetitions === 1) intervalDays = 1;
+  else if (repetitions === 2) intervalDays = 6;
+  else intervalDays = Math.round(card.intervalDays * card.easeFactor);
+
+  const easeFactor = Math.max(
+    SCHEDULER_DEFAULTS.minEaseFactor,
+    card.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  return {
+    ...card,
+    repetitions,
+    easeFactor,
+    intervalDays,
+    leitnerBox: passed ? Math.min(LEITNER_BOXES, card.leitnerBox + 1) : 1,
+    lastReviewed: reviewedAt,
+    dueAt: reviewedAt + intervalDays * DAY_MS,
+  };
+};
+
+/**
+ * Replay every completed session into per-letter cards
+ */
+export const buildLetterCards = (
+  history: ComprehensiveTracingAnalytics[],
+  letters: string[] = Object.keys(LETTER_DEFINITIONS),
+  now: number = Date.now()
+): Record<string, LetterCard> => {
+  const cards: Record<string, LetterCard> = {};
+  letters.forEach(letter => {
+    cards[letter] = newCard(letter, now);
+  });
+
+  [...history]
+    .filter(r => r.completion_persistence.letter_completion_status === 'completed')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(record => {
+      const card = cards[record.letter];
+      if (!card) return;
+
+      const accuracy = record.spatial_accuracy_deviation.accuracy_score;
+      const reversed = isReversal(record);
+      cards[record.letter] = {
+        ...reviewCard(card, gradeSession(accuracy, reversed), new Date(record.timestamp).getTime()),
+        lastAccuracy: accuracy,
+        reversalFlagged: reversed,
+      };
+    });
+
+  return cards;
+};
+
+/**
+ * Order unseen letters: age-appropriate first, then easy before hard, then common before rare
+ */
+const rankNewLetters = (letters: string[], childAgeYears?: number): string[] => {
+  const difficultyRank = { easy: 0, medium: 1, hard: 2 };
+
+  return [...letters].sort((a, b) => {
+    const da = LETTER_DEFINITIONS[a];
+    const db = LETTER_DEFINITIONS[b];
+    if (!da || !db) return a.localeCompare(b);
+
+    if (childAgeYears !== undefined) {
+      const readyA = da.typicalMasteryAge <= childAgeYears ? 0 : 1;
+      const readyB = db.typicalMasteryAge <= childAgeYears ? 0 : 1;
+      if (readyA !== readyB) return readyA - readyB;
+    }
+
+    return (
+      difficultyRank[da.difficulty] - difficultyRank[db.difficulty] ||
+      da.typicalMasteryAge - db.typicalMasteryAge ||
+      db.frequency - da.frequency
+    );
+  });
+};
+
+/**
+ * Place each letter's confusable partner straight after it, so reversals are
+ * practised as contrasts (b then d) rather than in isolation
+ */
+const interleaveConfusables = (
+  queue: ScheduledLetter[],
+  cards: Record<string, LetterCard>,
+  limit: number
+): ScheduledLetter[] => {
+  const result: ScheduledLetter[] = [];
+  const placed = new Set<string>();
+  const remaining = [...queue];
+
+  while (remaining.length > 0 && result.length < limit) {
+    const item = remaining.shift() as ScheduledLetter;
+    if (placed.has(item.letter)) continue;
+    result.push(item);
+    placed.add(item.letter);
+
+    const partners = LETTER_DEFINITIONS[item.letter]?.confusionPairs ?? [];
+    const queuedPartner = partners.find(p => remaining.some(r => r.letter === p) && !placed.has(p));
+    const partner =
+      queuedPartner ??
+      (item.card.reversalFlagged
+        ? partners.find(p => cards[p] && cards[p].lastReviewed !== null && !placed.has(p))
+        : undefined);
+
+    if (partner && result.length < limit) {
+      const queued = remaining.find(r => r.letter === partner);
+      result.push(queued ?? { letter: partner, reason: 'contrast', card: cards[partner] });
+      placed.add(partner);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Build today's "practice next" queue from a child's session history
+ */
+export const buildPracticeQueue = (
+  history: ComprehensiveTracingAnalytics[],
+  options: ScheduleOptions = {}
+): ScheduledLetter[] => {
+  const now = options.now ?? Date.now();
+  const dailyLimit = options.dailyLimit ?? SCHEDULER_DEFAULTS.dailyLimit;
+  const newPerDay = options.newPerDay ?? SCHEDULER_DEFAULTS.newPerDay;
+  const letters = options.letters ?? Object.keys(LETTER_DEFINITIONS);
+  const cards = buildLetterCards(history, letters, now);
+
+  const seen = letters.filter(l => cards[l].lastReviewed !== null);
+  const unseen = letters.filter(l => cards[l].lastReviewed === null);
+
+  // Most overdue relative to its interval first; lower Leitner boxes break ties
+  const due = seen
+    .filter(l => cards[l].dueAt <= now)
+    .sort((a, b) => {
+      const overdue = (l: string) => (now - cards[l].dueAt) / (Math.max(1, cards[l].intervalDays) * DAY_MS);
+      return overdue(b) - overdue(a) || cards[a].leitnerBox - cards[b].leitnerBox;
+    })
+    .map(letter => ({ letter, reason: 'due' as const, card: cards[letter] }));
+
+  const fresh = rankNewLetters(unseen, options.childAgeYears)
+    .slice(0, newPerDay)
+    .map(letter => ({ letter, reason: 'new' as const, card: cards[letter] }));
+
+  return interleaveConfusables([...due, ...fresh], cards, dailyLimit);
+};
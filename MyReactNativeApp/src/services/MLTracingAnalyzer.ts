@@ -1,25 +1,13 @@
 import { modelService } from './ModelService';
-import {
-    rasterizeStrokes,
-    getCharFromIndex,
-    flipHorizontal,
-    flipVertical,
-    rotate180,
-    ALPHABET_INDICES
-} from '../utils/WritingUtils';
-
-export interface MLFeatures {
-    predictedChar: string;
-    expectedChar: string;
-    isCorrect: boolean;
-    confidence: number;
-    topPredictions: Array<{ char: string; confidence: number }>;
-    reversalDetected: boolean;
-    reversalType?: 'horizontal_flip' | 'vertical_flip' | 'rotation_180';
-    reversalConfidence?: number;
-    allProbabilities?: number[];
-    analysisTimestamp: string;
-}
+import { getCharFromIndex, getIndexFromChar, ORIENTATIONS } from '../utils/WritingUtils';
+import { MLFeatures, Orientation, RecognizerName } from '@models/TracingData';
+
+export type { MLFeatures };
+
+/**
+ * Re-ranks a backend's probabilities (e.g. with a child's confirmed samples); null keeps them
+ */
+export type Personalizer = (backend: RecognizerName, probabilities: number[]) => Promise<number[] | null>;
 
 interface Stroke {
     x: number;
@@ -33,35 +21,45 @@ export class MLTracingAnalyzer {
      * @param expectedLetter - The letter the user was supposed to trace
      * @param canvasWidth - Width of the canvas
      * @param canvasHeight - Height of the canvas
+     * @param personalize - Optional re-ranking of the upright prediction
      * @returns ML analysis features
      */
     static async analyzeTracing(
         strokes: Stroke[][],
         expectedLetter: string,
         canvasWidth: number = 400,
-        canvasHeight: number = 400
+        canvasHeight: number = 400,
+        personalize?: Personalizer
     ): Promise<MLFeatures | null> {
         try {
             console.log(`[MLTracingAnalyzer] Analyzing ${strokes.length} strokes for letter: ${expectedLetter}`);
 
-            // 1. Rasterize strokes to 28x28 grid
-            const inputTensor = rasterizeStrokes(strokes, canvasWidth, canvasHeight);
-
-            // 2. Run ML inference
-            const probabilities = await modelService.predict(inputTensor);
-
-            if (!probabilities) {
-                console.error('[MLTracingAnalyzer] Model prediction failed');
+            // 1-3. Recognize every orientation in one batch; identity is the plain prediction
+            const recognition = await modelService.recognizeOrientations(
+                strokes,
+                ORIENTATIONS.map(o => o.orientation),
+                canvasWidth,
+                canvasHeight
+            );
+            if (!recognition) {
+                console.warn('[MLTracingAnalyzer] No recognizer could read the strokes');
                 return null;
             }
+            const backend = recognition.backend;
+            const orientationProbabilities = {} as Record<Orientation, number[]>;
+            recognition.orientations.forEach((orientation, i) => {
+                orientationProbabilities[orientation] = recognition.probabilities[i];
+            });
 
-            // 3. Get predicted character
-            const maxProbIndex = probabilities.indexOf(Math.max(...probabilities));
-            const predictedChar = getCharFromIndex(maxProbIndex);
-            const confidence = probabilities[maxProbIndex];
+            const probabilities = orientationProbabilities.identity;
+            const personalized = personalize ? await personalize(backend, probabilities) : null;
+            const ranked = personalized ?? probabilities;
+            const maxIndex = ranked.indexOf(Math.max(...ranked));
+            const predictedChar = getCharFromIndex(maxIndex);
+            const confidence = ranked[maxIndex];
 
             // 4. Get top 5 predictions
-            const topIndices = probabilities
+            const topIndices = ranked
                 .map((prob, idx) => ({ prob, idx }))
                 .sort((a, b) => b.prob - a.prob)
                 .slice(0, 5);
@@ -76,14 +74,11 @@ export class MLTracingAnalyzer {
 
             // 6. Reversal Detection (only if incorrect)
             let reversalDetected = false;
-            let reversalType: MLFeatures['reversalType'] = undefined;
-            let reversalConfidence: number | undefined = undefined;
+            let reversalType: MLFeatures['reversalType'];
+            let reversalConfidence: number | undefined;
 
             if (!isCorrect) {
-                const reversalResult = await this.detectReversal(
-                    inputTensor,
-                    expectedLetter
-                );
+                const reversalResult = this.detectReversal(orientationProbabilities, expectedLetter);
 
                 if (reversalResult) {
                     reversalDetected = true;
@@ -93,15 +88,18 @@ export class MLTracingAnalyzer {
             }
 
             const mlFeatures: MLFeatures = {
+                recognizer: backend,
                 predictedChar,
                 expectedChar: expectedLetter,
                 isCorrect,
                 confidence,
                 topPredictions,
+                personalized: personalized !== null,
                 reversalDetected,
                 reversalType,
                 reversalConfidence,
                 allProbabilities: probabilities,
+                orientationProbabilities,
                 analysisTimestamp: new Date().toISOString()
             };
 
@@ -110,7 +108,8 @@ export class MLTracingAnalyzer {
                 expected: expectedLetter,
                 correct: isCorrect,
                 confidence: (confidence * 100).toFixed(1) + '%',
-                reversal: reversalDetected ? reversalType : 'none'
+                reversal: reversalDetected ? reversalType : 'none',
+                recognizer: backend
             });
 
             return mlFeatures;
@@ -122,80 +121,36 @@ export class MLTracingAnalyzer {
     }
 
     /**
-     * Detect if the character was written in reverse/upside-down
+     * Detect if the character was written in reverse/upside-down: some other
+     * orientation reads as the expected letter. The most confident one wins.
      */
-    private static async detectReversal(
-        inputTensor: Float32Array,
+    private static detectReversal(
+        orientationProbabilities: Record<Orientation, number[]>,
         expectedLetter: string
-    ): Promise<{ type: MLFeatures['reversalType']; confidence: number } | null> {
-        try {
-            // Get the expected character's class index
-            const expectedIndex = this.getExpectedCharIndex(expectedLetter);
-            if (expectedIndex === -1) {
-                return null;
-            }
-
-            // Test horizontal flip
-            const flippedH = flipHorizontal(inputTensor);
-            const predH = await modelService.predict(flippedH);
-            if (predH) {
-                const maxHIndex = predH.indexOf(Math.max(...predH));
-                if (maxHIndex === expectedIndex) {
-                    return {
-                        type: 'horizontal_flip',
-                        confidence: predH[maxHIndex]
-                    };
-                }
-            }
-
-            // Test vertical flip
-            const flippedV = flipVertical(inputTensor);
-            const predV = await modelService.predict(flippedV);
-            if (predV) {
-                const maxVIndex = predV.indexOf(Math.max(...predV));
-                if (maxVIndex === expectedIndex) {
-                    return {
-                        type: 'vertical_flip',
-                        confidence: predV[maxVIndex]
-                    };
-                }
-            }
-
-            // Test 180° rotation
-            const rotated = rotate180(inputTensor);
-            const predR = await modelService.predict(rotated);
-            if (predR) {
-                const maxRIndex = predR.indexOf(Math.max(...predR));
-                if (maxRIndex === expectedIndex) {
-                    return {
-                        type: 'rotation_180',
-                        confidence: predR[maxRIndex]
-                    };
-                }
-            }
-
+    ): { type: MLFeatures['reversalType']; confidence: number } | null {
+        // Get the expected character's class index
+        const expectedIndex = this.getExpectedCharIndex(expectedLetter);
+        if (expectedIndex === -1) {
             return null;
+        }
 
-        } catch (error) {
-            console.error('[MLTracingAnalyzer] Error in reversal detection:', error);
-            return null;
+        let best: { type: MLFeatures['reversalType']; confidence: number } | null = null;
+        for (const { orientation } of ORIENTATIONS) {
+            if (orientation === 'identity') continue;
+            const probabilities = orientationProbabilities[orientation];
+            const maxIndex = probabilities.indexOf(Math.max(...probabilities));
+            if (maxIndex === expectedIndex && (!best || probabilities[maxIndex] > best.confidence)) {
+                best = { type: orientation, confidence: probabilities[maxIndex] };
+            }
         }
+
+        return best;
     }
 
     /**
      * Get the class index for the expected character
      */
     private static getExpectedCharIndex(letter: string): number {
-        const mapping = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabdefghnqrt";
-        const upperLetter = letter.toUpperCase();
-        const lowerLetter = letter.toLowerCase();
-
-        // Try uppercase first
-        let index = mapping.indexOf(upperLetter);
-        if (index !== -1) return index;
-
-        // Try lowercase
-        index = mapping.indexOf(lowerLetter);
-        return index;
+        return getIndexFromChar(letter);
     }
 }
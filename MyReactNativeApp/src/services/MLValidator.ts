@@ -1,11 +1,12 @@
 import { modelService } from './ModelService';
-import { rasterizeStrokes, getCharFromIndex } from '../utils/WritingUtils';
+import { RecognizerName } from './recognizers/Recognizer';
 
 export interface MLValidationResult {
     isCorrect: boolean;
     confidence: number;
     predictedChar: string;
     expectedChar: string;
+    recognizer: RecognizerName;
 }
 
 interface Point {
@@ -39,37 +40,31 @@ export class MLValidator {
 
             console.log(`[MLValidator] Validating ${strokes.length} strokes for letter: ${expectedLetter}`);
 
-            // 1. Rasterize strokes to 28x28 grid
-            const inputTensor = rasterizeStrokes(strokes, canvasWidth, canvasHeight);
-
-            // 2. Run ML inference
-            const probabilities = await modelService.predict(inputTensor);
-
-            if (!probabilities) {
-                console.error('[MLValidator] Model prediction failed');
+            // 1. Recognize with the first available backend
+            const recognition = await modelService.recognize(strokes, canvasWidth, canvasHeight);
+            if (!recognition) {
+                console.warn('[MLValidator] No recognizer could read the strokes');
                 return null;
             }
+            const { predictedChar, confidence, backend } = recognition;
 
-            // 3. Get predicted character
-            const maxProbIndex = probabilities.indexOf(Math.max(...probabilities));
-            const predictedChar = getCharFromIndex(maxProbIndex);
-            const confidence = probabilities[maxProbIndex];
-
-            // 4. Check if prediction matches expected letter (case-insensitive)
+            // 2. Check if prediction matches expected letter (case-insensitive)
             const isCorrect = predictedChar.toLowerCase() === expectedLetter.toLowerCase();
 
             const result: MLValidationResult = {
                 isCorrect,
                 confidence,
                 predictedChar,
-                expectedChar: expectedLetter
+                expectedChar: expectedLetter,
+                recognizer: backend
             };
 
             console.log('[MLValidator] Validation result:', {
                 predicted: predictedChar,
                 expected: expectedLetter,
                 correct: isCorrect,
-                confidence: (confidence * 100).toFixed(1) + '%'
+                confidence: (confidence * 100).toFixed(1) + '%',
+                recognizer: backend
             });
 
             return result;
@@ -1,97 +1,152 @@
-import { loadTensorflowModel, TensorflowModel } from 'react-native-fast-tflite';
-import { Platform } from 'react-native';
-import RNFS from 'react-native-fs';
+import { Orientation, Point } from '@models/TracingData';
+import { Recognizer, RecognizerName, RecognitionResult, toRecognitionResult } from './recognizers/Recognizer';
+import { TFLiteRecognizer } from './recognizers/TFLiteRecognizer';
+import { PointCloudRecognizer } from './recognizers/PointCloudRecognizer';
+import { DEFAULT_SCRIPT_PACK, ScriptPack, ScriptPackId, getScriptPack } from '@constants/ScriptPacks';
+
+// Tried in order until one answers. The mock is never a fallback: its made-up
+// answers would be recorded as real recognitions; tests register it explicitly.
+const FALLBACK_ORDER: RecognizerName[] = ['tflite', 'pointcloud'];
+
+export interface OrientationRecognition {
+    backend: RecognizerName;
+    orientations: Orientation[];
+    // probabilities[i] is the class distribution under orientations[i]
+    probabilities: number[][];
+}
 
+/**
+ * Front door for handwriting recognition. Holds the interchangeable
+ * recognizer backends and picks the first one that can answer.
+ */
 class ModelService {
-    private model: TensorflowModel | null = null;
-    private isModelLoading: boolean = false;
+    private tflite = new TFLiteRecognizer();
+    private backends = new Map<RecognizerName, Recognizer>();
+    private preferred: RecognizerName | null = null;
+    private scriptPack: ScriptPackId = DEFAULT_SCRIPT_PACK;
+    // Templates are built once per set of letters; switching profiles back and
+    // forth reuses them, and packs that share print capitals share one recognizer
+    private pointClouds = new Map<ScriptPack['letterPaths'], PointCloudRecognizer>();
+
+    constructor() {
+        this.registerRecognizer(this.tflite);
+        this.registerRecognizer(this.pointCloudFor(DEFAULT_SCRIPT_PACK));
+    }
 
-    async loadModel(): Promise<void> {
-        if (this.model || this.isModelLoading) return;
-
-        this.isModelLoading = true;
-        try {
-            console.log('Loading TFLite model...');
-
-            const modelFileName = 'emnist_cnn_model.tflite';
-
-            if (Platform.OS === 'android') {
-                // For Android: Copy from assets to cache directory
-                const destPath = `${RNFS.CachesDirectoryPath}/${modelFileName}`;
-
-                const exists = await RNFS.exists(destPath);
-                if (!exists) {
-                    console.log('Copying model from assets...');
-                    // Android assets are accessed via special path
-                    await RNFS.copyFileAssets(modelFileName, destPath);
-                    console.log(`Model copied to: ${destPath}`);
-                }
-
-                // Load from file path
-                this.model = await loadTensorflowModel({ url: `file://${destPath}` });
-            } else {
-                // iOS: Load from main bundle
-                const bundlePath = `${RNFS.MainBundlePath}/${modelFileName}`;
-                this.model = await loadTensorflowModel({ url: `file://${bundlePath}` });
-            }
+    /**
+     * Add or replace a backend (e.g. a MockRecognizer with a fixed answer in tests)
+     */
+    registerRecognizer(recognizer: Recognizer): void {
+        this.backends.set(recognizer.name, recognizer);
+    }
 
-            if (this.model) {
-                console.log('TFLite Model loaded successfully!');
-            } else {
-                console.error('Failed to load TFLite Model: Model object is null');
-            }
-        } catch (error) {
-            console.error('Error loading TFLite model:', error);
-        } finally {
-            this.isModelLoading = false;
-        }
+    /**
+     * Prefer one backend; null restores the automatic fallback order
+     */
+    setBackend(name: RecognizerName | null): void {
+        this.preferred = name;
     }
 
-    async predict(inputTensor: Float32Array): Promise<number[] | null> {
-        if (!this.model) {
-            console.warn('Model not loaded yet. Attempting to load...');
-            await this.loadModel();
-            if (!this.model) return null;
-        }
+    /**
+     * Retrain the point-cloud templates on a script pack's letters, so a
+     * child taught slanted print isn't matched against upright letters
+     */
+    setScriptPack(id?: string | null): void {
+        const pack = getScriptPack(id);
+        if (pack.id === this.scriptPack) return;
 
-        try {
-            console.log(`Running inference with input length: ${inputTensor.length}`);
+        this.scriptPack = pack.id;
+        this.registerRecognizer(this.pointCloudFor(pack.id));
+    }
 
-            // Check for NaNs or Infinities
-            if (inputTensor.some(v => isNaN(v) || !isFinite(v))) {
-                console.error('Input tensor contains NaN or Infinite values');
-                return null;
-            }
+    getBackend(name: RecognizerName): Recognizer | undefined {
+        return this.backends.get(name);
+    }
 
-            // CRITICAL: Model expects [1, 28, 28, 1] shape
-            // But react-native-fast-tflite accepts flat arrays
-            const output = await this.model.run([inputTensor]);
+    async loadModel(): Promise<void> {
+        await this.tflite.loadModel();
+    }
 
-            if (output && output.length > 0) {
-                console.log(`Inference successful. Output length: ${output[0].length}`);
+    /**
+     * Raw TFLite inference on a rasterized 28x28 tensor
+     */
+    async predict(inputTensor: Float32Array): Promise<number[] | null> {
+        return this.tflite.predictTensor(inputTensor);
+    }
 
-                // CRITICAL FIX: Model outputs LOGITS, not probabilities
-                // We need to apply softmax manually
-                const logits = Array.from(output[0] as unknown as Float32Array);
-                const probabilities = this.softmax(logits);
+    /**
+     * Recognize strokes with the preferred backend, falling back until one answers.
+     * Returns null when no backend can read the drawing.
+     */
+    async recognize(
+        strokes: Point[][],
+        canvasWidth: number = 400,
+        canvasHeight: number = 400
+    ): Promise<RecognitionResult | null> {
+        for (const name of this.fallbackOrder()) {
+            const backend = this.backends.get(name);
+            if (!backend) continue;
+            try {
+                const probabilities = await backend.predict({ strokes, canvasWidth, canvasHeight });
+                if (probabilities) return toRecognitionResult(name, probabilities);
+            } catch (error) {
+                console.error(`Failed to recognize with ${name}:`, error);
+            }
+        }
+        return null;
+    }
 
-                return probabilities;
+    /**
+     * Recognize strokes under several orientations in one call to a single
+     * backend, so every row of the matrix comes from the same recognizer.
+     * Returns null when no backend can read the drawing.
+     */
+    async recognizeOrientations(
+        strokes: Point[][],
+        orientations: Orientation[],
+        canvasWidth: number = 400,
+        canvasHeight: number = 400
+    ): Promise<OrientationRecognition | null> {
+        for (const name of this.fallbackOrder()) {
+            const backend = this.backends.get(name);
+            if (!backend) continue;
+            try {
+                const probabilities = await backend.predictOrientations({ strokes, canvasWidth, canvasHeight }, orientations);
+                if (probabilities) return { backend: name, orientations, probabilities };
+            } catch (error) {
+                console.error(`Failed to recognize orientations with ${name}:`, error);
             }
-            console.warn('Inference returned empty output');
-            return null;
-        } catch (error) {
-            console.error('Error running inference details:', error);
-            console.log('Model state:', this.model ? 'Attached' : 'Null');
-            return null;
         }
+        return null;
     }
 
-    // Softmax function to convert logits to probabilities
-    private softmax(logits: number[]): number[] {
-        const maxLogit = Math.max(...logits);
-        const expScores = logits.map(x => Math.exp(x - maxLogit)); // Subtract max for numerical stability
-        const sumExpScores = expScores.reduce((a, b) => a + b, 0);
-        return expScores.map(x => x / sumExpScores);
+    /**
+     * Run every available backend on the same input
+     */
+    async compareBackends(strokes: Point[][], canvasWidth: number = 400, canvasHeight: number = 400): Promise<RecognitionResult[]> {
+        const results: RecognitionResult[] = [];
+        for (const [name, backend] of this.backends) {
+            if (!(await backend.isAvailable())) continue;
+            const probabilities = await backend.predict({ strokes, canvasWidth, canvasHeight });
+            if (probabilities) results.push(toRecognitionResult(name, probabilities));
+        }
+        return results;
+    }
+
+    private fallbackOrder(): RecognizerName[] {
+        return this.preferred
+            ? [this.preferred, ...FALLBACK_ORDER.filter(name => name !== this.preferred)]
+            : FALLBACK_ORDER;
+    }
+
+    private pointCloudFor(id: ScriptPackId): PointCloudRecognizer {
+        const { letterPaths } = getScriptPack(id);
+        let recognizer = this.pointClouds.get(letterPaths);
+        if (!recognizer) {
+            recognizer = new PointCloudRecognizer(undefined, letterPaths);
+            this.pointClouds.set(letterPaths, recognizer);
+        }
+        return recognizer;
     }
 }
 
@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import { RecognizerName } from '@models/TracingData';
+import { PersonalizationStore } from './storage/PersonalizationStore';
+import { rasterizeStrokes } from '@utils/WritingUtils';
+
+/**
+ * Per-child personalization of handwriting recognition from therapist-confirmed sessions
+ */
+export class PersonalizationService {
+  private static instance: PersonalizationService;
+  private store = new PersonalizationStore(AsyncStorage);
+
+  private constructor() {}
+
+  static getInstance(): PersonalizationService {
+    if (!PersonalizationService.instance) {
+      PersonalizationService.instance = new PersonalizationService();
+    }
+    return PersonalizationService.instance;
+  }
+
+  /**
+   * Record which letter a session's drawing really was. Returns false when
+   * the session has no recognizer output to learn from.
+   */
+  async confirmSession(analytics: ComprehensiveTracingAnalytics, letter: string): Promise<boolean> {
+    const probabilities = analytics.ml_recognition?.allProbabilities;
+    if (!probabilities) return false;
+
+    try {
+      const strokes = analytics.stroke_count_sequencing.strokes.map(stroke =>
+        stroke.points.map(p => ({ x: p.x, y: p.y }))
+      );
+      await this.store.addSample(analytics.user_id, {
+        letter,
+        backend: analytics.ml_recognition?.recognizer ?? 'tflite',
+        session_id: analytics.session_id,
+        grid: Array.from(rasterizeStrokes(strokes, 400, 400)),
+        probabilities,
+        confirmed_at: new Date().toISOString(),
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to confirm sample:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-rank recognizer probabilities for a profile; null leaves the model's answer as is
+   */
+  async rerank(profileId: string, backend: RecognizerName, probabilities: number[]): Promise<number[] | null> {
+    try {
+      return await this.store.rerank(profileId, backend, probabilities);
+    } catch (error) {
+      console.error('Failed to personalize prediction:', error);
+      return null;
+    }
+  }
+
+  async getSampleCounts(profileId: string): Promise<Record<string, number>> {
+    try {
+      return await this.store.getSampleCounts(profileId);
+    } catch (error) {
+      console.error('Failed to get personalization samples:', error);
+      return {};
+    }
+  }
+
+  async reset(profileId: string): Promise<void> {
+    try {
+      await this.store.reset(profileId);
+    } catch (error) {
+      console.error('Failed to reset personalization:', error);
+      throw error;
+    }
+  }
+}
+
+export default PersonalizationService.getInstance();
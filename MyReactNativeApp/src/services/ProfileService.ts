@@ -0,0 +1,173 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChildProfile, ChildProfileInput } from '@models/ProfileTypes';
+
+const PROFILE_KEYS = {
+  PROFILES: '@child_profiles',
+  ACTIVE_PROFILE: '@active_profile_id',
+};
+
+type ProfileListener = (profile: ChildProfile | null) => void;
+
+/**
+ * Profile service for creating, switching and archiving child profiles
+ */
+export class ProfileService {
+  private static instance: ProfileService;
+  private listeners = new Set<ProfileListener>();
+
+  private constructor() {}
+
+  static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  /**
+   * Get profiles, optionally including archived ones
+   */
+  async getProfiles(includeArchived: boolean = false): Promise<ChildProfile[]> {
+    try {
+      const data = await AsyncStorage.getItem(PROFILE_KEYS.PROFILES);
+      const profiles: ChildProfile[] = data ? JSON.parse(data) : [];
+      return includeArchived ? profiles : profiles.filter(p => !p.archived_at);
+    } catch (error) {
+      console.error('Failed to get profiles:', error);
+      return [];
+    }
+  }
+
+  async getProfile(profileId: string): Promise<ChildProfile | null> {
+    const profiles = await this.getProfiles(true);
+    return profiles.find(p => p.id === profileId) ?? null;
+  }
+
+  /**
+   * Create a profile; the first profile becomes active automatically
+   */
+  async createProfile(input: ChildProfileInput): Promise<ChildProfile> {
+    const profile: ChildProfile = {
+      ...input,
+      id: `child_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      created_at: new Date().toISOString(),
+      archived_at: null,
+    };
+
+    try {
+      const profiles = await this.getProfiles(true);
+      await this.saveProfiles([...profiles, profile]);
+
+      if (!(await this.getActiveProfile())) {
+        await this.setActiveProfile(profile.id);
+      }
+      return profile;
+    } catch (error) {
+      console.error('Failed to create profile:', error);
+      throw error;
+    }
+  }
+
+  async updateProfile(profileId: string, changes: Partial<ChildProfileInput>): Promise<ChildProfile | null> {
+    try {
+      const profiles = await this.getProfiles(true);
+      const existing = profiles.find(p => p.id === profileId);
+      if (!existing) return null;
+
+      const updated = { ...existing, ...changes };
+      await this.saveProfiles(profiles.map(p => (p.id === profileId ? updated : p)));
+
+      if ((await AsyncStorage.getItem(PROFILE_KEYS.ACTIVE_PROFILE)) === profileId) {
+        this.notify(updated);
+      }
+      return updated;
+    } catch (error) {
+      console.error('Failed to update profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hide a profile from pickers; its sessions stay in storage
+   */
+  async archiveProfile(profileId: string): Promise<void> {
+    try {
+      const profiles = await this.getProfiles(true);
+      const archivedAt = new Date().toISOString();
+      await this.saveProfiles(
+        profiles.map(p => (p.id === profileId ? { ...p, archived_at: archivedAt } : p))
+      );
+
+      const activeId = await AsyncStorage.getItem(PROFILE_KEYS.ACTIVE_PROFILE);
+      if (activeId === profileId) {
+        const next = profiles.find(p => p.id !== profileId && !p.archived_at);
+        await this.setActiveProfile(next ? next.id : null);
+      }
+    } catch (error) {
+      console.error('Failed to archive profile:', error);
+      throw error;
+    }
+  }
+
+  async restoreProfile(profileId: string): Promise<void> {
+    try {
+      const profiles = await this.getProfiles(true);
+      await this.saveProfiles(
+        profiles.map(p => (p.id === profileId ? { ...p, archived_at: null } : p))
+      );
+    } catch (error) {
+      console.error('Failed to restore profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the profile new sessions are recorded against
+   */
+  async getActiveProfile(): Promise<ChildProfile | null> {
+    try {
+      const activeId = await AsyncStorage.getItem(PROFILE_KEYS.ACTIVE_PROFILE);
+      if (!activeId) return null;
+
+      const profile = await this.getProfile(activeId);
+      return profile && !profile.archived_at ? profile : null;
+    } catch (error) {
+      console.error('Failed to get active profile:', error);
+      return null;
+    }
+  }
+
+  async setActiveProfile(profileId: string | null): Promise<void> {
+    try {
+      if (profileId) {
+        await AsyncStorage.setItem(PROFILE_KEYS.ACTIVE_PROFILE, profileId);
+      } else {
+        await AsyncStorage.removeItem(PROFILE_KEYS.ACTIVE_PROFILE);
+      }
+      this.notify(profileId ? await this.getProfile(profileId) : null);
+    } catch (error) {
+      console.error('Failed to set active profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to active profile changes; returns an unsubscribe function
+   */
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async saveProfiles(profiles: ChildProfile[]): Promise<void> {
+    await AsyncStorage.setItem(PROFILE_KEYS.PROFILES, JSON.stringify(profiles));
+  }
+
+  private notify(profile: ChildProfile | null): void {
+    this.listeners.forEach(listener => listener(profile));
+  }
+}
+
+export default ProfileService.getInstance();
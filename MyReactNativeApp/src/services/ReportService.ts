@@ -0,0 +1,118 @@
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { generatePDF } from 'react-native-html-to-pdf';
+import { PDFClinicalSummary } from '@models/AnalyticsTypes';
+import ProfileService from './ProfileService';
+import StorageService from './StorageService';
+import { buildClinicalReport } from './reports/ClinicalReportBuilder';
+import {
+  buildCohortExport,
+  cohortToCSV,
+  CohortExportOptions,
+  dictionaryToCSV,
+} from './reports/CohortExport';
+
+export interface GeneratedReport {
+  summary: PDFClinicalSummary;
+  htmlPath: string;
+  pdfPath: string;
+}
+
+export interface CohortExportFiles {
+  csvPath: string;
+  dictionaryPath: string;
+  sessionCount: number;
+  childCount: number;
+}
+
+/**
+ * Offline clinical reports (HTML and PDF) and research exports
+ */
+export class ReportService {
+  private static instance: ReportService;
+
+  private constructor() {}
+
+  static getInstance(): ReportService {
+    if (!ReportService.instance) {
+      ReportService.instance = new ReportService();
+    }
+    return ReportService.instance;
+  }
+
+  /**
+   * Write the report for a profile as HTML and PDF in the documents directory
+   */
+  async generateReport(profileId: string): Promise<GeneratedReport> {
+    try {
+      const profile = await ProfileService.getProfile(profileId);
+      if (!profile) {
+        throw new Error(`Unknown profile ${profileId}`);
+      }
+
+      const sessions = await StorageService.getAllAnalytics(profileId);
+      const { summary, html } = buildClinicalReport(profile, sessions);
+
+      const fileName = `clinical_report_${profileId}_${summary.generated_date.slice(0, 10)}`;
+      const htmlPath = `${RNFS.DocumentDirectoryPath}/${fileName}.html`;
+      await RNFS.writeFile(htmlPath, html, 'utf8');
+
+      const pdf = await generatePDF({
+        html,
+        fileName,
+        directory: 'Documents',
+        shouldPrintBackgrounds: true,
+      });
+
+      return { summary, htmlPath, pdfPath: pdf.filePath };
+    } catch (error) {
+      console.error('Failed to generate report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Export every session of every child (archived ones included) for research,
+   * with a data-dictionary CSV alongside
+   */
+  async exportCohort(options: CohortExportOptions = {}): Promise<CohortExportFiles> {
+    try {
+      const profiles = await ProfileService.getProfiles(true);
+      const sessions = (
+        await Promise.all(profiles.map(profile => StorageService.getAllAnalytics(profile.id)))
+      ).flat();
+
+      const cohort = buildCohortExport(sessions, options);
+      const stamp = new Date().toISOString().slice(0, 10);
+      const csvPath = `${RNFS.DocumentDirectoryPath}/cohort_export_${stamp}.csv`;
+      const dictionaryPath = `${RNFS.DocumentDirectoryPath}/cohort_export_${stamp}_dictionary.csv`;
+
+      await RNFS.writeFile(csvPath, cohortToCSV(cohort), 'utf8');
+      await RNFS.writeFile(dictionaryPath, dictionaryToCSV(cohort), 'utf8');
+
+      return { csvPath, dictionaryPath, sessionCount: sessions.length, childCount: profiles.length };
+    } catch (error) {
+      console.error('Failed to export cohort:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the system share sheet for a generated PDF
+   */
+  async shareReport(pdfPath: string): Promise<void> {
+    try {
+      await Share.open({
+        title: 'Handwriting Report',
+        url: `file://${pdfPath}`,
+        type: 'application/pdf',
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Failed to share report:', error);
+      throw error;
+    }
+  }
+}
+
+export default ReportService.getInstance();
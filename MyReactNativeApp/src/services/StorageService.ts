@@ -1,13 +1,13 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import RNFS from 'react-native-fs';
-import { SessionFeatureSummary } from '@models/TracingData';
+import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import { SessionStore } from './storage/SessionStore';
+import { LEGACY_USER_ID } from './storage/SessionMigrations';
+import { SessionComparisonResult, comparisonToCSV } from './analytics/SessionComparison';
+import { SessionOutcome } from './analytics/LongitudinalAnalyzer';
 
 const STORAGE_KEYS = {
-  USER_PROFILE: '@user_profile',
-  SESSION_DATA: '@session_data',
-  ANALYTICS_HISTORY: '@analytics_history',
   PROGRESS_DATA: '@progress_data',
-  SETTINGS: '@settings',
 };
 
 /**
@@ -15,6 +15,7 @@ const STORAGE_KEYS = {
  */
 export class StorageService {
   private static instance: StorageService;
+  private sessions = new SessionStore(AsyncStorage);
 
   private constructor() { }
 
@@ -28,13 +29,9 @@ export class StorageService {
   /**
    * Save analytics data
    */
-  async saveAnalytics(analytics: SessionFeatureSummary): Promise<void> {
+  async saveAnalytics(analytics: ComprehensiveTracingAnalytics): Promise<void> {
     try {
-      const key = `${STORAGE_KEYS.SESSION_DATA}_${analytics.sessionId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(analytics));
-
-      // Update analytics history index
-      await this.updateAnalyticsHistory(analytics.sessionId, analytics.letter, analytics.timestamp);
+      await this.sessions.save(analytics);
     } catch (error) {
       console.error('Failed to save analytics:', error);
       throw error;
@@ -42,13 +39,11 @@ export class StorageService {
   }
 
   /**
-   * Get analytics by session ID
+   * Get analytics by session ID (older records are migrated on read)
    */
-  async getAnalytics(sessionId: string): Promise<SessionFeatureSummary | null> {
+  async getAnalytics(sessionId: string): Promise<ComprehensiveTracingAnalytics | null> {
     try {
-      const key = `${STORAGE_KEYS.SESSION_DATA}_${sessionId}`;
-      const data = await AsyncStorage.getItem(key);
-      return data ? JSON.parse(data) : null;
+      return await this.sessions.get(sessionId);
     } catch (error) {
       console.error('Failed to get analytics:', error);
       return null;
@@ -58,17 +53,9 @@ export class StorageService {
   /**
    * Get all analytics for a user
    */
-  async getAllAnalytics(userId: string): Promise<SessionFeatureSummary[]> {
+  async getAllAnalytics(userId: string): Promise<ComprehensiveTracingAnalytics[]> {
     try {
-      const history = await this.getAnalyticsHistory();
-      // Filter by userId if it was part of history, but currently history is simple
-      const userSessions = history;
-
-      const analytics = await Promise.all(
-        userSessions.map(session => this.getAnalytics(session.sessionId))
-      );
-
-      return analytics.filter(a => a !== null) as SessionFeatureSummary[];
+      return await this.sessions.getAllAnalytics(userId);
     } catch (error) {
       console.error('Failed to get all analytics:', error);
       return [];
@@ -76,43 +63,53 @@ export class StorageService {
   }
 
   /**
-   * Update analytics history index
+   * Get a user's session outcomes for cross-session scoring (cached after the first load)
    */
-  private async updateAnalyticsHistory(
-    sessionId: string,
-    letter: string,
-    timestamp: string
-  ): Promise<void> {
+  async getSessionOutcomes(userId: string): Promise<SessionOutcome[]> {
     try {
-      const history = await this.getAnalyticsHistory();
+      return await this.sessions.getOutcomes(userId);
+    } catch (error) {
+      console.error('Failed to get session outcomes:', error);
+      return [];
+    }
+  }
 
-      history.push({
-        sessionId,
-        letter,
-        timestamp,
-        userId: 'default_user',
-      });
+  /**
+   * Give sessions recorded before profiles existed to a child; a no-op once they have moved
+   */
+  async adoptLegacySessions(userId: string): Promise<number> {
+    try {
+      return await this.sessions.reassignSessions(LEGACY_USER_ID, userId);
+    } catch (error) {
+      console.error('Failed to reassign legacy sessions:', error);
+      return 0;
+    }
+  }
 
-      await AsyncStorage.setItem(STORAGE_KEYS.ANALYTICS_HISTORY, JSON.stringify(history));
+  /**
+   * Get a user's analytics for one letter
+   */
+  async getAnalyticsByLetter(userId: string, letter: string): Promise<ComprehensiveTracingAnalytics[]> {
+    try {
+      return await this.sessions.getAnalyticsByLetter(userId, letter);
     } catch (error) {
-      console.error('Failed to update analytics history:', error);
+      console.error('Failed to get analytics by letter:', error);
+      return [];
     }
   }
 
   /**
-   * Get analytics history
+   * Get a user's analytics between two days (inclusive)
    */
-  private async getAnalyticsHistory(): Promise<Array<{
-    sessionId: string;
-    letter: string;
-    timestamp: string;
-    userId: string;
-  }>> {
+  async getAnalyticsByDateRange(
+    userId: string,
+    from: Date,
+    to: Date
+  ): Promise<ComprehensiveTracingAnalytics[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.ANALYTICS_HISTORY);
-      return data ? JSON.parse(data) : [];
+      return await this.sessions.getAnalyticsByDateRange(userId, from, to);
     } catch (error) {
-      console.error('Failed to get analytics history:', error);
+      console.error('Failed to get analytics by date range:', error);
       return [];
     }
   }
@@ -120,28 +117,37 @@ export class StorageService {
   /**
    * Export analytics to CSV
    */
-  async exportToCSV(analytics: SessionFeatureSummary): Promise<string> {
+  async exportToCSV(analytics: ComprehensiveTracingAnalytics): Promise<string> {
     try {
       const headers = [
-        'Session ID', 'Letter', 'Timestamp', 'Avg Pause (ms)', 'Pause Count',
-        'Direction Errors', 'Path Variance', 'Order Errors', 'Avg Jerk', 'Completion Time (ms)'
+        'Session ID', 'User ID', 'Letter', 'Timestamp', 'Version',
+        'Accuracy', 'Mean Deviation (px)', 'Avg Velocity (px/s)', 'Fluency Ratio',
+        'Normalized Jerk', 'Pause Count', 'Stroke Count', 'Stroke Order Score',
+        'Tremor Amplitude (px)', 'Duration (s)', 'Predicted Char', 'Unavailable Domains'
       ];
 
       const values = [
-        analytics.sessionId,
+        analytics.session_id,
+        analytics.user_id,
         analytics.letter,
         analytics.timestamp,
-        analytics.features.avgPauseDuration.toFixed(2),
-        analytics.features.pauseCount,
-        analytics.features.directionErrors,
-        analytics.features.pathVariance.toFixed(2),
-        analytics.features.strokeOrderErrors,
-        analytics.features.avgJerk.toFixed(4),
-        analytics.features.completionTime
+        analytics.version,
+        analytics.spatial_accuracy_deviation.accuracy_score.toFixed(2),
+        analytics.spatial_accuracy_deviation.mean_path_deviation.toFixed(2),
+        analytics.velocity_kinematics.average_velocity.toFixed(2),
+        analytics.velocity_kinematics.fluency_ratio.toFixed(3),
+        analytics.acceleration_jerk_analysis.normalized_jerk_score.toFixed(4),
+        analytics.time_based_performance.pause_frequency,
+        analytics.stroke_count_sequencing.actual_stroke_count_used,
+        analytics.stroke_count_sequencing.stroke_order_score.toFixed(3),
+        analytics.stroke_quality_consistency.tremor_amplitude.toFixed(2),
+        analytics.time_based_performance.total_session_duration.toFixed(2),
+        analytics.ml_recognition?.predictedChar ?? '',
+        analytics.unavailable_domains.join(';'),
       ];
 
       const csvData = headers.join(',') + '\n' + values.join(',');
-      const fileName = `tracing_analytics_${analytics.sessionId}.csv`;
+      const fileName = `tracing_analytics_${analytics.session_id}.csv`;
       const filePath = `${RNFS.DocumentDirectoryPath}/${fileName}`;
 
       await RNFS.writeFile(filePath, csvData, 'utf8');
@@ -156,9 +162,9 @@ export class StorageService {
   /**
    * Export analytics to JSON
    */
-  async exportToJSON(analytics: SessionFeatureSummary): Promise<string> {
+  async exportToJSON(analytics: ComprehensiveTracingAnalytics): Promise<string> {
     try {
-      const fileName = `tracing_analytics_${analytics.sessionId}.json`;
+      const fileName = `tracing_analytics_${analytics.session_id}.json`;
       const filePath = `${RNFS.DocumentDirectoryPath}/${fileName}`;
 
       await RNFS.writeFile(filePath, JSON.stringify(analytics, null, 2), 'utf8');
@@ -170,10 +176,50 @@ export class StorageService {
     }
   }
 
-  // Legacy/Helper stubs
-  async saveProgress(userId: string, progress: any): Promise<void> { /* ... */ }
-  async getProgress(userId: string): Promise<any | null> { return null; }
-  async clearAll(): Promise<void> { await AsyncStorage.clear(); }
+  /**
+   * Export a session comparison to CSV
+   */
+  async exportComparisonToCSV(comparison: SessionComparisonResult): Promise<string> {
+    try {
+      const ids = comparison.sessions.map(s => s.session_id.slice(-6)).join('_');
+      const fileName = `session_comparison_${comparison.letter}_${ids}.csv`;
+      const filePath = `${RNFS.DocumentDirectoryPath}/${fileName}`;
+
+      await RNFS.writeFile(filePath, comparisonToCSV(comparison), 'utf8');
+
+      return filePath;
+    } catch (error) {
+      console.error('Failed to export comparison:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a child's progress snapshot
+   */
+  async saveProgress(userId: string, progress: any): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${STORAGE_KEYS.PROGRESS_DATA}_${userId}`, JSON.stringify(progress));
+    } catch (error) {
+      console.error('Failed to save progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a child's progress snapshot
+   */
+  async getProgress(userId: string): Promise<any | null> {
+    try {
+      const data = await AsyncStorage.getItem(`${STORAGE_KEYS.PROGRESS_DATA}_${userId}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Failed to get progress:', error);
+      return null;
+    }
+  }
+
+  async clearAll(): Promise<void> { await this.sessions.clearAll(); }
 }
 
 export default StorageService.getInstance();
@@ -3,6 +3,26 @@ import { IdealPathData } from '@models/TracingData';
 import { distance, mean, std, calculatePathLength } from '@utils/MathUtils';
 import { calculateDeviation, findClosestPathPoint } from '@utils/GeometryUtils';
 
+/**
+ * Build a StrokeData record from a contiguous run of touch points
+ */
+const buildStroke = (
+  points: TouchPoint[],
+  strokeId: number,
+  startIndex: number,
+  endIndex: number
+): StrokeData => ({
+  stroke_id: strokeId,
+  start_index: startIndex,
+  end_index: endIndex,
+  points,
+  duration: (points[points.length - 1].timestamp - points[0].timestamp) / 1000,
+  length: calculatePathLength(points),
+  is_correct_order: false, // Will be determined later
+  is_correct_direction: false,
+  deviation_from_ideal: 0,
+});
+
 /**
  * Detect individual strokes from touch data based on lift-off events
  */
@@ -23,20 +43,7 @@ export const detectStrokes = (
     if (timeDiff > liftOffThreshold) {
       // Stroke ended, save it
       if (currentStroke.length > 2) {
-        const strokeLength = calculatePathLength(currentStroke);
-        const duration = (currentStroke[currentStroke.length - 1].timestamp - currentStroke[0].timestamp) / 1000;
-        
-        strokes.push({
-          stroke_id: strokeId++,
-          start_index: startIndex,
-          end_index: i - 1,
-          points: currentStroke,
-          duration,
-          length: strokeLength,
-          is_correct_order: false, // Will be determined later
-          is_correct_direction: false,
-          deviation_from_ideal: 0,
-        });
+        strokes.push(buildStroke(currentStroke, strokeId++, startIndex, i - 1));
       }
       
       // Start new stroke
@@ -49,20 +56,30 @@ export const detectStrokes = (
   
   // Add last stroke
   if (currentStroke.length > 2) {
-    const strokeLength = calculatePathLength(currentStroke);
-    const duration = (currentStroke[currentStroke.length - 1].timestamp - currentStroke[0].timestamp) / 1000;
+    strokes.push(buildStroke(currentStroke, strokeId, startIndex, touchPoints.length - 1));
+  }
+  
+  return strokes;
+};
+
+/**
+ * Split touch data into strokes at recorded touch-down indices
+ */
+export const splitStrokesAtBoundaries = (
+  touchPoints: TouchPoint[],
+  strokeStartIndices: number[]
+): StrokeData[] => {
+  const strokes: StrokeData[] = [];
+  
+  for (let i = 0; i < strokeStartIndices.length; i++) {
+    const startIndex = strokeStartIndices[i];
+    const endIndex = (strokeStartIndices[i + 1] ?? touchPoints.length) - 1;
+    const points = touchPoints.slice(startIndex, endIndex + 1);
     
-    strokes.push({
-      stroke_id: strokeId,
-      start_index: startIndex,
-      end_index: touchPoints.length - 1,
-      points: currentStroke,
-      duration,
-      length: strokeLength,
-      is_correct_order: false,
-      is_correct_direction: false,
-      deviation_from_ideal: 0,
-    });
+    // Taps and accidental touches carry no kinematic information
+    if (points.length > 2) {
+      strokes.push(buildStroke(points, strokes.length, startIndex, endIndex));
+    }
   }
   
   return strokes;
@@ -274,7 +291,8 @@ export const analyzeLineContinuity = (
  */
 export const analyzeClosureSuccess = (
   strokes: StrokeData[],
-  letter: string
+  letter: string,
+  closureTolerance: number = 30
 ): {
   closureSuccessRate: number;
   closureGapSize: number[];
@@ -304,7 +322,7 @@ export const analyzeClosureSuccess = (
     totalClosures++;
     closureGapSize.push(gap);
     
-    if (gap < 30) {
+    if (gap < closureTolerance) {
       successfulClosures++;
     }
   }
@@ -315,13 +333,14 @@ export const analyzeClosureSuccess = (
 };
 
 /**
- * Detect self-corrections within strokes
+ * Detect self-corrections within strokes. A correction's time runs from the
+ * point the pen doubled back to until it got there again, in seconds.
  */
 export const detectSelfCorrections = (strokes: StrokeData[]): {
   correctionCount: number;
-  correctionEvents: Array<{ strokeId: number; timestamp: number }>;
+  correctionEvents: Array<{ strokeId: number; timestamp: number; correctionTime: number }>;
 } => {
-  const correctionEvents: Array<{ strokeId: number; timestamp: number }> = [];
+  const correctionEvents: Array<{ strokeId: number; timestamp: number; correctionTime: number }> = [];
   let correctionCount = 0;
   
   for (const stroke of strokes) {
@@ -351,10 +370,12 @@ export const detectSelfCorrections = (strokes: StrokeData[]): {
       );
       
       if (distToPrev2 < distToPrev * 0.5 || distToPrev3 < distToPrev * 0.5) {
+        const returnedTo = distToPrev2 < distToPrev * 0.5 ? prev2 : prev3;
         correctionCount++;
         correctionEvents.push({
           strokeId: stroke.stroke_id,
           timestamp: current.timestamp,
+          correctionTime: (current.timestamp - returnedTo.timestamp) / 1000,
         });
       }
     }
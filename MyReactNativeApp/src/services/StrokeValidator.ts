@@ -1,7 +1,7 @@
 import { Point, PathSegment, ValidationResult } from '@models/TracingData';
+import { getActiveThresholds } from '@constants/Thresholds';
 
 export class StrokeValidator {
-    private static TOLERANCE = 50; // pixels
 
     /**
      * Validates a point against the current target stroke.
@@ -23,7 +23,8 @@ export class StrokeValidator {
             }
         }
 
-        if (minDistance > this.TOLERANCE) {
+        // Off-track tolerance of the active threshold profile, in canvas units
+        if (minDistance > getActiveThresholds().spatial.offTrackTolerance) {
             return {
                 isValid: false,
                 feedbackType: 'too_far',
@@ -0,0 +1,115 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  activateThresholdProfile,
+  InputMethod,
+  parseThresholdProfiles,
+  registerThresholdProfiles,
+  THRESHOLD_SCHEMA_VERSION,
+  ThresholdProfile,
+} from '@constants/Thresholds';
+import CalibrationService from './CalibrationService';
+
+const THRESHOLD_KEYS = {
+  CUSTOM_PROFILES: '@threshold_profiles',
+  SETTINGS: '@threshold_settings',
+};
+
+export interface ThresholdSettings {
+  inputMethod: InputMethod;
+}
+
+/**
+ * Loads custom threshold profiles and device settings, and activates the
+ * profile that fits a child and the device
+ */
+export class ThresholdProfileService {
+  private static instance: ThresholdProfileService;
+  private customProfiles: ThresholdProfile[] = [];
+  private settings: ThresholdSettings = { inputMethod: 'finger' };
+  private loaded = false;
+
+  private constructor() {}
+
+  static getInstance(): ThresholdProfileService {
+    if (!ThresholdProfileService.instance) {
+      ThresholdProfileService.instance = new ThresholdProfileService();
+    }
+    return ThresholdProfileService.instance;
+  }
+
+  /**
+   * Read stored profiles and settings once per app run
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const [profiles, settings] = await Promise.all([
+        AsyncStorage.getItem(THRESHOLD_KEYS.CUSTOM_PROFILES),
+        AsyncStorage.getItem(THRESHOLD_KEYS.SETTINGS),
+      ]);
+      if (profiles) {
+        this.customProfiles = parseThresholdProfiles(profiles);
+        registerThresholdProfiles(this.customProfiles);
+      }
+      if (settings) {
+        this.settings = { ...this.settings, ...JSON.parse(settings) };
+      }
+      this.loaded = true;
+    } catch (error) {
+      console.error('Failed to load threshold profiles:', error);
+    }
+  }
+
+  /**
+   * Validate and keep profiles from a JSON file; throws when the file is invalid
+   */
+  async importProfiles(json: string): Promise<ThresholdProfile[]> {
+    await this.load();
+    const imported = parseThresholdProfiles(json);
+
+    try {
+      const ids = new Set(imported.map(p => p.id));
+      this.customProfiles = [...this.customProfiles.filter(p => !ids.has(p.id)), ...imported];
+      registerThresholdProfiles(imported);
+      await AsyncStorage.setItem(
+        THRESHOLD_KEYS.CUSTOM_PROFILES,
+        JSON.stringify({ schemaVersion: THRESHOLD_SCHEMA_VERSION, profiles: this.customProfiles })
+      );
+      return imported;
+    } catch (error) {
+      console.error('Failed to import threshold profiles:', error);
+      throw error;
+    }
+  }
+
+  async getSettings(): Promise<ThresholdSettings> {
+    await this.load();
+    return { ...this.settings };
+  }
+
+  async updateSettings(changes: Partial<ThresholdSettings>): Promise<void> {
+    await this.load();
+    this.settings = { ...this.settings, ...changes };
+
+    try {
+      await AsyncStorage.setItem(THRESHOLD_KEYS.SETTINGS, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save threshold settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Activate the profile for a child's age, scaled by the device calibration
+   */
+  async activateFor(ageYears: number | null | undefined): Promise<ThresholdProfile> {
+    await this.load();
+    const calibration = await CalibrationService.getCalibration();
+    return activateThresholdProfile(ageYears, this.settings.inputMethod, {
+      unitsPerMm: calibration.units_per_mm,
+    });
+  }
+}
+
+export default ThresholdProfileService.getInstance();
@@ -13,19 +13,33 @@ import {
   AutomatedRiskAssessment,
   LetterReversalOrientation,
   PhonologicalAwarenessIntegration,
+  LetterConfusionMatrix,
   SessionContext,
+  StrokeData,
+  UserDemographicsHistory,
+  AnalyticsDomainKey,
+  ANALYTICS_SCHEMA_VERSION,
+  DeviceCalibration,
 } from '@models/AnalyticsTypes';
-import { IdealPathData, LetterPath } from '@models/TracingData';
-import { mean, std, linearRegression, calculateShapeMetrics, calculateHuMoments } from '@utils/MathUtils';
+import { IdealPathData, LetterPath, MLFeatures, Orientation, RawTouchPoint } from '@models/TracingData';
+import { getActivePhysicalThresholds, ThresholdSet } from '@constants/Thresholds';
+import {
+  mean,
+  linearRegression,
+  calculateShapeMetrics,
+  calculateHuMoments,
+  calculatePathLength,
+  distance,
+} from '@utils/MathUtils';
 import {
   calculateVelocityKinematics,
   calculateAccelerationJerkAnalysis,
   calculateDirectionalAngularMetrics,
   calculateSpatialAccuracyDeviation,
-  analyzeTremor,
 } from './KinematicsEngine';
 import {
   detectStrokes,
+  splitStrokesAtBoundaries,
   analyzeStrokeOrder,
   analyzeStrokeQuality,
   analyzeLineContinuity,
@@ -33,23 +47,69 @@ import {
   detectSelfCorrections,
   calculateTimePerStroke,
 } from './StrokeAnalyzer';
-import { isHorizontallyMirrored, rotationSimilarity, calculateBoundingBox } from '@utils/GeometryUtils';
+import {
+  isHorizontallyMirrored,
+  rotationSimilarity,
+  calculateBoundingBox,
+  hausdorffDistance,
+} from '@utils/GeometryUtils';
+import { powerSpectralDensity } from '@utils/SignalProcessing';
+import {
+  referenceCalibration,
+  toCanvasPoints,
+  toPhysicalIdealPath,
+  toPhysicalPoints,
+} from '@utils/CalibrationUtils';
+import { getCharFromIndex } from '@utils/WritingUtils';
+import { detectTremor } from './analytics/TremorAnalyzer';
+import { computeShapeQuality } from './analytics/ShapeAnalyzer';
+import { MLTracingAnalyzer } from './MLTracingAnalyzer';
+import PersonalizationService from './PersonalizationService';
+import {
+  SessionOutcome,
+  buildTimeline,
+  calculateLongitudinalProgress,
+  calculateLetterMastery,
+  calculateAdaptiveLearning,
+  calculateAttemptHistory,
+} from './analytics/LongitudinalAnalyzer';
 
 /**
- * Main analytics engine - computes all 200+ features
+ * Main analytics engine - the single pipeline that turns a raw touch stream
+ * into a versioned ComprehensiveTracingAnalytics record
  */
 export class TracingAnalyticsEngine {
   private touchPoints: TouchPoint[] = [];
+  private strokeStartIndices: number[] = [];
+  private strokeOpen: boolean = false;
   private idealPath: IdealPathData;
   private letterPath: LetterPath;
   private sessionStartTime: number = 0;
   private sessionContext: Partial<SessionContext> = {};
   private audioPlaybackCount: number = 0;
   private firstTouchTime: number = 0;
+  private fixedThresholds?: ThresholdSet;
+  private calibration: DeviceCalibration = referenceCalibration();
   
-  constructor(idealPath: IdealPathData, letterPath: LetterPath) {
+  /**
+   * Without explicit thresholds (in mm and mm/s) the engine follows the
+   * active threshold profile
+   */
+  constructor(idealPath: IdealPathData, letterPath: LetterPath, thresholds?: ThresholdSet) {
     this.idealPath = idealPath;
     this.letterPath = letterPath;
+    this.fixedThresholds = thresholds;
+  }
+  
+  private getThresholds(): ThresholdSet {
+    return this.fixedThresholds ?? getActivePhysicalThresholds();
+  }
+  
+  /**
+   * Set how canvas coordinates convert to millimetres for this session
+   */
+  setCalibration(calibration: DeviceCalibration): void {
+    this.calibration = calibration;
   }
   
   /**
@@ -57,6 +117,8 @@ export class TracingAnalyticsEngine {
    */
   startSession(context: Partial<SessionContext>): void {
     this.touchPoints = [];
+    this.strokeStartIndices = [];
+    this.strokeOpen = false;
     this.sessionStartTime = Date.now();
     this.firstTouchTime = 0;
     this.sessionContext = context;
@@ -64,23 +126,40 @@ export class TracingAnalyticsEngine {
   }
   
   /**
-   * Add touch point to session
+   * Merge context that becomes known after the session started
    */
-  addTouchPoint(x: number, y: number, pressure: number = 1): void {
-    const timestamp = Date.now();
-    
+  updateSessionContext(context: Partial<SessionContext>): void {
+    this.sessionContext = { ...this.sessionContext, ...context };
+  }
+  
+  /**
+   * Add a raw touch sample; the first sample after a lift opens a new stroke
+   */
+  addPoint(point: RawTouchPoint): void {
     if (this.firstTouchTime === 0) {
-      this.firstTouchTime = timestamp;
+      this.firstTouchTime = point.timestamp;
+    }
+    
+    if (!this.strokeOpen) {
+      this.strokeStartIndices.push(this.touchPoints.length);
+      this.strokeOpen = true;
     }
     
     this.touchPoints.push({
-      x,
-      y,
-      timestamp,
-      pressure,
+      x: point.x,
+      y: point.y,
+      timestamp: point.timestamp,
+      pressure: point.pressure,
     });
   }
   
+  /**
+   * Mark a finger lift - the current stroke is closed
+   */
+  endStroke(): void {
+    this.strokeOpen = false;
+  }
+  
   /**
    * Increment audio playback counter
    */
@@ -91,13 +170,21 @@ export class TracingAnalyticsEngine {
   /**
    * Calculate comprehensive analytics
    */
-  calculateAnalytics(
+  async calculateAnalytics(
     userId: string,
     completionStatus: 'completed' | 'abandoned' | 'timed_out' | 'in_progress',
-    userDemographics: any
-  ): ComprehensiveTracingAnalytics {
+    userDemographics: UserDemographicsHistory | null,
+    history: SessionOutcome[] = []
+  ): Promise<ComprehensiveTracingAnalytics> {
     const sessionEndTime = Date.now();
     const totalDuration = (sessionEndTime - this.sessionStartTime) / 1000;
+    const unavailable_domains: AnalyticsDomainKey[] = [];
+    
+    // Metrics are computed on calibrated touch data; raw data stays in canvas units
+    const calibration = this.calibration;
+    const touchPoints = toPhysicalPoints(this.touchPoints, calibration);
+    const idealPath = toPhysicalIdealPath(this.idealPath, calibration);
+    const thresholds = this.getThresholds();
     
     // ========================================================================
     // DOMAIN I: RAW KINEMATIC & SPATIAL METRICS
@@ -115,30 +202,40 @@ export class TracingAnalyticsEngine {
     };
     
     // Velocity kinematics
-    const velocity_kinematics = calculateVelocityKinematics(this.touchPoints);
+    const velocity_kinematics = calculateVelocityKinematics(
+      touchPoints,
+      thresholds.velocity.pauseVelocityThreshold
+    );
     
     // Acceleration & jerk
     const acceleration_jerk_analysis = calculateAccelerationJerkAnalysis(
-      this.touchPoints,
+      touchPoints,
       velocity_kinematics.instantaneous_velocity
     );
     
     // Directional & angular
-    const directional_angular_metrics = calculateDirectionalAngularMetrics(this.touchPoints);
+    const directional_angular_metrics = calculateDirectionalAngularMetrics(touchPoints);
     
-    // Stroke analysis
-    const strokes = detectStrokes(this.touchPoints);
+    // Stroke analysis - prefer recorded lift boundaries over time-gap detection
+    const strokes = this.strokeStartIndices.length > 0
+      ? splitStrokesAtBoundaries(touchPoints, this.strokeStartIndices)
+      : detectStrokes(touchPoints);
     const stroke_count_sequencing = analyzeStrokeOrder(
       strokes,
-      this.idealPath,
+      idealPath,
       this.letterPath.expectedStrokeCount
     );
+    // Stored stroke points stay in canvas coordinates so the session can be replayed
+    stroke_count_sequencing.strokes = stroke_count_sequencing.strokes.map(stroke => ({
+      ...stroke,
+      points: toCanvasPoints(stroke.points, calibration),
+    }));
     
     // Spatial accuracy
     const spatial_accuracy_deviation = calculateSpatialAccuracyDeviation(
-      this.touchPoints,
-      this.idealPath,
-      50
+      touchPoints,
+      idealPath,
+      thresholds.spatial.offTrackTolerance
     );
     
     // ========================================================================
@@ -159,18 +256,6 @@ export class TracingAnalyticsEngine {
       time_per_stroke: calculateTimePerStroke(strokes),
     };
     
-    const completion_percentage = this.calculateCompletionPercentage();
-    
-    const completion_persistence: CompletionPersistence = {
-      letter_completion_status: completionStatus,
-      attempts_to_complete: 1, // Would track across sessions
-      partial_completion_percentage: completion_percentage,
-      frustration_quit_indicator: completionStatus === 'abandoned' && completion_percentage < 0.5,
-      time_to_first_successful_completion: completionStatus === 'completed' ? totalDuration : 0,
-      retry_pattern: 'none',
-      retry_count: 0,
-    };
-    
     const selfCorrections = detectSelfCorrections(strokes);
     
     const error_detection_self_correction: ErrorDetectionSelfCorrection = {
@@ -187,29 +272,51 @@ export class TracingAnalyticsEngine {
         timestamp: e.timestamp,
         error_type: 'off_track',
         was_corrected: true,
-        correction_time: 0,
+        correction_time: e.correctionTime,
       })),
     };
     
+    // This session's place in the child's stored history
+    const currentOutcome: SessionOutcome = {
+      letter: this.letterPath.letter,
+      timestamp: sessionEndTime,
+      score: spatial_accuracy_deviation.accuracy_score,
+      completed: completionStatus === 'completed',
+      duration: totalDuration,
+      strokeCount: stroke_count_sequencing.actual_stroke_count_used,
+      monitoringScore: error_detection_self_correction.monitoring_behavior_score,
+    };
+    const timeline = buildTimeline(history, currentOutcome);
+    // Unfinished attempts count as retries but say nothing about accuracy trends
+    const completedTimeline = timeline.filter(o => o.completed);
+    
+    const completion_percentage = this.calculateCompletionPercentage(touchPoints, idealPath);
+    
+    const completion_persistence: CompletionPersistence = {
+      letter_completion_status: completionStatus,
+      partial_completion_percentage: completion_percentage,
+      frustration_quit_indicator: completionStatus === 'abandoned' && completion_percentage < 0.5,
+      ...calculateAttemptHistory(timeline, currentOutcome),
+    };
+    
     // ========================================================================
     // DOMAIN III: DYSLEXIA-SPECIFIC DIAGNOSTIC MARKERS
     // ========================================================================
     
-    const letter_reversal_orientation = this.calculateReversalOrientation();
+    const ml_recognition = await this.runRecognition(stroke_count_sequencing.strokes, userId);
     
-    const letter_confusion_matrix = {
-      b_d_confusion_probability: this.calculateConfusionProbability('b', 'd'),
-      p_q_confusion_probability: this.calculateConfusionProbability('p', 'q'),
-      n_u_confusion_probability: this.calculateConfusionProbability('n', 'u'),
-      m_w_confusion_probability: this.calculateConfusionProbability('m', 'w'),
-      six_nine_confusion_probability: 0,
-      confusion_pattern_consistency: 0,
-      confused_letter_pairs: [],
-    };
+    const letter_reversal_orientation = this.calculateReversalOrientation(ml_recognition);
     
+    const letter_confusion_matrix = this.calculateConfusionMatrix(ml_recognition);
+    if (!ml_recognition?.allProbabilities) {
+      unavailable_domains.push('letter_confusion_matrix');
+    }
+    
+    // Recall and sound association need a spoken response we do not capture
+    unavailable_domains.push('phonological_awareness_integration');
     const phonological_awareness_integration: PhonologicalAwarenessIntegration = {
-      letter_name_recall_accuracy: 1, // Would need user input
-      letter_sound_association: 1,
+      letter_name_recall_accuracy: 0,
+      letter_sound_association: 0,
       rhyme_recognition_score: 0,
       phoneme_segmentation_ability: 0,
       audio_playback_count: this.audioPlaybackCount,
@@ -221,21 +328,25 @@ export class TracingAnalyticsEngine {
     // ========================================================================
     
     const strokeQuality = analyzeStrokeQuality(strokes);
-    const tremorAnalysis = analyzeTremor(velocity_kinematics.instantaneous_velocity, samplingRate);
+    const tremorAnalysis = this.calculateTremor(strokes, velocity_kinematics.instantaneous_velocity, samplingRate);
     
     const stroke_quality_consistency: StrokeQualityConsistency = {
       stroke_width_mean: strokeQuality.strokeWidthMean,
       stroke_width_variance: strokeQuality.strokeWidthVariance,
       stroke_width_range: strokeQuality.strokeWidthRange,
-      tremor_frequency: tremorAnalysis.tremorFrequency,
-      tremor_amplitude: tremorAnalysis.tremorAmplitude,
-      tremor_power_spectral_density: tremorAnalysis.tremorPowerSpectralDensity,
+      tremor_frequency: tremorAnalysis.frequency,
+      tremor_amplitude: tremorAnalysis.amplitude,
+      tremor_power_spectral_density: tremorAnalysis.psd,
       pressure_modulation_score: strokeQuality.pressureModulationScore,
       line_straightness_score: this.calculateStraightnessScore(strokes),
     };
     
-    const lineContinuity = analyzeLineContinuity(strokes);
-    const closureAnalysis = analyzeClosureSuccess(strokes, this.letterPath.letter);
+    const lineContinuity = analyzeLineContinuity(strokes, thresholds.strokes.maxGapSize);
+    const closureAnalysis = analyzeClosureSuccess(
+      strokes,
+      this.letterPath.letter,
+      thresholds.strokes.closureTolerance
+    );
     
     const line_continuity_closure = {
       endpoint_count: lineContinuity.endpointCount,
@@ -248,10 +359,13 @@ export class TracingAnalyticsEngine {
     };
     
     const shapeMetrics = calculateShapeMetrics(this.touchPoints.map(p => ({ x: p.x, y: p.y })));
+    const shapeQuality = computeShapeQuality(
+      strokes.map(stroke => stroke.points.map(p => ({ x: p.x, y: p.y })))
+    );
     
     const shape_formation_quality: ShapeFormationQuality = {
-      corner_sharpness_score: [0], // Would need corner detection
-      curve_smoothness_score: [1 - directional_angular_metrics.curvature_consistency],
+      corner_sharpness_score: shapeQuality.corner_sharpness_scores,
+      curve_smoothness_score: [shapeQuality.curve_smoothness_score],
       aspect_ratio: shapeMetrics.aspectRatio,
       compactness_score: shapeMetrics.compactness,
       symmetry_score: this.calculateSymmetryScore(),
@@ -283,7 +397,7 @@ export class TracingAnalyticsEngine {
     };
     
     const cognitive_fatigue_endurance: CognitiveFatigueEndurance = {
-      performance_degradation_slope: this.calculatePerformanceDegradation(),
+      performance_degradation_slope: this.calculatePerformanceDegradation(touchPoints, idealPath),
       speed_degradation_slope: this.calculateSpeedDegradation(velocity_kinematics.instantaneous_velocity),
       error_rate_increase_over_time: 0,
       session_tolerance_duration: totalDuration,
@@ -292,9 +406,23 @@ export class TracingAnalyticsEngine {
     };
     
     // ========================================================================
-    // DOMAIN VI-XII: Simplified for initial version
+    // DOMAIN VI-XII
     // ========================================================================
     
+    if (!userDemographics) {
+      unavailable_domains.push('user_demographics_history');
+    }
+    
+    // No instrumentation exists yet for these domains
+    unavailable_domains.push(
+      'haptic_feedback_response',
+      'letter_sound_correspondence',
+      'reading_readiness_indicators',
+      'engagement_motivation',
+      'emotional_regulation',
+      'normative_comparisons'
+    );
+    
     const automated_risk_assessment: AutomatedRiskAssessment = {
       dyslexia_risk_score: this.calculateDyslexiaRisk(letter_reversal_orientation, stroke_count_sequencing),
       dysgraphia_risk_score: this.calculateDysgraphiaRisk(stroke_quality_consistency, spatial_accuracy_deviation),
@@ -323,8 +451,11 @@ export class TracingAnalyticsEngine {
       session_id: this.sessionContext.session_id || `session_${Date.now()}`,
       user_id: userId,
       letter: this.letterPath.letter,
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
+      timestamp: new Date(sessionEndTime).toISOString(),
+      version: ANALYTICS_SCHEMA_VERSION,
+      unavailable_domains,
+      ml_recognition,
+      calibration,
       
       raw_touch_data,
       velocity_kinematics,
@@ -349,12 +480,12 @@ export class TracingAnalyticsEngine {
       working_memory_load,
       cognitive_fatigue_endurance,
       
-      longitudinal_progress_tracking: this.getDefaultLongitudinalTracking(),
-      letter_specific_mastery: this.getDefaultLetterMastery(),
-      adaptive_learning_indicators: this.getDefaultAdaptiveLearning(),
+      longitudinal_progress_tracking: calculateLongitudinalProgress(completedTimeline),
+      letter_specific_mastery: calculateLetterMastery(completedTimeline),
+      adaptive_learning_indicators: calculateAdaptiveLearning(completedTimeline),
       
       session_context: this.sessionContext as SessionContext,
-      user_demographics_history: userDemographics,
+      user_demographics_history: userDemographics ?? this.getDefaultDemographics(userId),
       
       computer_vision_features: this.calculateComputerVisionFeatures(),
       statistical_shape_descriptors: this.calculateStatisticalShapeDescriptors(),
@@ -374,24 +505,24 @@ export class TracingAnalyticsEngine {
       },
       
       letter_sound_correspondence: {
-        grapheme_phoneme_mapping_accuracy: 1,
-        letter_name_fluency: 1,
-        phonological_awareness_composite: 1,
-        rapid_automatized_naming_proxy: 1,
+        grapheme_phoneme_mapping_accuracy: 0,
+        letter_name_fluency: 0,
+        phonological_awareness_composite: 0,
+        rapid_automatized_naming_proxy: 0,
       },
       
       reading_readiness_indicators: {
-        letter_recognition_speed: 1,
-        alphabet_knowledge_score: 1,
-        print_awareness: 1,
+        letter_recognition_speed: 0,
+        alphabet_knowledge_score: 0,
+        print_awareness: 0,
       },
       
       engagement_motivation: {
-        voluntary_practice_frequency: 1,
+        voluntary_practice_frequency: 0,
         session_completion_rate: completionStatus === 'completed' ? 1 : 0,
-        positive_feedback_response: 0.8,
-        challenge_seeking_behavior: 0.5,
-        frustration_tolerance_score: completion_persistence.frustration_quit_indicator ? 30 : 70,
+        positive_feedback_response: 0,
+        challenge_seeking_behavior: 0,
+        frustration_tolerance_score: 0,
       },
       
       emotional_regulation: {
@@ -403,10 +534,11 @@ export class TracingAnalyticsEngine {
       
       automated_risk_assessment,
       
+      // Normative percentiles need population variance we do not have yet
       normative_comparisons: {
-        age_norm_percentile: 50,
-        grade_norm_percentile: 50,
-        improvement_rate_percentile: 50,
+        age_norm_percentile: 0,
+        grade_norm_percentile: 0,
+        improvement_rate_percentile: 0,
         severity_classification: 'typical',
       },
       
@@ -443,14 +575,15 @@ export class TracingAnalyticsEngine {
   }
   
   private detectPauseFrequency(velocities: number[]): number {
+    const pauseVelocity = this.getThresholds().velocity.pauseVelocityThreshold;
     let pauseCount = 0;
     let inPause = false;
     
     for (const vel of velocities) {
-      if (vel < 10 && !inPause) {
+      if (vel < pauseVelocity && !inPause) {
         pauseCount++;
         inPause = true;
-      } else if (vel >= 10) {
+      } else if (vel >= pauseVelocity) {
         inPause = false;
       }
     }
@@ -463,7 +596,7 @@ export class TracingAnalyticsEngine {
     let pauseDuration = 0;
     
     for (let i = 0; i < velocities.length; i++) {
-      if (velocities[i] < 10) {
+      if (velocities[i] < this.getThresholds().velocity.pauseVelocityThreshold) {
         pauseDuration++;
       } else if (pauseDuration > 0) {
         durations.push(pauseDuration);
@@ -474,20 +607,20 @@ export class TracingAnalyticsEngine {
     return durations;
   }
   
-  private calculateCompletionPercentage(): number {
-    if (this.touchPoints.length === 0) return 0;
+  private calculateCompletionPercentage(touchPoints: TouchPoint[], idealPath: IdealPathData): number {
+    if (touchPoints.length === 0) return 0;
     
     // Simplified: based on path coverage
-    const totalIdealPoints = this.idealPath.points.length;
+    const totalIdealPoints = idealPath.points.length;
     const coveredPoints = new Set<number>();
     
-    for (const touch of this.touchPoints) {
+    for (const touch of touchPoints) {
       // Find closest ideal point
       let minDist = Infinity;
       let closestIdx = 0;
       
-      for (let i = 0; i < this.idealPath.points.length; i++) {
-        const ideal = this.idealPath.points[i];
+      for (let i = 0; i < idealPath.points.length; i++) {
+        const ideal = idealPath.points[i];
         const dist = Math.sqrt(
           Math.pow(touch.x - ideal.x, 2) + Math.pow(touch.y - ideal.y, 2)
         );
@@ -498,7 +631,7 @@ export class TracingAnalyticsEngine {
         }
       }
       
-      if (minDist < 50) {
+      if (minDist < this.getThresholds().spatial.offTrackTolerance) {
         coveredPoints.add(closestIdx);
       }
     }
@@ -515,9 +648,69 @@ export class TracingAnalyticsEngine {
     return Math.min(100, corrections * 10);
   }
   
-  private calculateReversalOrientation(): LetterReversalOrientation {
+  private async runRecognition(strokes: StrokeData[], userId: string): Promise<MLFeatures | null> {
+    if (strokes.length === 0) return null;
+    
+    try {
+      return await MLTracingAnalyzer.analyzeTracing(
+        strokes.map(stroke => stroke.points.map(p => ({ x: p.x, y: p.y }))),
+        this.letterPath.letter,
+        400,
+        400,
+        (backend, probabilities) => PersonalizationService.rerank(userId, backend, probabilities)
+      );
+    } catch (error) {
+      console.error('Failed to run recognition:', error);
+      return null;
+    }
+  }
+  
+  private calculateReversalOrientation(ml: MLFeatures | null): LetterReversalOrientation {
+    const matrix = ml?.orientationProbabilities;
+    if (!matrix) return this.geometricReversalOrientation(ml);
+    
+    // How strongly the drawing reads as the target once turned each way
+    const target = this.letterPath.letter;
+    const similarity = (orientation: Orientation) => this.probabilityOf(target, matrix[orientation]);
+    const upright = similarity('identity');
+    
+    let best: Orientation = 'identity';
+    let bestSimilarity = upright;
+    for (const orientation of Object.keys(matrix) as Orientation[]) {
+      if (similarity(orientation) > bestSimilarity) {
+        best = orientation;
+        bestSimilarity = similarity(orientation);
+      }
+    }
+    
+    // Turning the drawing 90° clockwise fixes it => it was written 270° clockwise
+    const angles: Partial<Record<Orientation, number>> = {
+      rotation_90: 270,
+      rotation_180: 180,
+      rotation_270: 90,
+    };
+    
+    return {
+      horizontal_mirror_similarity: similarity('horizontal_flip'),
+      vertical_flip_similarity: similarity('vertical_flip'),
+      diagonal_flip_similarity: similarity('diagonal_flip'),
+      rotation_90_similarity: similarity('rotation_90'),
+      rotation_180_similarity: similarity('rotation_180'),
+      rotation_270_similarity: similarity('rotation_270'),
+      mirror_confusion_composite_score: bestSimilarity - upright,
+      orientation_consistency_score: bestSimilarity > 0 ? upright / bestSimilarity : 1,
+      left_right_confusion_indicator: best === 'horizontal_flip',
+      actual_orientation_angle: angles[best] ?? 0,
+    };
+  }
+  
+  /**
+   * Shape-only estimate for results recorded without an orientation matrix
+   */
+  private geometricReversalOrientation(ml: MLFeatures | null): LetterReversalOrientation {
     const points = this.touchPoints.map(p => ({ x: p.x, y: p.y }));
     const idealPoints = this.idealPath.points.map(p => ({ x: p.x, y: p.y }));
+    const reversalConfidence = ml?.reversalDetected ? ml.reversalConfidence ?? 0 : 0;
     
     return {
       horizontal_mirror_similarity: isHorizontallyMirrored(points, idealPoints),
@@ -526,24 +719,101 @@ export class TracingAnalyticsEngine {
       rotation_90_similarity: rotationSimilarity(points, idealPoints, 90),
       rotation_180_similarity: rotationSimilarity(points, idealPoints, 180),
       rotation_270_similarity: rotationSimilarity(points, idealPoints, 270),
-      mirror_confusion_composite_score: 0,
-      orientation_consistency_score: 0.9,
-      left_right_confusion_indicator: false,
-      actual_orientation_angle: 0,
+      mirror_confusion_composite_score: reversalConfidence,
+      orientation_consistency_score: 1 - reversalConfidence,
+      left_right_confusion_indicator: ml?.reversalType === 'horizontal_flip',
+      actual_orientation_angle: ml?.reversalType === 'rotation_180' ? 180 : 0,
     };
   }
   
-  private calculateConfusionProbability(letter1: string, letter2: string): number {
-    if (!this.letterPath.confusionPairs.includes(letter1) &&
-        !this.letterPath.confusionPairs.includes(letter2)) {
+  /**
+   * Probability mass the recognizer assigned to a character, across both cases
+   */
+  private probabilityOf(char: string, probabilities: number[]): number {
+    let total = 0;
+    for (let i = 0; i < probabilities.length; i++) {
+      if (getCharFromIndex(i).toLowerCase() === char.toLowerCase()) {
+        total += probabilities[i];
+      }
+    }
+    return total;
+  }
+  
+  private calculateConfusionMatrix(ml: MLFeatures | null): LetterConfusionMatrix {
+    const probabilities = ml?.allProbabilities;
+    const target = this.letterPath.letter.toLowerCase();
+    
+    // Probability of the partner glyph, only when the traced letter is part of the pair
+    const pairProbability = (a: string, b: string): number => {
+      if (!probabilities) return 0;
+      if (target === a) return this.probabilityOf(b, probabilities);
+      if (target === b) return this.probabilityOf(a, probabilities);
       return 0;
+    };
+    
+    const confused_letter_pairs = probabilities
+      ? this.letterPath.confusionPairs.map(other => ({
+          letter1: this.letterPath.letter,
+          letter2: other,
+          probability: this.probabilityOf(other, probabilities),
+        }))
+      : [];
+    
+    return {
+      b_d_confusion_probability: pairProbability('b', 'd'),
+      p_q_confusion_probability: pairProbability('p', 'q'),
+      n_u_confusion_probability: pairProbability('n', 'u'),
+      m_w_confusion_probability: pairProbability('m', 'w'),
+      six_nine_confusion_probability: pairProbability('6', '9'),
+      confusion_pattern_consistency: 0, // Needs repeated sessions
+      confused_letter_pairs,
+    };
+  }
+  
+  private calculateTremor(
+    strokes: StrokeData[],
+    velocities: number[],
+    samplingRate: number
+  ): { frequency: number; amplitude: number; psd: number[] } {
+    // Weight each stroke's geometric tremor by its sample count
+    let weightedFrequency = 0;
+    let weightedAmplitude = 0;
+    let totalWeight = 0;
+    
+    for (const stroke of strokes) {
+      const tremor = detectTremor(
+        stroke.points.map(p => ({ x: p.x, y: p.y })),
+        stroke.duration * 1000
+      );
+      weightedFrequency += tremor.tremor_frequency * stroke.points.length;
+      weightedAmplitude += tremor.tremor_amplitude * stroke.points.length;
+      totalWeight += stroke.points.length;
     }
-    return 0.1;
+    
+    return {
+      frequency: totalWeight === 0 ? 0 : weightedFrequency / totalWeight,
+      amplitude: totalWeight === 0 ? 0 : weightedAmplitude / totalWeight,
+      psd: samplingRate > 0 ? powerSpectralDensity(velocities, samplingRate).psd : [],
+    };
   }
   
-  private calculateStraightnessScore(strokes: any[]): number {
-    // Simplified
-    return 75;
+  private calculateStraightnessScore(strokes: StrokeData[]): number {
+    // Only strokes whose template is made of straight segments are scored
+    const scores: number[] = [];
+    
+    strokes.forEach((stroke, i) => {
+      const template = this.letterPath.strokes[i];
+      if (!template || !template.every(segment => segment.type === 'line')) return;
+      if (template.length !== 1) return;
+      
+      const pathLength = calculatePathLength(stroke.points);
+      if (pathLength === 0) return;
+      
+      const chord = distance(stroke.points[0], stroke.points[stroke.points.length - 1]);
+      scores.push((chord / pathLength) * 100);
+    });
+    
+    return scores.length === 0 ? 100 : mean(scores);
   }
   
   private calculateSymmetryScore(): number {
@@ -574,8 +844,19 @@ export class TracingAnalyticsEngine {
   }
   
   private calculateShapeSimilarity(): number {
-    // Simplified using Hausdorff distance
-    return 0.8;
+    if (this.touchPoints.length === 0 || this.idealPath.points.length === 0) return 0;
+    
+    const idealPoints = this.idealPath.points.map(p => ({ x: p.x, y: p.y }));
+    const bbox = calculateBoundingBox(idealPoints);
+    const diagonal = Math.sqrt(bbox.width * bbox.width + bbox.height * bbox.height);
+    if (diagonal === 0) return 0;
+    
+    const hausdorff = hausdorffDistance(
+      this.touchPoints.map(p => ({ x: p.x, y: p.y })),
+      idealPoints
+    );
+    
+    return Math.max(0, 1 - hausdorff / diagonal);
   }
   
   private calculateImpulsivityScore(reactionTime: number): number {
@@ -594,24 +875,24 @@ export class TracingAnalyticsEngine {
     return this.letterPath.expectedStrokeCount > 2 ? 0.8 : 1;
   }
   
-  private calculatePerformanceDegradation(): number {
-    if (this.touchPoints.length < 10) return 0;
+  private calculatePerformanceDegradation(touchPoints: TouchPoint[], idealPath: IdealPathData): number {
+    if (touchPoints.length < 10) return 0;
     
-    const firstHalf = this.touchPoints.slice(0, Math.floor(this.touchPoints.length / 2));
-    const secondHalf = this.touchPoints.slice(Math.floor(this.touchPoints.length / 2));
+    const firstHalf = touchPoints.slice(0, Math.floor(touchPoints.length / 2));
+    const secondHalf = touchPoints.slice(Math.floor(touchPoints.length / 2));
     
-    const firstHalfDeviation = this.calculateAverageDeviation(firstHalf);
-    const secondHalfDeviation = this.calculateAverageDeviation(secondHalf);
+    const firstHalfDeviation = this.calculateAverageDeviation(firstHalf, idealPath);
+    const secondHalfDeviation = this.calculateAverageDeviation(secondHalf, idealPath);
     
-    return (secondHalfDeviation - firstHalfDeviation) / (this.touchPoints.length / 2);
+    return (secondHalfDeviation - firstHalfDeviation) / (touchPoints.length / 2);
   }
   
-  private calculateAverageDeviation(points: TouchPoint[]): number {
+  private calculateAverageDeviation(points: TouchPoint[], idealPath: IdealPathData): number {
     if (points.length === 0) return 0;
     
     const deviations = points.map(p => {
       let minDist = Infinity;
-      for (const ideal of this.idealPath.points) {
+      for (const ideal of idealPath.points) {
         const dist = Math.sqrt(
           Math.pow(p.x - ideal.x, 2) + Math.pow(p.y - ideal.y, 2)
         );
@@ -678,34 +959,17 @@ export class TracingAnalyticsEngine {
     return flags;
   }
   
-  private getDefaultLongitudinalTracking() {
+  private getDefaultDemographics(userId: string): UserDemographicsHistory {
     return {
-      total_session_count: 1,
-      improvement_rate_per_session: 0,
-      plateau_detection_flag: false,
-      retention_score_24hr: 0,
-      retention_score_1week: 0,
-      skill_transfer_coefficient: 0,
-      learning_curve_slope: 0,
-    };
-  }
-  
-  private getDefaultLetterMastery() {
-    return {
-      mastered_letters_list: [],
-      problematic_letters_list: [],
-      mastery_timeline: [],
-      forgetting_curve_data: [],
-      mastery_percentage: 0,
-    };
-  }
-  
-  private getDefaultAdaptiveLearning() {
-    return {
-      strategy_changes_detected: 0,
-      error_pattern_evolution: 'stable' as const,
-      self_regulation_score: 50,
-      learning_efficiency: 0.5,
+      chronological_age: 0,
+      chronological_age_months: 0,
+      handedness: 'right',
+      prior_dyslexia_diagnosis: 'none',
+      comorbid_conditions: [],
+      intervention_history: [],
+      native_language: '',
+      language_of_instruction: '',
+      user_id: userId,
     };
   }
   
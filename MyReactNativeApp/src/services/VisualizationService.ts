@@ -1,5 +1,9 @@
 import { ComprehensiveTracingAnalytics, TouchPoint } from '@models/AnalyticsTypes';
-import { Point } from '@models/TracingData';
+import { IdealPathData, Point } from '@models/TracingData';
+import { calculateDeviation } from '@utils/GeometryUtils';
+import { calculateVelocity, detectPauses, percentile } from '@utils/MathUtils';
+import { canvasToRecordUnits, physicalToRecordUnits, recordToMm } from '@utils/CalibrationUtils';
+import { getActivePhysicalThresholds } from '@constants/Thresholds';
 
 /**
  * Service for generating visualization data for charts and graphs
@@ -35,6 +39,31 @@ export interface BarChartData {
   }>;
 }
 
+export type ReplayColorMode = 'velocity' | 'deviation';
+
+export interface ReplayPoint extends Point {
+  t: number; // ms since the first touch
+  velocity: number; // Speed arriving at this point, in the record's metric unit per second
+  deviation: number; // Distance from the ideal path in the record's metric unit (0 without one)
+}
+
+export interface ReplayMarker {
+  t: number;
+  kind: 'pause' | 'off_track' | 'self_correction';
+  duration: number; // seconds; 0 for instantaneous events
+}
+
+export interface ReplayData {
+  strokes: ReplayPoint[][];
+  idealStrokes: Point[][];
+  duration: number; // ms
+  markers: ReplayMarker[];
+  ranges: Record<ReplayColorMode, { min: number; max: number }>;
+}
+
+// Shorter stops are ordinary hesitation and would crowd the timeline
+const MIN_MARKED_PAUSE = 0.3; // seconds
+
 export class VisualizationService {
   private static instance: VisualizationService;
 
@@ -64,7 +93,7 @@ export class VisualizationService {
             y: v,
           })),
           color: '#2196F3',
-          label: 'Velocity (px/s)',
+          label: `Velocity (${analytics.calibration.metric_unit}/s)`,
         },
       ],
       labels: timestamps.map(t => t.toFixed(1)),
@@ -166,7 +195,7 @@ export class VisualizationService {
         {
           data: strokes.map(s => s.deviation_from_ideal),
           color: '#F44336',
-          label: 'Deviation (px)',
+          label: `Deviation (${analytics.calibration.metric_unit})`,
         },
       ],
     };
@@ -178,7 +207,7 @@ export class VisualizationService {
   generateRiskRadarChart(analytics: ComprehensiveTracingAnalytics): {
     labels: string[];
     data: number[];
-  } => {
+  } {
     return {
       labels: [
         'Dyslexia',
@@ -206,7 +235,7 @@ export class VisualizationService {
     labels: string[];
     data: number[];
     colors: string[];
-  } => {
+  } {
     // Group by letter
     const letterGroups: Record<string, number[]> = {};
     sessions.forEach(s => {
@@ -248,7 +277,7 @@ export class VisualizationService {
       change?: number;
       unit: string;
     }>;
-  } => {
+  } {
     const metrics = [
       {
         name: 'Accuracy',
@@ -258,9 +287,9 @@ export class VisualizationService {
       },
       {
         name: 'Velocity',
-        current: current.velocity_kinematics.average_velocity,
-        previous: previous?.velocity_kinematics.average_velocity,
-        unit: 'px/s',
+        current: recordToMm(current.velocity_kinematics.average_velocity, current.calibration),
+        previous: previous && recordToMm(previous.velocity_kinematics.average_velocity, previous.calibration),
+        unit: 'mm/s',
       },
       {
         name: 'Fluency',
@@ -285,30 +314,39 @@ export class VisualizationService {
   }
 
   /**
-   * Generate path visualization data
+   * Generate path visualization data (deviations need the letter's ideal path)
    */
-  generatePathVisualization(analytics: ComprehensiveTracingAnalytics): {
+  generatePathVisualization(
+    analytics: ComprehensiveTracingAnalytics,
+    idealPath?: IdealPathData
+  ): {
     userPath: Point[];
     deviations: Array<{ point: Point; deviation: number }>;
     offTrackSegments: Array<{ start: number; end: number }>;
-  } => {
-    const userPath = analytics.raw_touch_data.touch_coordinates_array.map(p => ({
+  } {
+    const touches = analytics.raw_touch_data.touch_coordinates_array;
+    const userPath = touches.map(p => ({
       x: p.x,
       y: p.y,
     }));
 
-    // Calculate deviations (simplified - would need ideal path)
-    const deviations = userPath.map((point, i) => ({
-      point,
-      deviation: Math.random() * 50, // Placeholder
-    }));
+    const deviations = idealPath
+      ? userPath.map(point => ({
+          point,
+          deviation: calculateDeviation(point, idealPath),
+        }))
+      : [];
+
+    // Off-track events are stored by time; map them back onto touch indices
+    const indexAt = (timestamp: number): number => {
+      const index = touches.findIndex(p => p.timestamp >= timestamp);
+      return index === -1 ? touches.length - 1 : index;
+    };
 
-    const offTrackSegments = analytics.spatial_accuracy_deviation.off_track_events.map(
-      (event, i) => ({
-        start: i * 10, // Placeholder
-        end: i * 10 + event.duration,
-      })
-    );
+    const offTrackSegments = analytics.spatial_accuracy_deviation.off_track_events.map(event => ({
+      start: indexAt(event.timestamp),
+      end: indexAt(event.timestamp + event.duration * 1000),
+    }));
 
     return {
       userPath,
@@ -317,6 +355,78 @@ export class VisualizationService {
     };
   }
 
+  /**
+   * Timed strokes and timeline markers for replaying a session
+   */
+  generateReplayData(
+    analytics: ComprehensiveTracingAnalytics,
+    idealPath?: IdealPathData
+  ): ReplayData {
+    const touches = analytics.raw_touch_data.touch_coordinates_array;
+    const recorded = analytics.stroke_count_sequencing.strokes.map(stroke => stroke.points);
+    const calibration = analytics.calibration;
+    const sourceStrokes = recorded.some(points => points.length > 0) ? recorded : [touches];
+    const start = touches.length > 0 ? touches[0].timestamp : 0;
+
+    const strokes: ReplayPoint[][] = sourceStrokes
+      .filter(points => points.length > 0)
+      .map(points =>
+        points.map((p, i) => ({
+          x: p.x,
+          y: p.y,
+          t: p.timestamp - start,
+          velocity: i > 0 ? canvasToRecordUnits(calculateVelocity(points[i - 1], p), calibration) : 0,
+          deviation: idealPath ? canvasToRecordUnits(calculateDeviation(p, idealPath), calibration) : 0,
+        }))
+      );
+
+    const idealStrokes = idealPath
+      ? idealPath.strokeBoundaries
+          .slice(1)
+          .map((end, i) => idealPath.points.slice(idealPath.strokeBoundaries[i], end))
+      : [];
+
+    // instantaneous_velocity[i] is the speed arriving at touch i + 1
+    const pauses = detectPauses(
+      analytics.velocity_kinematics.instantaneous_velocity,
+      touches.slice(1).map(p => p.timestamp),
+      physicalToRecordUnits(getActivePhysicalThresholds().velocity.pauseVelocityThreshold, calibration)
+    )
+      .filter(pause => pause.duration >= MIN_MARKED_PAUSE)
+      .map(pause => ({
+        t: touches[pause.startIndex + 1].timestamp - start,
+        kind: 'pause' as const,
+        duration: pause.duration,
+      }));
+
+    const offTrack = analytics.spatial_accuracy_deviation.off_track_events.map(event => ({
+      t: event.timestamp - start,
+      kind: 'off_track' as const,
+      duration: event.duration,
+    }));
+
+    const corrections = analytics.error_detection_self_correction.correction_events.map(event => ({
+      t: event.timestamp - start,
+      kind: 'self_correction' as const,
+      duration: event.correction_time,
+    }));
+
+    // 95th percentile so a single touch glitch doesn't wash out the colour scale
+    const range = (values: number[]) => ({ min: percentile(values, 5), max: percentile(values, 95) });
+    const all = strokes.flat();
+
+    return {
+      strokes,
+      idealStrokes,
+      duration: all.length > 0 ? Math.max(...all.map(p => p.t)) : 0,
+      markers: [...pauses, ...offTrack, ...corrections].sort((a, b) => a.t - b.t),
+      ranges: {
+        velocity: range(all.map(p => p.velocity)),
+        deviation: range(all.map(p => p.deviation)),
+      },
+    };
+  }
+
   /**
    * Generate session timeline
    */
@@ -327,7 +437,7 @@ export class VisualizationService {
       accuracy: number;
       riskLevel: string;
     }>;
-  } => {
+  } {
     const sorted = [...sessions].sort(
       (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
@@ -0,0 +1,294 @@
+import {
+    ComprehensiveTracingAnalytics,
+    CompletionPersistence,
+    LongitudinalProgressTracking,
+    LetterSpecificMastery,
+    AdaptiveLearningIndicators,
+} from '@models/AnalyticsTypes';
+import { Thresholds } from '@constants/Thresholds';
+import { GLYPHS } from '@constants/LetterPaths';
+import { mean, std, linearRegression, correlation, clamp } from '@utils/MathUtils';
+
+/**
+ * The slice of a session the cross-session metrics need
+ */
+export interface SessionOutcome {
+    letter: string;
+    timestamp: number; // ms since epoch
+    score: number; // accuracy 0-100
+    completed: boolean;
+    duration: number; // seconds
+    strokeCount: number;
+    monitoringScore: number; // 0-100
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RECENT_WINDOW = 10;
+
+export const toSessionOutcome = (record: ComprehensiveTracingAnalytics): SessionOutcome => ({
+    letter: record.letter,
+    timestamp: new Date(record.timestamp).getTime(),
+    score: record.spatial_accuracy_deviation.accuracy_score,
+    completed: record.completion_persistence.letter_completion_status === 'completed',
+    duration: record.time_based_performance.total_session_duration,
+    strokeCount: record.stroke_count_sequencing.actual_stroke_count_used,
+    monitoringScore: record.error_detection_self_correction.monitoring_behavior_score,
+});
+
+/**
+ * Chronological outcomes from stored sessions plus the session being scored
+ */
+export const buildTimeline = (
+    history: SessionOutcome[],
+    current?: SessionOutcome
+): SessionOutcome[] => {
+    const past = history.filter(o => !current || o.timestamp < current.timestamp);
+    const timeline = current ? [...past, current] : past;
+    return timeline.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const groupByLetter = (timeline: SessionOutcome[]): Record<string, SessionOutcome[]> => {
+    const groups: Record<string, SessionOutcome[]> = {};
+    timeline.forEach(o => {
+        (groups[o.letter] = groups[o.letter] ?? []).push(o);
+    });
+    return groups;
+};
+
+/**
+ * Retention ratio for repeat attempts of a letter separated by a gap inside [minMs, maxMs]
+ */
+const retentionAcrossGap = (timeline: SessionOutcome[], minMs: number, maxMs: number): number => {
+    const ratios: number[] = [];
+
+    Object.values(groupByLetter(timeline)).forEach(sessions => {
+        for (let i = 1; i < sessions.length; i++) {
+            const gap = sessions[i].timestamp - sessions[i - 1].timestamp;
+            if (gap >= minMs && gap <= maxMs && sessions[i - 1].score > 0) {
+                ratios.push(clamp(sessions[i].score / sessions[i - 1].score, 0, 1));
+            }
+        }
+    });
+
+    // 0 means no qualifying gap has happened yet
+    return ratios.length > 0 ? mean(ratios) : 0;
+};
+
+/**
+ * Rolling mean over the last `masteryConsistency` sessions of one letter
+ */
+const rollingMastery = (sessions: SessionOutcome[], endIndex: number): number => {
+    const window = Thresholds.learning.masteryConsistency;
+    if (endIndex + 1 < window) return 0;
+    return mean(sessions.slice(endIndex + 1 - window, endIndex + 1).map(s => s.score));
+};
+
+/**
+ * Power-law practice curve: score grows linearly in ln(session number)
+ */
+export const fitLearningCurve = (
+    timeline: SessionOutcome[]
+): { actual: number[]; fitted: number[]; slope: number } => {
+    const actual = timeline.map(o => o.score);
+    if (actual.length < 2) return { actual, fitted: [...actual], slope: 0 };
+
+    const { slope, intercept } = linearRegression(actual.map((_, i) => Math.log(i + 1)), actual);
+    return {
+        actual,
+        fitted: actual.map((_, i) => clamp(intercept + slope * Math.log(i + 1), 0, 100)),
+        slope,
+    };
+};
+
+/**
+ * Learning curve, improvement rate, plateau and retention across all letters
+ */
+export const calculateLongitudinalProgress = (timeline: SessionOutcome[]): LongitudinalProgressTracking => {
+    const scores = timeline.map(o => o.score);
+    const recent = scores.slice(-RECENT_WINDOW);
+
+    const recentTrend = linearRegression(recent.map((_, i) => i), recent);
+    const recentMean = mean(recent);
+    const improvementRate = scores.length >= 2 && recentMean > 0 ? recentTrend.slope / recentMean : 0;
+
+    const plateauWindow = scores.slice(-Thresholds.learning.plateauSessions);
+    const plateauMean = mean(plateauWindow);
+    const plateau =
+        plateauWindow.length === Thresholds.learning.plateauSessions &&
+        plateauMean > 0 &&
+        std(plateauWindow) / plateauMean < Thresholds.learning.plateauVariation &&
+        Math.abs(improvementRate) < Thresholds.learning.minImprovementRate &&
+        plateauMean < Thresholds.learning.masteryAccuracy;
+
+    const [min24h, max24h] = Thresholds.learning.retention24hWindowHours;
+    const [minWeek, maxWeek] = Thresholds.learning.retention1weekWindowDays;
+
+    return {
+        total_session_count: timeline.length,
+        improvement_rate_per_session: improvementRate,
+        plateau_detection_flag: plateau,
+        retention_score_24hr: retentionAcrossGap(timeline, min24h * HOUR_MS, max24h * HOUR_MS),
+        retention_score_1week: retentionAcrossGap(timeline, minWeek * DAY_MS, maxWeek * DAY_MS),
+        skill_transfer_coefficient: calculateSkillTransfer(timeline),
+        learning_curve_slope: fitLearningCurve(timeline).slope,
+    };
+};
+
+/**
+ * Correlation between letters already practised and the first-attempt score on each new letter
+ */
+const calculateSkillTransfer = (timeline: SessionOutcome[]): number => {
+    const seen = new Set<string>();
+    const priorLetters: number[] = [];
+    const firstScores: number[] = [];
+
+    timeline.forEach(o => {
+        if (seen.has(o.letter)) return;
+        priorLetters.push(seen.size);
+        firstScores.push(o.score);
+        seen.add(o.letter);
+    });
+
+    return firstScores.length >= 3 ? correlation(priorLetters, firstScores) : 0;
+};
+
+/**
+ * Exponential forgetting rate per day: score_after = score_before * e^(-k * days)
+ */
+const forgettingRate = (sessions: SessionOutcome[]): number | null => {
+    const rates: number[] = [];
+
+    for (let i = 1; i < sessions.length; i++) {
+        const days = (sessions[i].timestamp - sessions[i - 1].timestamp) / DAY_MS;
+        const before = sessions[i - 1].score;
+        const after = sessions[i].score;
+        if (days >= 1 && before > 0 && after > 0) {
+            rates.push(Math.max(0, -Math.log(after / before)) / days);
+        }
+    }
+
+    return rates.length > 0 ? mean(rates) : null;
+};
+
+/**
+ * Per-letter mastery state, when each letter was mastered, and how quickly it fades
+ */
+export const calculateLetterMastery = (
+    timeline: SessionOutcome[],
+    alphabetSize: number = GLYPHS.length
+): LetterSpecificMastery => {
+    const mastered: string[] = [];
+    const problematic: string[] = [];
+    const masteryTimeline: LetterSpecificMastery['mastery_timeline'] = [];
+    const forgettingCurve: LetterSpecificMastery['forgetting_curve_data'] = [];
+
+    Object.entries(groupByLetter(timeline)).forEach(([letter, sessions]) => {
+        const latest = rollingMastery(sessions, sessions.length - 1);
+        const recentMean = mean(sessions.slice(-Thresholds.learning.masteryConsistency).map(s => s.score));
+
+        if (latest >= Thresholds.learning.masteryAccuracy) {
+            mastered.push(letter);
+        } else if (sessions.length >= 2 && recentMean < Thresholds.learning.problematicAccuracy) {
+            problematic.push(letter);
+        }
+
+        const firstMastered = sessions.findIndex(
+            (_, i) => rollingMastery(sessions, i) >= Thresholds.learning.masteryAccuracy
+        );
+        if (firstMastered !== -1) {
+            masteryTimeline.push({
+                letter,
+                date: new Date(sessions[firstMastered].timestamp).toISOString(),
+                score: rollingMastery(sessions, firstMastered),
+            });
+        }
+
+        const decay = forgettingRate(sessions);
+        if (decay !== null) {
+            forgettingCurve.push({ letter, decay_rate: decay });
+        }
+    });
+
+    masteryTimeline.sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+        mastered_letters_list: mastered.sort(),
+        problematic_letters_list: problematic.sort(),
+        mastery_timeline: masteryTimeline,
+        forgetting_curve_data: forgettingCurve,
+        mastery_percentage: alphabetSize > 0 ? (mastered.length / alphabetSize) * 100 : 0,
+    };
+};
+
+/**
+ * Strategy changes, error trend, self-regulation and score gained per practice minute
+ */
+export const calculateAdaptiveLearning = (timeline: SessionOutcome[]): AdaptiveLearningIndicators => {
+    // A different stroke count on a repeat attempt means the child changed how they form the letter
+    let strategyChanges = 0;
+    Object.values(groupByLetter(timeline)).forEach(sessions => {
+        for (let i = 1; i < sessions.length; i++) {
+            if (sessions[i].strokeCount !== sessions[i - 1].strokeCount) strategyChanges++;
+        }
+    });
+
+    const recent = timeline.slice(-RECENT_WINDOW);
+    const half = Math.floor(recent.length / 2);
+    let evolution = 'stable';
+    if (half >= 2) {
+        const earlierErrors = mean(recent.slice(0, half).map(o => 100 - o.score));
+        const laterErrors = mean(recent.slice(half).map(o => 100 - o.score));
+        const change = earlierErrors > 0 ? (laterErrors - earlierErrors) / earlierErrors : 0;
+        if (change <= -Thresholds.learning.minImprovementRate) evolution = 'improving';
+        else if (change >= Thresholds.learning.minImprovementRate) evolution = 'declining';
+    }
+
+    const practiceMinutes = timeline.reduce((sum, o) => sum + o.duration, 0) / 60;
+    const window = Math.min(Thresholds.learning.masteryConsistency, Math.floor(timeline.length / 2));
+    const gain = window > 0
+        ? mean(timeline.slice(-window).map(o => o.score)) - mean(timeline.slice(0, window).map(o => o.score))
+        : 0;
+
+    return {
+        strategy_changes_detected: strategyChanges,
+        error_pattern_evolution: evolution,
+        self_regulation_score: mean(recent.map(o => o.monitoringScore)),
+        learning_efficiency: practiceMinutes > 0 ? gain / practiceMinutes : 0,
+    };
+};
+
+/**
+ * Attempts and retries for the current letter since it was last completed
+ */
+export const calculateAttemptHistory = (
+    timeline: SessionOutcome[],
+    current: SessionOutcome
+): Pick<
+    CompletionPersistence,
+    'attempts_to_complete' | 'retry_count' | 'retry_pattern' | 'time_to_first_successful_completion'
+> => {
+    const earlier = timeline.filter(o => o.letter === current.letter && o.timestamp < current.timestamp);
+    const lastCompleted = earlier.map(o => o.completed).lastIndexOf(true);
+    const run = [...earlier.slice(lastCompleted + 1), current];
+    const previous = earlier[earlier.length - 1];
+
+    let retryPattern: CompletionPersistence['retry_pattern'] = 'none';
+    if (previous && !previous.completed) {
+        const gapMinutes = (current.timestamp - previous.timestamp) / 60000;
+        retryPattern = gapMinutes <= Thresholds.learning.immediateRetryMinutes ? 'immediate' : 'delayed';
+    }
+
+    const letterSessions = [...earlier, current];
+    const firstCompleted = letterSessions.findIndex(o => o.completed);
+
+    return {
+        attempts_to_complete: run.length,
+        retry_count: run.length - 1,
+        retry_pattern: retryPattern,
+        // Practice time spent up to the letter's first successful trace
+        time_to_first_successful_completion: firstCompleted === -1
+            ? 0
+            : letterSessions.slice(0, firstCompleted + 1).reduce((sum, o) => sum + o.duration, 0),
+    };
+};
@@ -0,0 +1,163 @@
+import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import { Point } from '@models/TracingData';
+import { normalizeStrokesToUnitBox } from '../../utils/GeometryUtils';
+import { std } from '../../utils/MathUtils';
+import { recordToMm } from '../../utils/CalibrationUtils';
+
+/**
+ * Side-by-side comparison of a child's sessions for one letter ("March vs.
+ * June"). Traces are normalised to the same letter box so they can be
+ * overlaid, and metric changes are judged against the child's own
+ * session-to-session variability rather than population norms.
+ */
+
+export type ComparisonMetricKey = 'accuracy' | 'jerk' | 'tremor' | 'fluency';
+
+export type SignificanceHint = 'significant' | 'possible' | 'within_variation' | 'insufficient_data';
+
+interface ComparisonMetric {
+    key: ComparisonMetricKey;
+    label: string;
+    unit: string;
+    higherIsBetter: boolean;
+    read: (session: ComprehensiveTracingAnalytics) => number;
+}
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+    {
+        key: 'accuracy',
+        label: 'Accuracy',
+        unit: '%',
+        higherIsBetter: true,
+        read: s => s.spatial_accuracy_deviation.accuracy_score,
+    },
+    {
+        key: 'jerk',
+        label: 'Normalized Jerk',
+        unit: '',
+        higherIsBetter: false,
+        read: s => s.acceleration_jerk_analysis.normalized_jerk_score,
+    },
+    {
+        key: 'tremor',
+        label: 'Tremor Amplitude',
+        unit: 'mm',
+        higherIsBetter: false,
+        read: s => recordToMm(s.stroke_quality_consistency.tremor_amplitude, s.calibration),
+    },
+    {
+        key: 'fluency',
+        label: 'Fluency',
+        unit: '%',
+        higherIsBetter: true,
+        read: s => s.velocity_kinematics.fluency_ratio * 100,
+    },
+];
+
+export interface MetricDelta {
+    key: ComparisonMetricKey;
+    label: string;
+    unit: string;
+    values: number[]; // One per compared session, oldest first
+    delta: number; // Newest minus oldest
+    zScore: number | null;
+    significance: SignificanceHint;
+    improved: boolean;
+}
+
+export interface SessionComparisonResult {
+    letter: string;
+    sessions: Array<{ session_id: string; timestamp: string }>;
+    traces: Point[][][]; // Per session, strokes in the shared unit box
+    metrics: MetricDelta[];
+    baselineSessionCount: number; // Sessions the variability estimate came from
+}
+
+// Fewer sessions than this can't give a meaningful spread
+const MIN_BASELINE_SESSIONS = 3;
+const SIGNIFICANT_Z = 1.96;
+const POSSIBLE_Z = 1;
+
+const traceOf = (session: ComprehensiveTracingAnalytics): Point[][] => {
+    const strokes = session.stroke_count_sequencing.strokes
+        .map(stroke => stroke.points.map(p => ({ x: p.x, y: p.y })))
+        .filter(stroke => stroke.length > 0);
+    const points = strokes.length > 0
+        ? strokes
+        : [session.raw_touch_data.touch_coordinates_array.map(p => ({ x: p.x, y: p.y }))];
+    return normalizeStrokesToUnitBox(points);
+};
+
+/**
+ * Compare two or more sessions of the same letter.
+ * @param sessions - The sessions to compare (any order)
+ * @param history - All of the child's sessions for the letter, for the variability estimate
+ */
+export const compareSessions = (
+    sessions: ComprehensiveTracingAnalytics[],
+    history: ComprehensiveTracingAnalytics[] = sessions
+): SessionComparisonResult => {
+    const sorted = [...sessions].sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    const metrics = COMPARISON_METRICS.map(metric => {
+        const values = sorted.map(metric.read);
+        const delta = values.length > 1 ? values[values.length - 1] - values[0] : 0;
+
+        // The difference of two sessions varies with sqrt(2) times one session's spread
+        const spread = std(history.map(metric.read));
+        const zScore = history.length >= MIN_BASELINE_SESSIONS && spread > 0
+            ? delta / (spread * Math.SQRT2)
+            : null;
+
+        let significance: SignificanceHint = 'insufficient_data';
+        if (zScore !== null) {
+            if (Math.abs(zScore) >= SIGNIFICANT_Z) significance = 'significant';
+            else if (Math.abs(zScore) >= POSSIBLE_Z) significance = 'possible';
+            else significance = 'within_variation';
+        }
+
+        return {
+            key: metric.key,
+            label: metric.label,
+            unit: metric.unit,
+            values,
+            delta,
+            zScore,
+            significance,
+            improved: metric.higherIsBetter ? delta > 0 : delta < 0,
+        };
+    });
+
+    return {
+        letter: sorted[0]?.letter ?? '',
+        sessions: sorted.map(s => ({ session_id: s.session_id, timestamp: s.timestamp })),
+        traces: sorted.map(traceOf),
+        metrics,
+        baselineSessionCount: history.length,
+    };
+};
+
+/**
+ * Flat CSV of a comparison: one row per metric, one column per session
+ */
+export const comparisonToCSV = (result: SessionComparisonResult): string => {
+    const headers = [
+        'Metric',
+        ...result.sessions.map(s => s.timestamp),
+        'Change',
+        'Z (own variance)',
+        'Significance',
+    ];
+
+    const rows = result.metrics.map(m => [
+        m.unit ? `${m.label} (${m.unit})` : m.label,
+        ...m.values.map(v => v.toFixed(3)),
+        m.delta.toFixed(3),
+        m.zScore === null ? '' : m.zScore.toFixed(2),
+        m.significance,
+    ]);
+
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+};
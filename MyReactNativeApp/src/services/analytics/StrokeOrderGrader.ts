@@ -0,0 +1,137 @@
+import { Point } from '@models/TracingData';
+import { getLetterPath } from '@constants/ScriptPacks';
+import { LETTER_DEFINITIONS } from '@models/LetterDefinitions';
+import { frechetDistance, generateIdealPath, normalizeStrokesToUnitBox } from '../../utils/GeometryUtils';
+import { hungarianAssignment } from '../../utils/MathUtils';
+
+/**
+ * Grades how a freely written letter was formed: which template stroke each
+ * written stroke stands for, and whether it came in the right order and
+ * direction. Strokes are matched by Hungarian assignment over Fréchet
+ * distances, after both letters are scaled into the same unit box.
+ */
+
+export interface StrokeGrade {
+    writtenIndex: number; // Among the non-empty written strokes
+    templateIndex: number;
+    distance: number; // Fréchet distance in letter-size units
+    outOfOrder: boolean;
+    reversed: boolean;
+}
+
+export interface StrokeOrderGrade {
+    letter: string;
+    expectedStrokeCount: number;
+    writtenStrokeCount: number;
+    strokes: StrokeGrade[]; // Matched strokes, in writing order
+    missingStrokes: number[]; // Template strokes nothing matched
+    extraStrokes: number[]; // Written strokes that match no template stroke
+    orderErrors: number;
+    directionErrors: number;
+    score: number; // 0-1, share of strokes formed correctly
+}
+
+// Points per stroke before comparison; keeps Fréchet cheap and the recursion shallow
+const RESAMPLE_POINTS = 24;
+// Beyond this (fraction of the letter size) a written stroke isn't that template stroke
+const MATCH_THRESHOLD = 0.35;
+
+const resample = (stroke: Point[], n: number): Point[] => {
+    if (stroke.length === 0) return [];
+    if (stroke.length === 1) return Array.from({ length: n }, () => ({ ...stroke[0] }));
+
+    const cumulative = [0];
+    for (let i = 1; i < stroke.length; i++) {
+        cumulative.push(cumulative[i - 1] + Math.hypot(stroke[i].x - stroke[i - 1].x, stroke[i].y - stroke[i - 1].y));
+    }
+    const total = cumulative[cumulative.length - 1];
+    if (total === 0) return Array.from({ length: n }, () => ({ ...stroke[0] }));
+
+    const result: Point[] = [];
+    let seg = 1;
+    for (let k = 0; k < n; k++) {
+        const target = (total * k) / (n - 1);
+        while (seg < stroke.length - 1 && cumulative[seg] < target) seg++;
+        const span = cumulative[seg] - cumulative[seg - 1] || 1;
+        const t = Math.min(1, Math.max(0, (target - cumulative[seg - 1]) / span));
+        result.push({
+            x: stroke[seg - 1].x + t * (stroke[seg].x - stroke[seg - 1].x),
+            y: stroke[seg - 1].y + t * (stroke[seg].y - stroke[seg - 1].y),
+        });
+    }
+    return result;
+};
+
+const templateStrokes = (letter: string, scriptPack?: string): Point[][] | null => {
+    // Exact key only: lowercase forms aren't the capital's strokes
+    const letterPath = getLetterPath(letter, scriptPack);
+    if (!letterPath) return null;
+
+    const ideal = generateIdealPath(letterPath.strokes);
+    return ideal.strokeBoundaries
+        .slice(1)
+        .map((end, i) => ideal.points.slice(ideal.strokeBoundaries[i], end).map(p => ({ x: p.x, y: p.y })));
+};
+
+/**
+ * Grade stroke order and direction of a freely written letter against the
+ * child's script pack (print by default).
+ * Returns null when there is no template for the letter or nothing was written.
+ */
+export const gradeStrokeOrder = (
+    written: Point[][],
+    letter: string,
+    scriptPack?: string
+): StrokeOrderGrade | null => {
+    const template = templateStrokes(letter, scriptPack);
+    const drawn = written.filter(stroke => stroke.length > 0);
+    if (!template || drawn.length === 0) return null;
+
+    const templateCurves = normalizeStrokesToUnitBox(template).map(stroke => resample(stroke, RESAMPLE_POINTS));
+    const writtenCurves = normalizeStrokesToUnitBox(drawn).map(stroke => resample(stroke, RESAMPLE_POINTS));
+
+    // Cost of reading written stroke i as template stroke j, in whichever direction fits better
+    const forward: number[][] = writtenCurves.map(w => templateCurves.map(t => frechetDistance(w, t)));
+    const backward: number[][] = writtenCurves.map(w => {
+        const reversed = [...w].reverse();
+        return templateCurves.map(t => frechetDistance(reversed, t));
+    });
+    const cost = forward.map((row, i) => row.map((d, j) => Math.min(d, backward[i][j])));
+
+    const assignment = hungarianAssignment(cost);
+
+    const matched = assignment
+        .map((templateIndex, writtenIndex) => ({ writtenIndex, templateIndex }))
+        .filter(({ writtenIndex, templateIndex }) =>
+            templateIndex !== -1 && cost[writtenIndex][templateIndex] <= MATCH_THRESHOLD
+        );
+
+    // In order means the matched template strokes appear in ascending order
+    const expectedOrder = matched.map(m => m.templateIndex).sort((a, b) => a - b);
+    const strokes: StrokeGrade[] = matched.map(({ writtenIndex, templateIndex }, k) => ({
+        writtenIndex,
+        templateIndex,
+        distance: cost[writtenIndex][templateIndex],
+        outOfOrder: expectedOrder[k] !== templateIndex,
+        reversed: backward[writtenIndex][templateIndex] < forward[writtenIndex][templateIndex],
+    }));
+
+    const matchedTemplates = new Set(matched.map(m => m.templateIndex));
+    const matchedWritten = new Set(matched.map(m => m.writtenIndex));
+    const missingStrokes = template.map((_, i) => i).filter(i => !matchedTemplates.has(i));
+    const extraStrokes = drawn.map((_, i) => i).filter(i => !matchedWritten.has(i));
+
+    const correct = strokes.filter(s => !s.outOfOrder && !s.reversed).length;
+
+    return {
+        letter,
+        expectedStrokeCount: LETTER_DEFINITIONS[letter]?.strokeCount ?? template.length,
+        writtenStrokeCount: drawn.length,
+        strokes,
+        missingStrokes,
+        extraStrokes,
+        orderErrors: strokes.filter(s => s.outOfOrder).length,
+        directionErrors: strokes.filter(s => s.reversed).length,
+        score: correct / Math.max(template.length, drawn.length),
+    };
+};
@@ -0,0 +1,191 @@
+import { PathSegment, Point } from '@models/TracingData';
+
+/**
+ * Fit lines and cubic Béziers to a dense polyline (a traced skeleton).
+ * Corners are kept sharp; smooth runs use Schneider's least-squares fit
+ * ("An Algorithm for Automatically Fitting Digitized Curves", Graphics Gems 1990),
+ * splitting at the worst point until every sample is within tolerance.
+ */
+
+// Turns sharper than this (degrees) over the corner window are kept as corners
+const CORNER_ANGLE = 55;
+
+export const fitPolyline = (points: Point[], tolerance: number): PathSegment[] => {
+  const cleaned = dedupe(points);
+  if (cleaned.length < 2) return [];
+
+  const corners = findCorners(cleaned, Math.max(2, Math.round(tolerance * 2)));
+  const pieces: PathSegment[] = [];
+  for (let i = 0; i < corners.length - 1; i++) {
+    pieces.push(...fitPiece(cleaned.slice(corners[i], corners[i + 1] + 1), tolerance));
+  }
+  return pieces;
+};
+
+const fitPiece = (points: Point[], tolerance: number): PathSegment[] => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length === 2 || maxDistanceToChord(points) <= tolerance) {
+    return [{ type: 'line', start: first, end: last }];
+  }
+
+  const startTangent = normalize(sub(points[Math.min(2, points.length - 1)], first));
+  const endTangent = normalize(sub(points[Math.max(0, points.length - 3)], last));
+  return fitCubic(points, startTangent, endTangent, tolerance);
+};
+
+const fitCubic = (points: Point[], tHat1: Point, tHat2: Point, tolerance: number): PathSegment[] => {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length === 2) {
+    const third = distance(first, last) / 3;
+    return [bezier(first, add(first, scale(tHat1, third)), add(last, scale(tHat2, third)), last)];
+  }
+
+  const u = chordLengthParameters(points);
+  const curve = generateBezier(points, u, tHat1, tHat2);
+  const { maxError, splitIndex } = maxFitError(points, curve, u);
+  if (maxError <= tolerance * tolerance) {
+    return [curve];
+  }
+
+  const centreTangent = normalize(sub(points[splitIndex - 1], points[splitIndex + 1]));
+  return [
+    ...fitCubic(points.slice(0, splitIndex + 1), tHat1, centreTangent, tolerance),
+    ...fitCubic(points.slice(splitIndex), scale(centreTangent, -1), tHat2, tolerance),
+  ];
+};
+
+// Least-squares handle lengths along the fixed end tangents
+const generateBezier = (points: Point[], u: number[], tHat1: Point, tHat2: Point): PathSegment => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+
+  u.forEach((t, i) => {
+    const mt = 1 - t;
+    const a1 = scale(tHat1, 3 * mt * mt * t);
+    const a2 = scale(tHat2, 3 * mt * t * t);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+
+    const onChord = add(scale(first, mt * mt * mt + 3 * mt * mt * t), scale(last, 3 * mt * t * t + t * t * t));
+    const residual = sub(points[i], onChord);
+    x0 += dot(a1, residual);
+    x1 += dot(a2, residual);
+  });
+
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+
+  // Degenerate or reversed handles fall back to the Wu/Barsky heuristic
+  const chord = distance(first, last);
+  const epsilon = 1e-6 * chord;
+  if (alpha1 < epsilon || alpha2 < epsilon) {
+    alpha1 = chord / 3;
+    alpha2 = chord / 3;
+  }
+
+  return bezier(first, add(first, scale(tHat1, alpha1)), add(last, scale(tHat2, alpha2)), last);
+};
+
+const maxFitError = (points: Point[], curve: PathSegment, u: number[]) => {
+  let maxError = 0;
+  let splitIndex = Math.floor(points.length / 2);
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const error = squaredDistance(evaluate(curve, u[i]), points[i]);
+    if (error >= maxError) {
+      maxError = error;
+      splitIndex = i;
+    }
+  }
+  return { maxError, splitIndex };
+};
+
+const chordLengthParameters = (points: Point[]): number[] => {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const total = lengths[lengths.length - 1] || 1;
+  return lengths.map(length => length / total);
+};
+
+/**
+ * Indices where the polyline turns sharply, plus both ends
+ * The turn at i is measured between the points `window` samples either side.
+ */
+const findCorners = (points: Point[], window: number): number[] => {
+  const corners = [0];
+  const turns = points.map((p, i) => {
+    if (i < window || i >= points.length - window) return 0;
+    const incoming = sub(p, points[i - window]);
+    const outgoing = sub(points[i + window], p);
+    const lengths = Math.hypot(incoming.x, incoming.y) * Math.hypot(outgoing.x, outgoing.y);
+    return lengths === 0 ? 0 : (Math.acos(Math.max(-1, Math.min(1, dot(incoming, outgoing) / lengths))) * 180) / Math.PI;
+  });
+
+  for (let i = window; i < points.length - window; i++) {
+    const isPeak = turns[i] >= CORNER_ANGLE && turns.slice(i - window, i + window + 1).every(t => t <= turns[i]);
+    if (isPeak && i - corners[corners.length - 1] > window) {
+      corners.push(i);
+    }
+  }
+
+  corners.push(points.length - 1);
+  return corners;
+};
+
+const maxDistanceToChord = (points: Point[]): number => {
+  const a = points[0];
+  const b = points[points.length - 1];
+  const chord = sub(b, a);
+  const length = Math.hypot(chord.x, chord.y);
+
+  return Math.max(
+    ...points.map(p =>
+      length === 0 ? distance(p, a) : Math.abs(chord.x * (p.y - a.y) - chord.y * (p.x - a.x)) / length
+    )
+  );
+};
+
+const evaluate = (curve: PathSegment, t: number): Point => {
+  const c1 = curve.control1 ?? curve.start;
+  const c2 = curve.control2 ?? curve.end;
+  const mt = 1 - t;
+  return {
+    x: mt * mt * mt * curve.start.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * curve.end.x,
+    y: mt * mt * mt * curve.start.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * curve.end.y,
+  };
+};
+
+const bezier = (start: Point, control1: Point, control2: Point, end: Point): PathSegment => ({
+  type: 'bezier',
+  start,
+  control1,
+  control2,
+  end,
+});
+
+const dedupe = (points: Point[]): Point[] =>
+  points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Point, s: number): Point => ({ x: a.x * s, y: a.y * s });
+const dot = (a: Point, b: Point): number => a.x * b.x + a.y * b.y;
+const squaredDistance = (a: Point, b: Point): number => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+const distance = (a: Point, b: Point): number => Math.sqrt(squaredDistance(a, b));
+
+const normalize = (a: Point): Point => {
+  const length = Math.hypot(a.x, a.y);
+  return length === 0 ? { x: 0, y: 0 } : { x: a.x / length, y: a.y / length };
+};
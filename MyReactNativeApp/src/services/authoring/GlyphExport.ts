@@ -0,0 +1,257 @@
+import { CANVAS_CONFIG } from '@constants/LetterPaths';
+import { LetterPath, PathSegment, Point } from '@models/TracingData';
+import { AuthoringStroke } from './StrokeEditing';
+
+/**
+ * Source generation for authored letters: a LETTER_PATHS entry for this app
+ * and a geometry.ts module for LetterTracingApp02. Both are written in the
+ * shared 100×100 viewBox, which convertFrom100x100 maps onto the canvas.
+ */
+
+export type GlyphSet = 'uppercase' | 'lowercase' | 'digits';
+
+// Viewbox lines a glyph is fitted between (y grows downwards)
+interface GlyphFrame {
+  top: number; // Cap height, or x-height for lowercase
+  baseline: number;
+}
+
+const GLYPH_FRAMES: Record<GlyphSet, GlyphFrame> = {
+  uppercase: { top: 10, baseline: 90 },
+  digits: { top: 10, baseline: 90 },
+  // LOWERCASE_LINES in LetterTracingApp02's lowercase/metrics.ts
+  lowercase: { top: 40, baseline: 70 },
+};
+
+export interface GlyphExportOptions {
+  letter: string;
+  glyphSet: GlyphSet;
+  referenceHeight: number; // Canvas px from the baseline to the cap height (x-height for lowercase)
+  source?: string; // Font the glyph came from, for the header comment
+  difficulty?: LetterPath['difficulty'];
+  confusionPairs?: string[];
+}
+
+/**
+ * Fit canvas strokes into the viewBox: the glyph's baseline and reference
+ * height land on the frame lines and it is centred horizontally
+ */
+export const toViewBoxStrokes = (strokes: AuthoringStroke[], options: GlyphExportOptions): AuthoringStroke[] => {
+  const frame = GLYPH_FRAMES[options.glyphSet];
+  const scale = (frame.baseline - frame.top) / options.referenceHeight;
+
+  const xs = strokes.flatMap(stroke => stroke.segments.flatMap(s => [s.start.x, s.end.x]));
+  const centreX = xs.length > 0 ? (Math.min(...xs) + Math.max(...xs)) / 2 : 0;
+
+  const map = (p: Point): Point => ({
+    x: round(50 + (p.x - centreX) * scale),
+    y: round(frame.baseline + (p.y - CANVAS_CONFIG.baseline) * scale),
+  });
+
+  return strokes.map(stroke => ({
+    ...stroke,
+    segments: stroke.segments.map(segment => ({
+      ...segment,
+      start: map(segment.start),
+      end: map(segment.end),
+      control1: segment.control1 && map(segment.control1),
+      control2: segment.control2 && map(segment.control2),
+    })),
+  }));
+};
+
+/**
+ * SVG path data for a stroke, one command per line
+ */
+export const strokeToSvgPath = (segments: PathSegment[], separator: string = ' '): string => {
+  const commands: string[] = [];
+  let current: Point | null = null;
+
+  segments.forEach(segment => {
+    if (!current || current.x !== segment.start.x || current.y !== segment.start.y) {
+      commands.push(`M ${pair(segment.start)}`);
+    }
+    commands.push(
+      segment.type === 'bezier' && segment.control1 && segment.control2
+        ? `C ${pair(segment.control1)} ${pair(segment.control2)} ${pair(segment.end)}`
+        : `L ${pair(segment.end)}`
+    );
+    current = segment.end;
+  });
+
+  return commands.join(separator);
+};
+
+/**
+ * A LETTER_PATHS entry in the style of src/constants/LetterPaths.ts
+ */
+export const buildLetterPathsEntry = (canvasStrokes: AuthoringStroke[], options: GlyphExportOptions): string => {
+  const strokes = toViewBoxStrokes(canvasStrokes, options);
+  const { letter } = options;
+  const source = options.source ? ` (generated from ${options.source})` : '';
+  const confusionPairs = (options.confusionPairs ?? []).map(quote).join(', ');
+
+  const strokeBlocks = strokes.map((stroke, i) => {
+    const lines = [`      // Stroke ${i + 1}: ${stroke.name} - ${strokeToSvgPath(stroke.segments)}`];
+    if (stroke.description) {
+      lines.push(`      // ${stroke.description}`);
+    }
+    lines.push('      (() => {', ...pointDeclarations(stroke.segments), '      })(),');
+    return lines.join('\n');
+  });
+
+  return [
+    '  // ================================================================================',
+    `  // LETTER ${letter} - ViewBox: 100×100, Strokes: ${strokes.length}${source}`,
+    '  // ================================================================================',
+    `  ${/^[A-Za-z_]\w*$/.test(letter) ? letter : quote(letter)}: {`,
+    `    letter: ${quote(letter)},`,
+    `    expectedStrokeCount: ${strokes.length},`,
+    '    width: LETTER_WIDTH,',
+    '    height: LETTER_HEIGHT,',
+    '    baseline: BASELINE,',
+    `    difficulty: '${options.difficulty ?? 'medium'}',`,
+    `    confusionPairs: [${confusionPairs}],`,
+    '    strokes: [',
+    strokeBlocks.join('\n      \n'),
+    '    ],',
+    '  },',
+    '',
+  ].join('\n');
+};
+
+// Named viewBox points (p for on-curve, c for control points) and the segments built from them
+const pointDeclarations = (segments: PathSegment[]): string[] => {
+  const declarations: string[] = [];
+  const calls: string[] = [];
+  let pointCount = 0;
+  let controlCount = 0;
+  let current: { name: string; point: Point } | null = null;
+
+  const declare = (prefix: 'p' | 'c', point: Point): string => {
+    const name = prefix === 'p' ? `p${++pointCount}` : `c${++controlCount}`;
+    declarations.push(`        const ${name} = convertFrom100x100(${point.x}, ${point.y});`);
+    return name;
+  };
+
+  segments.forEach(segment => {
+    const start: string =
+      current && current.point.x === segment.start.x && current.point.y === segment.start.y
+        ? current.name
+        : declare('p', segment.start);
+
+    if (segment.type === 'bezier' && segment.control1 && segment.control2) {
+      const c1 = declare('c', segment.control1);
+      const c2 = declare('c', segment.control2);
+      const end = declare('p', segment.end);
+      calls.push(
+        `createBezier(${start}.x, ${start}.y, ${c1}.x, ${c1}.y, ${c2}.x, ${c2}.y, ${end}.x, ${end}.y)`
+      );
+      current = { name: end, point: segment.end };
+    } else {
+      const end = declare('p', segment.end);
+      calls.push(`createLine(${start}.x, ${start}.y, ${end}.x, ${end}.y)`);
+      current = { name: end, point: segment.end };
+    }
+  });
+
+  const body = calls.length === 1
+    ? [`        return [${calls[0]}];`]
+    : ['        return [', ...calls.map(call => `          ${call},`), '        ];'];
+
+  return [...declarations, ...body];
+};
+
+/**
+ * A LetterTracingApp02 geometry.ts module (src/letters/<set>/<letter>/geometry.ts)
+ */
+export const buildGeometryModule = (canvasStrokes: AuthoringStroke[], options: GlyphExportOptions): string => {
+  const strokes = toViewBoxStrokes(canvasStrokes, options);
+  const { letter, glyphSet } = options;
+  const source = options.source ? ` — generated from ${options.source}` : ' — generated with the letter authoring tool';
+  const keys = uniqueKeys(strokes.map(stroke => stroke.name));
+
+  const kind = {
+    uppercase: 'Capital letter',
+    lowercase: 'Lowercase letter',
+    digits: 'Numeral',
+  }[glyphSet];
+
+  const header = [`// src/letters/${glyphSet}/${letter}/geometry.ts`, `// ${kind} ${letter}${source}`];
+  if (glyphSet === 'lowercase') {
+    header.push('// Drawn in LOWERCASE_VIEWBOX; sits between the x-height and the baseline');
+  }
+
+  const viewBox = glyphSet === 'lowercase'
+    ? []
+    : ['export const SVG_VIEWBOX = {', '  width: 100,', '  height: 100,', '};', ''];
+
+  const rawPaths = strokes.map((stroke, i) => {
+    const comment = ['  /**', `   * STROKE ${i + 1} — ${stroke.name}`];
+    if (stroke.description) {
+      comment.push(`   * ${stroke.description}`);
+    }
+    comment.push('   */');
+    return [
+      ...comment,
+      `  ${keys[i]}: \``,
+      `    ${strokeToSvgPath(stroke.segments, '\n    ')}`,
+      '  `,',
+    ].join('\n');
+  });
+
+  const strokeOrder = strokes.map((stroke, i) =>
+    [
+      '  {',
+      `    name: ${quote(stroke.name)},`,
+      `    path: RAW_PATHS.${keys[i]},`,
+      `    description: ${quote(stroke.description)},`,
+      '  },',
+    ].join('\n')
+  );
+
+  return [
+    ...header,
+    '',
+    ...viewBox,
+    'export const RAW_PATHS = {',
+    rawPaths.join('\n\n'),
+    '};',
+    '',
+    'export const STROKE_ORDER = [',
+    ...strokeOrder,
+    '];',
+    '',
+  ].join('\n');
+};
+
+// camelCase object keys from stroke names ("Left Stroke" -> leftStroke), kept unique
+const uniqueKeys = (names: string[]): string[] => {
+  const used = new Set<string>();
+
+  return names.map((name, i) => {
+    const words = name.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+    let key = words
+      .map((word, w) => (w === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+      .join('');
+    if (!/^[A-Za-z]/.test(key)) {
+      key = `stroke${i + 1}`;
+    }
+
+    let unique = key;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${key}${n}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+};
+
+const round = (value: number): number => {
+  const rounded = Math.round(value * 100) / 100;
+  return rounded === 0 ? 0 : rounded;
+};
+
+const pair = (p: Point): string => `${p.x},${p.y}`;
+
+const quote = (text: string): string => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
@@ -0,0 +1,630 @@
+import { PathSegment, Point } from '@models/TracingData';
+import { fitPolyline } from './CurveFitting';
+
+/**
+ * Centre-line extraction: turns a glyph's filled outline into the single-line
+ * strokes a child traces. The outline is rasterised, thinned to a one-pixel
+ * medial axis (Zhang–Suen), split into a graph at junctions, re-joined where a
+ * line runs straight through a junction, and fitted with Béziers. Strokes are
+ * then oriented and ordered by print handwriting conventions.
+ */
+
+export interface SkeletonOptions {
+  cellSize?: number; // Canvas px per raster cell
+  tolerance?: number; // Max curve fitting error in canvas px
+}
+
+export interface Raster {
+  width: number;
+  height: number;
+  cells: Uint8Array; // 1 = ink
+  originX: number; // Canvas position of cell (0, 0)'s corner
+  originY: number;
+  cellSize: number;
+}
+
+interface SkeletonEdge {
+  points: Point[]; // Canvas coordinates, node centre to node centre
+  from: number; // Node ids; -1 for a closed loop with no junction
+  to: number;
+}
+
+const DEFAULT_CELL_SIZE = 2;
+
+// Edges meeting at a junction within this many degrees of straight are one stroke
+const CONTINUATION_ANGLE = 40;
+
+// A stroke turning more sharply than this (degrees) is two strokes, as at the top of an A
+const CORNER_ANGLE = 70;
+
+// Neighbour offsets clockwise from north (P2..P9 in Zhang–Suen's notation)
+const RING: Array<[number, number]> = [
+  [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1],
+];
+
+/**
+ * Centre-line strokes for a glyph outline, oriented and in teaching order
+ */
+export const extractCenterlineStrokes = (
+  contours: PathSegment[][],
+  options: SkeletonOptions = {}
+): PathSegment[][] => {
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const tolerance = options.tolerance ?? cellSize * 1.5;
+
+  const raster = rasterizeContours(contours, cellSize);
+  const inkCells = raster.cells.reduce((sum, cell) => sum + cell, 0);
+  thinRaster(raster);
+  const skeletonCells = raster.cells.reduce((sum, cell) => sum + cell, 0);
+  if (skeletonCells === 0) return [];
+
+  // Ink area over centre-line length approximates the stroke weight
+  const strokeWidth = (inkCells / skeletonCells) * cellSize;
+
+  const edges = pruneSpurs(traceSkeleton(raster), strokeWidth);
+  const polylines = joinAtJunctions(edges, strokeWidth)
+    .flatMap(line => splitAtCorners(smooth(line), strokeWidth))
+    .filter(line => polylineLength(line) >= strokeWidth);
+
+  return orderStrokes(polylines.map(orientStroke))
+    .map(line => fitPolyline(line, tolerance))
+    .filter(stroke => stroke.length > 0);
+};
+
+/**
+ * Fill closed contours into a raster with the nonzero winding rule (as TrueType does)
+ */
+export const rasterizeContours = (contours: PathSegment[][], cellSize: number): Raster => {
+  const polygons = contours.map(flattenContour).filter(polygon => polygon.length > 2);
+  const all = polygons.flat();
+  if (all.length === 0) {
+    return { width: 0, height: 0, cells: new Uint8Array(0), originX: 0, originY: 0, cellSize };
+  }
+
+  // One empty cell of margin so thinning never touches the border
+  const originX = Math.min(...all.map(p => p.x)) - cellSize;
+  const originY = Math.min(...all.map(p => p.y)) - cellSize;
+  const width = Math.ceil((Math.max(...all.map(p => p.x)) - originX) / cellSize) + 2;
+  const height = Math.ceil((Math.max(...all.map(p => p.y)) - originY) / cellSize) + 2;
+  const cells = new Uint8Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    const y = originY + (row + 0.5) * cellSize;
+    const crossings: Array<{ x: number; winding: number }> = [];
+
+    polygons.forEach(polygon => {
+      polygon.forEach((a, i) => {
+        const b = polygon[(i + 1) % polygon.length];
+        if ((a.y <= y) !== (b.y <= y)) {
+          crossings.push({ x: a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x), winding: b.y > a.y ? 1 : -1 });
+        }
+      });
+    });
+    crossings.sort((a, b) => a.x - b.x);
+
+    let winding = 0;
+    crossings.forEach((crossing, i) => {
+      winding += crossing.winding;
+      const next = crossings[i + 1];
+      if (winding === 0 || !next) return;
+
+      const firstCol = Math.max(0, Math.ceil((crossing.x - originX) / cellSize - 0.5));
+      const lastCol = Math.min(width - 1, Math.floor((next.x - originX) / cellSize - 0.5));
+      for (let col = firstCol; col <= lastCol; col++) {
+        cells[row * width + col] = 1;
+      }
+    });
+  }
+
+  return { width, height, cells, originX, originY, cellSize };
+};
+
+/**
+ * Zhang–Suen thinning to an 8-connected, one-cell-wide skeleton, followed by a
+ * pass that removes staircase cells so every line cell has exactly two neighbours
+ */
+export const thinRaster = (raster: Raster): void => {
+  const { width, height, cells } = raster;
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : cells[y * width + x]);
+  const ring = (x: number, y: number) => RING.map(([dx, dy]) => at(x + dx, y + dy));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of [0, 1]) {
+      const remove: number[] = [];
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!cells[y * width + x]) continue;
+          const [p2, p3, p4, p5, p6, p7, p8, p9] = ring(x, y);
+          const neighbours = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+          if (neighbours < 2 || neighbours > 6) continue;
+          if (transitions([p2, p3, p4, p5, p6, p7, p8, p9]) !== 1) continue;
+          if (step === 0 ? p2 * p4 * p6 !== 0 || p4 * p6 * p8 !== 0 : p2 * p4 * p8 !== 0 || p2 * p6 * p8 !== 0) continue;
+          remove.push(y * width + x);
+        }
+      }
+      remove.forEach(index => {
+        cells[index] = 0;
+      });
+      changed = changed || remove.length > 0;
+    }
+  }
+
+  // A cell whose neighbours all touch each other is redundant (a step in a staircase)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!cells[y * width + x]) continue;
+      const present = RING.filter(([dx, dy]) => at(x + dx, y + dy));
+      if (present.length >= 2 && neighbourComponents(present) === 1) {
+        cells[y * width + x] = 0;
+      }
+    }
+  }
+};
+
+// 0 -> 1 changes around the ring
+const transitions = (ringValues: number[]): number =>
+  ringValues.filter((value, i) => value === 0 && ringValues[(i + 1) % ringValues.length] === 1).length;
+
+// How many 8-connected groups a cell's neighbours form among themselves
+const neighbourComponents = (offsets: Array<[number, number]>): number => {
+  const group = offsets.map((_, i) => i);
+  const find = (i: number): number => (group[i] === i ? i : (group[i] = find(group[i])));
+
+  offsets.forEach(([ax, ay], i) => {
+    offsets.forEach(([bx, by], j) => {
+      if (i < j && Math.abs(ax - bx) <= 1 && Math.abs(ay - by) <= 1) {
+        group[find(i)] = find(j);
+      }
+    });
+  });
+  return new Set(offsets.map((_, i) => find(i))).size;
+};
+
+/**
+ * Split the skeleton into edges between nodes: line ends and junctions
+ * (adjacent junction cells are one node). Loops with no junction become closed edges.
+ */
+const traceSkeleton = (raster: Raster): SkeletonEdge[] => {
+  const { width, height, cells, originX, originY, cellSize } = raster;
+  const ink = (index: number) => cells[index] === 1;
+  const neighboursOf = (index: number): number[] => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    return RING.map(([dx, dy]) => [x + dx, y + dy])
+      .filter(([nx, ny]) => nx >= 0 && ny >= 0 && nx < width && ny < height)
+      .map(([nx, ny]) => ny * width + nx)
+      .filter(ink);
+  };
+  const toCanvas = (index: number): Point => ({
+    x: originX + ((index % width) + 0.5) * cellSize,
+    y: originY + (Math.floor(index / width) + 0.5) * cellSize,
+  });
+
+  // Group node cells into nodes
+  const nodeOf = new Map<number, number>();
+  const nodeCentres: Point[] = [];
+  for (let index = 0; index < cells.length; index++) {
+    if (!ink(index) || nodeOf.has(index) || neighboursOf(index).length === 2) continue;
+
+    const id = nodeCentres.length;
+    const members = [index];
+    nodeOf.set(index, id);
+    for (let m = 0; m < members.length; m++) {
+      neighboursOf(members[m])
+        .filter(n => !nodeOf.has(n) && neighboursOf(n).length > 2 && neighboursOf(members[m]).length > 2)
+        .forEach(n => {
+          nodeOf.set(n, id);
+          members.push(n);
+        });
+    }
+    const centres = members.map(toCanvas);
+    nodeCentres.push({
+      x: centres.reduce((sum, p) => sum + p.x, 0) / centres.length,
+      y: centres.reduce((sum, p) => sum + p.y, 0) / centres.length,
+    });
+  }
+
+  const edges: SkeletonEdge[] = [];
+  const visited = new Set<number>();
+  const directLinks = new Set<string>();
+
+  const walk = (start: number, first: number): number[] => {
+    const chain = [start, first];
+    let previous = start;
+    let current = first;
+    while (!nodeOf.has(current)) {
+      visited.add(current);
+      // A cell beside a junction can touch two of its cells; don't step straight back in
+      const options = neighboursOf(current).filter(
+        n => n !== previous && !chain.includes(n) && (chain.length > 2 || nodeOf.get(n) === undefined || nodeOf.get(n) !== nodeOf.get(start))
+      );
+      const next =
+        options.find(n => nodeOf.has(n)) ??
+        options.find(n => !visited.has(n)) ??
+        (chain.length > 3 && neighboursOf(current).includes(chain[0]) ? chain[0] : undefined);
+      if (next === undefined) break;
+      chain.push(next);
+      previous = current;
+      current = next;
+      if (next === chain[0]) break;
+    }
+    return chain;
+  };
+
+  nodeOf.forEach((id, index) => {
+    neighboursOf(index).forEach(neighbour => {
+      const neighbourNode = nodeOf.get(neighbour);
+      if (neighbourNode === id) return;
+
+      if (neighbourNode !== undefined) {
+        const key = [Math.min(index, neighbour), Math.max(index, neighbour)].join(':');
+        if (directLinks.has(key)) return;
+        directLinks.add(key);
+        edges.push({ from: id, to: neighbourNode, points: [nodeCentres[id], nodeCentres[neighbourNode]] });
+        return;
+      }
+      if (visited.has(neighbour)) return;
+
+      const chain = walk(index, neighbour);
+      const end = nodeOf.get(chain[chain.length - 1]);
+      edges.push({
+        from: id,
+        to: end ?? -1,
+        points: [nodeCentres[id], ...chain.slice(1, -1).map(toCanvas), end !== undefined ? nodeCentres[end] : toCanvas(chain[chain.length - 1])],
+      });
+    });
+  });
+
+  // Whatever is left is made of loops with no junction or end (an O)
+  for (let index = 0; index < cells.length; index++) {
+    if (!ink(index) || visited.has(index) || nodeOf.has(index)) continue;
+    const [first] = neighboursOf(index);
+    visited.add(index);
+    const chain = walk(index, first);
+    const points = chain.map(toCanvas);
+    if (chain[chain.length - 1] !== chain[0]) points.push(points[0]);
+    edges.push({ from: -1, to: -1, points });
+  }
+
+  return edges;
+};
+
+/**
+ * Drop short branches off junctions (thinning artefacts at stroke ends and corners),
+ * merge junctions a crossing was thinned into (the two forks of an X), then join
+ * the two edges at any node left with only two
+ */
+const pruneSpurs = (input: SkeletonEdge[], strokeWidth: number): SkeletonEdge[] => {
+  let edges = input;
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const degree = nodeDegrees(edges);
+
+    const spur = edges.findIndex(
+      edge =>
+        edge.from !== edge.to &&
+        ((degree.get(edge.from) === 1 && (degree.get(edge.to) ?? 0) >= 3) ||
+          (degree.get(edge.to) === 1 && (degree.get(edge.from) ?? 0) >= 3)) &&
+        polylineLength(edge.points) < strokeWidth
+    );
+    if (spur >= 0) {
+      edges = edges.filter((_, i) => i !== spur);
+      changed = true;
+      continue;
+    }
+
+    const bridge = edges.findIndex(
+      edge =>
+        edge.from >= 0 &&
+        edge.from !== edge.to &&
+        (degree.get(edge.from) ?? 0) >= 3 &&
+        (degree.get(edge.to) ?? 0) >= 3 &&
+        polylineLength(edge.points) < strokeWidth
+    );
+    if (bridge >= 0) {
+      edges = mergeNodes(edges, bridge);
+      changed = true;
+      continue;
+    }
+
+    // Dissolve a pass-through node
+    const passThrough = [...degree.entries()].find(([node, count]) => node >= 0 && count === 2)?.[0];
+    if (passThrough === undefined) break;
+
+    const incident = edges.filter(edge => edge.from === passThrough || edge.to === passThrough);
+    if (incident.length === 1) {
+      // A loop hanging off a node that lost its other branches
+      incident[0].from = -1;
+      incident[0].to = -1;
+    } else {
+      const [a, b] = incident.map(edge => (edge.to === passThrough ? edge : reverseEdge(edge)));
+      const joined: SkeletonEdge = {
+        from: a.from,
+        to: b.to === passThrough ? -1 : b.to,
+        points: [...a.points, ...b.points.slice().reverse().slice(1)],
+      };
+      if (joined.from === passThrough) joined.from = -1;
+      edges = [...edges.filter(edge => !incident.includes(edge)), joined];
+    }
+    changed = true;
+  }
+
+  return edges;
+};
+
+// Contract an edge, meeting its neighbours at its midpoint
+const mergeNodes = (edges: SkeletonEdge[], index: number): SkeletonEdge[] => {
+  const { from, to, points } = edges[index];
+  const centre = points[Math.floor(points.length / 2)];
+  const merged = (node: number) => node === from || node === to;
+
+  return edges
+    .filter((_, i) => i !== index)
+    .map(edge => ({
+      from: merged(edge.from) ? from : edge.from,
+      to: merged(edge.to) ? from : edge.to,
+      points: edge.points.map((p, i) => {
+        if (i === 0 && merged(edge.from)) return centre;
+        if (i === edge.points.length - 1 && merged(edge.to)) return centre;
+        return p;
+      }),
+    }));
+};
+
+const nodeDegrees = (edges: SkeletonEdge[]): Map<number, number> => {
+  const degree = new Map<number, number>();
+  edges.forEach(edge => {
+    if (edge.from < 0) return;
+    degree.set(edge.from, (degree.get(edge.from) ?? 0) + 1);
+    degree.set(edge.to, (degree.get(edge.to) ?? 0) + 1);
+  });
+  return degree;
+};
+
+const reverseEdge = (edge: SkeletonEdge): SkeletonEdge => ({
+  from: edge.to,
+  to: edge.from,
+  points: edge.points.slice().reverse(),
+});
+
+/**
+ * Chain edges into strokes: at each junction, pair up the edges that run most
+ * nearly straight through it (the two halves of a T's bar, the arms of an X)
+ */
+const joinAtJunctions = (edges: SkeletonEdge[], strokeWidth: number): Point[][] => {
+  // Each edge has two ends: 2i leaves edge i at its start, 2i + 1 at its end
+  const edgeOf = (end: number) => Math.floor(end / 2);
+  const otherEnd = (end: number) => (end % 2 === 0 ? end + 1 : end - 1);
+  const node = (end: number) => (end % 2 === 0 ? edges[edgeOf(end)].from : edges[edgeOf(end)].to);
+  const linked = new Map<number, number>();
+  const reach = strokeWidth * 1.5;
+
+  const direction = (end: number): Point => {
+    const points = end % 2 === 0 ? edges[edgeOf(end)].points : edges[edgeOf(end)].points.slice().reverse();
+    const origin = points[0];
+    const ahead = points.find(p => Math.hypot(p.x - origin.x, p.y - origin.y) >= reach) ?? points[points.length - 1];
+    const length = Math.hypot(ahead.x - origin.x, ahead.y - origin.y) || 1;
+    return { x: (ahead.x - origin.x) / length, y: (ahead.y - origin.y) / length };
+  };
+
+  const ends = edges.flatMap((edge, i) => (edge.from < 0 ? [] : [2 * i, 2 * i + 1]));
+  const byNode = new Map<number, number[]>();
+  ends.forEach(end => byNode.set(node(end), [...(byNode.get(node(end)) ?? []), end]));
+
+  byNode.forEach(nodeEnds => {
+    if (nodeEnds.length < 3) return;
+    const pairs: Array<{ a: number; b: number; bend: number }> = [];
+    nodeEnds.forEach((a, i) =>
+      nodeEnds.slice(i + 1).forEach(b => {
+        const da = direction(a);
+        const db = direction(b);
+        const bend = (Math.acos(Math.max(-1, Math.min(1, -(da.x * db.x + da.y * db.y)))) * 180) / Math.PI;
+        if (bend <= CONTINUATION_ANGLE && edgeOf(a) !== edgeOf(b)) pairs.push({ a, b, bend });
+      })
+    );
+    pairs
+      .sort((p, q) => p.bend - q.bend)
+      .forEach(({ a, b }) => {
+        if (linked.has(a) || linked.has(b)) return;
+        linked.set(a, b);
+        linked.set(b, a);
+      });
+  });
+
+  const used = new Set<number>();
+  const follow = (startEnd: number): Point[] => {
+    const points: Point[] = [];
+    let end: number | undefined = startEnd;
+    while (end !== undefined && !used.has(edgeOf(end))) {
+      const edge = edges[edgeOf(end)];
+      used.add(edgeOf(end));
+      const forward = end % 2 === 0 ? edge.points : edge.points.slice().reverse();
+      points.push(...(points.length > 0 ? forward.slice(1) : forward));
+      end = linked.get(otherEnd(end));
+    }
+    return points;
+  };
+
+  const strokes: Point[][] = [];
+  // Start from free ends first so open chains are traced whole
+  ends.filter(end => !linked.has(end)).forEach(end => {
+    if (!used.has(edgeOf(end))) strokes.push(follow(end));
+  });
+  edges.forEach((_, i) => {
+    if (!used.has(i)) strokes.push(follow(2 * i));
+  });
+
+  return strokes.filter(points => points.length > 1);
+};
+
+/**
+ * Split a stroke where it turns sharply; handwriting lifts the pen at the
+ * apex of an A and the corners of an E. A closed stroke with corners opens at them.
+ */
+const splitAtCorners = (points: Point[], strokeWidth: number): Point[][] => {
+  const closed = isClosed(points);
+  const lengths = cumulativeLengths(points);
+  const total = lengths[lengths.length - 1];
+  const pointAt = (length: number): Point => {
+    const wrapped = closed ? ((length % total) + total) % total : Math.max(0, Math.min(total, length));
+    const i = Math.max(1, lengths.findIndex(l => l >= wrapped));
+    const span = lengths[i] - lengths[i - 1] || 1;
+    const t = (wrapped - lengths[i - 1]) / span;
+    return { x: points[i - 1].x + t * (points[i].x - points[i - 1].x), y: points[i - 1].y + t * (points[i].y - points[i - 1].y) };
+  };
+
+  // Turn at each point between chords a stroke width either side
+  const turns = points.map((p, i) => {
+    if (!closed && (lengths[i] < strokeWidth || lengths[i] > total - strokeWidth)) return 0;
+    const before = pointAt(lengths[i] - strokeWidth);
+    const after = pointAt(lengths[i] + strokeWidth);
+    const inX = p.x - before.x;
+    const inY = p.y - before.y;
+    const outX = after.x - p.x;
+    const outY = after.y - p.y;
+    const norms = Math.hypot(inX, inY) * Math.hypot(outX, outY);
+    return norms === 0 ? 0 : (Math.acos(Math.max(-1, Math.min(1, (inX * outX + inY * outY) / norms))) * 180) / Math.PI;
+  });
+
+  const last = closed ? points.length - 1 : points.length;
+  const corners = turns
+    .map((turn, i) => ({ turn, i }))
+    .filter(({ turn, i }) => i < last && turn >= CORNER_ANGLE)
+    .filter(({ turn, i }) =>
+      turns.every((other, j) => {
+        const apart = Math.abs(lengths[j] - lengths[i]);
+        const near = Math.min(apart, closed ? total - apart : apart) < strokeWidth;
+        return !near || other < turn || (other === turn && j >= i);
+      })
+    )
+    .map(({ i }) => i);
+
+  if (corners.length === 0) return [points];
+  if (closed) {
+    const loop = [...points.slice(corners[0], -1), ...points.slice(0, corners[0] + 1)];
+    return splitOpenAt(loop, corners.map(i => (i - corners[0] + points.length - 1) % (points.length - 1)));
+  }
+  return splitOpenAt(points, corners);
+};
+
+const splitOpenAt = (points: Point[], corners: number[]): Point[][] => {
+  const cuts = [...new Set([0, ...corners, points.length - 1])].sort((a, b) => a - b);
+  return cuts.slice(1).map((end, i) => points.slice(cuts[i], end + 1));
+};
+
+const cumulativeLengths = (points: Point[]): number[] =>
+  points.reduce<number[]>((lengths, p, i) => {
+    lengths.push(i === 0 ? 0 : lengths[i - 1] + Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y));
+    return lengths;
+  }, []);
+
+/**
+ * Direction a child draws a stroke in: closed shapes from the top going
+ * anticlockwise (as in c, o), horizontal lines left to right, everything else top down
+ */
+const orientStroke = (points: Point[]): Point[] => {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (isClosed(points)) {
+    const loop = points.slice(0, -1);
+    const top = loop.reduce((best, p, i) => (p.y < loop[best].y ? i : best), 0);
+    let rotated = [...loop.slice(top), ...loop.slice(0, top)];
+    // Positive shoelace area is clockwise on a y-down screen
+    if (signedArea(rotated) > 0) {
+      rotated = [rotated[0], ...rotated.slice(1).reverse()];
+    }
+    return [...rotated, rotated[0]];
+  }
+
+  if (isHorizontal(points)) {
+    return first.x <= last.x ? points : points.slice().reverse();
+  }
+  return first.y <= last.y ? points : points.slice().reverse();
+};
+
+/**
+ * Teaching order: down strokes and curves first, top to bottom then left to
+ * right; horizontal lines (bars, crossings) after them, top to bottom. This
+ * matches print models for letters such as E, F, H, T, A, B, R and M.
+ */
+export const orderStrokes = (strokes: Point[][]): Point[][] => {
+  const all = strokes.flat();
+  if (all.length === 0) return strokes;
+  const top = Math.min(...all.map(p => p.y));
+  const band = Math.max(1, (Math.max(...all.map(p => p.y)) - top) / 8);
+
+  const key = (points: Point[]) => {
+    const start = points[0];
+    const end = points[points.length - 1];
+    return {
+      horizontal: isHorizontal(points) ? 1 : 0,
+      row: Math.round((start.y - top) / band),
+      x: start.x,
+      endX: end.x,
+      y: start.y,
+    };
+  };
+
+  return strokes
+    .map(points => ({ points, key: key(points) }))
+    .sort((a, b) => {
+      if (a.key.horizontal !== b.key.horizontal) return a.key.horizontal - b.key.horizontal;
+      if (a.key.horizontal) return a.key.y - b.key.y || a.key.x - b.key.x;
+      return a.key.row - b.key.row || a.key.x - b.key.x || a.key.endX - b.key.endX;
+    })
+    .map(({ points }) => points);
+};
+
+const isClosed = (points: Point[]): boolean =>
+  points.length > 3 && Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y) < 1e-6;
+
+const isHorizontal = (points: Point[]): boolean => {
+  if (isClosed(points)) return false;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return Math.abs(last.y - first.y) < 0.5 * Math.abs(last.x - first.x);
+};
+
+const signedArea = (points: Point[]): number =>
+  points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + (p.x * next.y - next.x * p.y);
+  }, 0) / 2;
+
+// Three-point moving average; ends stay fixed so strokes still meet
+const smooth = (points: Point[]): Point[] => {
+  if (points.length < 3) return points;
+  const closed = isClosed(points);
+  return points.map((p, i) => {
+    if (!closed && (i === 0 || i === points.length - 1)) return p;
+    const before = points[i === 0 ? points.length - 2 : i - 1];
+    const after = points[i === points.length - 1 ? 1 : i + 1];
+    return { x: (before.x + p.x + after.x) / 3, y: (before.y + p.y + after.y) / 3 };
+  });
+};
+
+const polylineLength = (points: Point[]): number =>
+  points.slice(1).reduce((sum, p, i) => sum + Math.hypot(p.x - points[i].x, p.y - points[i].y), 0);
+
+const flattenContour = (contour: PathSegment[]): Point[] =>
+  contour.flatMap(segment => {
+    if (segment.type !== 'bezier' || !segment.control1 || !segment.control2) {
+      return [segment.start];
+    }
+    const { start, control1: c1, control2: c2, end } = segment;
+    const steps = Math.max(4, Math.ceil((Math.hypot(c1.x - start.x, c1.y - start.y) +
+      Math.hypot(c2.x - c1.x, c2.y - c1.y) + Math.hypot(end.x - c2.x, end.y - c2.y)) / 2));
+    return Array.from({ length: steps }, (_, i) => {
+      const t = i / steps;
+      const mt = 1 - t;
+      return {
+        x: mt * mt * mt * start.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * end.x,
+        y: mt * mt * mt * start.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * end.y,
+      };
+    });
+  });
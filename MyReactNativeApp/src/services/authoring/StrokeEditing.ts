@@ -0,0 +1,168 @@
+import { PathSegment, Point } from '@models/TracingData';
+
+/**
+ * Letter authoring: glyph contours broken into candidate strokes, and the
+ * edits an author makes to turn them into a teaching stroke order.
+ * Every edit returns a new stroke list so the screen can keep an undo stack.
+ */
+
+export interface AuthoringStroke {
+  name: string;
+  description: string;
+  segments: PathSegment[];
+}
+
+// Turns sharper than this (degrees) end a candidate stroke
+export const DEFAULT_CORNER_ANGLE = 50;
+
+// Gaps shorter than this (canvas px) count as connected when merging
+const JOIN_TOLERANCE = 0.5;
+
+/**
+ * Break closed glyph contours into candidate strokes at sharp corners.
+ * A smooth contour (an O) stays whole; an outline with corners (an L) yields
+ * one candidate per side, so the author can keep the ones a child would draw.
+ */
+export const contoursToCandidateStrokes = (
+  contours: PathSegment[][],
+  cornerAngle: number = DEFAULT_CORNER_ANGLE
+): AuthoringStroke[] => {
+  return toAuthoringStrokes(contours.flatMap(contour => splitAtCorners(contour, cornerAngle)));
+};
+
+/**
+ * Wrap stroke geometry (e.g. extracted centre lines) as editable, numbered strokes
+ */
+export const toAuthoringStrokes = (runs: PathSegment[][]): AuthoringStroke[] =>
+  runs.map((segments, i) => ({
+    name: `Stroke ${i + 1}`,
+    description: '',
+    segments,
+  }));
+
+const splitAtCorners = (contour: PathSegment[], cornerAngle: number): PathSegment[][] => {
+  if (contour.length === 0) return [];
+
+  const isCorner = (i: number) =>
+    turnAngle(endTangent(contour[i]), startTangent(contour[(i + 1) % contour.length])) > cornerAngle;
+
+  // Start a closed contour just after a corner so no run wraps around the seam
+  const closed = samePoint(contour[contour.length - 1].end, contour[0].start);
+  const firstCorner = closed ? contour.findIndex((_, i) => isCorner(i)) : -1;
+  const ordered = firstCorner >= 0
+    ? [...contour.slice(firstCorner + 1), ...contour.slice(0, firstCorner + 1)]
+    : contour;
+  const offset = firstCorner >= 0 ? firstCorner + 1 : 0;
+
+  const runs: PathSegment[][] = [[]];
+  ordered.forEach((segment, i) => {
+    runs[runs.length - 1].push(segment);
+    if (i < ordered.length - 1 && isCorner((i + offset) % contour.length)) {
+      runs.push([]);
+    }
+  });
+
+  return runs;
+};
+
+/**
+ * Move a stroke earlier (delta < 0) or later in the stroke order
+ */
+export const moveStroke = (strokes: AuthoringStroke[], index: number, delta: number): AuthoringStroke[] => {
+  const target = index + delta;
+  if (target < 0 || target >= strokes.length || delta === 0) return strokes;
+
+  const next = [...strokes];
+  const [moved] = next.splice(index, 1);
+  next.splice(target, 0, moved);
+  return next;
+};
+
+/**
+ * Draw a stroke from its other end
+ */
+export const reverseStroke = (strokes: AuthoringStroke[], index: number): AuthoringStroke[] =>
+  strokes.map((stroke, i) =>
+    i === index ? { ...stroke, segments: [...stroke.segments].reverse().map(reverseSegment) } : stroke
+  );
+
+const reverseSegment = (segment: PathSegment): PathSegment => ({
+  ...segment,
+  start: segment.end,
+  end: segment.start,
+  control1: segment.control2,
+  control2: segment.control1,
+});
+
+/**
+ * Split a stroke in two before the segment at atSegment
+ */
+export const splitStroke = (strokes: AuthoringStroke[], index: number, atSegment: number): AuthoringStroke[] => {
+  const stroke = strokes[index];
+  if (!stroke || atSegment <= 0 || atSegment >= stroke.segments.length) return strokes;
+
+  const first = { ...stroke, segments: stroke.segments.slice(0, atSegment) };
+  const second = {
+    name: `${stroke.name} (2)`,
+    description: '',
+    segments: stroke.segments.slice(atSegment),
+  };
+  return [...strokes.slice(0, index), first, second, ...strokes.slice(index + 1)];
+};
+
+/**
+ * Join a stroke with the one after it; a gap between them is bridged with a line
+ */
+export const mergeWithNext = (strokes: AuthoringStroke[], index: number): AuthoringStroke[] => {
+  const stroke = strokes[index];
+  const next = strokes[index + 1];
+  if (!stroke || !next || stroke.segments.length === 0) return strokes;
+
+  const end = stroke.segments[stroke.segments.length - 1].end;
+  const start = next.segments[0]?.start ?? end;
+  const bridge: PathSegment[] = distance(end, start) > JOIN_TOLERANCE
+    ? [{ type: 'line', start: end, end: start }]
+    : [];
+
+  const merged = { ...stroke, segments: [...stroke.segments, ...bridge, ...next.segments] };
+  return [...strokes.slice(0, index), merged, ...strokes.slice(index + 2)];
+};
+
+export const removeStroke = (strokes: AuthoringStroke[], index: number): AuthoringStroke[] =>
+  strokes.filter((_, i) => i !== index);
+
+export const renameStroke = (
+  strokes: AuthoringStroke[],
+  index: number,
+  changes: Partial<Pick<AuthoringStroke, 'name' | 'description'>>
+): AuthoringStroke[] => strokes.map((stroke, i) => (i === index ? { ...stroke, ...changes } : stroke));
+
+/**
+ * Direction a segment leaves its start point in; falls back through the
+ * control points when a Bézier handle is collapsed onto its end point
+ */
+const startTangent = (segment: PathSegment): Point => {
+  const towards = [segment.control1, segment.control2, segment.end].find(
+    p => p && !samePoint(p, segment.start)
+  );
+  return towards ? { x: towards.x - segment.start.x, y: towards.y - segment.start.y } : { x: 0, y: 0 };
+};
+
+const endTangent = (segment: PathSegment): Point => {
+  const from = [segment.control2, segment.control1, segment.start].find(
+    p => p && !samePoint(p, segment.end)
+  );
+  return from ? { x: segment.end.x - from.x, y: segment.end.y - from.y } : { x: 0, y: 0 };
+};
+
+// Angle in degrees between two directions (0 = straight on)
+const turnAngle = (a: Point, b: Point): number => {
+  const lengths = Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y);
+  if (lengths === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (a.x * b.x + a.y * b.y) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+};
+
+const samePoint = (a: Point, b: Point): boolean => distance(a, b) <= JOIN_TOLERANCE;
+
+const distance = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
@@ -0,0 +1,41 @@
+import { getIndexFromChar, rasterizeStrokes } from '../../utils/WritingUtils';
+import { NUM_CLASSES, Orientation, predictEachOrientation, Recognizer, RecognizerInput } from './Recognizer';
+
+/**
+ * Deterministic stand-in for tests. Never part of the app's fallback chain:
+ * register it on the ModelService explicitly.
+ *
+ * With a fixed character it always predicts that character; otherwise the
+ * predicted class is a stable hash of the rasterized input, so the same
+ * drawing always gets the same answer.
+ */
+export class MockRecognizer implements Recognizer {
+    readonly name = 'mock' as const;
+
+    constructor(private fixedChar?: string, private confidence: number = 0.9) {}
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    async predict(input: RecognizerInput): Promise<number[] | null> {
+        const fixedIndex = this.fixedChar ? getIndexFromChar(this.fixedChar) : -1;
+        const index = fixedIndex !== -1 ? fixedIndex : this.hashInput(input) % NUM_CLASSES;
+
+        const rest = (1 - this.confidence) / (NUM_CLASSES - 1);
+        return Array.from({ length: NUM_CLASSES }, (_, i) => (i === index ? this.confidence : rest));
+    }
+
+    async predictOrientations(input: RecognizerInput, orientations: Orientation[]): Promise<number[][] | null> {
+        return predictEachOrientation(this, input, orientations);
+    }
+
+    private hashInput(input: RecognizerInput): number {
+        const grid = rasterizeStrokes(input.strokes, input.canvasWidth, input.canvasHeight);
+        let hash = 0;
+        grid.forEach((value, i) => {
+            if (value > 0.5) hash = (hash * 31 + i) % 2147483647;
+        });
+        return hash;
+    }
+}
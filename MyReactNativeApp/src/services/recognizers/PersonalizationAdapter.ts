@@ -0,0 +1,85 @@
+import { getIndexFromChar } from '../../utils/WritingUtils';
+import { NUM_CLASSES, RecognizerName } from './Recognizer';
+
+/**
+ * Per-child kNN re-ranking over the recognizer's output probabilities.
+ *
+ * Every sample is a drawing a therapist confirmed, stored with the class
+ * probabilities the recognizer gave it. A new drawing's probabilities are
+ * compared against those samples and the neighbours' confirmed letters are
+ * blended into the model's answer, so a child's own letterforms win out
+ * over EMNIST's as samples accumulate. Neighbours only count in proportion
+ * to how alike they are: a drawing unlike every sample keeps the model's
+ * answer, however many samples the child has.
+ */
+
+export interface ConfirmedSample {
+    letter: string;
+    backend: RecognizerName;
+    session_id?: string; // One sample per session; re-confirming replaces it
+    grid: number[]; // rasterizeStrokes output, kept so features can be rebuilt for a new model
+    probabilities: number[];
+    confirmed_at: string;
+}
+
+export const K_NEIGHBOURS = 5;
+// Samples needed before the neighbours count as much as the model
+const PRIOR_SAMPLES = 10;
+// The model always keeps some say, however many samples there are
+const MAX_ADAPTER_WEIGHT = 0.6;
+// Hellinger distance beyond which a sample says nothing about a drawing
+export const MAX_NEIGHBOUR_DISTANCE = 0.3;
+
+/**
+ * Hellinger distance between two probability vectors
+ */
+const hellinger = (a: number[], b: number[]): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        const d = Math.sqrt(Math.max(0, a[i])) - Math.sqrt(Math.max(0, b[i]));
+        sum += d * d;
+    }
+    return Math.sqrt(sum / 2);
+};
+
+/**
+ * Similarity in [0, 1]: 1 for identical outputs, 0 from MAX_NEIGHBOUR_DISTANCE on
+ */
+const similarity = (distance: number): number =>
+    Math.max(0, 1 - (distance / MAX_NEIGHBOUR_DISTANCE) ** 2);
+
+/**
+ * Blend the model's probabilities with a similarity-weighted vote of the k
+ * nearest confirmed samples. Each neighbour votes for its letter with its
+ * similarity and leaves the rest of its vote to the model, so dissimilar
+ * neighbours change nothing. Returns null when no sample was scored by the
+ * same backend (probabilities from different recognizers aren't comparable).
+ */
+export const rerankWithSamples = (
+    samples: ConfirmedSample[],
+    backend: RecognizerName,
+    probabilities: number[],
+    k: number = K_NEIGHBOURS
+): number[] | null => {
+    const comparable = samples.filter(
+        s => s.backend === backend && s.probabilities.length === probabilities.length && getIndexFromChar(s.letter) !== -1
+    );
+    if (comparable.length === 0) return null;
+
+    const neighbours = comparable
+        .map(sample => ({ sample, distance: hellinger(probabilities, sample.probabilities) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, k);
+
+    // Each neighbour's vote sums to 1: its similarity to its letter, the rest to the model
+    const votes = new Array(NUM_CLASSES).fill(0);
+    let modelShare = 0;
+    neighbours.forEach(({ sample, distance }) => {
+        const closeness = similarity(distance);
+        votes[getIndexFromChar(sample.letter)] += closeness / neighbours.length;
+        modelShare += (1 - closeness) / neighbours.length;
+    });
+
+    const weight = Math.min(MAX_ADAPTER_WEIGHT, comparable.length / (comparable.length + PRIOR_SAMPLES));
+    return probabilities.map((p, i) => (1 - weight) * p + weight * (votes[i] + modelShare * p));
+};
@@ -0,0 +1,192 @@
+import { LetterPath, Point } from '@models/TracingData';
+import { LETTER_PATHS } from '@constants/LetterPaths';
+import { generateIdealPath } from '../../utils/GeometryUtils';
+import { getIndexFromChar } from '../../utils/WritingUtils';
+import { NUM_CLASSES, Orientation, predictEachOrientation, Recognizer, RecognizerInput, softmax } from './Recognizer';
+
+/**
+ * $P point-cloud recognizer (Vatavu, Anthony & Wobbrock 2012).
+ *
+ * Strokes are treated as an unordered cloud of points, so stroke order,
+ * direction and count don't matter. Runs in pure TypeScript, which makes it
+ * the fallback wherever the TFLite model can't load.
+ */
+
+const NUM_POINTS = 32;
+// Softmax temperature for turning cloud distances into probabilities
+const TEMPERATURE = 0.35;
+
+interface CloudPoint extends Point {
+    strokeId: number;
+}
+
+interface Template {
+    char: string;
+    classIndex: number;
+    points: CloudPoint[];
+}
+
+const pathLength = (points: CloudPoint[]): number => {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].strokeId === points[i - 1].strokeId) {
+            length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+        }
+    }
+    return length;
+};
+
+/**
+ * Resample to n points evenly spaced along the ink, not across pen-up jumps
+ */
+const resample = (input: CloudPoint[], n: number): CloudPoint[] => {
+    const points = input.map(p => ({ ...p }));
+    const interval = pathLength(points) / (n - 1);
+    if (interval === 0) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+    const result: CloudPoint[] = [{ ...points[0] }];
+    let accumulated = 0;
+
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].strokeId !== points[i - 1].strokeId) continue;
+        const d = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+        if (accumulated + d >= interval) {
+            const t = (interval - accumulated) / d;
+            const q: CloudPoint = {
+                x: points[i - 1].x + t * (points[i].x - points[i - 1].x),
+                y: points[i - 1].y + t * (points[i].y - points[i - 1].y),
+                strokeId: points[i].strokeId,
+            };
+            result.push(q);
+            points.splice(i, 0, q); // q becomes the next segment's start
+            accumulated = 0;
+        } else {
+            accumulated += d;
+        }
+    }
+
+    // Rounding can leave us one short
+    while (result.length < n) result.push({ ...points[points.length - 1] });
+    return result.slice(0, n);
+};
+
+/**
+ * Scale uniformly into the unit box and move the centroid to the origin
+ */
+const normalize = (points: CloudPoint[]): CloudPoint[] => {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+
+    const scaled = points.map(p => ({ ...p, x: (p.x - minX) / size, y: (p.y - minY) / size }));
+    const cx = scaled.reduce((sum, p) => sum + p.x, 0) / scaled.length;
+    const cy = scaled.reduce((sum, p) => sum + p.y, 0) / scaled.length;
+    return scaled.map(p => ({ ...p, x: p.x - cx, y: p.y - cy }));
+};
+
+const toCloud = (strokes: Point[][]): CloudPoint[] | null => {
+    const points = strokes.flatMap((stroke, strokeId) => stroke.map(p => ({ x: p.x, y: p.y, strokeId })));
+    if (points.length < 2) return null;
+    return normalize(resample(points, NUM_POINTS));
+};
+
+/**
+ * Weighted sum of nearest-unmatched distances, starting at `start`
+ */
+const cloudDistance = (a: CloudPoint[], b: CloudPoint[], start: number): number => {
+    const n = a.length;
+    const matched = new Array(n).fill(false);
+    let sum = 0;
+    let i = start;
+
+    do {
+        let min = Infinity;
+        let index = -1;
+        for (let j = 0; j < n; j++) {
+            if (matched[j]) continue;
+            const d = Math.hypot(a[i].x - b[j].x, a[i].y - b[j].y);
+            if (d < min) {
+                min = d;
+                index = j;
+            }
+        }
+        matched[index] = true;
+        const weight = 1 - ((i - start + n) % n) / n;
+        sum += weight * min;
+        i = (i + 1) % n;
+    } while (i !== start);
+
+    return sum;
+};
+
+const greedyCloudMatch = (points: CloudPoint[], template: CloudPoint[]): number => {
+    const n = points.length;
+    const step = Math.floor(Math.pow(n, 0.5));
+    let min = Infinity;
+    for (let i = 0; i < n; i += step) {
+        min = Math.min(min, cloudDistance(points, template, i), cloudDistance(template, points, i));
+    }
+    return min;
+};
+
+export class PointCloudRecognizer implements Recognizer {
+    readonly name = 'pointcloud' as const;
+    private templates: Template[] = [];
+
+    /**
+     * @param glyphs - Which LETTER_PATHS entries to train on (all by default)
+     * @param letterPaths - Geometry to train on, e.g. a script pack's letters
+     */
+    constructor(
+        glyphs: string[] = Object.keys(LETTER_PATHS),
+        letterPaths: Record<string, LetterPath> = LETTER_PATHS
+    ) {
+        glyphs.forEach(char => {
+            const letterPath = letterPaths[char];
+            if (!letterPath) return;
+
+            const idealPath = generateIdealPath(letterPath.strokes);
+            const strokes = idealPath.strokeBoundaries
+                .slice(1)
+                .map((end, i) => idealPath.points.slice(idealPath.strokeBoundaries[i], end));
+            this.addTemplate(char, strokes);
+        });
+    }
+
+    /**
+     * Add a template, e.g. a child's own accepted samples
+     */
+    addTemplate(char: string, strokes: Point[][]): void {
+        const classIndex = getIndexFromChar(char);
+        const points = toCloud(strokes);
+        if (classIndex === -1 || !points) return;
+        this.templates.push({ char, classIndex, points });
+    }
+
+    getTemplateCount(): number {
+        return this.templates.length;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return this.templates.length > 0;
+    }
+
+    async predict(input: RecognizerInput): Promise<number[] | null> {
+        const points = toCloud(input.strokes);
+        if (!points || this.templates.length === 0) return null;
+
+        // Best (smallest) distance per class; classes without a template stay out
+        const best = new Array(NUM_CLASSES).fill(Infinity);
+        this.templates.forEach(t => {
+            best[t.classIndex] = Math.min(best[t.classIndex], greedyCloudMatch(points, t.points));
+        });
+
+        return softmax(best.map(d => (Number.isFinite(d) ? -d / TEMPERATURE : -Infinity)));
+    }
+
+    async predictOrientations(input: RecognizerInput, orientations: Orientation[]): Promise<number[][] | null> {
+        return predictEachOrientation(this, input, orientations);
+    }
+}
@@ -0,0 +1,74 @@
+import { Orientation, Point, RecognizerName } from '@models/TracingData';
+import { getCharFromIndex, ORIENTATIONS } from '../../utils/WritingUtils';
+
+export type { Orientation, RecognizerName };
+
+// Size of the EMNIST-balanced output layer every backend reports against
+export const NUM_CLASSES = 47;
+
+export interface RecognizerInput {
+    strokes: Point[][];
+    canvasWidth: number;
+    canvasHeight: number;
+}
+
+/**
+ * A handwriting recognizer backend. Every backend returns a probability
+ * vector over the same NUM_CLASSES classes (see getCharFromIndex), so
+ * results are interchangeable and can be compared on the same input.
+ */
+export interface Recognizer {
+    readonly name: RecognizerName;
+    isAvailable(): Promise<boolean>;
+    predict(input: RecognizerInput): Promise<number[] | null>;
+    /**
+     * One probability vector per orientation, in the order asked for
+     */
+    predictOrientations(input: RecognizerInput, orientations: Orientation[]): Promise<number[][] | null>;
+}
+
+export interface RecognitionResult {
+    backend: RecognizerName;
+    probabilities: number[];
+    predictedChar: string;
+    confidence: number;
+}
+
+/**
+ * Wrap a probability vector with its top class
+ */
+export const toRecognitionResult = (backend: RecognizerName, probabilities: number[]): RecognitionResult => {
+    const maxIndex = probabilities.indexOf(Math.max(...probabilities));
+    return {
+        backend,
+        probabilities,
+        predictedChar: getCharFromIndex(maxIndex),
+        confidence: probabilities[maxIndex],
+    };
+};
+
+/**
+ * predictOrientations for backends that read strokes: transform the strokes
+ * and predict each orientation in turn
+ */
+export const predictEachOrientation = async (
+    recognizer: Recognizer,
+    input: RecognizerInput,
+    orientations: Orientation[]
+): Promise<number[][] | null> => {
+    const rows: number[][] = [];
+    for (const orientation of orientations) {
+        const transform = ORIENTATIONS.find(o => o.orientation === orientation)!.strokes;
+        const probabilities = await recognizer.predict({ ...input, strokes: transform(input.strokes) });
+        if (!probabilities) return null;
+        rows.push(probabilities);
+    }
+    return rows;
+};
+
+export const softmax = (logits: number[]): number[] => {
+    const maxLogit = Math.max(...logits);
+    const expScores = logits.map(x => Math.exp(x - maxLogit)); // Subtract max for numerical stability
+    const sumExpScores = expScores.reduce((a, b) => a + b, 0);
+    return expScores.map(x => x / sumExpScores);
+};
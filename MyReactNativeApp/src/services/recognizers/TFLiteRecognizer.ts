@@ -0,0 +1,157 @@
+import type { TensorflowModel } from 'react-native-fast-tflite';
+import { Platform } from 'react-native';
+import { ORIENTATIONS, rasterizeStrokes } from '../../utils/WritingUtils';
+import { NUM_CLASSES, Orientation, Recognizer, RecognizerInput, softmax } from './Recognizer';
+
+const MODEL_FILE_NAME = 'emnist_cnn_model.tflite';
+const INPUT_SIZE = 28 * 28;
+
+/**
+ * EMNIST CNN run through react-native-fast-tflite.
+ *
+ * The native modules are required lazily so this backend can be imported
+ * where they don't exist (Jest, CI); it then reports itself unavailable.
+ */
+export class TFLiteRecognizer implements Recognizer {
+    readonly name = 'tflite' as const;
+    private model: TensorflowModel | null = null;
+    private isModelLoading: boolean = false;
+    private loadFailed: boolean = false;
+
+    async loadModel(): Promise<void> {
+        if (this.model || this.isModelLoading || this.loadFailed) return;
+
+        this.isModelLoading = true;
+        try {
+            console.log('Loading TFLite model...');
+
+            const { loadTensorflowModel } = require('react-native-fast-tflite');
+            const RNFS = require('react-native-fs').default ?? require('react-native-fs');
+
+            if (Platform.OS === 'android') {
+                // For Android: Copy from assets to cache directory
+                const destPath = `${RNFS.CachesDirectoryPath}/${MODEL_FILE_NAME}`;
+
+                const exists = await RNFS.exists(destPath);
+                if (!exists) {
+                    console.log('Copying model from assets...');
+                    // Android assets are accessed via special path
+                    await RNFS.copyFileAssets(MODEL_FILE_NAME, destPath);
+                    console.log(`Model copied to: ${destPath}`);
+                }
+
+                // Load from file path
+                this.model = await loadTensorflowModel({ url: `file://${destPath}` });
+            } else {
+                // iOS: Load from main bundle
+                const bundlePath = `${RNFS.MainBundlePath}/${MODEL_FILE_NAME}`;
+                this.model = await loadTensorflowModel({ url: `file://${bundlePath}` });
+            }
+
+            if (this.model) {
+                console.log('TFLite Model loaded successfully!');
+            } else {
+                console.error('Failed to load TFLite Model: Model object is null');
+            }
+        } catch (error) {
+            // Native module missing (tests) or model not bundled: don't retry every call
+            this.loadFailed = true;
+            console.error('Error loading TFLite model:', error);
+        } finally {
+            this.isModelLoading = false;
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        await this.loadModel();
+        return this.model !== null;
+    }
+
+    async predict(input: RecognizerInput): Promise<number[] | null> {
+        return this.predictTensor(rasterizeStrokes(input.strokes, input.canvasWidth, input.canvasHeight));
+    }
+
+    /**
+     * Rasterize once, transform the pixels for each orientation and run them
+     * as a single batch
+     */
+    async predictOrientations(input: RecognizerInput, orientations: Orientation[]): Promise<number[][] | null> {
+        const grid = rasterizeStrokes(input.strokes, input.canvasWidth, input.canvasHeight);
+        const batch = new Float32Array(orientations.length * INPUT_SIZE);
+        orientations.forEach((orientation, i) => {
+            const transform = ORIENTATIONS.find(o => o.orientation === orientation)!.tensor;
+            batch.set(transform(grid), i * INPUT_SIZE);
+        });
+        return this.predictBatch(batch, orientations.length);
+    }
+
+    /**
+     * Run the CNN on `count` rasterized 28x28 inputs packed back to back
+     */
+    async predictBatch(batch: Float32Array, count: number): Promise<number[][] | null> {
+        if (!this.model) {
+            await this.loadModel();
+            if (!this.model) return null;
+        }
+
+        // fast-tflite can't resize inputs, so a batch-1 export gets one run per slice
+        if (this.model.inputs[0]?.shape[0] !== count) {
+            const rows: number[][] = [];
+            for (let i = 0; i < count; i++) {
+                const row = await this.predictTensor(batch.subarray(i * INPUT_SIZE, (i + 1) * INPUT_SIZE));
+                if (!row) return null;
+                rows.push(row);
+            }
+            return rows;
+        }
+
+        try {
+            const output = await this.model.run([batch]);
+            const logits = output?.[0] as unknown as Float32Array | undefined;
+            if (!logits || logits.length < count * NUM_CLASSES) {
+                console.warn('Batched inference returned incomplete output');
+                return null;
+            }
+            return Array.from({ length: count }, (_, i) =>
+                softmax(Array.from(logits.subarray(i * NUM_CLASSES, (i + 1) * NUM_CLASSES)))
+            );
+        } catch (error) {
+            console.error('Error running batched inference:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Run the CNN on an already rasterized 28x28 input
+     */
+    async predictTensor(inputTensor: Float32Array): Promise<number[] | null> {
+        if (!this.model) {
+            await this.loadModel();
+            if (!this.model) return null;
+        }
+
+        try {
+            // Check for NaNs or Infinities
+            if (inputTensor.some(v => isNaN(v) || !isFinite(v))) {
+                console.error('Input tensor contains NaN or Infinite values');
+                return null;
+            }
+
+            // CRITICAL: Model expects [1, 28, 28, 1] shape
+            // But react-native-fast-tflite accepts flat arrays
+            const output = await this.model.run([inputTensor]);
+
+            if (output && output.length > 0) {
+                // CRITICAL FIX: Model outputs LOGITS, not probabilities
+                // We need to apply softmax manually
+                const logits = Array.from(output[0] as unknown as Float32Array);
+                return softmax(logits);
+            }
+            console.warn('Inference returned empty output');
+            return null;
+        } catch (error) {
+            console.error('Error running inference details:', error);
+            return null;
+        }
+    }
+}
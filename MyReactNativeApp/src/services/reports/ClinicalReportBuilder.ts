@@ -0,0 +1,327 @@
+import { ComprehensiveTracingAnalytics, PDFClinicalSummary } from '@models/AnalyticsTypes';
+import { ChildProfile, toDemographics } from '@models/ProfileTypes';
+import VisualizationService, { HeatmapData, LineChartData } from '@services/VisualizationService';
+import { mean } from '@utils/MathUtils';
+
+/**
+ * Builds the printable clinical report: a PDFClinicalSummary for a child's
+ * history, and a self-contained HTML document (charts inlined as SVG data
+ * URIs) that the report service converts to PDF.
+ */
+
+export interface ClinicalReport {
+  summary: PDFClinicalSummary;
+  html: string;
+}
+
+// Recent sessions describe where the child is now; older ones only feed the trend
+const RECENT_SESSIONS = 10;
+const ELEVATED_RISK = 50;
+const STRUGGLING_ACCURACY = 60;
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 32;
+
+export const REPORT_DISCLAIMER =
+  'This report is for educational and screening purposes only. It does not constitute a ' +
+  'clinical diagnosis. Its metrics should be interpreted by qualified professionals ' +
+  '(educational psychologists, occupational therapists or paediatricians) alongside other ' +
+  'assessment tools and clinical observation.';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const svgDataUri = (svg: string): string => `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+
+const svgDocument = (body: string, width = CHART_WIDTH, height = CHART_HEIGHT): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+  `viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="10">${body}</svg>`;
+
+const emptyChart = (message: string): string =>
+  svgDocument(
+    `<text x="${CHART_WIDTH / 2}" y="${CHART_HEIGHT / 2}" text-anchor="middle" fill="#999999">${escapeHtml(message)}</text>`
+  );
+
+/**
+ * Line chart with one polyline per dataset, y from 0 to the largest value
+ */
+export const lineChartSvg = (chart: LineChartData): string => {
+  const series = chart.datasets.filter(d => d.data.length > 0);
+  if (series.length === 0) return emptyChart('No data');
+
+  const count = Math.max(...series.map(d => d.data.length));
+  const yMax = Math.max(1, ...series.flatMap(d => d.data.map(p => p.y)));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const xAt = (i: number) => CHART_PADDING + (count > 1 ? (i / (count - 1)) * plotWidth : plotWidth / 2);
+  const yAt = (v: number) => CHART_PADDING + plotHeight - (v / yMax) * plotHeight;
+
+  const axes =
+    `<line x1="${CHART_PADDING}" y1="${CHART_PADDING}" x2="${CHART_PADDING}" y2="${CHART_PADDING + plotHeight}" stroke="#BDBDBD"/>` +
+    `<line x1="${CHART_PADDING}" y1="${CHART_PADDING + plotHeight}" x2="${CHART_PADDING + plotWidth}" y2="${CHART_PADDING + plotHeight}" stroke="#BDBDBD"/>` +
+    `<text x="${CHART_PADDING - 4}" y="${CHART_PADDING + 4}" text-anchor="end" fill="#666666">${yMax.toFixed(0)}</text>` +
+    `<text x="${CHART_PADDING - 4}" y="${CHART_PADDING + plotHeight}" text-anchor="end" fill="#666666">0</text>`;
+
+  const lines = series
+    .map(d => {
+      const points = d.data.map((p, i) => `${xAt(i).toFixed(1)},${yAt(p.y).toFixed(1)}`).join(' ');
+      return `<polyline points="${points}" fill="none" stroke="${d.color}" stroke-width="2"/>`;
+    })
+    .join('');
+
+  const legend = series
+    .map(
+      (d, i) =>
+        `<rect x="${CHART_PADDING + i * 120}" y="8" width="10" height="10" fill="${d.color}"/>` +
+        `<text x="${CHART_PADDING + i * 120 + 14}" y="17" fill="#333333">${escapeHtml(d.label)}</text>`
+    )
+    .join('');
+
+  return svgDocument(axes + lines + legend);
+};
+
+/**
+ * Touch-density grid, darker where the child spent more samples
+ */
+export const heatmapSvg = (heatmap: HeatmapData): string => {
+  const size = heatmap.grid.length;
+  if (size === 0 || heatmap.maxValue === 0) return emptyChart('No touch data');
+
+  const side = CHART_HEIGHT;
+  const cell = side / size;
+  const cells = heatmap.grid
+    .flatMap((row, r) =>
+      row.map((value, c) =>
+        value === 0
+          ? ''
+          : `<rect x="${(c * cell).toFixed(1)}" y="${(r * cell).toFixed(1)}" width="${cell.toFixed(1)}" ` +
+            `height="${cell.toFixed(1)}" fill="#F44336" fill-opacity="${(value / heatmap.maxValue).toFixed(2)}"/>`
+      )
+    )
+    .join('');
+
+  return svgDocument(`<rect width="${side}" height="${side}" fill="#FAFAFA"/>${cells}`, side, side);
+};
+
+/**
+ * Horizontal 0-100 bars, coloured by how high the score is
+ */
+export const riskBarsSvg = (labels: string[], scores: number[]): string => {
+  const rowHeight = 24;
+  const labelWidth = 130;
+  const barWidth = CHART_WIDTH - labelWidth - 50;
+  const colorFor = (score: number) => (score >= 70 ? '#F44336' : score >= ELEVATED_RISK ? '#FF9800' : '#4CAF50');
+
+  const rows = labels
+    .map((label, i) => {
+      const score = Math.max(0, Math.min(100, scores[i] ?? 0));
+      const y = i * rowHeight;
+      return (
+        `<text x="0" y="${y + 15}" fill="#333333">${escapeHtml(label)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 5}" width="${barWidth}" height="12" fill="#F0F0F0"/>` +
+        `<rect x="${labelWidth}" y="${y + 5}" width="${((score / 100) * barWidth).toFixed(1)}" height="12" fill="${colorFor(score)}"/>` +
+        `<text x="${labelWidth + barWidth + 8}" y="${y + 15}" fill="#333333">${score.toFixed(0)}</text>`
+      );
+    })
+    .join('');
+
+  return svgDocument(rows, CHART_WIDTH, labels.length * rowHeight + 8);
+};
+
+const byDate = (sessions: ComprehensiveTracingAnalytics[]) =>
+  [...sessions].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+const strugglingLetters = (sessions: ComprehensiveTracingAnalytics[]): string[] => {
+  const byLetter: Record<string, number[]> = {};
+  sessions.forEach(s => {
+    if (!byLetter[s.letter]) {
+      byLetter[s.letter] = [];
+    }
+    byLetter[s.letter].push(s.spatial_accuracy_deviation.accuracy_score);
+  });
+  return Object.entries(byLetter)
+    .filter(([, scores]) => mean(scores) < STRUGGLING_ACCURACY)
+    .map(([letter]) => letter)
+    .sort();
+};
+
+const buildRecommendations = (recent: ComprehensiveTracingAnalytics[]): string[] => {
+  const recommendations: string[] = [];
+  const latest = recent[recent.length - 1];
+  const risk = latest.automated_risk_assessment;
+
+  if (recent.some(s => s.clinical_alert_flags.immediate_referral_flag)) {
+    recommendations.push('Refer for a comprehensive assessment by a qualified professional');
+  } else if (recent.some(s => s.clinical_alert_flags.monitor_closely_flag)) {
+    recommendations.push('Monitor closely and repeat screening within four weeks');
+  }
+  if (risk.dysgraphia_risk_score >= ELEVATED_RISK) {
+    recommendations.push('Consider an occupational therapy review of fine-motor control and pencil grip');
+  }
+  if (risk.reversal_risk_score >= ELEVATED_RISK) {
+    recommendations.push('Practise reversal-prone letters with directional cues and multisensory tracing');
+  }
+  if (risk.dyslexia_risk_score >= ELEVATED_RISK) {
+    recommendations.push('Pair letter formation with structured phonics (letter-sound) practice');
+  }
+  if (risk.attention_deficit_risk_score >= ELEVATED_RISK) {
+    recommendations.push('Keep sessions short and schedule them when the child is most alert');
+  }
+
+  const struggling = strugglingLetters(recent);
+  if (struggling.length > 0) {
+    recommendations.push(`Focus practice on: ${struggling.join(', ')}`);
+  }
+  if (recommendations.length === 0) {
+    recommendations.push('Continue regular practice; no specific concerns were identified');
+  }
+
+  return recommendations;
+};
+
+/**
+ * Summarise a child's history for the clinical report
+ */
+export const buildClinicalSummary = (
+  profile: ChildProfile,
+  sessions: ComprehensiveTracingAnalytics[],
+  generatedAt: Date = new Date()
+): PDFClinicalSummary => {
+  const sorted = byDate(sessions);
+  if (sorted.length === 0) {
+    throw new Error('Cannot build a report without sessions');
+  }
+
+  const recent = sorted.slice(-RECENT_SESSIONS);
+  const latest = recent[recent.length - 1];
+
+  return {
+    patient_info: toDemographics(profile, generatedAt),
+    summary_scores: {
+      overall_performance: mean(recent.map(s => s.spatial_accuracy_deviation.accuracy_score)),
+      risk_level: latest.automated_risk_assessment.overall_risk_level,
+      key_concerns: Array.from(new Set(recent.flatMap(s => s.clinical_alert_flags.specific_concern_flags))),
+    },
+    visual_reports: {
+      heatmap_url: svgDataUri(
+        heatmapSvg(VisualizationService.generateAccuracyHeatmap(latest.raw_touch_data.touch_coordinates_array))
+      ),
+      velocity_graph_url: svgDataUri(lineChartSvg(VisualizationService.generateVelocityChart(latest))),
+      progress_chart_url: svgDataUri(lineChartSvg(VisualizationService.generateProgressChart(sorted))),
+    },
+    recommendations: buildRecommendations(recent),
+    generated_date: generatedAt.toISOString(),
+  };
+};
+
+/**
+ * Render the report as a standalone HTML document
+ */
+export const renderClinicalReportHTML = (
+  profile: ChildProfile,
+  summary: PDFClinicalSummary,
+  sessions: ComprehensiveTracingAnalytics[]
+): string => {
+  const sorted = byDate(sessions);
+  const latest = sorted[sorted.length - 1];
+  const patient = summary.patient_info;
+  const risk = VisualizationService.generateRiskRadarChart(latest);
+
+  const infoRows: Array<[string, string]> = [
+    ['Name', profile.display_name],
+    ['Age', `${patient.chronological_age} years ${patient.chronological_age_months % 12} months`],
+    ['Handedness', patient.handedness],
+    ['Prior dyslexia diagnosis', patient.prior_dyslexia_diagnosis],
+    ['Other conditions', patient.comorbid_conditions.join(', ') || 'None recorded'],
+    ['Language (native / instruction)', `${patient.native_language} / ${patient.language_of_instruction}`],
+    ['Sessions', `${sorted.length} (${new Date(sorted[0].timestamp).toLocaleDateString()} – ${new Date(latest.timestamp).toLocaleDateString()})`],
+  ];
+
+  const sessionRows = sorted
+    .slice(-RECENT_SESSIONS)
+    .reverse()
+    .map(
+      s =>
+        `<tr><td>${new Date(s.timestamp).toLocaleDateString()}</td><td>${escapeHtml(s.letter)}</td>` +
+        `<td>${s.spatial_accuracy_deviation.accuracy_score.toFixed(0)}%</td>` +
+        `<td>${(s.velocity_kinematics.fluency_ratio * 100).toFixed(0)}%</td>` +
+        `<td>${s.time_based_performance.total_session_duration.toFixed(1)}s</td>` +
+        `<td>${escapeHtml(s.automated_risk_assessment.overall_risk_level)}</td></tr>`
+    )
+    .join('');
+
+  const list = (items: string[], empty: string) =>
+    items.length > 0 ? `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : `<p class="muted">${empty}</p>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8"/>
+<title>Handwriting Report – ${escapeHtml(profile.display_name)}</title>
+<style>
+  body { font-family: sans-serif; color: #333333; margin: 24px; font-size: 12px; }
+  h1 { color: #1976D2; font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 16px; border-bottom: 1px solid #E0E0E0; padding-bottom: 4px; margin-top: 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid #F0F0F0; }
+  .muted { color: #666666; }
+  .score { font-size: 28px; font-weight: bold; }
+  .risk { text-transform: capitalize; }
+  .chart { margin: 8px 0; page-break-inside: avoid; }
+  .disclaimer { margin-top: 32px; padding: 12px; background: #FFF3E0; border-radius: 8px; font-size: 11px; }
+</style>
+</head>
+<body>
+<h1>Handwriting Progress Report</h1>
+<p class="muted">Generated ${new Date(summary.generated_date).toLocaleString()}</p>
+
+<h2>Child</h2>
+<table>${infoRows.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+
+<h2>Summary</h2>
+<p><span class="score">${summary.summary_scores.overall_performance.toFixed(0)}%</span>
+<span class="muted">average accuracy over the last ${Math.min(sorted.length, RECENT_SESSIONS)} sessions</span></p>
+<p>Overall risk level: <strong class="risk">${escapeHtml(summary.summary_scores.risk_level)}</strong></p>
+
+<h2>Progress</h2>
+<img class="chart" src="${summary.visual_reports.progress_chart_url}"/>
+
+<h2>Latest Session (${escapeHtml(latest.letter)})</h2>
+<img class="chart" src="${summary.visual_reports.velocity_graph_url}"/>
+<img class="chart" src="${summary.visual_reports.heatmap_url}"/>
+
+<h2>Risk Indicators</h2>
+<img class="chart" src="${svgDataUri(riskBarsSvg(risk.labels, risk.data))}"/>
+${list(summary.summary_scores.key_concerns, 'No specific concerns flagged.')}
+
+<h2>Recommendations</h2>
+${list(summary.recommendations, 'None.')}
+
+<h2>Recent Sessions</h2>
+<table>
+<tr><th>Date</th><th>Letter</th><th>Accuracy</th><th>Fluency</th><th>Duration</th><th>Risk</th></tr>
+${sessionRows}
+</table>
+
+<div class="disclaimer"><strong>Educational use only.</strong> ${REPORT_DISCLAIMER}</div>
+</body>
+</html>`;
+};
+
+/**
+ * Summary and HTML for a child's history
+ */
+export const buildClinicalReport = (
+  profile: ChildProfile,
+  sessions: ComprehensiveTracingAnalytics[],
+  generatedAt: Date = new Date()
+): ClinicalReport => {
+  const summary = buildClinicalSummary(profile, sessions, generatedAt);
+  return { summary, html: renderClinicalReportHTML(profile, summary, sessions) };
+};
@@ -0,0 +1,312 @@
+import { ComprehensiveTracingAnalytics } from '@models/AnalyticsTypes';
+import { mean, std } from '@utils/MathUtils';
+
+/**
+ * Research export: every session of every child as one flat row. Nested
+ * domains become dotted column names, arrays are summarised as mean/std/len,
+ * and a data dictionary describes each column's unit and source.
+ */
+
+export type ColumnStatistic = 'value' | 'mean' | 'std' | 'len';
+
+export interface ColumnDescription {
+  column: string;
+  domain: string;
+  field: string; // Column without its statistic suffix
+  statistic: ColumnStatistic;
+  type: 'number' | 'boolean' | 'string';
+  unit: string;
+  source: string;
+}
+
+export interface CohortExportOptions {
+  anonymize?: boolean; // Replace child IDs with salted hashes
+  salt?: string;
+}
+
+export interface CohortExport {
+  columns: string[];
+  rows: Array<Record<string, string | number>>;
+  dictionary: ColumnDescription[];
+}
+
+type FlatValue = { value: string | number; type: ColumnDescription['type'] };
+
+const META_COLUMNS = ['session_id', 'user_id', 'letter', 'timestamp', 'version'];
+
+// Where each domain is computed (see TracingAnalytics.calculateAnalytics)
+const DOMAIN_SOURCES: Record<string, string> = {
+  session_id: 'TracingAnalytics.calculateAnalytics',
+  user_id: 'TracingAnalytics.calculateAnalytics',
+  letter: 'TracingAnalytics.calculateAnalytics',
+  timestamp: 'TracingAnalytics.calculateAnalytics',
+  version: 'ANALYTICS_SCHEMA_VERSION',
+  unavailable_domains: 'TracingAnalytics.calculateAnalytics',
+  ml_recognition: 'MLTracingAnalyzer.analyzeTracing',
+  calibration: 'CalibrationService.getCalibration',
+  raw_touch_data: 'TracingAnalytics.addPoint',
+  velocity_kinematics: 'KinematicsEngine.calculateVelocityKinematics',
+  acceleration_jerk_analysis: 'KinematicsEngine.calculateAccelerationJerkAnalysis',
+  directional_angular_metrics: 'KinematicsEngine.calculateDirectionalAngularMetrics',
+  stroke_count_sequencing: 'StrokeAnalyzer.analyzeStrokeOrder',
+  spatial_accuracy_deviation: 'KinematicsEngine.calculateSpatialAccuracyDeviation',
+  time_based_performance: 'TracingAnalytics.calculateAnalytics',
+  completion_persistence: 'TracingAnalytics.calculateAnalytics',
+  error_detection_self_correction: 'StrokeAnalyzer.detectSelfCorrections',
+  letter_reversal_orientation: 'TracingAnalytics.calculateReversalOrientation',
+  letter_confusion_matrix: 'TracingAnalytics.calculateConfusionMatrix',
+  phonological_awareness_integration: 'TracingAnalytics.calculateAnalytics',
+  stroke_quality_consistency: 'StrokeAnalyzer.analyzeStrokeQuality, TremorAnalyzer.detectTremor',
+  line_continuity_closure: 'StrokeAnalyzer.analyzeLineContinuity, StrokeAnalyzer.analyzeClosureSuccess',
+  shape_formation_quality: 'ShapeAnalyzer.computeShapeQuality',
+  attention_focus: 'TracingAnalytics.calculateAnalytics',
+  working_memory_load: 'TracingAnalytics.calculateAnalytics',
+  cognitive_fatigue_endurance: 'TracingAnalytics.calculateAnalytics',
+  longitudinal_progress_tracking: 'LongitudinalAnalyzer.calculateLongitudinalProgress',
+  letter_specific_mastery: 'LongitudinalAnalyzer.calculateLetterMastery',
+  adaptive_learning_indicators: 'LongitudinalAnalyzer.calculateAdaptiveLearning',
+  session_context: 'TracingAnalytics.startSession',
+  user_demographics_history: 'ProfileTypes.toDemographics',
+  computer_vision_features: 'TracingAnalytics.calculateComputerVisionFeatures',
+  statistical_shape_descriptors: 'TracingAnalytics.calculateStatisticalShapeDescriptors',
+  visual_motor_coordination: 'TracingAnalytics.calculateAnalytics',
+  haptic_feedback_response: 'TracingAnalytics.calculateAnalytics',
+  letter_sound_correspondence: 'TracingAnalytics.calculateAnalytics',
+  reading_readiness_indicators: 'TracingAnalytics.calculateAnalytics',
+  engagement_motivation: 'TracingAnalytics.calculateAnalytics',
+  emotional_regulation: 'TracingAnalytics.calculateAnalytics',
+  automated_risk_assessment: 'TracingAnalytics.calculateAnalytics',
+  normative_comparisons: 'TracingAnalytics.calculateAnalytics',
+  clinical_alert_flags: 'TracingAnalytics.calculateAnalytics',
+};
+
+// Units by field name; anything not listed is a count, ratio or unitless score.
+// Lengths are mm except in rows whose calibration.metric_unit is px (recorded before 2.1.0)
+const FIELD_UNITS: Record<string, string> = {
+  x: 'px',
+  y: 'px',
+  index: 'sample',
+  timestamp: 'ms',
+  session_start_timestamp: 'ms since epoch',
+  session_end_timestamp: 'ms since epoch',
+  sampling_rate: 'Hz',
+  data_completeness_score: '%',
+  instantaneous_velocity: 'mm/s',
+  average_velocity: 'mm/s',
+  velocity_range: 'mm/s',
+  velocity_peaks: 'mm/s',
+  velocity_valleys: 'mm/s',
+  time_in_motion: 's',
+  time_paused: 's',
+  fluency_ratio: '0-1',
+  acceleration_profile: 'mm/s²',
+  jerk_profile: 'mm/s³',
+  mean_absolute_jerk: 'mm/s³',
+  peak_jerk: 'mm/s³',
+  path_curvature: '1/mm',
+  mean_curvature: '1/mm',
+  curvature_std: '1/mm',
+  angular_velocity: 'rad/s',
+  turning_angle_sum: 'rad',
+  ideal_vs_actual_angle_deviation: 'rad',
+  stroke_planning_latency: 's',
+  duration: 's',
+  length: 'mm',
+  deviation_from_ideal: 'mm',
+  mean_path_deviation: 'mm',
+  max_path_deviation: 'mm',
+  deviation_std: 'mm',
+  distance: 'mm',
+  off_track_duration_total: 's',
+  off_track_recovery_time: 's',
+  spatial_drift: 'mm',
+  accuracy_score: '0-100',
+  stroke_order_score: '0-1',
+  total_session_duration: 's',
+  active_tracing_time: 's',
+  pause_time_total: 's',
+  pause_duration_distribution: 's',
+  inter_stroke_latency: 's',
+  initial_reaction_time: 's',
+  time_per_stroke: 's',
+  time_to_first_successful_completion: 's',
+  partial_completion_percentage: '%',
+  error_to_correction_latency: 's',
+  correction_time: 's',
+  error_awareness_percentage: '%',
+  monitoring_behavior_score: '0-100',
+  actual_orientation_angle: 'degrees',
+  audio_to_trace_latency: 's',
+  tremor_frequency: 'Hz',
+  tremor_amplitude: 'mm',
+  closure_gap_size: 'mm',
+  line_continuity_score: '0-100',
+  proportions_score: '0-100',
+  shape_similarity_to_ideal: '0-1',
+  sustained_attention_duration: 's',
+  focus_score: '0-100',
+  working_memory_score: '0-100',
+  session_tolerance_duration: 's',
+  fatigue_index: '0-100',
+  mastery_percentage: '%',
+  chronological_age: 'years',
+  chronological_age_months: 'months',
+  developmental_age_estimate: 'years',
+  screen_size_inches: 'inches',
+  units_per_mm: 'canvas units/mm',
+  ambient_noise_level: 'dB',
+  bounding_box_area: 'px²',
+  convex_hull_area: 'px²',
+  coordination_score: '0-100',
+  vibration_response_latency: 's',
+  dyslexia_risk_score: '0-100',
+  dysgraphia_risk_score: '0-100',
+  reversal_risk_score: '0-100',
+  attention_deficit_risk_score: '0-100',
+  processing_speed_deficit_score: '0-100',
+  working_memory_deficit_score: '0-100',
+  age_norm_percentile: 'percentile',
+  grade_norm_percentile: 'percentile',
+  improvement_rate_percentile: 'percentile',
+  confidence: '0-1',
+  reversalConfidence: '0-1',
+  allProbabilities: '0-1',
+};
+
+/**
+ * Stable pseudonym for a child ID (polynomial hash of salt + ID, mod 2^32)
+ */
+export const anonymizeId = (id: string, salt: string = ''): string => {
+  const input = `${salt}:${id}`;
+  let hash = 7;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash * 131 + input.charCodeAt(i)) % 4294967296;
+  }
+  return `child_${hash.toString(16).padStart(8, '0')}`;
+};
+
+// Every number (booleans as 0/1) under a value, pooled by field path
+const gather = (value: unknown, path: string, pooled: Map<string, number[]>) => {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    if (!pooled.has(path)) pooled.set(path, []);
+    pooled.get(path)!.push(Number(value));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => gather(item, path, pooled));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => gather(child, path ? `${path}.${key}` : key, pooled));
+  }
+};
+
+const flattenInto = (value: unknown, path: string, flat: Record<string, FlatValue>) => {
+  if (value === null || value === undefined) return;
+
+  if (typeof value === 'number') {
+    flat[path] = { value, type: 'number' };
+  } else if (typeof value === 'boolean') {
+    flat[path] = { value: value ? 1 : 0, type: 'boolean' };
+  } else if (typeof value === 'string') {
+    flat[path] = { value, type: 'string' };
+  } else if (Array.isArray(value)) {
+    flat[`${path}.len`] = { value: value.length, type: 'number' };
+    if (value.length > 0 && value.every(item => typeof item === 'string')) {
+      flat[path] = { value: value.join(';'), type: 'string' };
+      return;
+    }
+
+    const pooled = new Map<string, number[]>();
+    value.forEach(item => gather(item, '', pooled));
+    pooled.forEach((numbers, subpath) => {
+      const base = subpath ? `${path}.${subpath}` : path;
+      flat[`${base}.mean`] = { value: mean(numbers), type: 'number' };
+      flat[`${base}.std`] = { value: std(numbers), type: 'number' };
+      if (subpath) flat[`${base}.len`] = { value: numbers.length, type: 'number' };
+    });
+  } else if (typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => flattenInto(child, path ? `${path}.${key}` : key, flat));
+  }
+};
+
+/**
+ * One session as a flat column → value map
+ */
+export const flattenAnalytics = (
+  analytics: ComprehensiveTracingAnalytics,
+  options: CohortExportOptions = {}
+): Record<string, FlatValue> => {
+  const flat: Record<string, FlatValue> = {};
+  flattenInto(analytics, '', flat);
+
+  if (options.anonymize) {
+    const pseudonym = anonymizeId(analytics.user_id, options.salt);
+    flat.user_id = { value: pseudonym, type: 'string' };
+    flat['user_demographics_history.user_id'] = { value: pseudonym, type: 'string' };
+  }
+  return flat;
+};
+
+const describeColumn = (column: string, type: ColumnDescription['type']): ColumnDescription => {
+  const match = column.match(/^(.*)\.(mean|std|len)$/);
+  const field = match ? match[1] : column;
+  const statistic = (match ? match[2] : 'value') as ColumnStatistic;
+  const segments = field.split('.');
+  // Array items like velocity_peaks[].value take the unit of the array
+  const unitField = segments.slice().reverse().find(segment => segment in FIELD_UNITS);
+
+  return {
+    column,
+    domain: segments[0],
+    field,
+    statistic,
+    type: statistic === 'value' ? type : 'number',
+    unit: statistic === 'len' ? 'count' : unitField ? FIELD_UNITS[unitField] : '',
+    source: DOMAIN_SOURCES[segments[0]] ?? '',
+  };
+};
+
+/**
+ * Flatten all sessions into rows sharing one column set
+ */
+export const buildCohortExport = (
+  sessions: ComprehensiveTracingAnalytics[],
+  options: CohortExportOptions = {}
+): CohortExport => {
+  const types = new Map<string, ColumnDescription['type']>();
+  META_COLUMNS.forEach(column => types.set(column, 'string'));
+
+  const rows = sessions.map(session => {
+    const flat = flattenAnalytics(session, options);
+    const row: Record<string, string | number> = {};
+    Object.entries(flat).forEach(([column, { value, type }]) => {
+      if (!types.has(column)) types.set(column, type);
+      row[column] = value;
+    });
+    return row;
+  });
+
+  const columns = Array.from(types.keys());
+  return {
+    columns,
+    rows,
+    dictionary: columns.map(column => describeColumn(column, types.get(column)!)),
+  };
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const cohortToCSV = (cohort: CohortExport): string =>
+  [
+    cohort.columns.join(','),
+    ...cohort.rows.map(row => cohort.columns.map(column => csvCell(row[column])).join(',')),
+  ].join('\n');
+
+export const dictionaryToCSV = (cohort: CohortExport): string =>
+  [
+    'column,domain,field,statistic,type,unit,source',
+    ...cohort.dictionary.map(d =>
+      [d.column, d.domain, d.field, d.statistic, d.type, d.unit, d.source].map(csvCell).join(',')
+    ),
+  ].join('\n');
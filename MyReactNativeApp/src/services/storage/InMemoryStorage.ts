@@ -0,0 +1,43 @@
+/**
+ * Minimal key-value contract the session store needs from AsyncStorage
+ */
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory AsyncStorage stand-in for unit tests and previews
+ */
+export class InMemoryStorage implements KeyValueStore {
+  private data = new Map<string, string>();
+
+  constructor(seed: Record<string, string> = {}) {
+    Object.entries(seed).forEach(([key, value]) => this.data.set(key, value));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.data.has(key) ? (this.data.get(key) as string) : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+
+  /**
+   * Snapshot of every stored key (test helper)
+   */
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+}
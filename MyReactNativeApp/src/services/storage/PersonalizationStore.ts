@@ -0,0 +1,73 @@
+import { KeyValueStore } from './InMemoryStorage';
+import { ConfirmedSample, rerankWithSamples } from '../recognizers/PersonalizationAdapter';
+import { RecognizerName } from '../recognizers/Recognizer';
+
+export const PERSONALIZATION_KEYS = {
+  SAMPLES: '@personalization_samples',
+};
+
+/**
+ * Oldest samples for a letter are dropped beyond this, so the adapter follows
+ * how the child writes now and storage stays bounded
+ */
+export const MAX_SAMPLES_PER_LETTER = 20;
+
+/**
+ * Confirmed recognizer samples, one list per child profile
+ */
+export class PersonalizationStore {
+  constructor(private storage: KeyValueStore) {}
+
+  async getSamples(profileId: string): Promise<ConfirmedSample[]> {
+    const data = await this.storage.getItem(this.samplesKey(profileId));
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Store a confirmed sample, trimming that letter to the newest MAX_SAMPLES_PER_LETTER.
+   * A sample for a session already confirmed replaces the earlier one.
+   */
+  async addSample(profileId: string, sample: ConfirmedSample): Promise<void> {
+    const existing = await this.getSamples(profileId);
+    const samples = [
+      ...existing.filter(s => !sample.session_id || s.session_id !== sample.session_id),
+      sample,
+    ];
+    const forLetter = samples.filter(s => s.letter === sample.letter);
+    const dropped = new Set(forLetter.slice(0, Math.max(0, forLetter.length - MAX_SAMPLES_PER_LETTER)));
+
+    await this.storage.setItem(
+      this.samplesKey(profileId),
+      JSON.stringify(samples.filter(s => !dropped.has(s)))
+    );
+  }
+
+  /**
+   * Sample count per confirmed letter
+   */
+  async getSampleCounts(profileId: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    (await this.getSamples(profileId)).forEach(s => {
+      counts[s.letter] = (counts[s.letter] ?? 0) + 1;
+    });
+    return counts;
+  }
+
+  /**
+   * Re-rank a prediction with the profile's samples; null if it has none usable
+   */
+  async rerank(profileId: string, backend: RecognizerName, probabilities: number[]): Promise<number[] | null> {
+    return rerankWithSamples(await this.getSamples(profileId), backend, probabilities);
+  }
+
+  /**
+   * Forget everything learned for a profile
+   */
+  async reset(profileId: string): Promise<void> {
+    await this.storage.removeItem(this.samplesKey(profileId));
+  }
+
+  private samplesKey(profileId: string): string {
+    return `${PERSONALIZATION_KEYS.SAMPLES}_${profileId}`;
+  }
+}
@@ -0,0 +1,584 @@
+import {
+  ComprehensiveTracingAnalytics,
+  AnalyticsDomainKey,
+  ANALYTICS_SCHEMA_VERSION,
+} from '@models/AnalyticsTypes';
+import { MLFeatures } from '@models/TracingData';
+import { referenceCalibration, UNCALIBRATED } from '@utils/CalibrationUtils';
+
+/**
+ * Version assigned to records written before schema stamping existed
+ */
+export const LEGACY_SCHEMA_VERSION = '0.0.0';
+
+/**
+ * Owner of sessions recorded before child profiles existed
+ */
+export const LEGACY_USER_ID = 'default_user';
+
+/**
+ * A registered upgrade from one stored record version to a newer one
+ */
+export interface SessionMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (record: any) => any;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export const ALL_ANALYTICS_DOMAINS: AnalyticsDomainKey[] = [
+  'raw_touch_data',
+  'velocity_kinematics',
+  'acceleration_jerk_analysis',
+  'directional_angular_metrics',
+  'stroke_count_sequencing',
+  'spatial_accuracy_deviation',
+  'time_based_performance',
+  'completion_persistence',
+  'error_detection_self_correction',
+  'letter_reversal_orientation',
+  'letter_confusion_matrix',
+  'phonological_awareness_integration',
+  'stroke_quality_consistency',
+  'line_continuity_closure',
+  'shape_formation_quality',
+  'attention_focus',
+  'working_memory_load',
+  'cognitive_fatigue_endurance',
+  'longitudinal_progress_tracking',
+  'letter_specific_mastery',
+  'adaptive_learning_indicators',
+  'session_context',
+  'user_demographics_history',
+  'computer_vision_features',
+  'statistical_shape_descriptors',
+  'visual_motor_coordination',
+  'haptic_feedback_response',
+  'letter_sound_correspondence',
+  'reading_readiness_indicators',
+  'engagement_motivation',
+  'emotional_regulation',
+  'automated_risk_assessment',
+  'normative_comparisons',
+  'clinical_alert_flags',
+];
+
+/**
+ * Build a current-schema record whose every domain is a neutral placeholder
+ */
+export const createEmptyAnalytics = (meta: {
+  session_id: string;
+  user_id: string;
+  letter: string;
+  timestamp: string;
+}): ComprehensiveTracingAnalytics => {
+  const startTime = new Date(meta.timestamp).getTime();
+
+  return {
+    ...meta,
+    version: ANALYTICS_SCHEMA_VERSION,
+    unavailable_domains: [...ALL_ANALYTICS_DOMAINS],
+    ml_recognition: null,
+    calibration: referenceCalibration(),
+
+    raw_touch_data: {
+      touch_coordinates_array: [],
+      touch_pressure_proxy: [],
+      sampling_rate: 0,
+      data_completeness_score: 0,
+      session_start_timestamp: startTime,
+      session_end_timestamp: startTime,
+    },
+    velocity_kinematics: {
+      instantaneous_velocity: [],
+      average_velocity: 0,
+      velocity_coefficient_of_variation: 0,
+      velocity_peaks: [],
+      velocity_valleys: [],
+      velocity_range: 0,
+      time_in_motion: 0,
+      time_paused: 0,
+      fluency_ratio: 0,
+    },
+    acceleration_jerk_analysis: {
+      acceleration_profile: [],
+      jerk_profile: [],
+      normalized_jerk_score: 0,
+      acceleration_symmetry: 0,
+      ballistic_movement_count: 0,
+      corrective_movement_count: 0,
+      mean_absolute_jerk: 0,
+      peak_jerk: 0,
+    },
+    directional_angular_metrics: {
+      path_curvature: [],
+      angular_velocity: [],
+      direction_reversals_count: 0,
+      curvature_consistency: 0,
+      ideal_vs_actual_angle_deviation: [],
+      mean_curvature: 0,
+      curvature_std: 0,
+      turning_angle_sum: 0,
+    },
+    stroke_count_sequencing: {
+      expected_stroke_count: 0,
+      actual_stroke_count_used: 0,
+      extra_strokes: 0,
+      missing_strokes: 0,
+      stroke_order_correctness: [],
+      stroke_sequence_violations: [],
+      lift_off_count: 0,
+      stroke_planning_latency: [],
+      strokes: [],
+      stroke_order_score: 0,
+    },
+    spatial_accuracy_deviation: {
+      mean_path_deviation: 0,
+      max_path_deviation: 0,
+      deviation_std: 0,
+      off_track_events: [],
+      off_track_duration_total: 0,
+      off_track_recovery_time: [],
+      spatial_drift: 0,
+      accuracy_score: 0,
+    },
+    time_based_performance: {
+      total_session_duration: 0,
+      active_tracing_time: 0,
+      pause_time_total: 0,
+      pause_frequency: 0,
+      pause_duration_distribution: [],
+      inter_stroke_latency: [],
+      initial_reaction_time: 0,
+      time_per_stroke: [],
+    },
+    completion_persistence: {
+      letter_completion_status: 'completed',
+      attempts_to_complete: 0,
+      partial_completion_percentage: 0,
+      frustration_quit_indicator: false,
+      time_to_first_successful_completion: 0,
+      retry_pattern: 'none',
+      retry_count: 0,
+    },
+    error_detection_self_correction: {
+      self_initiated_corrections: 0,
+      uncorrected_errors_count: 0,
+      error_to_correction_latency: [],
+      error_awareness_percentage: 0,
+      correction_success_rate: 0,
+      monitoring_behavior_score: 0,
+      correction_events: [],
+    },
+    letter_reversal_orientation: {
+      horizontal_mirror_similarity: 0,
+      vertical_flip_similarity: 0,
+      diagonal_flip_similarity: 0,
+      rotation_90_similarity: 0,
+      rotation_180_similarity: 0,
+      rotation_270_similarity: 0,
+      mirror_confusion_composite_score: 0,
+      orientation_consistency_score: 0,
+      left_right_confusion_indicator: false,
+      actual_orientation_angle: 0,
+    },
+    letter_confusion_matrix: {
+      b_d_confusion_probability: 0,
+      p_q_confusion_probability: 0,
+      n_u_confusion_probability: 0,
+      m_w_confusion_probability: 0,
+      six_nine_confusion_probability: 0,
+      confusion_pattern_consistency: 0,
+      confused_letter_pairs: [],
+    },
+    phonological_awareness_integration: {
+      letter_name_recall_accuracy: 0,
+      letter_sound_association: 0,
+      rhyme_recognition_score: 0,
+      phoneme_segmentation_ability: 0,
+      audio_playback_count: 0,
+      audio_to_trace_latency: 0,
+    },
+    stroke_quality_consistency: {
+      stroke_width_mean: 0,
+      stroke_width_variance: 0,
+      stroke_width_range: 0,
+      tremor_frequency: 0,
+      tremor_amplitude: 0,
+      tremor_power_spectral_density: [],
+      pressure_modulation_score: 0,
+      line_straightness_score: 0,
+    },
+    line_continuity_closure: {
+      endpoint_count: 0,
+      junction_count: 0,
+      gap_count: 0,
+      overlap_count: 0,
+      closure_success_rate: 0,
+      closure_gap_size: [],
+      line_continuity_score: 0,
+    },
+    shape_formation_quality: {
+      corner_sharpness_score: [],
+      curve_smoothness_score: [],
+      aspect_ratio: 0,
+      compactness_score: 0,
+      symmetry_score: 0,
+      baseline_adherence: 0,
+      proportions_score: 0,
+      shape_similarity_to_ideal: 0,
+    },
+    attention_focus: {
+      distraction_event_count: 0,
+      random_scribble_detection: 0,
+      task_abandonment_frequency: 0,
+      sustained_attention_duration: 0,
+      attention_lapses: [],
+      impulsivity_score: 0,
+      focus_score: 0,
+    },
+    working_memory_load: {
+      stroke_sequence_recall_accuracy: 0,
+      multi_stroke_letter_performance: 0,
+      memory_span_estimate: 0,
+      interference_susceptibility: 0,
+      working_memory_score: 0,
+    },
+    cognitive_fatigue_endurance: {
+      performance_degradation_slope: 0,
+      speed_degradation_slope: 0,
+      error_rate_increase_over_time: 0,
+      session_tolerance_duration: 0,
+      recovery_after_break: 0,
+      fatigue_index: 0,
+    },
+    longitudinal_progress_tracking: {
+      total_session_count: 0,
+      improvement_rate_per_session: 0,
+      plateau_detection_flag: false,
+      retention_score_24hr: 0,
+      retention_score_1week: 0,
+      skill_transfer_coefficient: 0,
+      learning_curve_slope: 0,
+    },
+    letter_specific_mastery: {
+      mastered_letters_list: [],
+      problematic_letters_list: [],
+      mastery_timeline: [],
+      forgetting_curve_data: [],
+      mastery_percentage: 0,
+    },
+    adaptive_learning_indicators: {
+      strategy_changes_detected: 0,
+      error_pattern_evolution: 'stable',
+      self_regulation_score: 0,
+      learning_efficiency: 0,
+    },
+    session_context: {
+      time_of_day: 'morning',
+      day_of_week: '',
+      session_duration_preference: 'medium',
+      device_type: 'phone',
+      screen_size_inches: 0,
+      input_method: 'finger',
+      screen_orientation: 'portrait',
+      session_id: meta.session_id,
+      letter: meta.letter,
+    },
+    user_demographics_history: {
+      chronological_age: 0,
+      chronological_age_months: 0,
+      handedness: 'right',
+      prior_dyslexia_diagnosis: 'none',
+      comorbid_conditions: [],
+      intervention_history: [],
+      native_language: '',
+      language_of_instruction: '',
+      user_id: meta.user_id,
+    },
+    computer_vision_features: {
+      hog_features: [],
+      edge_density_map: [],
+      contour_complexity: 0,
+      perimeter_to_area_ratio: 0,
+      bounding_box_area: 0,
+      convex_hull_area: 0,
+      solidity: 0,
+      extent: 0,
+      eccentricity: 0,
+    },
+    statistical_shape_descriptors: {
+      fourier_descriptors: [],
+      hu_moments: [],
+      central_moments: [],
+      normalized_central_moments: [],
+      shape_complexity_index: 0,
+    },
+    visual_motor_coordination: {
+      eye_hand_coordination_proxy: 0,
+      visual_feedback_dependency: 0,
+      visual_tracking_smoothness: 0,
+      coordination_score: 0,
+    },
+    haptic_feedback_response: {
+      vibration_response_latency: 0,
+      haptic_learning_curve: 0,
+      haptic_preference_score: 0,
+      haptic_enabled: false,
+    },
+    letter_sound_correspondence: {
+      grapheme_phoneme_mapping_accuracy: 0,
+      letter_name_fluency: 0,
+      phonological_awareness_composite: 0,
+      rapid_automatized_naming_proxy: 0,
+    },
+    reading_readiness_indicators: {
+      letter_recognition_speed: 0,
+      alphabet_knowledge_score: 0,
+      print_awareness: 0,
+    },
+    engagement_motivation: {
+      voluntary_practice_frequency: 0,
+      session_completion_rate: 0,
+      positive_feedback_response: 0,
+      challenge_seeking_behavior: 0,
+      frustration_tolerance_score: 0,
+    },
+    emotional_regulation: {
+      rage_quit_incidents: 0,
+      help_seeking_behavior: 0,
+      anxiety_indicators: 0,
+      confidence_trajectory: 'stable',
+    },
+    automated_risk_assessment: {
+      dyslexia_risk_score: 0,
+      dysgraphia_risk_score: 0,
+      reversal_risk_score: 0,
+      attention_deficit_risk_score: 0,
+      processing_speed_deficit_score: 0,
+      working_memory_deficit_score: 0,
+      overall_risk_level: 'low',
+    },
+    normative_comparisons: {
+      age_norm_percentile: 0,
+      grade_norm_percentile: 0,
+      improvement_rate_percentile: 0,
+      severity_classification: 'typical',
+    },
+    clinical_alert_flags: {
+      immediate_referral_flag: false,
+      monitor_closely_flag: false,
+      typical_development_flag: false,
+      specific_concern_flags: [],
+      flagged_metrics: [],
+    },
+  };
+};
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Shadow-extractor summaries (camelCase, no version) become full records.
+ * Only the domains the summary actually measured are marked available.
+ */
+const migrateShadowSummary = (legacy: any): ComprehensiveTracingAnalytics => {
+  const record = createEmptyAnalytics({
+    session_id: legacy.sessionId,
+    user_id: legacy.userId ?? LEGACY_USER_ID,
+    letter: legacy.letter,
+    timestamp: legacy.timestamp,
+  });
+  const clinical = legacy.clinical ?? {};
+  const durationMs: number = legacy.overview?.completionTime ?? 0;
+  const measured: AnalyticsDomainKey[] = [];
+
+  if (clinical.dataQuality) {
+    record.raw_touch_data.sampling_rate = clinical.dataQuality.samplingRate;
+    record.raw_touch_data.data_completeness_score = clinical.dataQuality.completenessScore * 100;
+    record.raw_touch_data.session_end_timestamp += durationMs;
+    measured.push('raw_touch_data');
+  }
+
+  if (clinical.kinematics) {
+    const k = clinical.kinematics;
+    // The shadow extractor worked in px/ms and milliseconds
+    record.velocity_kinematics.average_velocity = k.avgVelocity * 1000;
+    record.velocity_kinematics.velocity_coefficient_of_variation = k.velocityCoV;
+    record.velocity_kinematics.time_in_motion = k.timeInMotion / 1000;
+    record.velocity_kinematics.time_paused = k.timePaused / 1000;
+    record.velocity_kinematics.fluency_ratio = k.fluencyRatio;
+    measured.push('velocity_kinematics');
+
+    record.time_based_performance.total_session_duration = durationMs / 1000;
+    record.time_based_performance.active_tracing_time = k.timeInMotion / 1000;
+    record.time_based_performance.pause_time_total = k.timePaused / 1000;
+    record.time_based_performance.pause_frequency = k.velocityValleys;
+    measured.push('time_based_performance');
+  }
+
+  if (clinical.dynamics) {
+    record.acceleration_jerk_analysis.normalized_jerk_score = clinical.dynamics.normalizedJerk;
+    record.acceleration_jerk_analysis.acceleration_symmetry = clinical.dynamics.accelerationSymmetry;
+    record.acceleration_jerk_analysis.ballistic_movement_count = clinical.dynamics.ballisticMovements;
+    measured.push('acceleration_jerk_analysis');
+  }
+
+  if (clinical.graphomotor) {
+    const g = clinical.graphomotor;
+    record.stroke_quality_consistency.tremor_frequency = g.tremorFrequency;
+    record.stroke_quality_consistency.tremor_amplitude = g.tremorAmplitude;
+    record.stroke_quality_consistency.stroke_width_mean = g.avgPressure;
+    record.stroke_quality_consistency.stroke_width_variance = g.pressureVariance;
+    measured.push('stroke_quality_consistency');
+  }
+
+  if (clinical.shape) {
+    const s = clinical.shape;
+    record.shape_formation_quality.aspect_ratio = s.aspect_ratio;
+    record.shape_formation_quality.compactness_score = s.compactness_score;
+    record.shape_formation_quality.symmetry_score = s.symmetry_score;
+    record.shape_formation_quality.corner_sharpness_score = s.corner_sharpness_scores ?? [];
+    record.shape_formation_quality.curve_smoothness_score = [s.curve_smoothness_score];
+    measured.push('shape_formation_quality');
+
+    record.line_continuity_closure.closure_success_rate = s.closure_success_rate;
+    record.line_continuity_closure.closure_gap_size = s.closure_gap_sizes ?? [];
+    record.line_continuity_closure.endpoint_count = s.endpoint_count;
+    record.line_continuity_closure.junction_count = s.junction_count;
+    measured.push('line_continuity_closure');
+  }
+
+  if (clinical.sequencing) {
+    const q = clinical.sequencing;
+    record.stroke_count_sequencing.expected_stroke_count = q.strokeCountExpected;
+    record.stroke_count_sequencing.actual_stroke_count_used = q.strokeCountActual;
+    record.stroke_count_sequencing.extra_strokes = q.extraStrokes;
+    record.stroke_count_sequencing.missing_strokes = q.missingStrokes;
+    record.stroke_count_sequencing.lift_off_count = q.liftOffCount;
+    measured.push('stroke_count_sequencing');
+  }
+
+  if (legacy.overview) {
+    const status = legacy.overview.status === 'timeout' ? 'timed_out' : legacy.overview.status;
+    record.completion_persistence.letter_completion_status = status;
+    measured.push('completion_persistence');
+  }
+
+  record.ml_recognition = (legacy.ml as MLFeatures) ?? null;
+  record.unavailable_domains = ALL_ANALYTICS_DOMAINS.filter(d => !measured.includes(d));
+
+  return record;
+};
+
+/**
+ * Engine 1.0.0 records filled these domains with fixed placeholder values
+ */
+const ENGINE_V1_PLACEHOLDER_DOMAINS: AnalyticsDomainKey[] = [
+  'letter_confusion_matrix',
+  'phonological_awareness_integration',
+  'longitudinal_progress_tracking',
+  'letter_specific_mastery',
+  'adaptive_learning_indicators',
+  'haptic_feedback_response',
+  'letter_sound_correspondence',
+  'reading_readiness_indicators',
+  'engagement_motivation',
+  'emotional_regulation',
+  'normative_comparisons',
+];
+
+const migrateEngineV1 = (record: any): any => {
+  const samplingRate: number = record.raw_touch_data?.sampling_rate ?? 0;
+  const spatial = record.spatial_accuracy_deviation;
+
+  // 1.0.0 stored off-track durations as sample counts
+  const toSeconds = (samples: number) => (samplingRate > 0 ? samples / samplingRate : 0);
+  const off_track_events = (spatial?.off_track_events ?? []).map((e: any) => ({
+    ...e,
+    duration: toSeconds(e.duration),
+  }));
+
+  return {
+    ...record,
+    version: '2.0.0',
+    unavailable_domains: [...ENGINE_V1_PLACEHOLDER_DOMAINS],
+    ml_recognition: null,
+    spatial_accuracy_deviation: spatial && {
+      ...spatial,
+      off_track_events,
+      off_track_duration_total: toSeconds(spatial.off_track_duration_total),
+      off_track_recovery_time: (spatial.off_track_recovery_time ?? []).map(toSeconds),
+    },
+  };
+};
+
+// Before 2.1.0 lengths and speeds were measured in canvas pixels
+const migrateUncalibrated = (record: any): any => ({
+  ...record,
+  calibration: { ...UNCALIBRATED },
+});
+
+/**
+ * Registered migrations, applied in chain until the record reaches ANALYTICS_SCHEMA_VERSION
+ */
+export const SESSION_MIGRATIONS: SessionMigration[] = [
+  {
+    from: LEGACY_SCHEMA_VERSION,
+    to: '2.0.0',
+    description: 'Shadow feature summary to comprehensive analytics record',
+    migrate: migrateShadowSummary,
+  },
+  {
+    from: '1.0.0',
+    to: '2.0.0',
+    description: 'Add domain availability and recognition; off-track durations to seconds',
+    migrate: migrateEngineV1,
+  },
+  {
+    from: '2.0.0',
+    to: '2.1.0',
+    description: 'Record the calibration metrics were computed with (pixels before 2.1.0)',
+    migrate: migrateUncalibrated,
+  },
+];
+
+/**
+ * Read the schema version a stored record was written with
+ */
+export const getRecordVersion = (record: any): string =>
+  typeof record?.version === 'string' ? record.version : LEGACY_SCHEMA_VERSION;
+
+/**
+ * Upgrade a stored record to the current schema; returns whether anything changed
+ */
+export const migrateRecord = (
+  record: any,
+  migrations: SessionMigration[] = SESSION_MIGRATIONS,
+  targetVersion: string = ANALYTICS_SCHEMA_VERSION
+): { record: ComprehensiveTracingAnalytics; migrated: boolean } => {
+  let current = record;
+  let version = getRecordVersion(current);
+  const seen = new Set<string>();
+
+  while (version !== targetVersion) {
+    const step = migrations.find(m => m.from === version);
+    if (!step || seen.has(version)) {
+      throw new MigrationError(`No migration path from schema ${version} to ${targetVersion}`);
+    }
+
+    seen.add(version);
+    current = { ...step.migrate(current), version: step.to };
+    version = step.to;
+  }
+
+  return { record: current, migrated: seen.size > 0 };
+};
@@ -0,0 +1,294 @@
+import {
+  ComprehensiveTracingAnalytics,
+  ANALYTICS_SCHEMA_VERSION,
+} from '@models/AnalyticsTypes';
+import { KeyValueStore } from './InMemoryStorage';
+import { migrateRecord, SessionMigration, SESSION_MIGRATIONS } from './SessionMigrations';
+import { SessionOutcome, toSessionOutcome } from '../analytics/LongitudinalAnalyzer';
+
+export const SESSION_STORE_KEYS = {
+  SESSION_DATA: '@session_data',
+  LEGACY_HISTORY: '@analytics_history',
+  USER_INDEX: '@analytics_index',
+  STORAGE_VERSION: '@analytics_storage_version',
+};
+
+/**
+ * Layout version of the keys themselves (bumped when the indexes change shape)
+ */
+export const STORAGE_LAYOUT_VERSION = 2;
+
+/**
+ * Per-user lookup tables so queries never scan other users' sessions
+ */
+export interface UserSessionIndex {
+  sessions: string[];
+  byLetter: Record<string, string[]>;
+  byDate: Record<string, string[]>;
+}
+
+interface LegacyHistoryEntry {
+  sessionId: string;
+  letter: string;
+  timestamp: string;
+  userId?: string;
+}
+
+const emptyIndex = (): UserSessionIndex => ({ sessions: [], byLetter: {}, byDate: {} });
+
+/**
+ * Calendar day (YYYY-MM-DD, UTC) a session belongs to in the date index
+ */
+export const toDateKey = (timestamp: string): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const addToBucket = (bucket: Record<string, string[]>, key: string, sessionId: string) => {
+  const ids = bucket[key] ?? [];
+  if (!ids.includes(sessionId)) {
+    bucket[key] = [...ids, sessionId];
+  }
+};
+
+/**
+ * Versioned session persistence over any AsyncStorage-compatible store
+ */
+export class SessionStore {
+  private layoutReady: Promise<void> | null = null;
+  private outcomes = new Map<string, Promise<Map<string, SessionOutcome>>>();
+  // Pending index write per user; each write waits for the one before it
+  private indexWrites = new Map<string, Promise<void>>();
+
+  constructor(
+    private storage: KeyValueStore,
+    private migrations: SessionMigration[] = SESSION_MIGRATIONS
+  ) {}
+
+  /**
+   * Persist a session record (stamped or upgraded to the current schema)
+   */
+  async save(analytics: ComprehensiveTracingAnalytics): Promise<void> {
+    await this.ensureLayout();
+
+    const { record } = migrateRecord(
+      { ...analytics, version: analytics.version ?? ANALYTICS_SCHEMA_VERSION },
+      this.migrations
+    );
+    await this.storage.setItem(this.sessionKey(record.session_id), JSON.stringify(record));
+    await this.addToIndex(record.user_id, record.session_id, record.letter, record.timestamp);
+
+    const cached = this.outcomes.get(record.user_id);
+    if (cached) {
+      (await cached).set(record.session_id, toSessionOutcome(record));
+    }
+  }
+
+  /**
+   * Load one session, migrating and writing it back if it is older than the current schema
+   */
+  async get(sessionId: string): Promise<ComprehensiveTracingAnalytics | null> {
+    const data = await this.storage.getItem(this.sessionKey(sessionId));
+    if (!data) return null;
+
+    const { record, migrated } = migrateRecord(JSON.parse(data), this.migrations);
+    if (migrated) {
+      await this.storage.setItem(this.sessionKey(sessionId), JSON.stringify(record));
+    }
+
+    return record;
+  }
+
+  /**
+   * All sessions for a user, oldest first
+   */
+  async getAllAnalytics(userId: string): Promise<ComprehensiveTracingAnalytics[]> {
+    const index = await this.getIndex(userId);
+    return this.loadMany(index.sessions);
+  }
+
+  /**
+   * A user's session outcomes, oldest first. Records are read once per user and
+   * the outcomes kept up to date by later saves, so scoring a new session never
+   * reloads the whole history.
+   */
+  async getOutcomes(userId: string): Promise<SessionOutcome[]> {
+    let cached = this.outcomes.get(userId);
+    if (!cached) {
+      cached = this.getAllAnalytics(userId).then(
+        records => new Map(records.map(r => [r.session_id, toSessionOutcome(r)]))
+      );
+      this.outcomes.set(userId, cached);
+      cached.catch(() => this.outcomes.delete(userId));
+    }
+
+    return [...(await cached).values()].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * A user's sessions for one letter, oldest first
+   */
+  async getAnalyticsByLetter(userId: string, letter: string): Promise<ComprehensiveTracingAnalytics[]> {
+    const index = await this.getIndex(userId);
+    return this.loadMany(index.byLetter[letter] ?? []);
+  }
+
+  /**
+   * A user's sessions between two days inclusive, oldest first
+   */
+  async getAnalyticsByDateRange(
+    userId: string,
+    from: Date,
+    to: Date
+  ): Promise<ComprehensiveTracingAnalytics[]> {
+    const index = await this.getIndex(userId);
+    const fromKey = toDateKey(from.toISOString());
+    const toKey = toDateKey(to.toISOString());
+
+    const ids = Object.keys(index.byDate)
+      .filter(day => day >= fromKey && day <= toKey)
+      .sort()
+      .flatMap(day => index.byDate[day]);
+
+    return this.loadMany(ids);
+  }
+
+  /**
+   * Read a user's index (rebuilding from the legacy flat history on first use)
+   */
+  async getIndex(userId: string): Promise<UserSessionIndex> {
+    await this.ensureLayout();
+
+    const data = await this.storage.getItem(this.indexKey(userId));
+    return data ? JSON.parse(data) : emptyIndex();
+  }
+
+  /**
+   * Give every session recorded under one user id to another (e.g. sessions
+   * from before profiles existed to the child they belong to)
+   * @returns the number of sessions moved
+   */
+  async reassignSessions(fromUserId: string, toUserId: string): Promise<number> {
+    if (fromUserId === toUserId) return 0;
+
+    const index = await this.getIndex(fromUserId);
+    if (index.sessions.length === 0) return 0;
+
+    const records = await this.loadMany(index.sessions);
+    for (const record of records) {
+      await this.save({ ...record, user_id: toUserId });
+    }
+
+    await this.storage.removeItem(this.indexKey(fromUserId));
+    this.outcomes.delete(fromUserId);
+    return records.length;
+  }
+
+  async clearAll(): Promise<void> {
+    await this.storage.clear();
+    this.layoutReady = null;
+    this.outcomes.clear();
+  }
+
+  private async loadMany(sessionIds: string[]): Promise<ComprehensiveTracingAnalytics[]> {
+    const records: ComprehensiveTracingAnalytics[] = [];
+
+    for (const sessionId of sessionIds) {
+      try {
+        const record = await this.get(sessionId);
+        if (record) records.push(record);
+      } catch (error) {
+        console.error(`Failed to load session ${sessionId}:`, error);
+      }
+    }
+
+    return records.sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  /**
+   * Queue an index update behind any pending one for the same user, so two
+   * saves in flight can't both read the old index and drop each other's entry
+   */
+  private addToIndex(
+    userId: string,
+    sessionId: string,
+    letter: string,
+    timestamp: string
+  ): Promise<void> {
+    const previous = this.indexWrites.get(userId) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeIndexEntry(userId, sessionId, letter, timestamp));
+
+    this.indexWrites.set(userId, write);
+    const settle = () => {
+      if (this.indexWrites.get(userId) === write) this.indexWrites.delete(userId);
+    };
+    write.then(settle, settle);
+
+    return write;
+  }
+
+  private async writeIndexEntry(
+    userId: string,
+    sessionId: string,
+    letter: string,
+    timestamp: string
+  ): Promise<void> {
+    const data = await this.storage.getItem(this.indexKey(userId));
+    const index: UserSessionIndex = data ? JSON.parse(data) : emptyIndex();
+
+    if (!index.sessions.includes(sessionId)) {
+      index.sessions.push(sessionId);
+    }
+    addToBucket(index.byLetter, letter, sessionId);
+    addToBucket(index.byDate, toDateKey(timestamp), sessionId);
+
+    await this.storage.setItem(this.indexKey(userId), JSON.stringify(index));
+  }
+
+  /**
+   * Run the one-off layout upgrade at most once per store instance
+   */
+  private ensureLayout(): Promise<void> {
+    if (!this.layoutReady) {
+      this.layoutReady = this.upgradeLayout().catch(error => {
+        this.layoutReady = null;
+        throw error;
+      });
+    }
+    return this.layoutReady;
+  }
+
+  /**
+   * Move the pre-versioning flat history into per-user indexes
+   */
+  private async upgradeLayout(): Promise<void> {
+    const stored = await this.storage.getItem(SESSION_STORE_KEYS.STORAGE_VERSION);
+    if (stored && Number(stored) >= STORAGE_LAYOUT_VERSION) return;
+
+    const historyData = await this.storage.getItem(SESSION_STORE_KEYS.LEGACY_HISTORY);
+    const history: LegacyHistoryEntry[] = historyData ? JSON.parse(historyData) : [];
+
+    for (const entry of history) {
+      try {
+        // Prefer the record's own owner; old history entries were all 'default_user'
+        const record = await this.get(entry.sessionId);
+        if (!record) continue;
+        await this.addToIndex(record.user_id, record.session_id, record.letter, record.timestamp);
+      } catch (error) {
+        console.error(`Failed to migrate session ${entry.sessionId}:`, error);
+      }
+    }
+
+    await this.storage.removeItem(SESSION_STORE_KEYS.LEGACY_HISTORY);
+    await this.storage.setItem(SESSION_STORE_KEYS.STORAGE_VERSION, String(STORAGE_LAYOUT_VERSION));
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${SESSION_STORE_KEYS.SESSION_DATA}_${sessionId}`;
+  }
+
+  private indexKey(userId: string): string {
+    return `${SESSION_STORE_KEYS.USER_INDEX}_${userId}`;
+  }
+}
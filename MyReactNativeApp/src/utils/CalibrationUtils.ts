@@ -0,0 +1,116 @@
+import { DeviceCalibration } from '@models/AnalyticsTypes';
+import { IdealPathData, Point } from '@models/TracingData';
+
+export const MM_PER_INCH = 25.4;
+
+// React Native lays out at ~160 dp per inch on a nominal-density screen
+export const REFERENCE_DP_PER_INCH = 160;
+
+// ID-1 card (bank or library card, ISO/IEC 7810) held against the on-screen ruler
+export const CARD_WIDTH_MM = 85.6;
+
+/**
+ * Nominal density, used until the device is calibrated
+ */
+export const referenceCalibration = (pixelRatio?: number): DeviceCalibration => ({
+  method: 'reference',
+  units_per_mm: REFERENCE_DP_PER_INCH / MM_PER_INCH,
+  metric_unit: 'mm',
+  pixel_ratio: pixelRatio,
+});
+
+/**
+ * Marker for records stored before calibration existed; their metrics are canvas pixels
+ */
+export const UNCALIBRATED: DeviceCalibration = {
+  method: 'none',
+  units_per_mm: REFERENCE_DP_PER_INCH / MM_PER_INCH,
+  metric_unit: 'px',
+};
+
+/**
+ * Density from the window size in dp and the screen's true diagonal
+ */
+export const calibrationFromScreenSize = (
+  widthDp: number,
+  heightDp: number,
+  screenSizeInches: number,
+  pixelRatio?: number
+): DeviceCalibration => {
+  if (!(screenSizeInches > 0)) {
+    throw new Error(`Invalid screen size ${screenSizeInches}`);
+  }
+  const diagonalDp = Math.sqrt(widthDp * widthDp + heightDp * heightDp);
+
+  return {
+    method: 'screen_size',
+    units_per_mm: diagonalDp / (screenSizeInches * MM_PER_INCH),
+    metric_unit: 'mm',
+    screen_size_inches: screenSizeInches,
+    pixel_ratio: pixelRatio,
+  };
+};
+
+/**
+ * Density from an on-screen ruler stretched to match an object of known length
+ */
+export const calibrationFromRuler = (
+  rulerLengthDp: number,
+  knownLengthMm: number = CARD_WIDTH_MM,
+  pixelRatio?: number,
+  calibratedAt: Date = new Date()
+): DeviceCalibration => {
+  if (!(rulerLengthDp > 0) || !(knownLengthMm > 0)) {
+    throw new Error(`Invalid ruler calibration ${rulerLengthDp}dp for ${knownLengthMm}mm`);
+  }
+
+  return {
+    method: 'ruler',
+    units_per_mm: rulerLengthDp / knownLengthMm,
+    metric_unit: 'mm',
+    pixel_ratio: pixelRatio,
+    calibrated_at: calibratedAt.toISOString(),
+  };
+};
+
+/**
+ * Screen diagonal in inches implied by a calibration
+ */
+export const screenSizeInches = (widthDp: number, heightDp: number, calibration: DeviceCalibration): number =>
+  Math.sqrt(widthDp * widthDp + heightDp * heightDp) / calibration.units_per_mm / MM_PER_INCH;
+
+/**
+ * Canvas coordinates to millimetres; every other field is kept
+ */
+export const toPhysicalPoints = <T extends Point>(points: T[], calibration: DeviceCalibration): T[] =>
+  points.map(p => ({ ...p, x: p.x / calibration.units_per_mm, y: p.y / calibration.units_per_mm }));
+
+/**
+ * Millimetres back to canvas coordinates
+ */
+export const toCanvasPoints = <T extends Point>(points: T[], calibration: DeviceCalibration): T[] =>
+  points.map(p => ({ ...p, x: p.x * calibration.units_per_mm, y: p.y * calibration.units_per_mm }));
+
+export const toPhysicalIdealPath = (idealPath: IdealPathData, calibration: DeviceCalibration): IdealPathData => ({
+  ...idealPath,
+  points: toPhysicalPoints(idealPath.points, calibration),
+  totalLength: idealPath.totalLength / calibration.units_per_mm,
+});
+
+/**
+ * A length (or speed) measured on the canvas, in the unit a record's metrics use
+ */
+export const canvasToRecordUnits = (value: number, calibration: DeviceCalibration): number =>
+  calibration.metric_unit === 'mm' ? value / calibration.units_per_mm : value;
+
+/**
+ * A physical length (or speed), in the unit a record's metrics use
+ */
+export const physicalToRecordUnits = (valueMm: number, calibration: DeviceCalibration): number =>
+  calibration.metric_unit === 'mm' ? valueMm : valueMm * calibration.units_per_mm;
+
+/**
+ * A length (or speed) from a record, in millimetres whatever unit it was stored in
+ */
+export const recordToMm = (value: number, calibration: DeviceCalibration): number =>
+  calibration.metric_unit === 'px' ? value / calibration.units_per_mm : value;
@@ -240,6 +240,30 @@ export const frechetDistance = (curve1: Point[], curve2: Point[]): number => {
   return computeCA(n - 1, m - 1);
 };
 
+/**
+ * Scale a whole letter so its longer side is 1, centred on the origin.
+ * Strokes keep their positions relative to each other.
+ */
+export const normalizeStrokesToUnitBox = (strokes: Point[][]): Point[][] => {
+  const points = strokes.flat();
+  if (points.length === 0) return strokes;
+  
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const size = Math.max(width, height) || 1;
+  
+  return strokes.map(stroke =>
+    stroke.map(p => ({
+      x: (p.x - minX - width / 2) / size,
+      y: (p.y - minY - height / 2) / size,
+    }))
+  );
+};
+
 /**
  * Calculate bounding box
  */
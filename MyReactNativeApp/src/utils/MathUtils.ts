@@ -544,3 +544,70 @@ export const calculateShapeMetrics = (contour: Point[]): { aspectRatio: number;
   
   return { aspectRatio, compactness, eccentricity };
 };
+
+/**
+ * Minimum-cost assignment of rows to columns (Hungarian / Kuhn-Munkres).
+ * The matrix may be rectangular; returns the column for each row, or -1
+ * for rows left over when there are more rows than columns.
+ */
+export const hungarianAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const cols = rows === 0 ? 0 : cost[0].length;
+  const n = Math.max(rows, cols);
+  if (n === 0) return [];
+  
+  // Pad to square with zero-cost dummy rows/columns (1-indexed below)
+  const a = (i: number, j: number) => (i <= rows && j <= cols ? cost[i - 1][j - 1] : 0);
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0); // p[j] = row assigned to column j
+  const way = new Array(n + 1).fill(0);
+  
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = a(i0, j) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    
+    // Walk the augmenting path back
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+  
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    if (p[j] >= 1 && p[j] <= rows && j <= cols) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+};
@@ -1,4 +1,4 @@
-import { modelService } from '../services/ModelService';
+import type { Orientation } from '@models/TracingData';
 
 // 1. Class Mapping (identical to Python, but ported)
 const FULL_MAPPING_STR = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabdefghnqrt";
@@ -18,15 +18,32 @@ export const getCharFromIndex = (index: number): string => {
     return DYSLEXIA_CLASSES[index as keyof typeof DYSLEXIA_CLASSES] || "?";
 };
 
+/**
+ * Class index for a character; capitals win over merged lowercase classes
+ */
+export const getIndexFromChar = (char: string): number => {
+    const upper = CLASS_MAPPING_LIST.indexOf(char.toUpperCase());
+    return upper !== -1 ? upper : CLASS_MAPPING_LIST.indexOf(char.toLowerCase());
+};
+
 export const isAlpha = (char: string): boolean => {
     return /^[A-Za-z]$/.test(char);
 };
 
+export const isDigit = (char: string): boolean => {
+    return /^[0-9]$/.test(char);
+};
+
 export const ALPHABET_INDICES = CLASS_MAPPING_LIST
     .map((char, index) => ({ char, index }))
     .filter(item => isAlpha(item.char))
     .map(item => item.index);
 
+export const DIGIT_INDICES = CLASS_MAPPING_LIST
+    .map((char, index) => ({ char, index }))
+    .filter(item => isDigit(item.char))
+    .map(item => item.index);
+
 // 2. Preprocessing (Rasterization)
 // We need to convert the path/strokes to a 28x28 grayscale grid (Float32Array)
 
@@ -177,3 +194,85 @@ export const rotate180 = (grid: Float32Array): Float32Array => {
     // Equivalent to flipH then flipV
     return flipVertical(flipHorizontal(grid));
 };
+
+export const rotate90 = (grid: Float32Array): Float32Array => {
+    // Clockwise: row y becomes column (size - 1 - y)
+    const newGrid = new Float32Array(grid.length);
+    const size = 28;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const srcIdx = y * size + x;
+            const destIdx = x * size + (size - 1 - y);
+            newGrid[destIdx] = grid[srcIdx];
+        }
+    }
+    return newGrid;
+};
+
+export const rotate270 = (grid: Float32Array): Float32Array => {
+    return rotate180(rotate90(grid));
+};
+
+export const transpose = (grid: Float32Array): Float32Array => {
+    // Flip across the main diagonal (swap x and y)
+    const newGrid = new Float32Array(grid.length);
+    const size = 28;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            newGrid[x * size + y] = grid[y * size + x];
+        }
+    }
+    return newGrid;
+};
+
+// Stroke-level equivalents, for backends that read points rather than pixels.
+// Each mirrors the drawing within its own bounding box.
+
+const mapStrokes = (strokes: Stroke[], fn: (p: Point, box: { cx: number; cy: number }) => Point): Stroke[] => {
+    const points = strokes.flat();
+    if (points.length === 0) return strokes;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const box = {
+        cx: (Math.min(...xs) + Math.max(...xs)) / 2,
+        cy: (Math.min(...ys) + Math.max(...ys)) / 2,
+    };
+    return strokes.map(stroke => stroke.map(p => fn(p, box)));
+};
+
+export const flipStrokesHorizontal = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cx }) => ({ x: 2 * cx - p.x, y: p.y }));
+
+export const flipStrokesVertical = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cy }) => ({ x: p.x, y: 2 * cy - p.y }));
+
+export const rotateStrokes180 = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cx, cy }) => ({ x: 2 * cx - p.x, y: 2 * cy - p.y }));
+
+// Screen coordinates (y down), so a clockwise turn maps (dx, dy) to (-dy, dx)
+export const rotateStrokes90 = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cx, cy }) => ({ x: cx - (p.y - cy), y: cy + (p.x - cx) }));
+
+export const rotateStrokes270 = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cx, cy }) => ({ x: cx + (p.y - cy), y: cy - (p.x - cx) }));
+
+export const transposeStrokes = (strokes: Stroke[]): Stroke[] =>
+    mapStrokes(strokes, (p, { cx, cy }) => ({ x: cx + (p.y - cy), y: cy + (p.x - cx) }));
+
+/**
+ * Every orientation checked for reversals, with its pixel and stroke transform.
+ * Identity comes first so its row is the plain prediction.
+ */
+export const ORIENTATIONS: Array<{
+    orientation: Orientation;
+    tensor: (grid: Float32Array) => Float32Array;
+    strokes: (strokes: Stroke[]) => Stroke[];
+}> = [
+    { orientation: 'identity', tensor: grid => grid, strokes: s => s },
+    { orientation: 'horizontal_flip', tensor: flipHorizontal, strokes: flipStrokesHorizontal },
+    { orientation: 'vertical_flip', tensor: flipVertical, strokes: flipStrokesVertical },
+    { orientation: 'diagonal_flip', tensor: transpose, strokes: transposeStrokes },
+    { orientation: 'rotation_90', tensor: rotate90, strokes: rotateStrokes90 },
+    { orientation: 'rotation_180', tensor: rotate180, strokes: rotateStrokes180 },
+    { orientation: 'rotation_270', tensor: rotate270, strokes: rotateStrokes270 },
+];
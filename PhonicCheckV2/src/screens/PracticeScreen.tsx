@@ -14,11 +14,11 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { colors, fonts, globalStyles } from '../theme';
-import { Word, PronunciationResult } from '../types';
+import { Word, PronunciationResult, ChildProfile } from '../types';
 import { wordDatabase } from '../data/wordDatabase';
 import { AudioRecorder } from '../services/audioRecorder';
 import { TTSService } from '../services/ttsService';
-import { StorageService } from '../services/storageService';
+import { StorageService, getProfileAge } from '../services/storageService';
 import { AudioProcessor } from '../utils/audioProcessor';
 import { MFCCExtractor } from '../utils/mfccExtractor';
 import { DTWComparator } from '../utils/dtwCompare';
@@ -75,6 +75,7 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation, route }) =>
   const [wordRecognizer] = useState(() => new WordRecognizer());
   const [feedbackGenerator] = useState(() => new FeedbackGenerator());
   const [referenceFeatures, setReferenceFeatures] = useState<any>(null);
+  const [activeProfile, setActiveProfile] = useState<ChildProfile | null>(null);
 
   useEffect(() => {
     initializeScreen();
@@ -86,6 +87,8 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation, route }) =>
   const initializeScreen = async () => {
     try {
       await ttsService.initialize();
+      // Reference pitch and formant scaling follow the child's age
+      setActiveProfile(await storageService.getActiveProfile());
       loadNewWord();
     } catch (error) {
       console.error('Initialization error:', error);
@@ -202,7 +205,8 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation, route }) =>
       const recResult = await wordRecognizer.recognize(
         childAudio,
         currentWord.text,
-        phonemes
+        phonemes,
+        getProfileAge(activeProfile)
       );
       
       const result = recResult.fullAnalysis;
@@ -211,6 +215,7 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation, route }) =>
 
       // 4. Save Session
       const session: any = {
+        profileId: activeProfile?.id,
         wordId: currentWord.id,
         word: currentWord.text,
         score: result.overallScore,
@@ -1,6 +1,6 @@
 // src/screens/SettingsScreen.tsx - App settings screen
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,12 +10,13 @@ import {
   TouchableOpacity,
   Switch,
   Alert,
+  TextInput,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, fonts, globalStyles } from '../theme';
-import { StorageService } from '../services/storageService';
+import { StorageService, getProfileAge } from '../services/storageService';
 import { TTSService } from '../services/ttsService';
-import { AppSettings } from '../types';
+import { AppSettings, ChildProfile } from '../types';
 
 type RootStackParamList = {
   Home: undefined;
@@ -45,18 +46,65 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
     difficultyLevel: 'beginner',
   });
 
-  const storageService = new StorageService();
-  const ttsService = new TTSService();
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [newChildName, setNewChildName] = useState('');
+  const [newChildBirthDate, setNewChildBirthDate] = useState('');
 
-  useEffect(() => {
-    loadSettings();
-  }, []);
+  const storageService = useMemo(() => new StorageService(), []);
+  const ttsService = new TTSService();
 
-  const loadSettings = async () => {
+  const loadSettings = useCallback(async () => {
     const savedSettings = await storageService.loadSettings();
     if (savedSettings) {
       setSettings(savedSettings);
     }
+  }, [storageService]);
+
+  const loadProfiles = useCallback(async () => {
+    setProfiles(await storageService.getProfiles());
+    const active = await storageService.getActiveProfile();
+    setActiveProfileId(active ? active.id : null);
+  }, [storageService]);
+
+  useEffect(() => {
+    loadSettings();
+    loadProfiles();
+  }, [loadSettings, loadProfiles]);
+
+  const handleSelectProfile = async (profileId: string) => {
+    await storageService.setActiveProfile(profileId);
+    setActiveProfileId(profileId);
+  };
+
+  const handleAddProfile = async () => {
+    const name = newChildName.trim();
+    if (!name || !/^\d{4}-\d{2}-\d{2}$/.test(newChildBirthDate)) {
+      Alert.alert('Missing Details', 'Enter a name and a birth date as YYYY-MM-DD.');
+      return;
+    }
+    await storageService.createProfile(name, newChildBirthDate);
+    setNewChildName('');
+    setNewChildBirthDate('');
+    await loadProfiles();
+  };
+
+  const handleArchiveProfile = (profile: ChildProfile) => {
+    Alert.alert(
+      'Archive Child',
+      `Hide ${profile.display_name}? Their practice history is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Archive',
+          style: 'destructive',
+          onPress: async () => {
+            await storageService.archiveProfile(profile.id);
+            await loadProfiles();
+          },
+        },
+      ]
+    );
   };
 
   const saveSettings = async (newSettings: AppSettings) => {
@@ -122,6 +170,52 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
           <View style={{ width: 60 }} />
         </View>
 
+        {/* Child Profile */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Child 👧</Text>
+
+          <View style={styles.settingCard}>
+            {profiles.map((profile) => (
+              <TouchableOpacity
+                key={profile.id}
+                style={[
+                  styles.profileRow,
+                  activeProfileId === profile.id && styles.optionButtonActive,
+                ]}
+                onPress={() => handleSelectProfile(profile.id)}
+                onLongPress={() => handleArchiveProfile(profile)}
+              >
+                <Text
+                  style={[
+                    styles.optionButtonText,
+                    activeProfileId === profile.id && styles.optionButtonTextActive,
+                  ]}
+                >
+                  {profile.display_name} ({getProfileAge(profile)} yrs)
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+            <TextInput
+              style={styles.textInput}
+              value={newChildName}
+              onChangeText={setNewChildName}
+              placeholder="Child's name"
+              placeholderTextColor={colors.textSecondary}
+            />
+            <TextInput
+              style={styles.textInput}
+              value={newChildBirthDate}
+              onChangeText={setNewChildBirthDate}
+              placeholder="Birth date (YYYY-MM-DD)"
+              placeholderTextColor={colors.textSecondary}
+            />
+            <TouchableOpacity style={styles.testButton} onPress={handleAddProfile}>
+              <Text style={styles.testButtonText}>Add Child</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* Voice Speed */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Voice Speed 🔊</Text>
@@ -436,6 +530,26 @@ const styles = StyleSheet.create({
     color: colors.cardBackground,
     fontFamily: fonts.primaryBold,
   },
+  profileRow: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: colors.border,
+    marginBottom: 12,
+  },
+  textInput: {
+    borderWidth: 2,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 12,
+    fontSize: fonts.sizes.medium,
+    fontFamily: fonts.primary,
+    color: colors.text,
+  },
   switchRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,7 +1,7 @@
 // src/services/storageService.ts - Local storage service
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AppSettings, PracticeSession } from '../types';
+import { AppSettings, ChildProfile, PracticeSession } from '../types';
 
 export interface Statistics {
     totalWords: number;
@@ -14,6 +14,29 @@ const KEYS = {
     SETTINGS: '@settings',
     HISTORY: '@practice_history',
     STATS: '@statistics',
+    PROFILES: '@child_profiles',
+    ACTIVE_PROFILE: '@active_profile_id',
+};
+
+/**
+ * Default age used by the analyzers when no child is selected
+ */
+export const DEFAULT_CHILD_AGE = 7;
+
+/**
+ * Whole years between a birth date and today
+ */
+export const getProfileAge = (profile: ChildProfile | null): number => {
+    if (!profile) return DEFAULT_CHILD_AGE;
+
+    const birth = new Date(profile.birth_date);
+    const now = new Date();
+    let age = now.getFullYear() - birth.getFullYear();
+    if (now.getMonth() < birth.getMonth() ||
+        (now.getMonth() === birth.getMonth() && now.getDate() < birth.getDate())) {
+        age -= 1;
+    }
+    return isNaN(age) ? DEFAULT_CHILD_AGE : Math.max(0, age);
 };
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -156,6 +179,94 @@ export class StorageService {
         }
     }
 
+    /**
+     * Get child profiles (archived ones are hidden unless requested)
+     */
+    public async getProfiles(includeArchived: boolean = false): Promise<ChildProfile[]> {
+        try {
+            const profilesJson = await AsyncStorage.getItem(KEYS.PROFILES);
+            const profiles: ChildProfile[] = profilesJson ? JSON.parse(profilesJson) : [];
+            return includeArchived ? profiles : profiles.filter(p => !p.archived_at);
+        } catch (error) {
+            console.error('Error getting profiles:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Create a child profile and make it active
+     */
+    public async createProfile(displayName: string, birthDate: string): Promise<ChildProfile> {
+        const profile: ChildProfile = {
+            id: `child_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            display_name: displayName,
+            birth_date: birthDate,
+            handedness: 'right',
+            prior_dyslexia_diagnosis: 'none',
+            comorbid_conditions: [],
+            intervention_history: [],
+            native_language: 'English',
+            language_of_instruction: 'English',
+            created_at: new Date().toISOString(),
+            archived_at: null,
+        };
+
+        try {
+            const profiles = await this.getProfiles(true);
+            await AsyncStorage.setItem(KEYS.PROFILES, JSON.stringify([...profiles, profile]));
+            await this.setActiveProfile(profile.id);
+            return profile;
+        } catch (error) {
+            console.error('Error creating profile:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Hide a child profile; their practice history is kept
+     */
+    public async archiveProfile(profileId: string): Promise<void> {
+        try {
+            const profiles = await this.getProfiles(true);
+            const archivedAt = new Date().toISOString();
+            const updated = profiles.map(p => (p.id === profileId ? { ...p, archived_at: archivedAt } : p));
+            await AsyncStorage.setItem(KEYS.PROFILES, JSON.stringify(updated));
+
+            const activeId = await AsyncStorage.getItem(KEYS.ACTIVE_PROFILE);
+            if (activeId === profileId) {
+                await AsyncStorage.removeItem(KEYS.ACTIVE_PROFILE);
+            }
+        } catch (error) {
+            console.error('Error archiving profile:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the child currently practising
+     */
+    public async getActiveProfile(): Promise<ChildProfile | null> {
+        try {
+            const activeId = await AsyncStorage.getItem(KEYS.ACTIVE_PROFILE);
+            if (!activeId) return null;
+
+            const profiles = await this.getProfiles();
+            return profiles.find(p => p.id === activeId) ?? null;
+        } catch (error) {
+            console.error('Error getting active profile:', error);
+            return null;
+        }
+    }
+
+    public async setActiveProfile(profileId: string): Promise<void> {
+        try {
+            await AsyncStorage.setItem(KEYS.ACTIVE_PROFILE, profileId);
+        } catch (error) {
+            console.error('Error setting active profile:', error);
+            throw error;
+        }
+    }
+
     /**
      * Clear all app data
      */
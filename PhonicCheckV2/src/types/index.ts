@@ -82,6 +82,7 @@ export interface UserProgress {
 }
 
 export interface PracticeSession {
+  profileId?: string;
   wordId: string;
   word: string;
   score: number;
@@ -89,6 +90,23 @@ export interface PracticeSession {
   syllableScores: SyllableScore[];
 }
 
+/**
+ * Child profile, stored in the same shape as the tracing apps' profiles
+ */
+export interface ChildProfile {
+  id: string;
+  display_name: string;
+  birth_date: string; // ISO date
+  handedness: 'left' | 'right' | 'ambidextrous';
+  prior_dyslexia_diagnosis: 'confirmed' | 'suspected' | 'none';
+  comorbid_conditions: string[];
+  intervention_history: string[];
+  native_language: string;
+  language_of_instruction: string;
+  created_at: string;
+  archived_at: string | null;
+}
+
 export interface Achievement {
   id: string;
   title: string;
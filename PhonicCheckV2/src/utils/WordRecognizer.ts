@@ -30,7 +30,8 @@ export class WordRecognizer {
     public async recognize(
         audio: AudioData,
         targetWord: string,
-        targetPhonemes: string[]
+        targetPhonemes: string[],
+        age: number = 7
     ): Promise<RecognitionResult> {
         console.log(`[Recognizer] Analyzing '${targetWord}' vs Shadows...`);
 
@@ -49,7 +50,7 @@ export class WordRecognizer {
         }
 
         // 1. Analyze TARGET (The standard path)
-        const targetAnalysis = await this.analyzer.analyze(audio, targetWord, targetPhonemes);
+        const targetAnalysis = await this.analyzer.analyze(audio, targetWord, targetPhonemes, age);
         let targetScore = targetAnalysis.overallScore - lengthPenalty;
         targetScore = Math.max(0, targetScore);
 
@@ -62,7 +63,7 @@ export class WordRecognizer {
         const distractorResults = [];
 
         for (const d of distractors) {
-            const res = await this.analyzer.analyze(audio, d.word, d.phonemes);
+            const res = await this.analyzer.analyze(audio, d.word, d.phonemes, age);
 
             // Apply similar length penalty (Shadows have similar length to target)
             let dScore = res.overallScore - lengthPenalty;